@@ -0,0 +1,272 @@
+#!/usr/bin/env node
+/**
+ * FMP SDK Response Schema Generator
+ *
+ * Builds runtime schemas from the response interfaces in src/types and the
+ * endpoint each resource method calls, and writes them to
+ * src/schemas/generated.ts. Run it after adding or changing a response type
+ * or a resource method.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-schemas.ts
+ */
+
+import ts from 'typescript';
+import { format, resolveConfig } from 'prettier';
+import { readdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+
+const root = resolve(import.meta.dirname, '..');
+const resourcesDir = join(root, 'src/resources');
+const outputFile = join(root, 'src/schemas/generated.ts');
+
+const resourceFiles = readdirSync(resourcesDir)
+  .filter((file) => file.endsWith('.ts'))
+  .sort()
+  .map((file) => join(resourcesDir, file));
+
+const program = ts.createProgram(resourceFiles, {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.NodeNext,
+  moduleResolution: ts.ModuleResolutionKind.NodeNext,
+  strict: true,
+});
+const checker = program.getTypeChecker();
+
+// ---------------------------------------------------------------------------
+// Type -> field notation
+// ---------------------------------------------------------------------------
+
+/**
+ * Map a TypeScript type to the JSON types it can hold
+ */
+function jsonTypes(type: ts.Type): string[] {
+  if (type.isUnion()) {
+    return type.types.flatMap(jsonTypes);
+  }
+  const flags = type.getFlags();
+  if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return ['unknown'];
+  if (flags & ts.TypeFlags.Null) return ['null'];
+  if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) return [];
+  if (flags & ts.TypeFlags.StringLike) return ['string'];
+  if (flags & ts.TypeFlags.NumberLike) return ['number'];
+  if (flags & ts.TypeFlags.BooleanLike) return ['boolean'];
+  if (checker.isArrayType(type) || checker.isTupleType(type)) return ['array'];
+  return ['object'];
+}
+
+/**
+ * Build the field notation for a property (e.g. "number | null", "string?")
+ */
+function fieldNotation(symbol: ts.Symbol, location: ts.Node): string {
+  const type = checker.getTypeOfSymbolAtLocation(symbol, location);
+  const types = Array.from(new Set(jsonTypes(type)));
+  const order = [
+    'string',
+    'number',
+    'boolean',
+    'object',
+    'array',
+    'unknown',
+    'null',
+  ];
+  types.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  const optional = (symbol.getFlags() & ts.SymbolFlags.Optional) !== 0;
+  const notation = types.includes('unknown') ? 'unknown' : types.join(' | ');
+  return optional ? `${notation}?` : notation;
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+interface GeneratedSchema {
+  name: string;
+  fields: [string, string][];
+}
+
+const schemas = new Map<string, GeneratedSchema>();
+
+/**
+ * Register the object schema for a type and return its identifier
+ */
+function objectSchema(type: ts.Type, location: ts.Node, name?: string): string {
+  const schemaName =
+    name ?? type.aliasSymbol?.getName() ?? type.getSymbol()?.getName();
+  const isNamed =
+    schemaName !== undefined &&
+    schemaName !== '__type' &&
+    schemaName !== '__object';
+  let id = isNamed ? schemaName : `${name ?? 'Inline'}`;
+
+  if (!isNamed) {
+    // Anonymous inline type: name it after its fields
+    const fields = type.getProperties().map((p) => p.getName());
+    id = `Inline_${fields.join('_')}`;
+  }
+
+  if (!schemas.has(id)) {
+    const fields = type
+      .getProperties()
+      .map((property): [string, string] => [
+        property.getName(),
+        fieldNotation(property, location),
+      ]);
+    schemas.set(id, {
+      name: isNamed ? id : `{ ${fields.map(([f]) => f).join(', ')} }`,
+      fields,
+    });
+  }
+  return id;
+}
+
+/**
+ * Build the response schema expression for a `client.get<T>` type argument
+ */
+function responseSchema(type: ts.Type, location: ts.Node): string | undefined {
+  if (checker.isArrayType(type)) {
+    const [itemType] = checker.getTypeArguments(type as ts.TypeReference);
+    if (!itemType) return undefined;
+    const types = jsonTypes(itemType);
+    // Primitive items and open records (Record<string, unknown>)
+    if (
+      types.length === 1 &&
+      (types[0] !== 'object' || itemType.getProperties().length === 0)
+    ) {
+      return `arrayOf('${types[0]}')`;
+    }
+    return `arrayOf(${objectSchema(itemType, location)})`;
+  }
+  if (jsonTypes(type).join() === 'object' && type.getProperties().length > 0) {
+    return `objectOf(${objectSchema(type, location)})`;
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint map from resource calls
+// ---------------------------------------------------------------------------
+
+const endpoints = new Map<string, Set<string>>();
+
+/**
+ * Normalize an endpoint argument; template segments become "*"
+ */
+function endpointName(node: ts.Expression): string | undefined {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isTemplateExpression(node)) {
+    return (
+      node.head.text +
+      node.templateSpans.map((span) => `*${span.literal.text}`).join('')
+    );
+  }
+  return undefined;
+}
+
+function visit(node: ts.Node): void {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.name.text === 'get' &&
+    ts.isPropertyAccessExpression(node.expression.expression) &&
+    node.expression.expression.name.text === 'client' &&
+    node.typeArguments?.length === 1 &&
+    node.arguments.length > 0
+  ) {
+    const endpoint = endpointName(node.arguments[0]!);
+    const type = checker.getTypeFromTypeNode(node.typeArguments[0]!);
+    const schema = responseSchema(type, node);
+    if (endpoint && schema) {
+      if (!endpoints.has(endpoint)) endpoints.set(endpoint, new Set());
+      endpoints.get(endpoint)!.add(schema);
+    }
+  }
+  ts.forEachChild(node, visit);
+}
+
+for (const file of resourceFiles) {
+  const source = program.getSourceFile(file);
+  if (source) visit(source);
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function quoteKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+const lines: string[] = [
+  '/**',
+  ' * Generated response schemas - do not edit by hand',
+  ' * Run `pnpm generate-schemas` after changing response types or resources',
+  ' */',
+  '',
+  "import type { JSONType, ObjectSchema, ResponseSchema } from './types.js';",
+  '',
+  'function arrayOf(items: ObjectSchema | JSONType): ResponseSchema {',
+  "  return { type: 'array', items };",
+  '}',
+  '',
+  'function objectOf(schema: ObjectSchema): ResponseSchema {',
+  "  return { type: 'object', schema };",
+  '}',
+  '',
+];
+
+const sortedSchemas = Array.from(schemas.entries()).sort(([a], [b]) =>
+  a.localeCompare(b)
+);
+for (const [id, schema] of sortedSchemas) {
+  lines.push(`const ${id}: ObjectSchema = {`);
+  lines.push(`  name: ${quote(schema.name)},`);
+  lines.push('  fields: {');
+  for (const [field, notation] of schema.fields) {
+    lines.push(`    ${quoteKey(field)}: '${notation}',`);
+  }
+  lines.push('  },');
+  lines.push('};');
+  lines.push('');
+}
+
+lines.push('/**');
+lines.push(' * Schemas for every SDK response type, keyed by interface name');
+lines.push(' */');
+lines.push('export const RESPONSE_SCHEMAS: Record<string, ObjectSchema> = {');
+for (const [id] of sortedSchemas.filter(([id]) => !id.startsWith('Inline_'))) {
+  lines.push(`  ${id},`);
+}
+lines.push('};');
+lines.push('');
+lines.push('/**');
+lines.push(' * Response schemas by endpoint');
+lines.push(' * Endpoints shared by several SDK types list every candidate');
+lines.push(' */');
+lines.push(
+  'export const ENDPOINT_SCHEMAS: Record<string, ResponseSchema[]> = {'
+);
+for (const [endpoint, schemaSet] of Array.from(endpoints.entries()).sort(
+  ([a], [b]) => a.localeCompare(b)
+)) {
+  lines.push(
+    `  ${quote(endpoint)}: [${Array.from(schemaSet).sort().join(', ')}],`
+  );
+}
+lines.push('};');
+lines.push('');
+
+const prettierConfig = await resolveConfig(outputFile);
+writeFileSync(
+  outputFile,
+  await format(lines.join('\n'), { ...prettierConfig, filepath: outputFile })
+);
+console.log(
+  `Generated ${schemas.size} schemas for ${endpoints.size} endpoints -> ${outputFile}`
+);
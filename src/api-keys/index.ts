@@ -0,0 +1,10 @@
+/**
+ * API key rotation module exports
+ */
+
+export { ApiKeyPool } from './pool.js';
+export type {
+  ApiKeyStats,
+  KeyRotationConfig,
+  KeySelectionStrategy,
+} from './types.js';
@@ -0,0 +1,192 @@
+/**
+ * API key pool with rotation and failover
+ */
+
+import { FMPRateLimitError, FMPSubscriptionError } from '../errors/index.js';
+import type {
+  ApiKeyStats,
+  KeyRotationConfig,
+  KeySelectionStrategy,
+} from './types.js';
+
+/**
+ * Usage and health of one key
+ */
+interface KeyState {
+  key: string;
+  requests: number;
+  rateLimited: number;
+  denied: number;
+  deniedEndpoints: Set<string>;
+  /** Time until which the key is skipped (ms since epoch) */
+  coolingUntil: number;
+}
+
+/**
+ * Spreads requests over several API keys
+ *
+ * Features:
+ * - Round-robin or least-used selection
+ * - Endpoints restricted to the keys whose plan includes them (`endpointKeys`)
+ * - Keys are skipped after a 429 (until `Retry-After` or `cooldownMs`) and
+ *   for endpoints they got a 402/403 for, so the call moves to another key
+ * - Per-key usage statistics
+ *
+ * @example
+ * ```typescript
+ * const pool = new ApiKeyPool(['key-a', 'key-b']);
+ * const key = pool.select('profile'); // 'key-a', then 'key-b', ...
+ * console.log(pool.stats());
+ * ```
+ */
+export class ApiKeyPool {
+  private readonly states: KeyState[];
+  private readonly strategy: KeySelectionStrategy;
+  private readonly endpointKeys: Record<string, string[]>;
+  private readonly cooldownMs: number;
+  private cursor = 0;
+
+  /**
+   * Create a key pool
+   * @param keys - API keys (duplicates and empty keys are ignored)
+   * @param config - Rotation options
+   */
+  constructor(keys: readonly string[], config: KeyRotationConfig = {}) {
+    const unique = Array.from(new Set(keys.filter((key) => key.trim())));
+    this.states = unique.map((key) => ({
+      key,
+      requests: 0,
+      rateLimited: 0,
+      denied: 0,
+      deniedEndpoints: new Set(),
+      coolingUntil: 0,
+    }));
+    this.strategy = config.strategy ?? 'round-robin';
+    this.endpointKeys = config.endpointKeys ?? {};
+    this.cooldownMs = config.cooldownMs ?? 60000;
+  }
+
+  /**
+   * Keys in the pool
+   */
+  keys(): string[] {
+    return this.states.map((state) => state.key);
+  }
+
+  /**
+   * Choose the key for a request and count it as used
+   * Falls back to keys that are cooling down or were denied when no other
+   * key is usable, unless keys were excluded (a failover is in progress)
+   *
+   * @param endpoint - API endpoint
+   * @param exclude - Keys already tried for this call
+   * @returns The key, or undefined if no other key is usable
+   */
+  select(
+    endpoint: string,
+    exclude: ReadonlySet<string> = new Set()
+  ): string | undefined {
+    const candidates = this.candidates(endpoint).filter(
+      (state) => !exclude.has(state.key)
+    );
+    const now = Date.now();
+    let usable = candidates.filter(
+      (state) =>
+        state.coolingUntil <= now && !state.deniedEndpoints.has(endpoint)
+    );
+    if (usable.length === 0) {
+      if (exclude.size > 0) {
+        return undefined;
+      }
+      usable = candidates;
+    }
+
+    const state = this.choose(usable);
+    if (!state) {
+      return undefined;
+    }
+    state.requests++;
+    return state.key;
+  }
+
+  /**
+   * Record a failed request
+   * @param key - Key the request was sent with
+   * @param endpoint - API endpoint
+   * @param error - Error thrown for the request
+   * @returns true if the call should be retried with another key
+   */
+  report(key: string, endpoint: string, error: unknown): boolean {
+    const state = this.states.find((candidate) => candidate.key === key);
+    if (!state) {
+      return false;
+    }
+    if (error instanceof FMPRateLimitError) {
+      state.rateLimited++;
+      state.coolingUntil = Date.now() + (error.retryAfterMs ?? this.cooldownMs);
+      return true;
+    }
+    if (error instanceof FMPSubscriptionError) {
+      state.denied++;
+      state.deniedEndpoints.add(endpoint);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get usage statistics for every key, in pool order
+   */
+  stats(): ApiKeyStats[] {
+    const now = Date.now();
+    return this.states.map((state) => ({
+      key: `****${state.key.slice(-4)}`,
+      requests: state.requests,
+      rateLimited: state.rateLimited,
+      denied: state.denied,
+      deniedEndpoints: Array.from(state.deniedEndpoints),
+      coolingDownMs: Math.max(0, state.coolingUntil - now),
+    }));
+  }
+
+  /**
+   * Keys allowed to call an endpoint
+   */
+  private candidates(endpoint: string): KeyState[] {
+    const allowed =
+      this.endpointKeys[endpoint] ??
+      this.endpointKeys[endpoint.split('/')[0] ?? endpoint];
+    if (!allowed) {
+      return this.states;
+    }
+    const routed = this.states.filter((state) => allowed.includes(state.key));
+    // A route naming no configured key would block the endpoint entirely
+    return routed.length > 0 ? routed : this.states;
+  }
+
+  /**
+   * Apply the selection strategy
+   */
+  private choose(usable: KeyState[]): KeyState | undefined {
+    if (this.strategy === 'least-used') {
+      return usable.reduce<KeyState | undefined>(
+        (least, state) =>
+          least === undefined || state.requests < least.requests
+            ? state
+            : least,
+        undefined
+      );
+    }
+
+    // Round-robin: the first usable key at or after the cursor
+    for (let i = 0; i < this.states.length; i++) {
+      const index = (this.cursor + i) % this.states.length;
+      const state = this.states[index]!;
+      if (usable.includes(state)) {
+        this.cursor = index + 1;
+        return state;
+      }
+    }
+    return undefined;
+  }
+}
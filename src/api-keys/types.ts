@@ -0,0 +1,63 @@
+/**
+ * API key rotation types
+ */
+
+/**
+ * How the key for a request is chosen among the usable keys
+ * - `round-robin`: take turns
+ * - `least-used`: the key that has sent the fewest requests
+ */
+export type KeySelectionStrategy = 'round-robin' | 'least-used';
+
+/**
+ * API key rotation options (used with `apiKeys`)
+ *
+ * @example Route a premium endpoint to the key whose plan includes it
+ * ```typescript
+ * const fmp = new FMP({
+ *   apiKeys: [starterKey, ultimateKey],
+ *   keyRotation: {
+ *     strategy: 'least-used',
+ *     endpointKeys: { 'earning-call-transcript': [ultimateKey] },
+ *   },
+ * });
+ * ```
+ */
+export interface KeyRotationConfig {
+  /**
+   * Key selection strategy
+   * @default 'round-robin'
+   */
+  strategy?: KeySelectionStrategy;
+
+  /**
+   * Keys allowed to call an endpoint, for endpoints only some plans include
+   * Matched by endpoint (e.g. "historical-chart/1min") or its first path
+   * segment (e.g. "historical-chart"); other endpoints use every key
+   */
+  endpointKeys?: Record<string, string[]>;
+
+  /**
+   * How long a key is skipped after a 429 response without `Retry-After` (ms)
+   * @default 60000
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * Usage statistics for one API key
+ */
+export interface ApiKeyStats {
+  /** Masked key (last 4 characters) */
+  key: string;
+  /** Requests sent with the key */
+  requests: number;
+  /** Rate limit (429) responses */
+  rateLimited: number;
+  /** Subscription (402/403) responses */
+  denied: number;
+  /** Endpoints the key was denied access to; they are routed to other keys */
+  deniedEndpoints: string[];
+  /** Time left before the key is used again after a 429 (ms) */
+  coolingDownMs: number;
+}
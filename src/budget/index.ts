@@ -0,0 +1,11 @@
+/**
+ * Daily request budget module exports
+ */
+
+export { RequestBudget } from './request-budget.js';
+export type {
+  BudgetConfig,
+  BudgetExhaustedMode,
+  BudgetWarning,
+  DailyUsage,
+} from './types.js';
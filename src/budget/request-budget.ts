@@ -0,0 +1,181 @@
+/**
+ * Daily request budget shared through a cache provider
+ */
+
+import { MemoryCache } from '../cache/memory.js';
+import type { CacheProvider } from '../cache/types.js';
+import { FMPBudgetExceededError } from '../errors/index.js';
+import type {
+  BudgetConfig,
+  BudgetExhaustedMode,
+  BudgetWarning,
+  DailyUsage,
+} from './types.js';
+
+/**
+ * Count stored per day
+ */
+interface StoredUsage {
+  total: number;
+  endpoints: Record<string, number>;
+}
+
+/**
+ * How long a day's count is kept (two days, so it outlives the UTC day)
+ */
+const USAGE_TTL = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the UTC day (YYYY-MM-DD) of a timestamp
+ */
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Default warning output
+ */
+function warn(warning: BudgetWarning): void {
+  console.warn(
+    `[fmp-node-sdk] Daily request budget at ${Math.round(warning.threshold * 100)}% (${warning.used}/${warning.limit}) for ${warning.day}`
+  );
+}
+
+/**
+ * Counts requests per UTC day and refuses them once the limit is reached
+ *
+ * Features:
+ * - Count stored in a `CacheProvider`, so processes sharing it share the budget
+ * - Per-endpoint counts
+ * - Warnings when the count crosses configured fractions of the limit
+ *
+ * @example
+ * ```typescript
+ * const budget = new RequestBudget({ dailyLimit: 250 });
+ * await budget.consume('profile'); // throws FMPBudgetExceededError when spent
+ * console.log(await budget.usage());
+ * ```
+ */
+export class RequestBudget {
+  /** Behavior once the budget is spent */
+  readonly mode: BudgetExhaustedMode;
+  private readonly limit: number;
+  private readonly warnAt: number[];
+  private readonly onWarning: (warning: BudgetWarning) => void;
+  private readonly provider: CacheProvider;
+  private readonly prefix: string;
+  private readonly warned = new Set<string>();
+  private exhausted?: { day: string; used: number };
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a daily request budget
+   * @param config - Budget configuration
+   */
+  constructor(config: BudgetConfig) {
+    if (!(config.dailyLimit > 0)) {
+      throw new RangeError('dailyLimit must be greater than 0');
+    }
+    this.limit = config.dailyLimit;
+    this.warnAt = [...(config.warnAt ?? [0.8, 0.95])].sort((a, b) => a - b);
+    this.onWarning = config.onWarning ?? warn;
+    this.mode = config.whenExhausted ?? 'throw';
+    this.provider = config.provider ?? new MemoryCache({ maxSize: 10 });
+    this.prefix = config.key ?? 'fmp:budget';
+  }
+
+  /**
+   * Throw if this process has seen today's budget run out
+   * Cheap check that does not read the shared count
+   * @param endpoint - API endpoint about to be called
+   * @throws {FMPBudgetExceededError} If the budget is known to be spent
+   */
+  check(endpoint: string): void {
+    const day = utcDay(Date.now());
+    if (this.exhausted?.day === day) {
+      throw new FMPBudgetExceededError(
+        endpoint,
+        day,
+        this.exhausted.used,
+        this.limit
+      );
+    }
+  }
+
+  /**
+   * Count a request against today's budget
+   * @param endpoint - API endpoint about to be called
+   * @throws {FMPBudgetExceededError} If the budget is spent
+   */
+  consume(endpoint: string): Promise<void> {
+    // Updates from this process are applied one at a time
+    const result = this.pending.then(() => this.increment(endpoint));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Get today's request count, in total and per endpoint
+   */
+  async usage(): Promise<DailyUsage> {
+    const day = utcDay(Date.now());
+    const stored = await this.read(day);
+    return {
+      day,
+      total: stored.total,
+      limit: this.limit,
+      remaining: Math.max(0, this.limit - stored.total),
+      endpoints: { ...stored.endpoints },
+    };
+  }
+
+  /**
+   * Check the budget and increment today's count
+   */
+  private async increment(endpoint: string): Promise<void> {
+    const day = utcDay(Date.now());
+    const stored = await this.read(day);
+    if (stored.total >= this.limit) {
+      this.exhausted = { day, used: stored.total };
+      throw new FMPBudgetExceededError(endpoint, day, stored.total, this.limit);
+    }
+
+    const updated: StoredUsage = {
+      total: stored.total + 1,
+      endpoints: {
+        ...stored.endpoints,
+        [endpoint]: (stored.endpoints[endpoint] ?? 0) + 1,
+      },
+    };
+    await this.provider.set(this.storageKey(day), updated, USAGE_TTL);
+    this.checkThresholds(day, updated.total);
+  }
+
+  /**
+   * Read the stored count for a day
+   */
+  private async read(day: string): Promise<StoredUsage> {
+    const stored = await this.provider.get<StoredUsage>(this.storageKey(day));
+    return stored ?? { total: 0, endpoints: {} };
+  }
+
+  /**
+   * Warn once per day for each threshold the count has reached
+   */
+  private checkThresholds(day: string, used: number): void {
+    for (const threshold of this.warnAt) {
+      const id = `${day}:${threshold}`;
+      if (used >= threshold * this.limit && !this.warned.has(id)) {
+        this.warned.add(id);
+        this.onWarning({ day, threshold, used, limit: this.limit });
+      }
+    }
+  }
+
+  /**
+   * Storage key of a day's count
+   */
+  private storageKey(day: string): string {
+    return `${this.prefix}:${day}`;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Daily request budget types
+ */
+
+import type { CacheProvider } from '../cache/types.js';
+
+/**
+ * What happens once the daily budget is spent
+ * - `throw`: every call fails with `FMPBudgetExceededError`
+ * - `cache-only`: calls are served from the cache (including expired entries
+ *   within `circuitBreaker.staleTTL` or `cache.staleIfError`); calls that
+ *   need a request fail with `FMPBudgetExceededError`
+ */
+export type BudgetExhaustedMode = 'throw' | 'cache-only';
+
+/**
+ * Requests sent today, per UTC day
+ */
+export interface DailyUsage {
+  /** UTC day (YYYY-MM-DD) */
+  day: string;
+  /** Requests sent today, including retries; cache hits and replayed fixtures are not counted */
+  total: number;
+  /** Daily request limit */
+  limit: number;
+  /** Requests left today */
+  remaining: number;
+  /** Requests sent today per endpoint */
+  endpoints: Record<string, number>;
+}
+
+/**
+ * Budget threshold crossing, passed to `onWarning`
+ */
+export interface BudgetWarning {
+  /** UTC day (YYYY-MM-DD) */
+  day: string;
+  /** Threshold that was crossed (fraction of the limit, e.g. 0.8) */
+  threshold: number;
+  /** Requests sent today */
+  used: number;
+  /** Daily request limit */
+  limit: number;
+}
+
+/**
+ * Daily request budget configuration
+ *
+ * @example
+ * ```typescript
+ * const fmp = new FMP({
+ *   apiKey: 'your-api-key',
+ *   budget: {
+ *     dailyLimit: 250,
+ *     provider: new RedisCacheProvider({ client: redis, keyPrefix: 'fmp-budget:' }),
+ *     warnAt: [0.5, 0.9],
+ *     whenExhausted: 'cache-only',
+ *     onWarning: ({ used, limit }) => logger.warn(`FMP budget ${used}/${limit}`),
+ *   },
+ * });
+ * ```
+ */
+export interface BudgetConfig {
+  /**
+   * Maximum number of requests per UTC day
+   */
+  dailyLimit: number;
+
+  /**
+   * Fractions of the limit at which a warning is emitted (once per day
+   * and process)
+   * @default [0.8, 0.95]
+   */
+  warnAt?: number[];
+
+  /**
+   * Called when a threshold is crossed
+   * @default console.warn
+   */
+  onWarning?: (warning: BudgetWarning) => void;
+
+  /**
+   * Behavior once the budget is spent
+   * @default 'throw'
+   */
+  whenExhausted?: BudgetExhaustedMode;
+
+  /**
+   * Where the daily count is stored; use a shared provider (e.g. Redis)
+   * so several processes draw from one budget. Concurrent updates from
+   * different processes are not atomic, so the shared count is approximate.
+   * Don't reuse the response cache's provider: clearing or evicting cached
+   * responses would reset the count
+   * @default a dedicated in-memory store
+   */
+  provider?: CacheProvider;
+
+  /**
+   * Prefix of the storage key, e.g. to keep separate budgets per API key
+   * @default 'fmp:budget'
+   */
+  key?: string;
+}
@@ -0,0 +1,343 @@
+/**
+ * Filesystem cache provider - one file per key, persistent across restarts
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  CacheEntry,
+  CacheProvider,
+  CacheReadOptions,
+} from './types.js';
+
+/**
+ * File cache provider configuration
+ */
+export interface FileCacheProviderOptions {
+  /**
+   * Directory holding the cache files (created if missing)
+   * Several processes may share it
+   */
+  dir: string;
+
+  /**
+   * Maximum number of entries, enforced when pruning
+   * @default unlimited
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total size of the cache files in bytes, enforced when pruning
+   * @default unlimited
+   */
+  maxBytes?: number;
+
+  /**
+   * Prune automatically after this many writes (0 disables)
+   * @default 100
+   */
+  pruneInterval?: number;
+}
+
+/**
+ * Contents of a cache file
+ */
+interface StoredEntry<T = unknown> extends CacheEntry<T> {
+  /** Cache key, checked on read */
+  key: string;
+}
+
+/** Cache file names: SHA-256 of the key */
+const FILE_PATTERN = /^[0-9a-f]{64}\.json$/;
+
+/**
+ * Delete a file, ignoring files that are already gone
+ */
+async function remove(path: string): Promise<boolean> {
+  try {
+    await unlink(path);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Persistent cache provider storing one JSON file per key
+ *
+ * Features:
+ * - Survives restarts (useful for notebooks and scripts)
+ * - Atomic writes: files are written to a temporary name, then renamed, so
+ *   readers in other processes never see a partial entry
+ * - Each file's modification time is its expiry, so pruning only needs `stat`
+ * - `maxEntries` and `maxBytes` limits, evicting the entries closest to
+ *   expiry first
+ *
+ * @example
+ * ```typescript
+ * import { FMP, FileCacheProvider } from 'fmp-node-sdk';
+ *
+ * const fmp = new FMP({
+ *   apiKey: 'your-api-key',
+ *   cache: {
+ *     enabled: true,
+ *     provider: new FileCacheProvider({ dir: '.fmp-cache', maxBytes: 500e6 }),
+ *   },
+ * });
+ * ```
+ */
+export class FileCacheProvider implements CacheProvider {
+  private readonly dir: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly pruneInterval: number;
+  private ready?: Promise<unknown>;
+  private writes = 0;
+
+  /**
+   * Create a file cache provider
+   * @param options - File cache options
+   * @throws {RangeError} When a limit is not positive
+   */
+  constructor(options: FileCacheProviderOptions) {
+    if (options.maxEntries !== undefined && options.maxEntries < 1) {
+      throw new RangeError('maxEntries must be greater than 0');
+    }
+    if (options.maxBytes !== undefined && options.maxBytes < 1) {
+      throw new RangeError('maxBytes must be greater than 0');
+    }
+    this.dir = options.dir;
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.pruneInterval = options.pruneInterval ?? 100;
+  }
+
+  /**
+   * Get the file of a key
+   */
+  private path(key: string): string {
+    return join(
+      this.dir,
+      `${createHash('sha256').update(key).digest('hex')}.json`
+    );
+  }
+
+  /**
+   * Read a cache file, deleting it when expired (unless `includeExpired`)
+   * or unreadable
+   */
+  private async read<T>(
+    path: string,
+    key?: string,
+    includeExpired = false
+  ): Promise<StoredEntry<T> | undefined> {
+    let data: string;
+    try {
+      data = await readFile(path, 'utf8');
+    } catch {
+      return undefined;
+    }
+
+    let entry: StoredEntry<T>;
+    try {
+      entry = JSON.parse(data) as StoredEntry<T>;
+    } catch {
+      await remove(path).catch(() => undefined);
+      return undefined;
+    }
+
+    if (key !== undefined && entry.key !== key) {
+      return undefined;
+    }
+    if (!includeExpired && Date.now() > entry.createdAt + entry.ttl) {
+      await remove(path).catch(() => undefined);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Get a value from the cache
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    return (await this.getEntry<T>(key))?.value;
+  }
+
+  /**
+   * Get a cached entry with its creation time and TTL
+   */
+  async getEntry<T>(
+    key: string,
+    options?: CacheReadOptions
+  ): Promise<CacheEntry<T> | undefined> {
+    const entry = await this.read<T>(
+      this.path(key),
+      key,
+      options?.includeExpired
+    );
+    return (
+      entry && {
+        value: entry.value,
+        createdAt: entry.createdAt,
+        ttl: entry.ttl,
+        tags: entry.tags,
+      }
+    );
+  }
+
+  /**
+   * Set a value in the cache
+   * Written to a temporary file first, then renamed over the entry
+   */
+  async set<T>(
+    key: string,
+    value: T,
+    ttl: number,
+    tags?: string[]
+  ): Promise<void> {
+    const path = this.path(key);
+    const temp = `${path}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      this.ready ??= mkdir(this.dir, { recursive: true });
+      await this.ready;
+
+      const createdAt = Date.now();
+      const entry: StoredEntry<T> = { key, value, createdAt, ttl };
+      if (tags && tags.length > 0) {
+        entry.tags = tags;
+      }
+
+      await writeFile(temp, JSON.stringify(entry));
+      // The modification time records the expiry for prune()
+      const expiresAt = new Date(createdAt + ttl);
+      await utimes(temp, expiresAt, expiresAt);
+      await rename(temp, path);
+    } catch {
+      // Cache write errors shouldn't break the application
+      this.ready = undefined;
+      await remove(temp).catch(() => undefined);
+      return;
+    }
+
+    if (this.pruneInterval > 0 && ++this.writes % this.pruneInterval === 0) {
+      await this.prune().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Delete a value from the cache
+   */
+  async delete(key: string): Promise<boolean> {
+    return remove(this.path(key));
+  }
+
+  /**
+   * Delete every cache file in the directory
+   */
+  async clear(): Promise<void> {
+    for (const name of await this.files()) {
+      await remove(join(this.dir, name));
+    }
+  }
+
+  /**
+   * Check if a key exists and is not expired
+   */
+  async has(key: string): Promise<boolean> {
+    return (await this.getEntry(key)) !== undefined;
+  }
+
+  /**
+   * Delete every entry carrying all of the given tags
+   * Reads every cache file, so it is slower than the other operations
+   * @returns Number of entries deleted
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
+    }
+    let deleted = 0;
+    for (const name of await this.files()) {
+      const path = join(this.dir, name);
+      const entry = await this.read(path);
+      if (
+        entry &&
+        tags.every((tag) => entry.tags?.includes(tag)) &&
+        (await remove(path))
+      ) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Remove expired entries, then evict entries until `maxEntries` and
+   * `maxBytes` are met (closest to expiry first)
+   * Runs automatically every `pruneInterval` writes
+   * @returns Number of entries removed
+   */
+  async prune(): Promise<number> {
+    const now = Date.now();
+    const live: Array<{ path: string; size: number; expiresAt: number }> = [];
+    let pruned = 0;
+
+    for (const name of await this.files()) {
+      const path = join(this.dir, name);
+      let stats;
+      try {
+        stats = await stat(path);
+      } catch {
+        continue;
+      }
+      if (stats.mtimeMs < now) {
+        if (await remove(path)) {
+          pruned++;
+        }
+      } else {
+        live.push({ path, size: stats.size, expiresAt: stats.mtimeMs });
+      }
+    }
+
+    live.sort((a, b) => a.expiresAt - b.expiresAt);
+    let bytes = live.reduce((total, file) => total + file.size, 0);
+    let count = live.length;
+    for (const file of live) {
+      if (count <= this.maxEntries && bytes <= this.maxBytes) {
+        break;
+      }
+      if (await remove(file.path)) {
+        pruned++;
+      }
+      count--;
+      bytes -= file.size;
+    }
+    return pruned;
+  }
+
+  /**
+   * Get the names of the cache files in the directory
+   */
+  private async files(): Promise<string[]> {
+    try {
+      return (await readdir(this.dir)).filter((name) =>
+        FILE_PATTERN.test(name)
+      );
+    } catch {
+      return [];
+    }
+  }
+}
@@ -3,12 +3,47 @@
  */
 
 export { MemoryCache } from './memory.js';
+export type { MemoryCacheOptions, MemoryCacheStats } from './memory.js';
 export { RedisCacheProvider } from './redis.js';
-export type { RedisClientLike, RedisCacheProviderOptions } from './redis.js';
+export type {
+  RedisClientLike,
+  RedisCacheProviderOptions,
+  RedisCacheItem,
+  RedisPipelineLike,
+  RedisScanReply,
+  RedisClientStyle,
+} from './redis.js';
+export { FileCacheProvider } from './file.js';
+export type { FileCacheProviderOptions } from './file.js';
+export { SQLiteCacheProvider } from './sqlite.js';
+export type {
+  SQLiteDatabaseLike,
+  SQLiteStatementLike,
+  SQLiteCacheProviderOptions,
+} from './sqlite.js';
+export { EndpointPatterns } from './patterns.js';
+export {
+  CACHE_SCHEMA_VERSION,
+  cacheNamespace,
+  canonicalParams,
+  createCacheKey,
+  legacyCacheKey,
+} from './keys.js';
+export {
+  MarketHoursPolicy,
+  DEFAULT_MARKET_HOURS_ENDPOINTS,
+} from './market-hours.js';
+export type { MarketCalendarSource } from './market-hours.js';
+export type { PatternMatch } from './patterns.js';
 export { CacheTTL, DEFAULT_ENDPOINT_TTLS } from './types.js';
 export type {
   CacheProvider,
   CacheConfig,
   CacheEntry,
+  CacheReadOptions,
   EndpointTTLConfig,
+  StaleConfig,
+  TTLExplanation,
+  MarketHoursConfig,
+  CacheInvalidation,
 } from './types.js';
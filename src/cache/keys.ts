@@ -0,0 +1,101 @@
+/**
+ * Cache key generation
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * Version of the cached response format
+ * Bumped when response shapes change, so entries written by older
+ * versions of the SDK are never read back
+ */
+export const CACHE_SCHEMA_VERSION = 1;
+
+/** Params holding symbols, which FMP matches case-insensitively */
+const SYMBOL_PARAMS = new Set(['symbol', 'symbols']);
+
+/**
+ * Namespace of the cache keys of a client
+ * Made of the schema version and a hash of the base URL and API keys, so
+ * clients with different keys or servers never share entries
+ * @param apiKeys - API keys of the client
+ * @param baseUrl - Base URL of the client
+ * @param namespace - Replaces the hash (e.g. to share entries between keys)
+ */
+export function cacheNamespace(
+  apiKeys: readonly string[],
+  baseUrl: string,
+  namespace?: string
+): string {
+  const scope =
+    namespace ??
+    createHash('sha256')
+      .update([baseUrl, ...[...apiKeys].sort()].join('\n'))
+      .digest('hex')
+      .slice(0, 16);
+  return `v${CACHE_SCHEMA_VERSION}:${scope}`;
+}
+
+/**
+ * Canonical query string of request params: sorted by name, without
+ * undefined values, arrays joined with commas and symbols upper-cased
+ */
+export function canonicalParams(params?: Record<string, unknown>): string {
+  const query = new URLSearchParams();
+  for (const name of Object.keys(params ?? {}).sort()) {
+    const value = params![name];
+    if (value === undefined) {
+      continue;
+    }
+    const text = Array.isArray(value)
+      ? value.map((item) => String(item).trim()).join(',')
+      : value instanceof Date
+        ? value.toISOString()
+        : String(value);
+    query.append(
+      name,
+      SYMBOL_PARAMS.has(name)
+        ? text
+            .split(',')
+            .map((symbol) => symbol.trim().toUpperCase())
+            .join(',')
+        : text
+    );
+  }
+  return query.toString();
+}
+
+/**
+ * Cache key of a request
+ * @example
+ * ```typescript
+ * createCacheKey('v1:3f2a9c1d0b7e4a55', 'profile', { symbol: 'aapl' });
+ * // 'v1:3f2a9c1d0b7e4a55:profile?symbol=AAPL'
+ * ```
+ */
+export function createCacheKey(
+  namespace: string,
+  endpoint: string,
+  params?: Record<string, unknown>
+): string {
+  const query = canonicalParams(params);
+  return `${namespace}:${endpoint}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Cache key of a request as generated by earlier versions of the SDK
+ * (no namespace, params as given)
+ */
+export function legacyCacheKey(
+  endpoint: string,
+  params?: Record<string, unknown>
+): string {
+  if (!params || Object.keys(params).length === 0) {
+    return endpoint;
+  }
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${String(params[key])}`)
+    .join('&');
+  return `${endpoint}?${sortedParams}`;
+}
@@ -0,0 +1,326 @@
+/**
+ * Market-hours-aware cache TTLs
+ */
+
+import type { MarketHoliday, MarketHours } from '../types/market.js';
+import { EndpointPatterns } from './patterns.js';
+import type { MarketHoursConfig } from './types.js';
+
+/**
+ * Endpoints whose data only changes while the exchange is open
+ */
+export const DEFAULT_MARKET_HOURS_ENDPOINTS: readonly string[] = [
+  'quote',
+  'quote-short',
+  'batch-quote',
+  'batch-index-quotes',
+  'stock-price-change',
+  'stock-market-gainers',
+  'stock-market-losers',
+  'stock-market-actives',
+  'sector-performance',
+  'historical-chart',
+];
+
+/**
+ * Resource methods calling the endpoints above for markets that trade
+ * outside the exchange session (crypto, forex, commodities); never adjusted
+ */
+const OFF_EXCHANGE_METHODS = new Set([
+  'market.getForexPrice',
+  'market.getForexQuoteShort',
+  'market.getForexIntraday',
+  'market.getCryptoPrice',
+  'market.getCryptoQuoteShort',
+  'market.getCryptoIntraday',
+  'commodities.getQuote',
+  'commodities.getQuoteShort',
+  'commodities.getIntradayChart',
+]);
+
+/**
+ * Endpoints the calendar itself is loaded from; never adjusted, since
+ * loading them must not wait for the calendar
+ */
+const CALENDAR_ENDPOINTS = new Set([
+  'exchange-market-hours',
+  'holidays-by-exchange',
+]);
+
+/**
+ * Where the exchange hours and holidays come from
+ * (`fmp.market` in the client)
+ */
+export interface MarketCalendarSource {
+  getMarketHours(exchange: string): Promise<MarketHours[]>;
+  getMarketHolidays(exchange: string): Promise<MarketHoliday[]>;
+}
+
+/**
+ * Exchange session and holidays, in exchange time
+ */
+interface MarketCalendar {
+  /** Opening time (seconds after midnight) */
+  open: number;
+  /** Closing time (seconds after midnight) */
+  close: number;
+  /** Closed days (YYYY-MM-DD) */
+  holidays: Set<string>;
+  loadedAt: number;
+}
+
+/** How long to wait before loading the calendar again after a failure */
+const RETRY_AFTER_MS = 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a clock time such as "09:30:00" or "4:00 PM" into seconds
+ */
+function parseClock(value: string | undefined): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?/i.exec(
+    value?.trim() ?? ''
+  );
+  if (!match) {
+    return undefined;
+  }
+  let hours = Number(match[1]) % 24;
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem?.startsWith('p') && hours < 12) {
+    hours += 12;
+  } else if (meridiem?.startsWith('a') && hours === 12) {
+    hours = 0;
+  }
+  return hours * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * 86400000;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Check whether a YYYY-MM-DD date is a Saturday or Sunday
+ */
+function isWeekend(date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Caches market data until the next open while the exchange is closed
+ *
+ * Features:
+ * - Loads the exchange hours and holidays through `fmp.market`, lazily
+ *   and again every `refreshInterval`
+ * - Closed on weekends, holidays and outside the session
+ * - Leaves TTLs unchanged while open, or while the calendar is unknown
+ *
+ * @example
+ * ```typescript
+ * const policy = new MarketHoursPolicy(fmp.market, { exchange: 'NASDAQ' });
+ * await policy.ready();
+ * policy.ttl(CacheTTL.NONE); // time until the next open while closed
+ * ```
+ */
+export class MarketHoursPolicy {
+  private readonly source: MarketCalendarSource;
+  private readonly exchange: string;
+  private readonly timeZone: string;
+  private readonly refreshInterval: number;
+  private readonly endpoints: EndpointPatterns<true>;
+  private readonly formatter: Intl.DateTimeFormat;
+  private calendar?: MarketCalendar;
+  private loading?: Promise<void>;
+  private failedAt?: number;
+
+  /**
+   * Create a market hours policy
+   * @param source - Source of the exchange hours and holidays
+   * @param config - Market hours configuration
+   * @throws {RangeError} When the time zone is not supported
+   */
+  constructor(source: MarketCalendarSource, config: MarketHoursConfig = {}) {
+    this.source = source;
+    this.exchange = config.exchange ?? 'NYSE';
+    this.timeZone = config.timeZone ?? 'America/New_York';
+    this.refreshInterval = config.refreshInterval ?? 24 * 60 * 60 * 1000;
+    this.endpoints = new EndpointPatterns(
+      Object.fromEntries(
+        (config.endpoints ?? DEFAULT_MARKET_HOURS_ENDPOINTS).map((pattern) => [
+          pattern,
+          true as const,
+        ])
+      )
+    );
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  }
+
+  /**
+   * Check whether the policy applies to an endpoint
+   * The calendar endpoints and crypto, forex and commodity resource
+   * methods are always excluded
+   * @param method - Resource method making the call (e.g. "market.getCryptoPrice")
+   */
+  applies(
+    endpoint: string,
+    params?: Record<string, unknown>,
+    method?: string
+  ): boolean {
+    return (
+      !CALENDAR_ENDPOINTS.has(endpoint) &&
+      !(method !== undefined && OFF_EXCHANGE_METHODS.has(method)) &&
+      this.endpoints.match(endpoint, params) !== undefined
+    );
+  }
+
+  /**
+   * Load the hours and holidays if missing or due for a refresh
+   * Waits only for the first load; later refreshes run in the background.
+   * Never throws: on failure, TTLs stay unchanged and loading is retried
+   * a minute later
+   */
+  async ready(now = Date.now()): Promise<void> {
+    const due =
+      !this.calendar || now - this.calendar.loadedAt >= this.refreshInterval;
+    const waiting =
+      this.failedAt !== undefined && now - this.failedAt < RETRY_AFTER_MS;
+    if (due && !waiting && !this.loading) {
+      this.loading = this.load(now).finally(() => {
+        this.loading = undefined;
+      });
+    }
+    if (!this.calendar && this.loading) {
+      await this.loading;
+    }
+  }
+
+  /**
+   * Current market state (`unknown` until the calendar is loaded)
+   */
+  state(now = Date.now()): 'open' | 'closed' | 'unknown' {
+    const calendar = this.calendar;
+    if (!calendar) {
+      return 'unknown';
+    }
+    const { date, seconds } = this.local(now);
+    return this.isTradingDay(date) &&
+      seconds >= calendar.open &&
+      seconds < calendar.close
+      ? 'open'
+      : 'closed';
+  }
+
+  /**
+   * Time of the next open (ms since epoch), or undefined if unknown
+   */
+  nextOpen(now = Date.now()): number | undefined {
+    const calendar = this.calendar;
+    if (!calendar) {
+      return undefined;
+    }
+    const { date, seconds } = this.local(now);
+    let day = seconds < calendar.open ? date : addDays(date, 1);
+    // Long holiday stretches never exceed a couple of weeks
+    for (let i = 0; i < 14 && !this.isTradingDay(day); i++) {
+      day = addDays(day, 1);
+    }
+    return this.instant(day, calendar.open);
+  }
+
+  /**
+   * Adjust a TTL: while closed, entries live at least until the next open
+   */
+  ttl(base: number, now = Date.now()): number {
+    if (this.state(now) !== 'closed') {
+      return base;
+    }
+    const nextOpen = this.nextOpen(now);
+    return nextOpen === undefined ? base : Math.max(base, nextOpen - now);
+  }
+
+  /**
+   * Fetch the hours and holidays of the exchange
+   */
+  private async load(now: number): Promise<void> {
+    try {
+      const [hours, holidays] = await Promise.all([
+        this.source.getMarketHours(this.exchange),
+        this.source.getMarketHolidays(this.exchange),
+      ]);
+      const session = hours[0]?.stockMarketHours;
+      const open = parseClock(session?.openingHour);
+      const close = parseClock(session?.closingHour);
+      if (open === undefined || close === undefined) {
+        throw new Error(`No market hours for ${this.exchange}`);
+      }
+
+      const closed = new Set(hours[0]?.stockMarketHolidays ?? []);
+      for (const year of holidays) {
+        for (const value of Object.values(year)) {
+          if (typeof value === 'string' && DATE_PATTERN.test(value)) {
+            closed.add(value);
+          }
+        }
+      }
+
+      this.calendar = { open, close, holidays: closed, loadedAt: now };
+      this.failedAt = undefined;
+    } catch {
+      this.failedAt = now;
+    }
+  }
+
+  /**
+   * Check whether the exchange trades on a date
+   */
+  private isTradingDay(date: string): boolean {
+    return !isWeekend(date) && !this.calendar?.holidays.has(date);
+  }
+
+  /**
+   * Date and time of day in exchange time
+   */
+  private local(time: number): { date: string; seconds: number } {
+    const parts = Object.fromEntries(
+      this.formatter
+        .formatToParts(new Date(time))
+        .map(({ type, value }) => [type, value])
+    );
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      seconds:
+        Number(parts.hour) * 3600 +
+        Number(parts.minute) * 60 +
+        Number(parts.second),
+    };
+  }
+
+  /**
+   * Convert a date and time of day in exchange time to ms since epoch
+   */
+  private instant(date: string, seconds: number): number {
+    const wallTime = Date.parse(`${date}T00:00:00Z`) + seconds * 1000;
+    const offset = (time: number) => {
+      const local = this.local(time);
+      return (
+        Date.parse(`${local.date}T00:00:00Z`) + local.seconds * 1000 - time
+      );
+    };
+    // A second pass settles times close to a daylight saving change
+    const guess = wallTime - offset(wallTime);
+    return wallTime - offset(guess);
+  }
+}
@@ -2,91 +2,283 @@
  * In-memory cache provider with TTL and LRU eviction
  */
 
-import type { CacheEntry, CacheProvider } from './types.js';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import type {
+  CacheEntry,
+  CacheProvider,
+  CacheReadOptions,
+} from './types.js';
+
+/**
+ * In-memory cache configuration
+ */
+export interface MemoryCacheOptions {
+  /**
+   * Maximum number of entries
+   * @default 1000
+   */
+  maxSize?: number;
+
+  /**
+   * Maximum estimated size of all entries in bytes (serialized JSON, or
+   * the compressed size for compressed entries)
+   * @default unlimited
+   */
+  maxBytes?: number;
+
+  /**
+   * Entries whose serialized size exceeds this many bytes are not cached
+   * @default unlimited
+   */
+  maxEntryBytes?: number;
+
+  /**
+   * Store entries whose serialized size reaches this many bytes gzipped.
+   * Compressed entries are decompressed on every read, so each read
+   * returns a new copy
+   * @default no compression
+   */
+  compressionThreshold?: number;
+}
+
+/**
+ * In-memory cache statistics
+ */
+export interface MemoryCacheStats {
+  /** Number of entries */
+  size: number;
+  /** Maximum number of entries */
+  maxSize: number;
+  /** Estimated size of all entries in bytes */
+  bytes: number;
+  /** Maximum size in bytes (Infinity when unlimited) */
+  maxBytes: number;
+  /** Number of entries stored compressed */
+  compressed: number;
+  /** Reads that returned an entry */
+  hits: number;
+  /** Reads that found no entry, or an expired one */
+  misses: number;
+  /** Entries evicted to respect `maxSize` or `maxBytes` */
+  evictions: number;
+  /** Entries not cached because they exceeded `maxEntryBytes` or `maxBytes` */
+  rejected: number;
+}
+
+/**
+ * Entry as held in memory
+ */
+interface StoredEntry extends CacheEntry {
+  /** Estimated size in bytes */
+  bytes: number;
+  /** Gzipped JSON of the value (the value itself is then not kept) */
+  compressed?: Buffer;
+}
+
+/**
+ * Serialize a value, or return undefined when it cannot be serialized
+ */
+function serialize(value: unknown): string | undefined {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * Default in-memory cache implementation
  *
  * Features:
  * - TTL-based expiration
- * - LRU eviction when maxSize is reached
+ * - LRU eviction when maxSize or maxBytes is reached
+ * - Optional gzip compression of large entries
+ * - Tag-based invalidation
+ * - Hit, miss and eviction statistics
  * - Synchronous operations for performance
  *
  * @example
  * ```typescript
- * const cache = new MemoryCache({ maxSize: 500 });
+ * const cache = new MemoryCache({
+ *   maxSize: 500,
+ *   maxBytes: 200 * 1024 * 1024,
+ *   compressionThreshold: 64 * 1024,
+ * });
  * cache.set('key', { data: 'value' }, 60000);
  * const value = cache.get('key');
+ * console.log(cache.stats().bytes);
  * ```
  */
 export class MemoryCache implements CacheProvider {
-  private cache: Map<string, CacheEntry>;
+  private cache: Map<string, StoredEntry>;
   private readonly maxSize: number;
+  private readonly maxBytes: number;
+  private readonly maxEntryBytes: number;
+  private readonly compressionThreshold: number;
+  /** Keys of the entries carrying each tag */
+  private readonly tagIndex = new Map<string, Set<string>>();
+  private bytes = 0;
+  private compressed = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private rejected = 0;
 
   /**
    * Create a new in-memory cache
    * @param options - Cache options
-   * @param options.maxSize - Maximum number of entries (default: 1000)
+   * @throws {RangeError} When a byte limit is not positive
    */
-  constructor(options: { maxSize?: number } = {}) {
+  constructor(options: MemoryCacheOptions = {}) {
+    if (options.maxBytes !== undefined && options.maxBytes < 1) {
+      throw new RangeError('maxBytes must be greater than 0');
+    }
+    if (options.maxEntryBytes !== undefined && options.maxEntryBytes < 1) {
+      throw new RangeError('maxEntryBytes must be greater than 0');
+    }
     this.cache = new Map();
     this.maxSize = options.maxSize ?? 1000;
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.maxEntryBytes = options.maxEntryBytes ?? Infinity;
+    this.compressionThreshold = options.compressionThreshold ?? Infinity;
   }
 
   /**
    * Get a value from the cache
    */
   get<T>(key: string): T | undefined {
+    return this.getEntry<T>(key)?.value;
+  }
+
+  /**
+   * Get a cached entry with its creation time and TTL
+   */
+  getEntry<T>(
+    key: string,
+    options?: CacheReadOptions
+  ): CacheEntry<T> | undefined {
     const entry = this.cache.get(key);
 
     if (!entry) {
+      this.misses++;
       return undefined;
     }
 
     // Check if expired
-    if (this.isExpired(entry)) {
-      this.cache.delete(key);
+    if (!options?.includeExpired && this.isExpired(entry)) {
+      this.remove(key);
+      this.misses++;
       return undefined;
     }
 
     // Move to end for LRU (most recently used)
     this.cache.delete(key);
     this.cache.set(key, entry);
+    this.hits++;
 
-    return entry.value as T;
+    const result: CacheEntry<T> = {
+      value: (entry.compressed
+        ? JSON.parse(gunzipSync(entry.compressed).toString('utf8'))
+        : entry.value) as T,
+      createdAt: entry.createdAt,
+      ttl: entry.ttl,
+    };
+    if (entry.tags) {
+      result.tags = entry.tags;
+    }
+    return result;
   }
 
   /**
    * Set a value in the cache
+   * Values over `maxEntryBytes` (or over `maxBytes` once compressed) are
+   * not cached
    */
-  set<T>(key: string, value: T, ttl: number): void {
+  set<T>(key: string, value: T, ttl: number, tags?: string[]): void {
     // If key exists, delete first to update position
-    if (this.cache.has(key)) {
-      this.cache.delete(key);
-    }
+    this.remove(key);
 
-    // Evict oldest entries if at capacity
-    while (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey !== undefined) {
-        this.cache.delete(firstKey);
-      }
+    const json = serialize(value);
+    let bytes = json === undefined ? 0 : Buffer.byteLength(json);
+    if (bytes > this.maxEntryBytes) {
+      this.rejected++;
+      return;
     }
 
-    const entry: CacheEntry<T> = {
+    const entry: StoredEntry = {
       value,
       createdAt: Date.now(),
       ttl,
+      bytes,
     };
+    if (json !== undefined && bytes >= this.compressionThreshold) {
+      entry.compressed = gzipSync(json);
+      entry.value = undefined;
+      entry.bytes = bytes = entry.compressed.length;
+    }
+    if (bytes > this.maxBytes) {
+      this.rejected++;
+      return;
+    }
+
+    // Evict least recently used entries until the new one fits
+    while (
+      this.cache.size >= this.maxSize ||
+      this.bytes + bytes > this.maxBytes
+    ) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey === undefined) {
+        break;
+      }
+      this.remove(firstKey);
+      this.evictions++;
+    }
+
+    if (tags && tags.length > 0) {
+      entry.tags = [...new Set(tags)];
+      for (const tag of entry.tags) {
+        let keys = this.tagIndex.get(tag);
+        if (!keys) {
+          keys = new Set();
+          this.tagIndex.set(tag, keys);
+        }
+        keys.add(key);
+      }
+    }
 
     this.cache.set(key, entry);
+    this.bytes += bytes;
+    if (entry.compressed) {
+      this.compressed++;
+    }
   }
 
   /**
    * Delete a value from the cache
    */
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    return this.remove(key);
+  }
+
+  /**
+   * Delete every entry carrying all of the given tags
+   * @returns Number of entries deleted
+   */
+  invalidateTags(tags: string[]): number {
+    if (tags.length === 0) {
+      return 0;
+    }
+    const [first, ...rest] = tags
+      .map((tag) => this.tagIndex.get(tag) ?? new Set<string>())
+      .sort((a, b) => a.size - b.size);
+
+    let deleted = 0;
+    for (const key of [...first!]) {
+      if (rest.every((keys) => keys.has(key)) && this.remove(key)) {
+        deleted++;
+      }
+    }
+    return deleted;
   }
 
   /**
@@ -94,6 +286,9 @@ export class MemoryCache implements CacheProvider {
    */
   clear(): void {
     this.cache.clear();
+    this.tagIndex.clear();
+    this.bytes = 0;
+    this.compressed = 0;
   }
 
   /**
@@ -106,7 +301,7 @@ export class MemoryCache implements CacheProvider {
     }
 
     if (this.isExpired(entry)) {
-      this.cache.delete(key);
+      this.remove(key);
       return false;
     }
 
@@ -123,10 +318,17 @@ export class MemoryCache implements CacheProvider {
   /**
    * Get cache statistics
    */
-  stats(): { size: number; maxSize: number } {
+  stats(): MemoryCacheStats {
     return {
       size: this.cache.size,
       maxSize: this.maxSize,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      compressed: this.compressed,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      rejected: this.rejected,
     };
   }
 
@@ -138,13 +340,36 @@ export class MemoryCache implements CacheProvider {
     let pruned = 0;
     for (const [key, entry] of this.cache) {
       if (this.isExpired(entry)) {
-        this.cache.delete(key);
+        this.remove(key);
         pruned++;
       }
     }
     return pruned;
   }
 
+  /**
+   * Delete an entry and drop it from the tag index
+   */
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.cache.delete(key);
+    this.bytes -= entry.bytes;
+    if (entry.compressed) {
+      this.compressed--;
+    }
+    for (const tag of entry.tags ?? []) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+    return true;
+  }
+
   /**
    * Check if an entry has expired
    */
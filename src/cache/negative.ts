@@ -0,0 +1,53 @@
+/**
+ * Negative cache entries for empty and not-found responses
+ */
+
+import { FMPNotFoundError } from '../errors/index.js';
+
+/**
+ * Entry stored in place of an empty array or a not-found error
+ */
+export interface NegativeCacheEntry {
+  /** What the request returned */
+  fmpNegative: 'empty' | 'not-found';
+  /** Message of the not-found error */
+  message?: string;
+  /** Status text of the not-found error */
+  statusText?: string;
+}
+
+/**
+ * Check if a cached value is a negative entry
+ */
+export function isNegativeEntry(value: unknown): value is NegativeCacheEntry {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    ((value as NegativeCacheEntry).fmpNegative === 'empty' ||
+      (value as NegativeCacheEntry).fmpNegative === 'not-found')
+  );
+}
+
+/**
+ * Negative entry of a response body or request error, if it is one:
+ * an empty array or an FMPNotFoundError
+ */
+export function toNegativeEntry(
+  result: unknown
+): NegativeCacheEntry | undefined {
+  if (Array.isArray(result)) {
+    return result.length === 0 ? { fmpNegative: 'empty' } : undefined;
+  }
+  if (!(result instanceof FMPNotFoundError)) {
+    return undefined;
+  }
+  const entry: NegativeCacheEntry = {
+    fmpNegative: 'not-found',
+    message: result.message,
+  };
+  if (result.statusText !== undefined) {
+    entry.statusText = result.statusText;
+  }
+  return entry;
+}
@@ -0,0 +1,190 @@
+/**
+ * Endpoint pattern matching for per-endpoint cache settings
+ */
+
+/**
+ * Pattern that matched an endpoint, with its configured value
+ */
+export interface PatternMatch<T> {
+  /** Pattern as written in the configuration */
+  pattern: string;
+  /** Configured value */
+  value: T;
+}
+
+/**
+ * How a pattern matches, from most to least specific
+ * - `exact`: the endpoint itself (e.g. "profile")
+ * - `glob`: `*` matches within a path segment (e.g. "quote*", "historical-chart/*")
+ * - `prefix`: leading path segments (e.g. "historical-chart" for "historical-chart/5min")
+ * - `regex`: a regular expression written as "/source/flags"
+ */
+type PatternKind = 'exact' | 'glob' | 'prefix' | 'regex';
+
+const KIND_RANK: Record<PatternKind, number> = {
+  exact: 3,
+  glob: 2,
+  prefix: 1,
+  regex: 0,
+};
+
+interface CompiledPattern<T> {
+  pattern: string;
+  value: T;
+  /** Matches the endpoint against the path part of the pattern */
+  kind: (endpoint: string) => PatternKind | undefined;
+  /** Query params that must be present ("*" accepts any value) */
+  params: Array<[name: string, value: string]>;
+  /** Number of literal characters, used to break ties */
+  literal: number;
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile one pattern
+ */
+function compile<T>(pattern: string, value: T): CompiledPattern<T> {
+  const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regexMatch) {
+    let regex: RegExp;
+    try {
+      // Stateful flags would make repeated tests alternate
+      regex = new RegExp(regexMatch[1]!, regexMatch[2]!.replace(/[gy]/g, ''));
+    } catch {
+      throw new RangeError(`Invalid endpoint pattern: ${pattern}`);
+    }
+    return {
+      pattern,
+      value,
+      kind: (endpoint) => (regex.test(endpoint) ? 'regex' : undefined),
+      params: [],
+      literal: 0,
+    };
+  }
+
+  const queryStart = pattern.indexOf('?');
+  const path = queryStart === -1 ? pattern : pattern.slice(0, queryStart);
+  const params =
+    queryStart === -1
+      ? []
+      : [...new URLSearchParams(pattern.slice(queryStart + 1)).entries()];
+  const literal = path.replace(/\*/g, '').length;
+
+  if (path.includes('*')) {
+    const glob = new RegExp(
+      `^${path.split('*').map(escapeRegExp).join('[^/]*')}$`
+    );
+    return {
+      pattern,
+      value,
+      kind: (endpoint) => (glob.test(endpoint) ? 'glob' : undefined),
+      params,
+      literal,
+    };
+  }
+
+  return {
+    pattern,
+    value,
+    kind: (endpoint) => {
+      if (endpoint === path) {
+        return 'exact';
+      }
+      return path === '' || endpoint.startsWith(`${path}/`)
+        ? 'prefix'
+        : undefined;
+    },
+    params,
+    literal,
+  };
+}
+
+/**
+ * Per-endpoint settings keyed by endpoint patterns
+ *
+ * Patterns are matched against the endpoint and, after a `?`, the query
+ * params of the call:
+ * - `"profile"`: the endpoint, and endpoints below it ("profile/x")
+ * - `"quote*"`: `*` matches any characters within a path segment
+ * - `"historical-chart/*"`: every interval of the intraday charts
+ * - `"/^technical-indicator\//"`: a regular expression
+ * - `"income-statement?period=quarter"`: only calls with that param
+ *   (`period=*` requires the param with any value)
+ *
+ * When several patterns match, the most specific wins: patterns with more
+ * params first, then exact matches, globs, path prefixes and regular
+ * expressions, then the longest literal text. Remaining ties go to the
+ * pattern defined last.
+ */
+export class EndpointPatterns<T> {
+  private readonly patterns: CompiledPattern<T>[];
+
+  /**
+   * @param config - Values keyed by pattern
+   * @throws {RangeError} When a regular expression pattern is invalid
+   */
+  constructor(config: Record<string, T>) {
+    this.patterns = Object.entries(config).map(([pattern, value]) =>
+      compile(pattern, value)
+    );
+  }
+
+  /**
+   * Get every pattern that matches, most specific first
+   */
+  matches(
+    endpoint: string,
+    params: Record<string, unknown> = {}
+  ): PatternMatch<T>[] {
+    const found: Array<{
+      compiled: CompiledPattern<T>;
+      rank: number;
+      index: number;
+    }> = [];
+
+    this.patterns.forEach((compiled, index) => {
+      const kind = compiled.kind(endpoint);
+      if (
+        kind &&
+        compiled.params.every(([name, expected]) => {
+          const actual = params[name];
+          if (actual === undefined || actual === null || actual === '') {
+            return false;
+          }
+          return expected === '*' || String(actual) === expected;
+        })
+      ) {
+        found.push({ compiled, rank: KIND_RANK[kind], index });
+      }
+    });
+
+    return found
+      .sort(
+        (a, b) =>
+          b.compiled.params.length - a.compiled.params.length ||
+          b.rank - a.rank ||
+          b.compiled.literal - a.compiled.literal ||
+          b.index - a.index
+      )
+      .map(({ compiled }) => ({
+        pattern: compiled.pattern,
+        value: compiled.value,
+      }));
+  }
+
+  /**
+   * Get the most specific pattern that matches
+   */
+  match(
+    endpoint: string,
+    params?: Record<string, unknown>
+  ): PatternMatch<T> | undefined {
+    return this.matches(endpoint, params)[0];
+  }
+}
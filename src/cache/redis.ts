@@ -9,9 +9,44 @@
  * - AWS ElastiCache
  * - Azure Cache for Redis
  * - KeyDB, DragonflyDB, etc.
+ * - Redis Cluster (ioredis Cluster)
  */
 
-import type { CacheProvider } from './types.js';
+import type {
+  CacheEntry as CacheProviderEntry,
+  CacheProvider,
+  CacheReadOptions,
+} from './types.js';
+
+/**
+ * Reply to SCAN: `[cursor, keys]` (ioredis, upstash) or `{ cursor, keys }`
+ * (node-redis)
+ */
+export type RedisScanReply =
+  | [cursor: string | number, keys: string[]]
+  | { cursor: string | number; keys: string[] };
+
+/**
+ * Minimal Redis pipeline interface
+ * Compatible with ioredis and upstash pipelines
+ */
+export interface RedisPipelineLike {
+  /** Queue a GET */
+  get(key: string): unknown;
+  /** Queue a SET with optional expiration */
+  set(
+    key: string,
+    value: string,
+    options?: { PX?: number } | { px?: number }
+  ): unknown;
+  /** Queue a SADD (optional - tags are recorded separately otherwise) */
+  sadd?(key: string, ...members: string[]): unknown;
+  /**
+   * Run the queued commands
+   * Results are either values (upstash) or `[error, value]` pairs (ioredis)
+   */
+  exec(): Promise<unknown[] | null>;
+}
 
 /**
  * Minimal Redis client interface
@@ -26,14 +61,64 @@ export interface RedisClientLike {
     value: string,
     options?: { PX?: number } | { px?: number }
   ): Promise<unknown>;
-  /** Delete one or more keys */
-  del(key: string | string[]): Promise<number>;
+  /**
+   * Delete one or more keys, passed as an array (node-redis) or as
+   * separate arguments (ioredis, upstash)
+   */
+  del(key: string | string[], ...keys: string[]): Promise<number>;
   /** Check if key(s) exist */
   exists(key: string | string[]): Promise<number>;
-  /** Get keys matching pattern (optional - only needed for clear()) */
+  /** Get keys matching pattern (optional - clear() without scan) */
   keys?(pattern: string): Promise<string[]>;
+  /**
+   * Iterate keys with a cursor (optional - used by clear())
+   * Called as `scan(cursor, 'MATCH', pattern, 'COUNT', count)` (ioredis),
+   * or as `scan(cursor, options)` (node-redis, upstash); keys are filtered
+   * by prefix either way
+   */
+  scan?(cursor: string | number, ...args: unknown[]): Promise<RedisScanReply>;
+  /** Delete keys without blocking (optional - del is used otherwise) */
+  unlink?(key: string | string[], ...keys: string[]): Promise<number>;
+  /** Get several values (optional - ioredis and upstash, used by getMany()) */
+  mget?(keys: string[]): Promise<Array<string | null>>;
+  /** Get several values (optional - node-redis, used by getMany()) */
+  mGet?(keys: string[]): Promise<Array<string | null>>;
+  /** Start a pipeline (optional - ioredis and upstash, used for batches) */
+  pipeline?(): RedisPipelineLike;
+  /** Get the nodes of a cluster (optional - ioredis Cluster) */
+  nodes?(role: 'master'): RedisClientLike[];
+  /** Add members to a set (optional - node-redis, needed for tags) */
+  sAdd?(key: string, members: string | string[]): Promise<number>;
+  /** Add members to a set (optional - ioredis and upstash, needed for tags) */
+  sadd?(key: string, ...members: string[]): Promise<number>;
+  /** Get the members of a set (optional - node-redis, needed for tags) */
+  sMembers?(key: string): Promise<string[]>;
+  /** Get the members of a set (optional - ioredis and upstash, needed for tags) */
+  smembers?(key: string): Promise<string[]>;
+  /** Remove members from a set (optional - node-redis, prunes tag sets) */
+  sRem?(key: string, members: string | string[]): Promise<number>;
+  /** Remove members from a set (optional - ioredis and upstash, prunes tag sets) */
+  srem?(key: string, ...members: string[]): Promise<number>;
+  /** Get the remaining TTL in ms (optional - node-redis, expires tag sets) */
+  pTTL?(key: string): Promise<number>;
+  /** Get the remaining TTL in ms (optional - ioredis and upstash, expires tag sets) */
+  pttl?(key: string): Promise<number>;
+  /** Set a TTL in ms (optional - node-redis, expires tag sets) */
+  pExpire?(key: string, ms: number): Promise<unknown>;
+  /** Set a TTL in ms (optional - ioredis and upstash, expires tag sets) */
+  pexpire?(key: string, ms: number): Promise<unknown>;
 }
 
+/**
+ * Calling conventions of a Redis client
+ * - `node-redis`: `scan(cursor, { MATCH, COUNT })`, keys passed as an array
+ * - `ioredis`: `scan(cursor, 'MATCH', pattern, 'COUNT', count)`, keys
+ *   passed as separate arguments
+ * - `upstash`: `scan(cursor, { match, count })`, keys passed as separate
+ *   arguments
+ */
+export type RedisClientStyle = 'node-redis' | 'ioredis' | 'upstash';
+
 /**
  * Redis cache provider configuration
  */
@@ -41,7 +126,9 @@ export interface RedisCacheProviderOptions {
   /**
    * Redis-compatible client instance
    * Must implement: get, set, del, exists
-   * Optional: keys (for clear() support)
+   * Optional: scan/unlink or keys (for clear() support), mget/mGet and
+   * pipeline (for batches), sAdd/sadd and sMembers/smembers (for tag support),
+   * sRem/srem and pTTL/pttl with pExpire/pexpire (to keep tag sets small)
    */
   client: RedisClientLike;
 
@@ -51,6 +138,46 @@ export interface RedisCacheProviderOptions {
    * @default 'fmp:'
    */
   keyPrefix?: string;
+
+  /**
+   * Keys requested per SCAN call when clearing
+   * @default 1000
+   */
+  scanCount?: number;
+
+  /**
+   * How long entries stay in Redis after their TTL (ms), so `offline` and
+   * `prefer-cache` mode can still serve them; Redis drops them afterwards
+   * @default 0
+   */
+  keepExpiredFor?: number;
+
+  /**
+   * How the client takes SCAN options and multi-key arguments
+   * Clients ignoring arguments they don't expect would otherwise SCAN the
+   * whole keyspace or delete only the first key
+   * @default 'node-redis' for clients with camelCase methods (`mGet`,
+   * `sAdd`, `sMembers`), 'ioredis' for clients with `scanStream` or `nodes`,
+   * 'upstash' otherwise
+   */
+  clientStyle?: RedisClientStyle;
+
+  /**
+   * Group multi-key commands by hash slot
+   * @default true when the client is an ioredis Cluster (has `nodes`)
+   */
+  cluster?: boolean;
+}
+
+/**
+ * Entry written by setMany()
+ */
+export interface RedisCacheItem<T = unknown> {
+  key: string;
+  value: T;
+  /** TTL in milliseconds */
+  ttl: number;
+  tags?: string[];
 }
 
 /**
@@ -65,6 +192,78 @@ interface CacheEntry<T = unknown> {
   t: number;
 }
 
+/** Number of hash slots in a Redis Cluster */
+const SLOTS = 16384;
+
+/**
+ * CRC16 (XMODEM), as used by Redis Cluster for key slots
+ */
+function crc16(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    crc &= 0xffff;
+  }
+  return crc;
+}
+
+/**
+ * Hash slot of a key, honouring `{hash tags}`
+ */
+function hashSlot(key: string): number {
+  const start = key.indexOf('{');
+  if (start !== -1) {
+    const end = key.indexOf('}', start + 1);
+    if (end > start + 1) {
+      key = key.slice(start + 1, end);
+    }
+  }
+  return crc16(Buffer.from(key)) % SLOTS;
+}
+
+/**
+ * Escape glob characters for a MATCH pattern
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Guess the calling conventions of a client from the methods it has
+ */
+function detectClientStyle(client: RedisClientLike): RedisClientStyle {
+  if (
+    typeof client.mGet === 'function' ||
+    typeof client.sAdd === 'function' ||
+    typeof client.sMembers === 'function'
+  ) {
+    return 'node-redis';
+  }
+  if (
+    typeof (client as { scanStream?: unknown }).scanStream === 'function' ||
+    typeof client.nodes === 'function'
+  ) {
+    return 'ioredis';
+  }
+  return 'upstash';
+}
+
+/**
+ * Values of a pipeline run, with failed commands as undefined
+ */
+function pipelineValues(results: unknown[] | null): unknown[] {
+  return (results ?? []).map((result) => {
+    if (!Array.isArray(result)) {
+      return result;
+    }
+    // ioredis: [error, value]
+    return result[0] ? undefined : result[1];
+  });
+}
+
 /**
  * Redis-compatible cache provider for FMP SDK
  *
@@ -126,10 +325,28 @@ interface CacheEntry<T = unknown> {
 export class RedisCacheProvider implements CacheProvider {
   private readonly client: RedisClientLike;
   private readonly keyPrefix: string;
+  private readonly scanCount: number;
+  private readonly cluster: boolean;
+  private readonly clientStyle: RedisClientStyle;
+  private readonly keepExpiredFor: number;
 
+  /**
+   * Create a Redis cache provider
+   * @param options - Redis cache options
+   * @throws {RangeError} When `keepExpiredFor` is negative or not finite
+   */
   constructor(options: RedisCacheProviderOptions) {
+    const keepExpiredFor = options.keepExpiredFor ?? 0;
+    if (!(keepExpiredFor >= 0 && Number.isFinite(keepExpiredFor))) {
+      throw new RangeError('keepExpiredFor must be a finite number >= 0');
+    }
+
     this.client = options.client;
+    this.keepExpiredFor = keepExpiredFor;
     this.keyPrefix = options.keyPrefix ?? 'fmp:';
+    this.scanCount = options.scanCount ?? 1000;
+    this.cluster = options.cluster ?? typeof this.client.nodes === 'function';
+    this.clientStyle = options.clientStyle ?? detectClientStyle(this.client);
   }
 
   /**
@@ -143,6 +360,18 @@ export class RedisCacheProvider implements CacheProvider {
    * Get a value from the cache
    */
   async get<T>(key: string): Promise<T | undefined> {
+    return (await this.getEntry<T>(key))?.value;
+  }
+
+  /**
+   * Get a cached entry with its creation time and TTL
+   * Entries past their TTL are only returned with `includeExpired`, while
+   * `keepExpiredFor` keeps them in Redis
+   */
+  async getEntry<T>(
+    key: string,
+    options?: CacheReadOptions
+  ): Promise<CacheProviderEntry<T> | undefined> {
     try {
       const data = await this.client.get(this.getKey(key));
 
@@ -152,23 +381,38 @@ export class RedisCacheProvider implements CacheProvider {
 
       const entry = JSON.parse(data) as CacheEntry<T>;
 
-      // Double-check expiration (Redis should handle this via PX)
-      if (Date.now() > entry.c + entry.t) {
-        await this.delete(key);
+      // Double-check expiration (Redis drops the key `keepExpiredFor` later)
+      if (!options?.includeExpired && Date.now() > entry.c + entry.t) {
+        if (this.keepExpiredFor === 0) {
+          await this.delete(key);
+        }
         return undefined;
       }
 
-      return entry.v;
+      return { value: entry.v, createdAt: entry.c, ttl: entry.t };
     } catch {
       // Cache miss on error - don't break the application
       return undefined;
     }
   }
 
+  /**
+   * Get the key of the set listing the entries carrying a tag
+   */
+  private getTagKey(tag: string): string {
+    return `${this.keyPrefix}tag:${tag}`;
+  }
+
   /**
    * Set a value in the cache
+   * Tags are recorded in one Redis set per tag, when the client supports sets
    */
-  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+  async set<T>(
+    key: string,
+    value: T,
+    ttl: number,
+    tags?: string[]
+  ): Promise<void> {
     try {
       const entry: CacheEntry<T> = {
         v: value,
@@ -176,11 +420,191 @@ export class RedisCacheProvider implements CacheProvider {
         t: ttl,
       };
 
-      // Support both { PX: ttl } (node-redis) and { px: ttl } (ioredis)
-      await this.client.set(this.getKey(key), JSON.stringify(entry), {
-        PX: ttl,
-        px: ttl,
-      } as { PX?: number; px?: number });
+      await this.client.set(
+        this.getKey(key),
+        JSON.stringify(entry),
+        this.expiry(ttl)
+      );
+
+      await this.addTags(key, tags, ttl);
+    } catch {
+      // Silently fail - cache write errors shouldn't break the application
+    }
+  }
+
+  /**
+   * SET options expiring an entry `keepExpiredFor` after its TTL
+   * Supports both { PX } (node-redis) and { px } (ioredis, upstash)
+   */
+  private expiry(ttl: number): { PX?: number; px?: number } {
+    const px = ttl + this.keepExpiredFor;
+    return { PX: px, px } as { PX?: number; px?: number };
+  }
+
+  /**
+   * Record a key in the sets of its tags
+   */
+  private async addTags(
+    key: string,
+    tags: string[] | undefined,
+    ttl: number
+  ): Promise<void> {
+    if (!tags?.length) {
+      return;
+    }
+    for (const tag of tags) {
+      if (this.client.sAdd) {
+        await this.client.sAdd(this.getTagKey(tag), key);
+      } else if (this.client.sadd) {
+        await this.client.sadd(this.getTagKey(tag), key);
+      }
+    }
+    await this.expireTags(new Map(tags.map((tag) => [tag, ttl])));
+  }
+
+  /**
+   * Keep tag sets at least as long as their longest-lived entry, so they
+   * expire once every entry they list has expired
+   * @param ttls - Longest TTL written per tag (ms)
+   */
+  private async expireTags(ttls: Map<string, number>): Promise<void> {
+    // pTTL/pExpire (node-redis) or pttl/pexpire (ioredis, upstash)
+    const pttl = this.client.pTTL ?? this.client.pttl;
+    const pexpire = this.client.pExpire ?? this.client.pexpire;
+    if (!pttl || !pexpire) {
+      return;
+    }
+
+    await Promise.all(
+      Array.from(ttls, async ([tag, ttl]) => {
+        const tagKey = this.getTagKey(tag);
+        const keep = ttl + this.keepExpiredFor;
+        // -1 when the set has no expiry yet
+        const remaining = await pttl.call(this.client, tagKey);
+        if (remaining < keep) {
+          await pexpire.call(this.client, tagKey, keep);
+        }
+      })
+    );
+  }
+
+  /**
+   * Remove keys from the set of a tag
+   */
+  private async removeFromTag(tagKey: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+    if (this.client.sRem) {
+      await this.client.sRem(tagKey, keys);
+    } else if (this.client.srem) {
+      await this.client.srem(tagKey, ...keys);
+    }
+  }
+
+  /**
+   * Get several values in one round trip
+   * Uses MGET (per hash slot on a cluster), a pipeline, or one GET per key
+   * @returns Values in the order of the keys (undefined for misses)
+   */
+  async getMany<T>(keys: string[]): Promise<Array<T | undefined>> {
+    let data: unknown[];
+    try {
+      data = await this.fetchMany(keys.map((key) => this.getKey(key)));
+    } catch {
+      return keys.map(() => undefined);
+    }
+
+    const now = Date.now();
+    return data.map((item) => {
+      if (typeof item !== 'string') {
+        return undefined;
+      }
+      try {
+        const entry = JSON.parse(item) as CacheEntry<T>;
+        return now > entry.c + entry.t ? undefined : entry.v;
+      } catch {
+        return undefined;
+      }
+    });
+  }
+
+  /**
+   * Fetch the raw values of prefixed keys
+   */
+  private async fetchMany(keys: string[]): Promise<unknown[]> {
+    // mGet (node-redis) or mget (ioredis, upstash)
+    const mget = this.client.mGet ?? this.client.mget;
+    const pipeline = this.client.pipeline;
+    if (!mget && !pipeline) {
+      return Promise.all(keys.map((key) => this.client.get(key)));
+    }
+
+    const values = new Map<string, unknown>();
+    await Promise.all(
+      this.bySlot(keys).map(async (group) => {
+        let results: unknown[];
+        if (mget) {
+          results = await mget.call(this.client, group);
+        } else {
+          const batch = pipeline!.call(this.client);
+          for (const key of group) {
+            batch.get(key);
+          }
+          results = pipelineValues(await batch.exec());
+        }
+        group.forEach((key, i) => values.set(key, results[i]));
+      })
+    );
+    return keys.map((key) => values.get(key));
+  }
+
+  /**
+   * Set several values in one round trip
+   * Uses a pipeline (per hash slot on a cluster), or one SET per entry
+   */
+  async setMany<T>(items: RedisCacheItem<T>[]): Promise<void> {
+    if (!this.client.pipeline) {
+      await Promise.all(
+        items.map((item) => this.set(item.key, item.value, item.ttl, item.tags))
+      );
+      return;
+    }
+
+    try {
+      const byKey = new Map(items.map((item) => [this.getKey(item.key), item]));
+      const tagged: RedisCacheItem<T>[] = [];
+      const tagTTLs = new Map<string, number>();
+      await Promise.all(
+        this.bySlot([...byKey.keys()]).map(async (group) => {
+          const batch = this.client.pipeline!();
+          for (const key of group) {
+            const item = byKey.get(key)!;
+            const entry: CacheEntry<T> = {
+              v: item.value,
+              c: Date.now(),
+              t: item.ttl,
+            };
+            batch.set(key, JSON.stringify(entry), this.expiry(item.ttl));
+
+            // Tag sets live in other slots, so clusters record them afterwards
+            if (item.tags?.length && batch.sadd && !this.cluster) {
+              for (const tag of item.tags) {
+                batch.sadd(this.getTagKey(tag), item.key);
+                tagTTLs.set(tag, Math.max(tagTTLs.get(tag) ?? 0, item.ttl));
+              }
+            } else if (item.tags?.length) {
+              tagged.push(item);
+            }
+          }
+          await batch.exec();
+        })
+      );
+
+      await this.expireTags(tagTTLs);
+      for (const item of tagged) {
+        await this.addTags(item.key, item.tags, item.ttl);
+      }
     } catch {
       // Silently fail - cache write errors shouldn't break the application
     }
@@ -198,33 +622,196 @@ export class RedisCacheProvider implements CacheProvider {
     }
   }
 
+  /**
+   * Delete every entry carrying all of the given tags
+   *
+   * Note: Requires the client to support sets (`sAdd`/`sadd` and
+   * `sMembers`/`smembers`). The set of a single tag is deleted with its
+   * entries; with several tags, the deleted keys and members whose entries
+   * already expired are removed from each set (with `sRem`/`srem`).
+   *
+   * @returns Number of entries deleted
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    // sMembers (node-redis) or smembers (ioredis, upstash)
+    const members = this.client.sMembers ?? this.client.smembers;
+    if (tags.length === 0 || !members) {
+      return 0;
+    }
+
+    try {
+      const tagKeys = tags.map((tag) => this.getTagKey(tag));
+      const sets = await Promise.all(
+        tagKeys.map((tagKey) => members.call(this.client, tagKey))
+      );
+      const [first, ...rest] = sets;
+      const others = rest.map((keys) => new Set(keys));
+      const keys = first!.filter((key) => others.every((set) => set.has(key)));
+
+      let deleted = 0;
+      if (keys.length > 0) {
+        deleted = await this.deleteKeys(keys.map((key) => this.getKey(key)));
+      }
+      if (tags.length === 1) {
+        await this.client.del(tagKeys[0]!);
+      } else if (this.client.sRem || this.client.srem) {
+        // Drop the deleted keys, and members whose entries are gone
+        const matched = new Set(keys);
+        const candidates = [...new Set(sets.flat())].filter(
+          (key) => !matched.has(key)
+        );
+        const counts = await Promise.all(
+          candidates.map((key) => this.client.exists(this.getKey(key)))
+        );
+        const gone = new Set(keys);
+        candidates.forEach((key, i) => {
+          if (!(counts[i]! > 0)) {
+            gone.add(key);
+          }
+        });
+        await Promise.all(
+          tagKeys.map((tagKey, i) =>
+            this.removeFromTag(
+              tagKey,
+              sets[i]!.filter((key) => gone.has(key))
+            )
+          )
+        );
+      }
+      return deleted;
+    } catch {
+      return 0;
+    }
+  }
+
   /**
    * Clear all FMP cache entries (by prefix)
    *
-   * Note: Requires the client to support the `keys` command.
-   * Some serverless Redis providers may not support this.
+   * Walks the keys with SCAN (on every master of a cluster) and deletes
+   * them in batches with UNLINK, so Redis is never blocked. Falls back to
+   * KEYS and DEL for clients without `scan` and `unlink`, or whose `scan`
+   * fails.
    */
   async clear(): Promise<void> {
     try {
-      if (!this.client.keys) {
-        // Client doesn't support keys command
+      if (this.client.scan) {
+        try {
+          const nodes =
+            this.cluster && this.client.nodes
+              ? this.client.nodes('master')
+              : [this.client];
+          await Promise.all(nodes.map((node) => this.clearNode(node)));
+          return;
+        } catch (error) {
+          if (!this.client.keys) {
+            throw error;
+          }
+        }
+      }
+      if (this.client.keys) {
+        await this.deleteKeys(
+          await this.client.keys(`${escapeGlob(this.keyPrefix)}*`)
+        );
+      }
+    } catch {
+      // Silently fail
+    }
+  }
+
+  /**
+   * Delete the prefixed keys stored on one node
+   */
+  private async clearNode(node: RedisClientLike): Promise<void> {
+    const pattern = `${escapeGlob(this.keyPrefix)}*`;
+    let cursor: string | number = '0';
+    do {
+      if (!node.scan) {
         return;
       }
+      const reply = await this.scanPage(node, cursor, pattern);
+      const [next, keys] = Array.isArray(reply)
+        ? reply
+        : [reply.cursor, reply.keys];
+      cursor = next;
+      await this.deleteKeys(
+        keys.filter((key) => key.startsWith(this.keyPrefix))
+      );
+    } while (String(cursor) !== '0');
+  }
 
-      const keys = await this.client.keys(`${this.keyPrefix}*`);
+  /**
+   * Request one SCAN page, with arguments (ioredis) or an options object
+   * (node-redis, upstash)
+   */
+  private scanPage(
+    node: RedisClientLike,
+    cursor: string | number,
+    pattern: string
+  ): Promise<RedisScanReply> {
+    switch (this.clientStyle) {
+      case 'ioredis':
+        return node.scan!(cursor, 'MATCH', pattern, 'COUNT', this.scanCount);
+      case 'node-redis':
+        return node.scan!(cursor, { MATCH: pattern, COUNT: this.scanCount });
+      default:
+        return node.scan!(cursor, { match: pattern, count: this.scanCount });
+    }
+  }
 
-      if (keys.length > 0) {
-        await this.client.del(keys);
+  /**
+   * Delete keys in batches with UNLINK (or DEL), one hash slot per
+   * command on a cluster
+   * @returns Number of keys deleted
+   */
+  private async deleteKeys(keys: string[]): Promise<number> {
+    const unlink = this.client.unlink ?? this.client.del;
+    let deleted = 0;
+    for (const group of this.bySlot(keys)) {
+      for (let i = 0; i < group.length; i += this.scanCount) {
+        const batch = group.slice(i, i + this.scanCount) as [
+          string,
+          ...string[],
+        ];
+        deleted +=
+          this.clientStyle === 'node-redis'
+            ? await unlink.call(this.client, batch)
+            : await unlink.call(this.client, ...batch);
       }
-    } catch {
-      // Silently fail
     }
+    return deleted;
   }
 
   /**
-   * Check if a key exists in the cache
+   * Split keys into groups that multi-key commands accept: one group,
+   * or one per hash slot on a cluster
+   */
+  private bySlot(keys: string[]): string[][] {
+    if (keys.length === 0) {
+      return [];
+    }
+    if (!this.cluster) {
+      return [keys];
+    }
+    const groups = new Map<number, string[]>();
+    for (const key of keys) {
+      const slot = hashSlot(key);
+      const group = groups.get(slot);
+      if (group) {
+        group.push(key);
+      } else {
+        groups.set(slot, [key]);
+      }
+    }
+    return [...groups.values()];
+  }
+
+  /**
+   * Check if a key exists in the cache and is not expired
    */
   async has(key: string): Promise<boolean> {
+    if (this.keepExpiredFor > 0) {
+      return (await this.getEntry(key)) !== undefined;
+    }
     try {
       const result = await this.client.exists(this.getKey(key));
       return result > 0;
@@ -0,0 +1,375 @@
+/**
+ * SQLite cache provider
+ *
+ * Works with synchronous SQLite drivers including:
+ * - better-sqlite3
+ * - node:sqlite (DatabaseSync, Node.js 22.5+)
+ * - bun:sqlite
+ */
+
+import type {
+  CacheEntry,
+  CacheProvider,
+  CacheReadOptions,
+} from './types.js';
+
+/**
+ * Minimal prepared statement interface
+ */
+export interface SQLiteStatementLike {
+  /** Execute the statement */
+  run(...params: unknown[]): unknown;
+  /** Get the first row */
+  get(...params: unknown[]): unknown;
+  /** Get every row */
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Minimal SQLite database interface
+ * Compatible with better-sqlite3, node:sqlite and bun:sqlite
+ */
+export interface SQLiteDatabaseLike {
+  /** Execute one or more statements without results */
+  exec(sql: string): unknown;
+  /** Prepare a statement */
+  prepare(sql: string): SQLiteStatementLike;
+}
+
+/**
+ * SQLite cache provider configuration
+ */
+export interface SQLiteCacheProviderOptions {
+  /**
+   * Open database handle
+   * Use WAL mode and a busy timeout when several processes share the file
+   */
+  database: SQLiteDatabaseLike;
+
+  /**
+   * Table holding the cache entries (created if missing)
+   * @default 'fmp_cache'
+   */
+  table?: string;
+
+  /**
+   * Maximum number of entries, enforced when pruning
+   * @default unlimited
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total size of the stored values in bytes, enforced when pruning
+   * @default unlimited
+   */
+  maxBytes?: number;
+
+  /**
+   * Prune automatically after this many writes (0 disables)
+   * @default 100
+   */
+  pruneInterval?: number;
+}
+
+/**
+ * Row stored for each entry
+ */
+interface CacheRow {
+  key: string;
+  value: string;
+  created_at: number;
+  ttl: number;
+  tags: string | null;
+}
+
+const TABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Number of rows changed by a statement (`changes` in every driver)
+ */
+function changes(result: unknown): number {
+  return Number(
+    (result as { changes?: number | bigint } | undefined)?.changes ?? 0
+  );
+}
+
+/**
+ * Persistent cache provider storing entries in a SQLite table
+ *
+ * Works with any database handle that implements the SQLiteDatabaseLike
+ * interface. Every operation is a single statement, so SQLite's own locking
+ * keeps the cache consistent across processes.
+ *
+ * Features:
+ * - Survives restarts, one file for the whole cache
+ * - Expired entries are removed with an indexed delete
+ * - `maxEntries` and `maxBytes` limits, evicting the entries closest to
+ *   expiry first
+ *
+ * @example Using better-sqlite3
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * import { FMP, SQLiteCacheProvider } from 'fmp-node-sdk';
+ *
+ * const database = new Database('fmp-cache.db', { timeout: 5000 });
+ * database.pragma('journal_mode = WAL');
+ *
+ * const fmp = new FMP({
+ *   apiKey: 'your-api-key',
+ *   cache: {
+ *     enabled: true,
+ *     provider: new SQLiteCacheProvider({ database, maxBytes: 1e9 }),
+ *   },
+ * });
+ * ```
+ *
+ * @example Using node:sqlite
+ * ```typescript
+ * import { DatabaseSync } from 'node:sqlite';
+ * import { FMP, SQLiteCacheProvider } from 'fmp-node-sdk';
+ *
+ * const database = new DatabaseSync('fmp-cache.db', { timeout: 5000 });
+ * database.exec('PRAGMA journal_mode = WAL');
+ *
+ * const fmp = new FMP({
+ *   apiKey: 'your-api-key',
+ *   cache: { enabled: true, provider: new SQLiteCacheProvider({ database }) },
+ * });
+ * ```
+ */
+export class SQLiteCacheProvider implements CacheProvider {
+  private readonly database: SQLiteDatabaseLike;
+  private readonly table: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly pruneInterval: number;
+  private readonly statements = new Map<string, SQLiteStatementLike>();
+  private writes = 0;
+
+  /**
+   * Create a SQLite cache provider, creating its table if missing
+   * @param options - SQLite cache options
+   * @throws {RangeError} When the table name is invalid or a limit is not positive
+   */
+  constructor(options: SQLiteCacheProviderOptions) {
+    const table = options.table ?? 'fmp_cache';
+    if (!TABLE_PATTERN.test(table)) {
+      throw new RangeError(`Invalid table name: ${table}`);
+    }
+    if (options.maxEntries !== undefined && options.maxEntries < 1) {
+      throw new RangeError('maxEntries must be greater than 0');
+    }
+    if (options.maxBytes !== undefined && options.maxBytes < 1) {
+      throw new RangeError('maxBytes must be greater than 0');
+    }
+
+    this.database = options.database;
+    this.table = table;
+    this.maxEntries = options.maxEntries ?? Infinity;
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.pruneInterval = options.pruneInterval ?? 100;
+
+    this.database.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (` +
+        'key TEXT PRIMARY KEY, value TEXT NOT NULL, created_at INTEGER NOT NULL, ' +
+        'ttl INTEGER NOT NULL, expires_at INTEGER NOT NULL, size INTEGER NOT NULL, tags TEXT);' +
+        `CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at);`
+    );
+  }
+
+  /**
+   * Get a prepared statement, preparing it on first use
+   */
+  private statement(sql: string): SQLiteStatementLike {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.database.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  /**
+   * Get a value from the cache
+   */
+  get<T>(key: string): T | undefined {
+    return this.getEntry<T>(key)?.value;
+  }
+
+  /**
+   * Get a cached entry with its creation time and TTL
+   */
+  getEntry<T>(
+    key: string,
+    options?: CacheReadOptions
+  ): CacheEntry<T> | undefined {
+    try {
+      const row = this.statement(
+        `SELECT key, value, created_at, ttl, tags FROM ${this.table} WHERE key = ?`
+      ).get(key) as CacheRow | undefined;
+
+      if (!row) {
+        return undefined;
+      }
+
+      const createdAt = Number(row.created_at);
+      const ttl = Number(row.ttl);
+      if (!options?.includeExpired && Date.now() > createdAt + ttl) {
+        this.delete(key);
+        return undefined;
+      }
+
+      const entry: CacheEntry<T> = {
+        value: JSON.parse(row.value) as T,
+        createdAt,
+        ttl,
+      };
+      if (row.tags) {
+        entry.tags = JSON.parse(row.tags) as string[];
+      }
+      return entry;
+    } catch {
+      // Cache miss on error - don't break the application
+      return undefined;
+    }
+  }
+
+  /**
+   * Set a value in the cache
+   */
+  set<T>(key: string, value: T, ttl: number, tags?: string[]): void {
+    try {
+      const data = JSON.stringify(value);
+      const createdAt = Date.now();
+      this.statement(
+        `INSERT OR REPLACE INTO ${this.table} ` +
+          '(key, value, created_at, ttl, expires_at, size, tags) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      ).run(
+        key,
+        data,
+        createdAt,
+        ttl,
+        createdAt + ttl,
+        Buffer.byteLength(data),
+        tags && tags.length > 0 ? JSON.stringify(tags) : null
+      );
+    } catch {
+      // Silently fail - cache write errors shouldn't break the application
+      return;
+    }
+
+    if (this.pruneInterval > 0 && ++this.writes % this.pruneInterval === 0) {
+      this.prune();
+    }
+  }
+
+  /**
+   * Delete a value from the cache
+   */
+  delete(key: string): boolean {
+    try {
+      return (
+        changes(
+          this.statement(`DELETE FROM ${this.table} WHERE key = ?`).run(key)
+        ) > 0
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Delete every entry
+   */
+  clear(): void {
+    try {
+      this.statement(`DELETE FROM ${this.table}`).run();
+    } catch {
+      // Silently fail
+    }
+  }
+
+  /**
+   * Check if a key exists and is not expired
+   */
+  has(key: string): boolean {
+    try {
+      return (
+        this.statement(
+          `SELECT 1 FROM ${this.table} WHERE key = ? AND expires_at >= ?`
+        ).get(key, Date.now()) !== undefined
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Delete every entry carrying all of the given tags
+   * @returns Number of entries deleted
+   */
+  invalidateTags(tags: string[]): number {
+    if (tags.length === 0) {
+      return 0;
+    }
+
+    try {
+      const rows = this.statement(
+        `SELECT key, tags FROM ${this.table} WHERE tags IS NOT NULL`
+      ).all() as Array<Pick<CacheRow, 'key' | 'tags'>>;
+
+      let deleted = 0;
+      for (const row of rows) {
+        const entryTags = JSON.parse(row.tags!) as string[];
+        if (
+          tags.every((tag) => entryTags.includes(tag)) &&
+          this.delete(row.key)
+        ) {
+          deleted++;
+        }
+      }
+      return deleted;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Remove expired entries, then evict entries until `maxEntries` and
+   * `maxBytes` are met (closest to expiry first)
+   * Runs automatically every `pruneInterval` writes
+   * @returns Number of entries removed
+   */
+  prune(): number {
+    try {
+      let pruned = changes(
+        this.statement(`DELETE FROM ${this.table} WHERE expires_at < ?`).run(
+          Date.now()
+        )
+      );
+
+      if (Number.isFinite(this.maxEntries)) {
+        pruned += changes(
+          this.statement(
+            `DELETE FROM ${this.table} WHERE key IN (SELECT key FROM ${this.table} ` +
+              'ORDER BY expires_at DESC, key LIMIT -1 OFFSET ?)'
+          ).run(this.maxEntries)
+        );
+      }
+
+      if (Number.isFinite(this.maxBytes)) {
+        pruned += changes(
+          this.statement(
+            `DELETE FROM ${this.table} WHERE key IN (SELECT key FROM (` +
+              'SELECT key, SUM(size) OVER (ORDER BY expires_at DESC, key) AS total ' +
+              `FROM ${this.table}) WHERE total > ?)`
+          ).run(this.maxBytes)
+        );
+      }
+
+      return pruned;
+    } catch {
+      return 0;
+    }
+  }
+}
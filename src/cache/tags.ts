@@ -0,0 +1,55 @@
+/**
+ * Cache tags for invalidation by symbol, CIK and resource
+ */
+
+/**
+ * Tag of the responses for a symbol
+ */
+export function symbolTag(symbol: string): string {
+  return `symbol:${symbol.trim().toUpperCase()}`;
+}
+
+/**
+ * Tag of the responses for a CIK (leading zeros are ignored)
+ */
+export function cikTag(cik: string): string {
+  return `cik:${cik.trim().replace(/^0+(?=.)/, '')}`;
+}
+
+/**
+ * Tag of the responses fetched through a resource (e.g. "financials")
+ */
+export function resourceTag(resource: string): string {
+  return `resource:${resource}`;
+}
+
+/**
+ * Tags of a response, from the request params and the resource method
+ * that made the call (e.g. "financials.getIncomeStatement")
+ */
+export function requestTags(
+  params: Record<string, unknown> | undefined,
+  method: string | undefined
+): string[] {
+  const tags = new Set<string>();
+  for (const name of ['symbol', 'symbols']) {
+    const value = params?.[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    for (const symbol of String(value).split(',')) {
+      if (symbol.trim() !== '') {
+        tags.add(symbolTag(symbol));
+      }
+    }
+  }
+  const cik = params?.['cik'];
+  if (cik !== undefined && cik !== null && String(cik).trim() !== '') {
+    tags.add(cikTag(String(cik)));
+  }
+  const resource = method?.split('.')[0];
+  if (resource) {
+    tags.add(resourceTag(resource));
+  }
+  return [...tags];
+}
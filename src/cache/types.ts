@@ -12,6 +12,8 @@ export interface CacheEntry<T = unknown> {
   createdAt: number;
   /** TTL in milliseconds for this specific entry */
   ttl: number;
+  /** Tags for invalidation (e.g. "symbol:AAPL") */
+  tags?: string[];
 }
 
 /**
@@ -73,8 +75,15 @@ export interface CacheProvider {
    * @param key - Cache key
    * @param value - Value to cache
    * @param ttl - Time to live in milliseconds
+   * @param tags - Tags for `invalidateTags` (e.g. "symbol:AAPL"), ignored by
+   *   providers without tag support
    */
-  set<T>(key: string, value: T, ttl: number): Promise<void> | void;
+  set<T>(
+    key: string,
+    value: T,
+    ttl: number,
+    tags?: string[]
+  ): Promise<void> | void;
 
   /**
    * Delete a value from the cache
@@ -94,6 +103,111 @@ export interface CacheProvider {
    * @returns true if the key exists and is not expired
    */
   has(key: string): Promise<boolean> | boolean;
+
+  /**
+   * Get a cached entry with its metadata (optional)
+   * Needed for `staleWhileRevalidate`, `staleIfError` and
+   * `circuitBreaker.staleTTL`, which compare the entry's age with the
+   * endpoint TTL
+   * @param key - Cache key
+   * @param options - Read options
+   * @returns The cached entry or undefined if not found/expired
+   */
+  getEntry?<T>(
+    key: string,
+    options?: CacheReadOptions
+  ): Promise<CacheEntry<T> | undefined> | CacheEntry<T> | undefined;
+
+  /**
+   * Delete every entry carrying all of the given tags (optional)
+   * Needed for `fmp.invalidate()`
+   * @param tags - Tags set with the entries
+   * @returns Number of entries deleted
+   */
+  invalidateTags?(tags: string[]): Promise<number> | number;
+}
+
+/**
+ * Options of `CacheProvider.getEntry`
+ */
+export interface CacheReadOptions {
+  /**
+   * Return entries past their TTL that are still stored, without deleting
+   * them (used in `offline` and `prefer-cache` mode)
+   * @default false
+   */
+  includeExpired?: boolean;
+}
+
+/**
+ * Which cached responses `fmp.invalidate()` deletes
+ * Responses must match every field that is set
+ */
+export interface CacheInvalidation {
+  /** Responses for these symbols (e.g. "MSFT") */
+  symbol?: string | string[];
+  /** Responses for this SEC CIK (leading zeros are ignored) */
+  cik?: string;
+  /**
+   * Responses fetched through this resource (e.g. "financials" for
+   * `fmp.financials`)
+   */
+  resource?: string;
+}
+
+/**
+ * Windows in which expired entries may still be served (milliseconds)
+ */
+export interface StaleConfig {
+  /**
+   * How long after expiry an entry is still returned while it is refreshed
+   * in the background
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * How long after expiry an entry is still returned when the request
+   * fails with a timeout, network error, rate limit or 5xx response
+   */
+  staleIfError?: number;
+}
+
+/**
+ * Market-hours-aware TTLs for endpoints whose data only changes while the
+ * exchange is open
+ */
+export interface MarketHoursConfig {
+  /**
+   * Enable or disable the policy
+   * @default true (when a marketHours config is provided)
+   */
+  enabled?: boolean;
+
+  /**
+   * Exchange whose hours and holidays are used
+   * @default 'NYSE'
+   */
+  exchange?: string;
+
+  /**
+   * IANA time zone of the exchange's opening and closing hours
+   * @default 'America/New_York'
+   */
+  timeZone?: string;
+
+  /**
+   * Endpoint patterns the policy applies to (as in `endpointTTL`); the
+   * calendar endpoints (`exchange-market-hours`, `holidays-by-exchange`)
+   * are always excluded
+   * @default DEFAULT_MARKET_HOURS_ENDPOINTS
+   */
+  endpoints?: string[];
+
+  /**
+   * How often the hours and holidays are fetched again (ms)
+   * @default 86400000 (1 day)
+   */
+  refreshInterval?: number;
 }
 
 /**
@@ -114,11 +228,45 @@ export const CacheTTL = {
 
 /**
  * Per-endpoint TTL configuration
- * Use endpoint patterns or specific endpoints as keys
- * Supports wildcards: "quote*" matches "quote", "quote-short", etc.
+ * Use endpoint patterns or specific endpoints as keys:
+ * - `"profile"` matches the endpoint and endpoints below it
+ * - `"quote*"` matches "quote", "quote-short", etc.
+ * - `"historical-chart/*"` matches every intraday interval
+ * - `"/^technical-indicator\//"` is a regular expression
+ * - `"income-statement?period=quarter"` only matches calls with that param
+ *
+ * The most specific matching pattern wins (see `EndpointPatterns`)
  */
 export type EndpointTTLConfig = Record<string, number>;
 
+/**
+ * How the TTL of a call was chosen, as returned by `fmp.explainTTL()`
+ */
+export interface TTLExplanation {
+  /** API endpoint */
+  endpoint: string;
+  /** TTL in milliseconds that applies to the call */
+  ttl: number;
+  /**
+   * Where the TTL comes from
+   * - `endpointTTL`: a pattern from `cache.endpointTTL`
+   * - `defaults`: a pattern from `DEFAULT_ENDPOINT_TTLS`
+   * - `defaultTTL`: no pattern matched
+   */
+  source: 'endpointTTL' | 'defaults' | 'defaultTTL';
+  /** Pattern that decided the TTL */
+  pattern?: string;
+  /** Every matching pattern with its TTL, most specific first */
+  matches: Array<{ pattern: string; ttl: number }>;
+  /** Whether the response would be cached (caching enabled and TTL > 0) */
+  cached: boolean;
+  /**
+   * Market state when the market-hours policy applies to the endpoint
+   * (`unknown` until the hours and holidays are loaded)
+   */
+  market?: 'open' | 'closed' | 'unknown';
+}
+
 /**
  * Default TTL configuration by endpoint category
  *
@@ -241,6 +389,16 @@ export interface CacheConfig {
    */
   useDefaultTTLs?: boolean;
 
+  /**
+   * TTL of negative results in milliseconds: empty arrays and not-found
+   * (404) errors, e.g. lookups of delisted symbols. Cached not-found
+   * errors are thrown again as FMPNotFoundError. Negative results are
+   * never served stale. Set to 0 to cache empty arrays like any other
+   * response and not cache not-found errors
+   * @default 0
+   */
+  negativeTTL?: number;
+
   /**
    * Cache provider instance
    * If not provided, uses built-in MemoryCache
@@ -254,11 +412,90 @@ export interface CacheConfig {
    */
   maxSize?: number;
 
+  /**
+   * Maximum estimated size in bytes of the default in-memory cache
+   * Only applies when using the built-in MemoryCache
+   * @default unlimited
+   */
+  maxBytes?: number;
+
+  /**
+   * Responses larger than this many bytes are not kept in the default
+   * in-memory cache
+   * Only applies when using the built-in MemoryCache
+   * @default unlimited
+   */
+  maxEntryBytes?: number;
+
+  /**
+   * Gzip responses of at least this many bytes in the default in-memory
+   * cache
+   * Only applies when using the built-in MemoryCache
+   * @default no compression
+   */
+  compressionThreshold?: number;
+
   /**
    * Custom function to generate cache keys
+   * Replaces the whole default key, namespace included
    * @param endpoint - API endpoint
    * @param params - Query parameters
    * @returns Cache key string
    */
   keyGenerator?: (endpoint: string, params?: Record<string, unknown>) => string;
+
+  /**
+   * Namespace of the default cache keys, replacing the hash of the API
+   * keys and base URL. Clients with the same namespace share entries
+   * @default hash of the API keys and base URL
+   */
+  namespace?: string;
+
+  /**
+   * Read entries stored under the un-namespaced keys of earlier SDK
+   * versions, moving each to its new key on first read. Only enable it
+   * when every client sharing the cache used the same API key
+   * @default false
+   */
+  migrateLegacyKeys?: boolean;
+
+  /**
+   * Serve expired entries for this long while refreshing them in the
+   * background (ms). Requires a provider with `getEntry`
+   * @default 0
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * Serve expired entries for this long when a request fails with a
+   * timeout, network error, rate limit or 5xx response (ms). Requires a
+   * provider with `getEntry`
+   * @default 0
+   */
+  staleIfError?: number;
+
+  /**
+   * Per-endpoint stale windows, overriding `staleWhileRevalidate` and
+   * `staleIfError`. Keys are endpoint patterns, as in `endpointTTL`
+   *
+   * @example
+   * ```typescript
+   * endpointStale: {
+   *   'quote': { staleWhileRevalidate: 5000 },
+   *   'profile': { staleIfError: CacheTTL.DAY },
+   * }
+   * ```
+   */
+  endpointStale?: Record<string, StaleConfig>;
+
+  /**
+   * Cache market data until the next open while the exchange is closed
+   * During the session the usual endpoint TTLs apply
+   *
+   * @example
+   * ```typescript
+   * marketHours: { exchange: 'NASDAQ' }
+   * ```
+   */
+  marketHours?: MarketHoursConfig;
 }
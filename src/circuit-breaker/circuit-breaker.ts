@@ -0,0 +1,240 @@
+/**
+ * Circuit breaker with one circuit per endpoint family
+ */
+
+import {
+  FMPAPIError,
+  FMPCircuitOpenError,
+  FMPNetworkError,
+  FMPServerError,
+  FMPTimeoutError,
+} from '../errors/index.js';
+import type {
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStateChange,
+} from './types.js';
+
+/**
+ * State of one circuit
+ */
+interface Circuit {
+  state: CircuitState;
+  /** Failure times within the window (ms since epoch) */
+  failures: number[];
+  openedAt: number;
+  probing: boolean;
+}
+
+/**
+ * Default endpoint family: the first path segment
+ */
+function defaultFamily(endpoint: string): string {
+  return endpoint.split('/')[0] ?? endpoint;
+}
+
+/**
+ * Default failure check: the API is down or unreachable
+ */
+function defaultIsFailure(error: unknown): boolean {
+  return (
+    error instanceof FMPTimeoutError ||
+    error instanceof FMPNetworkError ||
+    error instanceof FMPServerError
+  );
+}
+
+/**
+ * Stops calling endpoint families that keep failing
+ *
+ * Features:
+ * - Opens after `failureThreshold` failures within `windowMs`
+ * - Fails fast with `FMPCircuitOpenError` while open
+ * - After `openMs`, lets one probe through (half-open) and closes on success
+ * - Reports every transition through `onStateChange`
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 3 });
+ * const data = await breaker.execute('profile', () => fetchProfile());
+ * console.log(breaker.state('profile')); // 'closed'
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly windowMs: number;
+  private readonly openMs: number;
+  private readonly familyOf: (endpoint: string) => string;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly onStateChange?: (change: CircuitStateChange) => void;
+  private readonly circuits = new Map<string, Circuit>();
+
+  /**
+   * Create a circuit breaker
+   * @param config - Circuit breaker configuration
+   */
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = Math.max(1, config.failureThreshold ?? 5);
+    this.windowMs = config.windowMs ?? 60000;
+    this.openMs = config.openMs ?? 30000;
+    this.familyOf = config.family ?? defaultFamily;
+    this.isFailure = config.isFailure ?? defaultIsFailure;
+    this.onStateChange = config.onStateChange;
+  }
+
+  /**
+   * Get the endpoint family an endpoint belongs to
+   */
+  family(endpoint: string): string {
+    return this.familyOf(endpoint);
+  }
+
+  /**
+   * Get the current state of a family's circuit
+   * An open circuit whose `openMs` has elapsed is reported as half-open
+   */
+  state(family: string): CircuitState {
+    const circuit = this.circuits.get(family);
+    if (!circuit) {
+      return 'closed';
+    }
+    if (circuit.state === 'open' && this.remainingOpenMs(circuit) === 0) {
+      return 'half-open';
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Get the state of every family that has been called
+   */
+  states(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const family of this.circuits.keys()) {
+      states[family] = this.state(family);
+    }
+    return states;
+  }
+
+  /**
+   * Close every circuit and forget recorded failures
+   */
+  reset(): void {
+    for (const [family, circuit] of this.circuits) {
+      this.transition(family, circuit, 'closed');
+    }
+    this.circuits.clear();
+  }
+
+  /**
+   * Run a request through the circuit of its endpoint family
+   * @param endpoint - API endpoint
+   * @param run - Sends the request
+   * @throws {FMPCircuitOpenError} If the circuit is open
+   */
+  async execute<T>(endpoint: string, run: () => Promise<T>): Promise<T> {
+    const family = this.familyOf(endpoint);
+    const circuit = this.circuit(family);
+
+    if (circuit.state === 'open') {
+      const remaining = this.remainingOpenMs(circuit);
+      if (remaining > 0) {
+        throw new FMPCircuitOpenError(endpoint, family, remaining);
+      }
+      this.transition(family, circuit, 'half-open');
+    }
+
+    const probe = circuit.state === 'half-open';
+    if (probe) {
+      // Other calls fail fast until the probe settles
+      if (circuit.probing) {
+        throw new FMPCircuitOpenError(endpoint, family, 0);
+      }
+      circuit.probing = true;
+    }
+
+    try {
+      const result = await run();
+      this.recordSuccess(family, circuit);
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure(family, circuit);
+      } else if (error instanceof FMPAPIError && error.status !== undefined) {
+        // The API answered, so it is up
+        this.recordSuccess(family, circuit);
+      }
+      throw error;
+    } finally {
+      if (probe) {
+        circuit.probing = false;
+      }
+    }
+  }
+
+  /**
+   * Get or create the circuit for a family
+   */
+  private circuit(family: string): Circuit {
+    let circuit = this.circuits.get(family);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: [], openedAt: 0, probing: false };
+      this.circuits.set(family, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Time left before an open circuit lets a probe through (ms)
+   */
+  private remainingOpenMs(circuit: Circuit): number {
+    return Math.max(0, circuit.openedAt + this.openMs - Date.now());
+  }
+
+  /**
+   * Close a half-open circuit after a successful probe
+   */
+  private recordSuccess(family: string, circuit: Circuit): void {
+    if (circuit.state === 'half-open') {
+      circuit.failures = [];
+      this.transition(family, circuit, 'closed');
+    }
+  }
+
+  /**
+   * Count a failure, opening the circuit at the threshold or on a failed probe
+   */
+  private recordFailure(family: string, circuit: Circuit): void {
+    const now = Date.now();
+    circuit.failures = circuit.failures.filter(
+      (time) => now - time < this.windowMs
+    );
+    circuit.failures.push(now);
+
+    if (
+      circuit.state === 'half-open' ||
+      (circuit.state === 'closed' &&
+        circuit.failures.length >= this.failureThreshold)
+    ) {
+      circuit.openedAt = now;
+      this.transition(family, circuit, 'open');
+    }
+  }
+
+  /**
+   * Change a circuit's state and report the transition
+   */
+  private transition(family: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state;
+    if (from === to) {
+      return;
+    }
+    circuit.state = to;
+    this.onStateChange?.({
+      family,
+      from,
+      to,
+      failures: circuit.failures.length,
+      at: Date.now(),
+    });
+  }
+}
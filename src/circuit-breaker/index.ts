@@ -0,0 +1,10 @@
+/**
+ * Circuit breaker module exports
+ */
+
+export { CircuitBreaker } from './circuit-breaker.js';
+export type {
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStateChange,
+} from './types.js';
@@ -0,0 +1,96 @@
+/**
+ * Circuit breaker types
+ */
+
+/**
+ * State of the circuit for an endpoint family
+ * - `closed`: requests are sent normally
+ * - `open`: requests fail fast with `FMPCircuitOpenError`
+ * - `half-open`: a single probe request is sent to test recovery
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit state transition, passed to `onStateChange`
+ */
+export interface CircuitStateChange {
+  /** Endpoint family (e.g. "historical-chart") */
+  family: string;
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+  /** Failures counted in the current window */
+  failures: number;
+  /** Time of the transition (ms since epoch) */
+  at: number;
+}
+
+/**
+ * Circuit breaker configuration
+ *
+ * @example
+ * ```typescript
+ * const fmp = new FMP({
+ *   apiKey: 'your-api-key',
+ *   cache: { enabled: true },
+ *   circuitBreaker: {
+ *     failureThreshold: 5,
+ *     windowMs: 60000,
+ *     openMs: 30000,
+ *     staleTTL: CacheTTL.DAY,
+ *     onStateChange: ({ family, to }) => alert(`FMP ${family} is ${to}`),
+ *   },
+ * });
+ * ```
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Enable or disable the circuit breaker
+   * @default true (when a circuitBreaker config is provided)
+   */
+  enabled?: boolean;
+
+  /**
+   * Number of failures within `windowMs` that opens the circuit
+   * @default 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Window in which failures are counted (ms)
+   * @default 60000
+   */
+  windowMs?: number;
+
+  /**
+   * How long the circuit stays open before a probe is let through (ms)
+   * @default 30000
+   */
+  openMs?: number;
+
+  /**
+   * Map an endpoint to its family; each family has its own circuit
+   * @default the first path segment (e.g. "historical-chart/5min" -> "historical-chart")
+   */
+  family?: (endpoint: string) => string;
+
+  /**
+   * Decide whether an error counts as a failure
+   * @default timeouts, network errors and 5xx responses
+   */
+  isFailure?: (error: unknown) => boolean;
+
+  /**
+   * How long cached responses remain available after they expire (ms), to
+   * be served while their circuit is open. Requires caching with a provider
+   * that implements `getEntry`; 0 disables
+   * @default 0
+   */
+  staleTTL?: number;
+
+  /**
+   * Called whenever a circuit changes state
+   */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
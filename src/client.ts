@@ -1,12 +1,82 @@
 import ky, { type KyInstance, type Options } from 'ky';
-import type { FMPConfig } from './types/common.js';
-import type { CacheProvider, EndpointTTLConfig } from './cache/index.js';
+import type {
+  FMPConfig,
+  NetworkMode,
+  RequestOptions,
+} from './types/common.js';
+import type {
+  CacheEntry,
+  CacheProvider,
+  EndpointTTLConfig,
+  StaleConfig,
+  TTLExplanation,
+  CacheInvalidation,
+} from './cache/index.js';
 import {
   MemoryCache,
   CacheTTL,
   DEFAULT_ENDPOINT_TTLS,
+  EndpointPatterns,
+  MarketHoursPolicy,
 } from './cache/index.js';
-import { FMPAPIError } from './errors/index.js';
+import {
+  cikTag,
+  requestTags,
+  resourceTag,
+  symbolTag,
+} from './cache/tags.js';
+import {
+  cacheNamespace,
+  createCacheKey,
+  legacyCacheKey,
+} from './cache/keys.js';
+import { isNegativeEntry, toNegativeEntry } from './cache/negative.js';
+import type { NegativeCacheEntry } from './cache/negative.js';
+import { MarketResource } from './resources/market.js';
+import type { RateLimiter } from './rate-limit/index.js';
+import { TokenBucketRateLimiter } from './rate-limit/index.js';
+import type {
+  ValidationMode,
+  SchemaValidationResult,
+} from './schemas/index.js';
+import { validateResponse } from './schemas/index.js';
+import { FixtureTransport } from './fixtures/index.js';
+import type {
+  Middleware,
+  MiddlewareContext,
+  ResponseBodyType,
+} from './middleware/index.js';
+import {
+  composeMiddleware,
+  interceptorMiddleware,
+  retryMiddleware,
+  circuitBreakerMiddleware,
+} from './middleware/index.js';
+import type { CacheStatus, Instrumentation } from './telemetry/types.js';
+import { currentMethod } from './telemetry/call-site.js';
+import { currentPrefetch } from './prefetch/context.js';
+import { Redactor, withoutUrl } from './utils/redact.js';
+import { RetryPolicy } from './retry/index.js';
+import { CircuitBreaker } from './circuit-breaker/index.js';
+import { ApiKeyPool } from './api-keys/index.js';
+import { RequestBudget } from './budget/index.js';
+import type { DailyUsage } from './budget/index.js';
+import type { FMPErrorContext } from './errors/index.js';
+import {
+  FMPError,
+  FMPAPIError,
+  FMPCircuitOpenError,
+  FMPNotFoundError,
+  FMPBudgetExceededError,
+  FMPOfflineError,
+  FMPRateLimitError,
+  FMPNetworkError,
+  FMPTimeoutError,
+  FMPServerError,
+  FMPSchemaError,
+  createAPIError,
+  createErrorFromMessage,
+} from './errors/index.js';
 
 /**
  * Default configuration values
@@ -15,119 +85,391 @@ const DEFAULT_CONFIG = {
   baseUrl: 'https://financialmodelingprep.com/stable',
   timeout: 30000,
   retries: 3,
+  dedupe: true,
+  mode: 'online',
+  validation: 'off',
   cache: {
     enabled: false, // Disabled by default - opt-in
     defaultTTL: CacheTTL.MEDIUM, // 5 minutes
     maxSize: 1000,
     useDefaultTTLs: true,
+    staleWhileRevalidate: 0,
+    staleIfError: 0,
+    negativeTTL: 0, // Negative results cached like any other response
+    migrateLegacyKeys: false,
+  },
+  rateLimit: {
+    enabled: true, // Enabled whenever a rateLimit config is provided
+  },
+  circuitBreaker: {
+    enabled: true, // Enabled whenever a circuitBreaker config is provided
+    staleTTL: 0,
   },
 } as const;
 
 /**
- * Generate a cache key from endpoint and parameters
+ * Options accepted by `FMPClient.get` and `FMPClient.getText`
+ * Other ky options are not passed through: retries, hooks and the
+ * request method are managed by the client
+ */
+export interface FMPRequestOptions extends RequestOptions {
+  /** Query parameters for the request */
+  searchParams?: Options['searchParams'];
+  /** Extra request headers (middleware see and may change them) */
+  headers?: Headers | Record<string, string>;
+}
+
+/**
+ * Mutable per-call state shared with the ky hooks through `options.context`
+ */
+interface RequestTracker {
+  /** Number of attempts made so far (0 until the first request is sent) */
+  attempts: number;
+  /** Status of the last response received */
+  status?: number;
+  /** Number of rate limit responses received */
+  rateLimited: number;
+  /** Cache involvement */
+  cache: CacheStatus;
+  /** Response body size in bytes (only measured with telemetry) */
+  bytes?: number;
+}
+
+/**
+ * Convert query parameters to strings, dropping the API key and empty values
+ */
+function sanitizeParams(
+  params?: Record<string, unknown> | URLSearchParams
+): Record<string, string> | undefined {
+  if (!params) {
+    return undefined;
+  }
+  const entries =
+    params instanceof URLSearchParams
+      ? Array.from(params.entries())
+      : Object.entries(params);
+  const sanitized: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    if (key === 'apikey' || value === undefined || value === null) {
+      continue;
+    }
+    sanitized[key] = String(value);
+  }
+  return sanitized;
+}
+
+/**
+ * Read the "Error Message" field FMP returns in some HTTP 200 responses
+ * Only the first chunk is inspected unless it looks like an error object,
+ * so large successful payloads are not read twice
  */
-function defaultKeyGenerator(
-  endpoint: string,
-  params?: Record<string, unknown>
-): string {
-  if (!params || Object.keys(params).length === 0) {
-    return endpoint;
-  }
-  // Sort keys for consistent cache keys
-  const sortedParams = Object.keys(params)
-    .sort()
-    .map((key) => `${key}=${String(params[key])}`)
-    .join('&');
-  return `${endpoint}?${sortedParams}`;
+async function readErrorMessage(
+  response: Response
+): Promise<string | undefined> {
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!contentType.includes('json') || !response.body) {
+    return undefined;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    const first = await reader.read();
+    let text = first.value ? decoder.decode(first.value, { stream: true }) : '';
+    if (
+      !text.trimStart().startsWith('{') ||
+      !text.includes('"Error Message"')
+    ) {
+      return undefined;
+    }
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+
+    const body = JSON.parse(text) as Record<string, unknown>;
+    const message = body['Error Message'];
+    return typeof message === 'string' ? message : undefined;
+  } catch {
+    return undefined;
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
 }
 
 /**
  * Core HTTP client for FMP API requests
  */
 export class FMPClient {
-  private readonly apiKey: string;
+  private readonly keyPool: ApiKeyPool;
+  private readonly redactor: Redactor;
   private readonly client: KyInstance;
-  private readonly interceptors?: FMPConfig['interceptors'];
+  private readonly middleware: Middleware[];
+  private readonly builtInMiddleware: Middleware[];
+  private readonly baseUrl: string;
   private readonly cache?: CacheProvider;
   private readonly cacheEnabled: boolean;
   private readonly defaultTTL: number;
-  private readonly endpointTTLs: EndpointTTLConfig;
+  private readonly configuredTTLs: EndpointTTLConfig;
+  private readonly endpointTTLs: EndpointPatterns<number>;
+  private readonly staleWindows: Required<StaleConfig>;
+  private readonly endpointStale: EndpointPatterns<StaleConfig>;
+  private readonly revalidating = new Set<string>();
+  private readonly marketHours?: MarketHoursPolicy;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly budget?: RequestBudget;
+  private readonly staleTTL: number;
+  private readonly dedupe: boolean;
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  /** API key chosen for the current attempt of a call */
+  private readonly attemptKeys = new WeakMap<MiddlewareContext, string>();
+  private readonly basePath: string;
+  private readonly validation: ValidationMode;
+  private readonly onSchemaDrift?: FMPConfig['onSchemaDrift'];
+  private readonly driftWarned = new Set<string>();
+  private readonly fixtures?: FixtureTransport;
+  private readonly instrumentation?: Instrumentation;
   private readonly cacheKeyGenerator: (
     endpoint: string,
     params?: Record<string, unknown>
   ) => string;
+  private readonly migrateLegacyKeys: boolean;
+  private readonly negativeTTL: number;
+  private readonly mode: NetworkMode;
 
   constructor(config: FMPConfig) {
-    if (!config.apiKey || config.apiKey.trim() === '') {
+    this.keyPool = new ApiKeyPool(
+      [...(config.apiKey ? [config.apiKey] : []), ...(config.apiKeys ?? [])],
+      config.keyRotation
+    );
+    if (this.keyPool.keys().length === 0) {
       throw new FMPAPIError('API key is required');
     }
 
-    this.apiKey = config.apiKey;
-    this.interceptors = config.interceptors;
+    this.redactor = new Redactor(this.keyPool.keys(), config.redact);
+    this.middleware = [...(config.middleware ?? [])];
+    this.dedupe = config.dedupe ?? DEFAULT_CONFIG.dedupe;
+    this.mode = config.mode ?? DEFAULT_CONFIG.mode;
+    this.validation = config.validation ?? DEFAULT_CONFIG.validation;
+    this.onSchemaDrift = config.onSchemaDrift;
+    this.instrumentation = config.telemetry;
 
     // Initialize cache
     const cacheConfig = config.cache;
     this.cacheEnabled = cacheConfig?.enabled ?? DEFAULT_CONFIG.cache.enabled;
     this.defaultTTL = cacheConfig?.defaultTTL ?? DEFAULT_CONFIG.cache.defaultTTL;
-    this.cacheKeyGenerator = cacheConfig?.keyGenerator ?? defaultKeyGenerator;
+    const namespace = cacheNamespace(
+      this.keyPool.keys(),
+      (config.baseUrl ?? DEFAULT_CONFIG.baseUrl).replace(/\/+$/, ''),
+      cacheConfig?.namespace
+    );
+    this.cacheKeyGenerator =
+      cacheConfig?.keyGenerator ??
+      ((endpoint, params) => createCacheKey(namespace, endpoint, params));
+    this.migrateLegacyKeys =
+      cacheConfig?.migrateLegacyKeys ?? DEFAULT_CONFIG.cache.migrateLegacyKeys;
+    this.negativeTTL =
+      cacheConfig?.negativeTTL ?? DEFAULT_CONFIG.cache.negativeTTL;
 
     // Build endpoint TTL configuration
     const useDefaultTTLs =
       cacheConfig?.useDefaultTTLs ?? DEFAULT_CONFIG.cache.useDefaultTTLs;
-    this.endpointTTLs = {
+    this.configuredTTLs = cacheConfig?.endpointTTL ?? {};
+    this.endpointTTLs = new EndpointPatterns({
       ...(useDefaultTTLs ? DEFAULT_ENDPOINT_TTLS : {}),
-      ...(cacheConfig?.endpointTTL ?? {}),
+      ...this.configuredTTLs,
+    });
+    this.staleWindows = {
+      staleWhileRevalidate:
+        cacheConfig?.staleWhileRevalidate ??
+        DEFAULT_CONFIG.cache.staleWhileRevalidate,
+      staleIfError:
+        cacheConfig?.staleIfError ?? DEFAULT_CONFIG.cache.staleIfError,
     };
+    this.endpointStale = new EndpointPatterns(cacheConfig?.endpointStale ?? {});
+    if (
+      this.cacheEnabled &&
+      cacheConfig?.marketHours &&
+      (cacheConfig.marketHours.enabled ?? true)
+    ) {
+      this.marketHours = new MarketHoursPolicy(
+        new MarketResource(this),
+        cacheConfig.marketHours
+      );
+    }
 
     if (this.cacheEnabled) {
       this.cache =
         cacheConfig?.provider ??
         new MemoryCache({
           maxSize: cacheConfig?.maxSize ?? DEFAULT_CONFIG.cache.maxSize,
+          maxBytes: cacheConfig?.maxBytes,
+          maxEntryBytes: cacheConfig?.maxEntryBytes,
+          compressionThreshold: cacheConfig?.compressionThreshold,
         });
     }
 
+    // Initialize daily request budget (kept apart from the response cache, so
+    // clearing or evicting cached responses never resets the count)
+    if (config.budget) {
+      this.budget = new RequestBudget(config.budget);
+    }
+
+    // Initialize rate limiter
+    const rateLimitConfig = config.rateLimit;
+    if (
+      rateLimitConfig &&
+      (rateLimitConfig.enabled ?? DEFAULT_CONFIG.rateLimit.enabled)
+    ) {
+      this.rateLimiter =
+        rateLimitConfig.limiter ??
+        new TokenBucketRateLimiter({
+          requestsPerMinute: rateLimitConfig.requestsPerMinute,
+          burst: rateLimitConfig.burst,
+        });
+    }
+
+    // Initialize circuit breaker
+    const breakerConfig = config.circuitBreaker;
+    if (
+      breakerConfig &&
+      (breakerConfig.enabled ?? DEFAULT_CONFIG.circuitBreaker.enabled)
+    ) {
+      this.circuitBreaker = new CircuitBreaker(breakerConfig);
+    }
+    this.staleTTL = this.circuitBreaker
+      ? (breakerConfig?.staleTTL ?? DEFAULT_CONFIG.circuitBreaker.staleTTL)
+      : 0;
+
+    // Initialize fixture transport (record/replay)
+    if (config.fixtures && config.fixtures.mode !== 'passthrough') {
+      this.fixtures = new FixtureTransport(config.fixtures);
+    }
+    const fixtures = this.fixtures;
+
     const baseUrl = config.baseUrl ?? DEFAULT_CONFIG.baseUrl;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.basePath = new URL(baseUrl).pathname.replace(/\/+$/, '');
     const timeout = config.timeout ?? DEFAULT_CONFIG.timeout;
-    const retry = config.retries ?? DEFAULT_CONFIG.retries;
+    const retryPolicy = new RetryPolicy({
+      ...config.retry,
+      limit: config.retry?.limit ?? config.retries ?? DEFAULT_CONFIG.retries,
+    });
+
+    // Built-in middleware run after user middleware, closest to the request
+    // Retries wrap the interceptors so every attempt is reported, and the
+    // circuit breaker so an opened circuit stops further attempts. Key
+    // failover sits below retries, so an attempt sent again with another
+    // key is reported and counted like any other
+    this.builtInMiddleware = [
+      retryMiddleware(retryPolicy),
+      this.keyFailoverMiddleware,
+    ];
+    if (this.circuitBreaker) {
+      this.builtInMiddleware.push(
+        circuitBreakerMiddleware(this.circuitBreaker)
+      );
+    }
+    if (config.interceptors) {
+      this.builtInMiddleware.push(
+        interceptorMiddleware(config.interceptors, (ctx) =>
+          this.redactor.url(ctx.url)
+        )
+      );
+    }
+    if (this.validation !== 'off') {
+      this.builtInMiddleware.push(this.validationMiddleware);
+    }
 
     // Create ky instance with default configuration
     this.client = ky.create({
       prefixUrl: baseUrl,
       timeout,
-      retry: {
-        limit: retry,
-        methods: ['get'],
-        statusCodes: [408, 413, 429, 500, 502, 503, 504],
-      },
+      // Retries are handled by the retry middleware
+      retry: 0,
+      // Record or replay responses instead of calling the API directly
+      fetch: fixtures
+        ? (input, init) => {
+            const request = new Request(input, init);
+            const { endpoint, params } = this.parseRequestUrl(request.url);
+            return fixtures.fetch(request, endpoint, params);
+          }
+        : undefined,
       hooks: {
         beforeRequest: [
-          (request) => {
-            // Call interceptor before request
-            this.interceptors?.onRequest?.(request.url, request);
+          async (request, options) => {
+            // Track the attempt number for error reporting
+            const tracker = options.context.tracker as
+              | RequestTracker
+              | undefined;
+            if (tracker) {
+              tracker.attempts++;
+            }
+
+            // Wait for a rate limit token (also applies to retries)
+            await this.rateLimiter?.acquire(request.signal);
+
+            // Count each request sent to the API against the daily budget
+            // (cache hits and replayed fixtures never reach it)
+            if (this.budget && fixtures?.mode !== 'replay') {
+              await this.budget.consume(
+                this.parseRequestUrl(request.url).endpoint
+              );
+            }
 
-            // Add API key to all requests
+            // Add the API key chosen for this attempt
             const url = new URL(request.url);
-            url.searchParams.set('apikey', this.apiKey);
+            url.searchParams.set('apikey', options.context.apiKey as string);
             return new Request(url.toString(), request);
           },
         ],
         afterResponse: [
-          async (request, _options, response) => {
-            // Call interceptor after successful response
+          async (request, options, response) => {
+            const tracker = options.context.tracker as
+              | RequestTracker
+              | undefined;
+            if (tracker) {
+              tracker.status = response.status;
+            }
+            const context = this.getErrorContext(
+              request.url,
+              tracker?.attempts
+            );
+
+            let error: FMPError;
             if (response.ok) {
-              this.interceptors?.onResponse?.(request.url, response);
-              return response;
+              // FMP reports some failures as HTTP 200 with an "Error Message" body
+              const errorMessage = await readErrorMessage(response);
+              if (errorMessage === undefined) {
+                return;
+              }
+
+              error = createErrorFromMessage(
+                this.redactor.text(errorMessage),
+                response.status,
+                response.statusText,
+                context
+              );
+            } else {
+              // Pass through the raw response, typed by status code
+              const errorText = await response.text().catch(() => '');
+              error = createAPIError(
+                this.redactor.text(
+                  errorText || `HTTP ${response.status}: ${response.statusText}`
+                ),
+                response.status,
+                response.statusText,
+                context,
+                response.headers
+              );
             }
 
-            // Handle all errors the same way - just pass through the raw response
-            const errorText = await response.text().catch(() => '');
-            const error = new FMPAPIError(
-              errorText || `HTTP ${response.status}: ${response.statusText}`,
-              response.status,
-              response.statusText
-            );
-            this.interceptors?.onError?.(request.url, error);
+            if (tracker && error instanceof FMPRateLimitError) {
+              tracker.rateLimited++;
+            }
             throw error;
           },
         ],
@@ -136,82 +478,809 @@ export class FMPClient {
   }
 
   /**
-   * Get the TTL for a specific endpoint
-   * Checks for exact match first, then falls back to default TTL
+   * Split a request URL into endpoint and params (without the API key)
+   */
+  private parseRequestUrl(url: string): {
+    endpoint: string;
+    params?: Record<string, string>;
+  } {
+    const parsed = new URL(url);
+    const endpoint = parsed.pathname.startsWith(this.basePath)
+      ? parsed.pathname.slice(this.basePath.length)
+      : parsed.pathname;
+    return {
+      endpoint: endpoint.replace(/^\/+/, ''),
+      params: sanitizeParams(parsed.searchParams),
+    };
+  }
+
+  /**
+   * Build the error context (endpoint, redacted params and URL) for a request URL
+   */
+  private getErrorContext(url: string, attempts?: number): FMPErrorContext {
+    const { endpoint, params } = this.parseRequestUrl(url);
+    return this.createErrorContext(endpoint, params, attempts);
+  }
+
+  /**
+   * Build the error context for a request, masking redacted params
+   */
+  private createErrorContext(
+    endpoint: string,
+    params?: Record<string, string>,
+    attempts?: number
+  ): FMPErrorContext {
+    const query = new URLSearchParams(params).toString();
+    return {
+      endpoint,
+      params: this.redactor.params(params),
+      url: this.redactor.url(
+        `${this.baseUrl}/${endpoint}${query ? `?${query}` : ''}`
+      ),
+      attempts,
+    };
+  }
+
+  /**
+   * Wrap a non-FMP error (timeout, network failure, invalid JSON)
+   * Cancellation through the caller's signal is passed through as-is
+   */
+  private wrapError(
+    error: unknown,
+    endpoint: string,
+    params?: Record<string, unknown>,
+    attempts?: number,
+    signal?: AbortSignal
+  ): unknown {
+    // FMP errors are already typed
+    if (error instanceof FMPError) {
+      return error;
+    }
+
+    // The caller cancelled the request - not an API failure
+    if (signal?.aborted) {
+      return error;
+    }
+
+    const context = this.createErrorContext(
+      endpoint,
+      sanitizeParams(params),
+      attempts
+    );
+    // ky's timeout message includes the full request URL
+    const message = this.redactor.text(
+      error instanceof Error ? error.message : 'Unknown error occurred'
+    );
+
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return new FMPTimeoutError(message, context);
+    }
+    if (error instanceof TypeError) {
+      // fetch() rejects with a TypeError when the network request fails
+      return new FMPNetworkError(message, context);
+    }
+    return new FMPAPIError(message, undefined, undefined, context);
+  }
+
+  /**
+   * Register middleware, run after any middleware registered before it
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Send a request through the middleware chain
+   * Errors from the request itself are typed before middleware see them
+   */
+  private async dispatch(
+    endpoint: string,
+    responseType: ResponseBodyType,
+    options: FMPRequestOptions | undefined,
+    tracker: RequestTracker
+  ): Promise<Response> {
+    if (this.mode === 'offline') {
+      throw new FMPOfflineError(
+        endpoint,
+        this.redactor.params(
+          sanitizeParams(
+            options?.searchParams as Record<string, unknown> | undefined
+          )
+        )
+      );
+    }
+
+    const baseUrl = this.baseUrl;
+    const ctx: MiddlewareContext = {
+      endpoint,
+      params:
+        sanitizeParams(
+          options?.searchParams as Record<string, unknown> | undefined
+        ) ?? {},
+      headers: new Headers(options?.headers),
+      get url() {
+        const query = new URLSearchParams(this.params).toString();
+        return `${baseUrl}/${this.endpoint}${query ? `?${query}` : ''}`;
+      },
+      responseType,
+      signal: options?.signal,
+      state: {},
+    };
+
+    const handler = composeMiddleware(
+      [...this.middleware, ...this.builtInMiddleware],
+      async (request) => {
+        try {
+          // Middleware and interceptors never see the URL with the API key
+          return withoutUrl(
+            await this.client.get(
+              request.endpoint,
+              this.toKyOptions(
+                {
+                  ...options,
+                  searchParams: request.params,
+                  headers: request.headers,
+                },
+                tracker,
+                this.attemptKeys.get(request)
+              )
+            )
+          );
+        } catch (error) {
+          throw this.wrapError(
+            error,
+            request.endpoint,
+            request.params,
+            tracker.attempts || undefined,
+            request.signal
+          );
+        }
+      }
+    );
+    return handler(ctx);
+  }
+
+  /**
+   * Built-in middleware choosing the API key of each attempt
+   * After a 402/429 for one key, the attempt is sent again with another
+   * key through the rest of the chain
+   */
+  private readonly keyFailoverMiddleware: Middleware = async (ctx, next) => {
+    const tried = new Set<string>();
+    let apiKey = this.keyPool.select(ctx.endpoint);
+    for (;;) {
+      if (apiKey !== undefined) {
+        this.attemptKeys.set(ctx, apiKey);
+      }
+      try {
+        return await next();
+      } catch (error) {
+        // Move to another key after a 402/429 for this one
+        if (
+          apiKey !== undefined &&
+          !ctx.signal?.aborted &&
+          this.keyPool.report(apiKey, ctx.endpoint, error)
+        ) {
+          tried.add(apiKey);
+          const nextKey = this.keyPool.select(ctx.endpoint, tried);
+          if (nextKey !== undefined) {
+            apiKey = nextKey;
+            continue;
+          }
+        }
+        throw error;
+      }
+    }
+  };
+
+  /**
+   * Built-in middleware checking JSON responses against the SDK types
+   */
+  private readonly validationMiddleware: Middleware = async (ctx, next) => {
+    const response = await next();
+    if (ctx.responseType !== 'json') {
+      return response;
+    }
+    // Invalid JSON is reported when the body is parsed
+    const data: unknown = await response
+      .clone()
+      .json()
+      .catch(() => undefined);
+    if (data !== undefined) {
+      this.validateSchema(ctx.endpoint, data);
+    }
+    return response;
+  };
+
+  /**
+   * Get the TTL for a specific endpoint and params
+   * Uses the most specific matching pattern, then falls back to default TTL
+   */
+  private getTTLForEndpoint(
+    endpoint: string,
+    params?: Record<string, unknown>
+  ): number {
+    return this.endpointTTLs.match(endpoint, params)?.value ?? this.defaultTTL;
+  }
+
+  /**
+   * Explain which TTL applies to an endpoint and params, and why
+   */
+  explainTTL(
+    endpoint: string,
+    params?: Record<string, unknown>
+  ): TTLExplanation {
+    const matches = this.endpointTTLs
+      .matches(endpoint, params)
+      .map(({ pattern, value }) => ({ pattern, ttl: value }));
+    const winner = matches[0];
+    const marketHours = this.marketHours?.applies(
+      endpoint,
+      params,
+      currentMethod()
+    )
+      ? this.marketHours
+      : undefined;
+    const ttl = marketHours
+      ? marketHours.ttl(winner?.ttl ?? this.defaultTTL)
+      : (winner?.ttl ?? this.defaultTTL);
+
+    return {
+      endpoint,
+      ttl,
+      source: !winner
+        ? 'defaultTTL'
+        : Object.hasOwn(this.configuredTTLs, winner.pattern)
+          ? 'endpointTTL'
+          : 'defaults',
+      pattern: winner?.pattern,
+      matches,
+      cached: this.cacheEnabled && ttl > 0,
+      market: marketHours?.state(),
+    };
+  }
+
+  /**
+   * Get the stale windows for a specific endpoint and params
+   * Settings of the most specific matching pattern override the global ones
+   */
+  private getStaleWindows(
+    endpoint: string,
+    params?: Record<string, unknown>
+  ): Required<StaleConfig> {
+    return {
+      ...this.staleWindows,
+      ...this.endpointStale.match(endpoint, params)?.value,
+    };
+  }
+
+  /**
+   * Read a cache entry and its age
+   * Providers without `getEntry` only return fresh values (age 0)
+   */
+  private async readCache<T>(
+    cacheKey: string,
+    includeExpired = false
+  ): Promise<{ value: T; age: number } | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
+    if (!this.cache.getEntry) {
+      const value = await this.cache.get<T>(cacheKey);
+      return value === undefined ? undefined : { value, age: 0 };
+    }
+    const entry = await this.cache.getEntry<T>(cacheKey, { includeExpired });
+    return entry && { value: entry.value, age: Date.now() - entry.createdAt };
+  }
+
+  /**
+   * Move an entry stored under the key format of earlier versions to its
+   * namespaced key (when `migrateLegacyKeys` is on)
+   * The entry keeps its remaining lifetime, or gets `ttl` when the
+   * provider does not expose entry ages
+   */
+  private async migrateLegacyEntry<T>(
+    cacheKey: string,
+    endpoint: string,
+    params: Record<string, unknown> | undefined,
+    ttl: number
+  ): Promise<{ value: T; age: number } | undefined> {
+    const legacyKey = legacyCacheKey(endpoint, params);
+    if (!this.cache || !this.migrateLegacyKeys || legacyKey === cacheKey) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    let entry: CacheEntry<T> | undefined;
+    if (this.cache.getEntry) {
+      entry = await this.cache.getEntry<T>(legacyKey);
+    } else {
+      const value = await this.cache.get<T>(legacyKey);
+      entry = value === undefined ? undefined : { value, createdAt: now, ttl };
+    }
+    if (!entry) {
+      return undefined;
+    }
+
+    const remaining = entry.createdAt + entry.ttl - now;
+    if (remaining > 0) {
+      await this.cache.set(
+        cacheKey,
+        entry.value,
+        remaining,
+        entry.tags
+      );
+    }
+    await this.cache.delete(legacyKey);
+    return { value: entry.value, age: now - entry.createdAt };
+  }
+
+  /**
+   * Refresh a cache entry in the background, at most once at a time per key
+   * Failures are ignored; the stale entry stays until it expires
    */
-  private getTTLForEndpoint(endpoint: string): number {
-    // Check for exact match
-    const ttl = this.endpointTTLs[endpoint];
-    if (ttl !== undefined) {
-      return ttl;
+  private revalidate(
+    endpoint: string,
+    cacheKey: string,
+    ttl: number,
+    options: FMPRequestOptions | undefined
+  ): void {
+    if (this.revalidating.has(cacheKey)) {
+      return;
+    }
+    this.revalidating.add(cacheKey);
+    // Not joined with in-flight calls, which may be the one being served.
+    // The caller's signal and timeout belong to the call that was served
+    this.fetchJson(endpoint, cacheKey, ttl, {
+      ...options,
+      signal: undefined,
+      timeout: undefined,
+      cache: 'refresh',
+    })
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(cacheKey));
+  }
+
+  /**
+   * How long after expiry an entry may replace a failed request
+   * Circuit breaker and cache-only budget errors also honor `staleTTL`
+   */
+  private staleIfErrorWindow(error: unknown, staleIfError: number): number {
+    if (
+      error instanceof FMPCircuitOpenError ||
+      (error instanceof FMPBudgetExceededError &&
+        this.budget?.mode === 'cache-only')
+    ) {
+      return Math.max(staleIfError, this.staleTTL);
+    }
+    if (
+      error instanceof FMPTimeoutError ||
+      error instanceof FMPNetworkError ||
+      error instanceof FMPRateLimitError ||
+      error instanceof FMPServerError
+    ) {
+      return staleIfError;
+    }
+    return -Infinity;
+  }
+
+  /**
+   * Refuse calls once the daily budget is spent, unless cached responses
+   * may still be served (`cache-only`)
+   */
+  private checkBudget(endpoint: string): void {
+    if (this.budget?.mode === 'throw') {
+      this.budget.check(endpoint);
     }
-    // Return default TTL
-    return this.defaultTTL;
   }
 
   /**
    * Make a GET request to the FMP API
+   * Concurrent calls with the same cache key share a single request,
+   * unless the call has its own signal, timeout, headers, cache mode or TTL
    */
-  async get<T>(endpoint: string, options?: Options): Promise<T> {
-    // Get TTL for this endpoint
-    const ttl = this.getTTLForEndpoint(endpoint);
+  async get<T>(endpoint: string, options?: FMPRequestOptions): Promise<T> {
+    this.checkBudget(endpoint);
 
-    // Generate cache key
+    // Get TTL for this endpoint (a per-call TTL takes precedence)
     const searchParams = options?.searchParams as
       | Record<string, unknown>
       | undefined;
+    let ttl = options?.ttl ?? this.getTTLForEndpoint(endpoint, searchParams);
+
+    // Outside market hours, market data is cached until the next open
+    if (
+      this.marketHours &&
+      options?.ttl === undefined &&
+      options?.cache !== 'bypass' &&
+      this.marketHours.applies(endpoint, searchParams, currentMethod())
+    ) {
+      await this.marketHours.ready();
+      ttl = this.marketHours.ttl(ttl);
+    }
+
+    // Generate cache key
     const cacheKey = this.cacheKeyGenerator(endpoint, searchParams);
 
-    // Check cache first (only if TTL > 0 and caching is enabled)
-    if (this.cache && this.cacheEnabled && ttl > 0) {
-      const cached = await this.cache.get<T>(cacheKey);
-      if (cached !== undefined) {
-        return cached;
+    // A call that can be cancelled, time out or send headers of its own
+    // must not be shared with (or cancel) other callers, and one that reads or writes
+    // the cache differently must not get another call's result
+    if (
+      !this.dedupe ||
+      options?.signal !== undefined ||
+      options?.timeout !== undefined ||
+      options?.headers !== undefined ||
+      (options?.cache ?? 'default') !== 'default' ||
+      options?.ttl !== undefined
+    ) {
+      return this.fetchJson<T>(endpoint, cacheKey, ttl, options);
+    }
+
+    // Join an identical request that is already in flight
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = this.fetchJson<T>(
+      endpoint,
+      cacheKey,
+      ttl,
+      options
+    ).finally(() => {
+      this.inFlight.delete(cacheKey);
+    });
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Run a call with a fresh tracker, instrumented when telemetry is set
+   */
+  private track<T>(
+    endpoint: string,
+    run: (tracker: RequestTracker) => Promise<T>
+  ): Promise<T> {
+    const tracker: RequestTracker = {
+      attempts: 0,
+      rateLimited: 0,
+      cache: 'skip',
+    };
+    const instrumentation = this.instrumentation;
+    if (!instrumentation) {
+      return run(tracker);
+    }
+
+    return instrumentation.instrumentCall(
+      { endpoint, method: currentMethod() },
+      async (recorder) => {
+        try {
+          return await run(tracker);
+        } finally {
+          recorder.record({
+            status: tracker.status,
+            cache: tracker.cache,
+            attempts: tracker.attempts,
+            rateLimited: tracker.rateLimited,
+            bytes: tracker.bytes,
+          });
+        }
       }
+    );
+  }
+
+  /**
+   * Read a response body, measuring its size when instrumented
+   */
+  private async readBody(
+    response: Response,
+    responseType: ResponseBodyType,
+    tracker: RequestTracker
+  ): Promise<unknown> {
+    if (!this.instrumentation) {
+      return responseType === 'json' ? response.json() : response.text();
     }
+    const text = await response.text();
+    tracker.bytes = Buffer.byteLength(text);
+    return responseType === 'json' ? JSON.parse(text) : text;
+  }
 
-    try {
-      const response = await this.client.get(endpoint, options);
-      const data = await response.json<T>();
+  /**
+   * Resolve a JSON request from the cache or the network
+   */
+  private fetchJson<T>(
+    endpoint: string,
+    cacheKey: string,
+    ttl: number,
+    options?: FMPRequestOptions
+  ): Promise<T> {
+    return this.track(endpoint, (tracker) =>
+      this.resolveJson<T>(endpoint, cacheKey, ttl, options, tracker)
+    );
+  }
 
-      // Store in cache (only if TTL > 0 and caching is enabled)
-      if (this.cache && this.cacheEnabled && ttl > 0) {
-        await this.cache.set(cacheKey, data, ttl);
+  /**
+   * Look up the cache, then send the request through the middleware chain
+   */
+  private async resolveJson<T>(
+    endpoint: string,
+    cacheKey: string,
+    ttl: number,
+    options: FMPRequestOptions | undefined,
+    tracker: RequestTracker
+  ): Promise<T> {
+    const cacheMode = options?.cache ?? 'default';
+    const useCache =
+      this.cache !== undefined &&
+      this.cacheEnabled &&
+      ttl > 0 &&
+      cacheMode !== 'bypass';
+
+    const params = options?.searchParams as
+      | Record<string, unknown>
+      | undefined;
+    if (this.mode === 'offline') {
+      return this.resolveOffline<T>(endpoint, cacheKey, ttl, params, tracker);
+    }
+    const stale = this.getStaleWindows(endpoint, params);
+
+    // Check cache first (only if TTL > 0 and caching is enabled)
+    // Prefetch runs treat entries expiring within `refreshAhead` as expired
+    // and wait for the refresh instead of serving them stale
+    const prefetch = currentPrefetch();
+    const refreshAhead = prefetch?.refreshAhead ?? 0;
+    // prefer-cache mode serves entries whatever their age (except to
+    // prefetch runs, which are there to refresh them)
+    const ignoreExpiry = this.mode === 'prefer-cache' && !prefetch;
+    let cached: { value: T; age: number } | undefined;
+    if (useCache && cacheMode === 'default') {
+      cached =
+        (await this.readCache<T>(cacheKey, ignoreExpiry)) ??
+        (await this.migrateLegacyEntry<T>(cacheKey, endpoint, params, ttl));
+      if (cached && isNegativeEntry(cached.value)) {
+        if (ignoreExpiry || cached.age <= this.negativeTTL - refreshAhead) {
+          tracker.cache = 'negative';
+          return this.fromNegativeEntry<T>(cached.value, endpoint, params);
+        }
+        // Negative results are never served stale
+        cached = undefined;
+      }
+      if (cached && (ignoreExpiry || cached.age <= ttl - refreshAhead)) {
+        tracker.cache = cached.age <= ttl ? 'hit' : 'stale';
+        return cached.value;
+      }
+      if (
+        cached &&
+        !prefetch &&
+        cached.age <= ttl + stale.staleWhileRevalidate
+      ) {
+        tracker.cache = 'stale';
+        this.revalidate(endpoint, cacheKey, ttl, options);
+        return cached.value;
       }
+      tracker.cache = 'miss';
+    }
 
-      return data;
+    let response: Response;
+    try {
+      response = await this.dispatch(endpoint, 'json', options, tracker);
     } catch (error) {
-      // Re-throw FMP errors as-is
-      if (error instanceof FMPAPIError) {
-        throw error;
+      // Serve an expired entry when the request failed, the endpoint family
+      // is down or the daily budget is spent in cache-only mode
+      if (
+        cached &&
+        cached.age <= ttl + this.staleIfErrorWindow(error, stale.staleIfError)
+      ) {
+        tracker.cache = 'stale';
+        return cached.value;
       }
+      if (useCache) {
+        await this.cacheNegative(cacheKey, error, params);
+      }
+      throw error;
+    }
+    tracker.status = response.status;
+    let data: T;
+    try {
+      data = (await this.readBody(response, 'json', tracker)) as T;
+    } catch (error) {
+      throw this.wrapError(
+        error,
+        endpoint,
+        params,
+        tracker.attempts || undefined,
+        options?.signal
+      );
+    }
 
-      // Wrap unknown errors and call interceptor
-      const wrappedError = new FMPAPIError(
-        error instanceof Error ? error.message : 'Unknown error occurred'
+    // Store in cache (only if TTL > 0 and caching is enabled)
+    // Entries are kept past their TTL for as long as they may be served stale
+    if (
+      this.cache &&
+      useCache &&
+      !(await this.cacheNegative(cacheKey, data, params))
+    ) {
+      const keep = this.cache.getEntry
+        ? Math.max(stale.staleWhileRevalidate, stale.staleIfError, this.staleTTL)
+        : 0;
+      await this.cache.set(
+        cacheKey,
+        data,
+        ttl + keep,
+        requestTags(params, currentMethod())
       );
-      this.interceptors?.onError?.(endpoint, wrappedError);
-      throw wrappedError;
     }
+
+    return data;
   }
 
   /**
-   * Make a GET request and return raw text (for non-JSON endpoints like CSV)
+   * Serve a call from the cache without calling the API (`offline` mode)
+   * Entries are served whatever their age, and negative entries replayed
+   * @throws {FMPOfflineError} When nothing is cached for the call
    */
-  async getText(endpoint: string, options?: Options): Promise<string> {
-    try {
-      const response = await this.client.get(endpoint, options);
-      return await response.text();
-    } catch (error) {
-      if (error instanceof FMPAPIError) {
-        throw error;
-      }
-      const wrappedError = new FMPAPIError(
-        error instanceof Error ? error.message : 'Unknown error occurred'
+  private async resolveOffline<T>(
+    endpoint: string,
+    cacheKey: string,
+    ttl: number,
+    params: Record<string, unknown> | undefined,
+    tracker: RequestTracker
+  ): Promise<T> {
+    const cached =
+      (await this.readCache<T>(cacheKey, true)) ??
+      (await this.migrateLegacyEntry<T>(cacheKey, endpoint, params, ttl));
+    if (!cached) {
+      tracker.cache = 'miss';
+      throw new FMPOfflineError(
+        endpoint,
+        this.redactor.params(sanitizeParams(params))
       );
-      this.interceptors?.onError?.(endpoint, wrappedError);
-      throw wrappedError;
     }
+    if (isNegativeEntry(cached.value)) {
+      tracker.cache = 'negative';
+      return this.fromNegativeEntry<T>(cached.value, endpoint, params);
+    }
+    tracker.cache = cached.age <= ttl ? 'hit' : 'stale';
+    return cached.value;
+  }
+
+  /**
+   * Store an empty array or not-found error for `negativeTTL`
+   * @returns Whether the result was negative and stored
+   */
+  private async cacheNegative(
+    cacheKey: string,
+    result: unknown,
+    params: Record<string, unknown> | undefined
+  ): Promise<boolean> {
+    const entry = this.negativeTTL > 0 ? toNegativeEntry(result) : undefined;
+    if (!this.cache || !entry) {
+      return false;
+    }
+    await this.cache.set(
+      cacheKey,
+      entry,
+      this.negativeTTL,
+      requestTags(params, currentMethod())
+    );
+    return true;
+  }
+
+  /**
+   * Replay a negative entry: return the empty array or throw the
+   * not-found error again
+   */
+  private fromNegativeEntry<T>(
+    entry: NegativeCacheEntry,
+    endpoint: string,
+    params: Record<string, unknown> | undefined
+  ): T {
+    if (entry.fmpNegative === 'empty') {
+      return [] as T;
+    }
+    throw new FMPNotFoundError(
+      entry.message ?? 'Not found',
+      404,
+      entry.statusText,
+      this.createErrorContext(endpoint, sanitizeParams(params))
+    );
+  }
+
+  /**
+   * Build the ky options for a call
+   * Only options that are set are passed, so the instance defaults
+   * (e.g. the configured timeout) still apply
+   */
+  private toKyOptions(
+    options: FMPRequestOptions | undefined,
+    tracker: RequestTracker,
+    apiKey?: string
+  ): Options {
+    const kyOptions: Options = { context: { tracker, apiKey } };
+    if (options?.searchParams !== undefined) {
+      kyOptions.searchParams = options.searchParams;
+    }
+    if (options?.headers !== undefined) {
+      kyOptions.headers = options.headers;
+    }
+    if (options?.signal !== undefined) {
+      kyOptions.signal = options.signal;
+    }
+    if (options?.timeout !== undefined) {
+      kyOptions.timeout = options.timeout;
+    }
+    return kyOptions;
+  }
+
+  /**
+   * Validate a response against its endpoint schema
+   * Drift is reported in `warn` and `strict` mode; in `strict` mode
+   * missing or mistyped fields also throw FMPSchemaError
+   */
+  private validateSchema(endpoint: string, data: unknown): void {
+    if (this.validation === 'off') {
+      return;
+    }
+
+    const result = validateResponse(endpoint, data);
+    if (!result || result.issues.length === 0) {
+      return;
+    }
+
+    this.reportSchemaDrift(result);
+
+    if (this.validation === 'strict' && !result.valid) {
+      throw new FMPSchemaError(result);
+    }
+  }
+
+  /**
+   * Report schema drift to the callback, or warn once per endpoint
+   */
+  private reportSchemaDrift(result: SchemaValidationResult): void {
+    if (this.onSchemaDrift) {
+      this.onSchemaDrift(result);
+      return;
+    }
+    if (this.driftWarned.has(result.endpoint)) {
+      return;
+    }
+    this.driftWarned.add(result.endpoint);
+    const fields = result.issues.map((issue) =>
+      issue.kind === 'type'
+        ? `${issue.field || '(response)'} (${issue.received}, expected ${issue.expected})`
+        : `${issue.field} (${issue.kind})`
+    );
+    console.warn(
+      `[fmp-node-sdk] Response from "${result.endpoint}" differs from ${result.schema}: ${fields.join(', ')}`
+    );
+  }
+
+  /**
+   * Make a GET request and return raw text (for non-JSON endpoints like CSV)
+   * Text responses are never cached, so `cache` and `ttl` are ignored
+   */
+  async getText(
+    endpoint: string,
+    options?: FMPRequestOptions
+  ): Promise<string> {
+    this.checkBudget(endpoint);
+
+    return this.track(endpoint, async (tracker) => {
+      const response = await this.dispatch(endpoint, 'text', options, tracker);
+      tracker.status = response.status;
+      try {
+        return (await this.readBody(response, 'text', tracker)) as string;
+      } catch (error) {
+        throw this.wrapError(
+          error,
+          endpoint,
+          options?.searchParams as Record<string, unknown> | undefined,
+          tracker.attempts || undefined,
+          options?.signal
+        );
+      }
+    });
   }
 
   /**
@@ -234,7 +1303,49 @@ export class FMPClient {
       return false;
     }
     const cacheKey = this.cacheKeyGenerator(endpoint, params);
-    return await this.cache.delete(cacheKey);
+    const legacyKey = legacyCacheKey(endpoint, params);
+    const deletedLegacy =
+      this.migrateLegacyKeys &&
+      legacyKey !== cacheKey &&
+      (await this.cache.delete(legacyKey));
+    return (await this.cache.delete(cacheKey)) || deletedLegacy;
+  }
+
+  /**
+   * Get the cache key of a request
+   * Keys are namespaced by schema version, base URL and API keys, with
+   * canonical params
+   */
+  getCacheKey(endpoint: string, params?: Record<string, unknown>): string {
+    return this.cacheKeyGenerator(endpoint, params);
+  }
+
+  /**
+   * Delete every cached response matching a symbol, CIK and/or resource
+   * Requires a cache provider with `invalidateTags`
+   * @returns Number of entries deleted
+   */
+  async invalidate(filter: CacheInvalidation): Promise<number> {
+    if (!this.cache?.invalidateTags) {
+      return 0;
+    }
+
+    const tags = [
+      ...(filter.cik !== undefined ? [cikTag(filter.cik)] : []),
+      ...(filter.resource !== undefined ? [resourceTag(filter.resource)] : []),
+    ];
+    const symbols =
+      filter.symbol === undefined ? [undefined] : [filter.symbol].flat();
+
+    let deleted = 0;
+    for (const symbol of symbols) {
+      const symbolTags =
+        symbol === undefined ? tags : [symbolTag(symbol), ...tags];
+      if (symbolTags.length > 0) {
+        deleted += await this.cache.invalidateTags(symbolTags);
+      }
+    }
+    return deleted;
   }
 
   /**
@@ -243,4 +1354,33 @@ export class FMPClient {
   getCacheProvider(): CacheProvider | undefined {
     return this.cache;
   }
+
+  /**
+   * Get the rate limiter instance (if rate limiting is enabled)
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Get today's request count, in total and per endpoint
+   * @returns undefined if no daily budget is configured
+   */
+  async usage(): Promise<DailyUsage | undefined> {
+    return this.budget?.usage();
+  }
+
+  /**
+   * Get the API key pool (usage statistics per key)
+   */
+  getApiKeyPool(): ApiKeyPool {
+    return this.keyPool;
+  }
+
+  /**
+   * Get the circuit breaker instance (if the circuit breaker is enabled)
+   */
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.circuitBreaker;
+  }
 }
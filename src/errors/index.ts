@@ -1,3 +1,5 @@
+import type { SchemaIssue, SchemaValidationResult } from '../schemas/types.js';
+
 /**
  * Base error class for all FMP SDK errors
  */
@@ -9,22 +11,162 @@ export class FMPError extends Error {
   }
 }
 
+/**
+ * Request context attached to API errors
+ */
+export interface FMPErrorContext {
+  /** Endpoint that was called (e.g., "profile") */
+  endpoint?: string;
+  /** Query parameters sent with the request, without the API key */
+  params?: Record<string, string>;
+  /** Request URL, without the API key and with redacted params masked */
+  url?: string;
+  /** Number of attempts made, including retries */
+  attempts?: number;
+}
+
 /**
  * Error thrown when API request fails
  */
 export class FMPAPIError extends FMPError {
   public readonly status?: number;
   public readonly statusText?: string;
+  public readonly endpoint?: string;
+  public readonly params?: Record<string, string>;
+  public readonly url?: string;
+  public readonly attempts?: number;
 
-  constructor(message: string, status?: number, statusText?: string) {
+  constructor(
+    message: string,
+    status?: number,
+    statusText?: string,
+    context: FMPErrorContext = {}
+  ) {
     super(message);
     this.name = 'FMPAPIError';
     this.status = status;
     this.statusText = statusText;
+    this.endpoint = context.endpoint;
+    this.params = context.params;
+    this.url = context.url;
+    this.attempts = context.attempts;
     Object.setPrototypeOf(this, FMPAPIError.prototype);
   }
 }
 
+/**
+ * Error thrown when the API key is missing or invalid (HTTP 401)
+ */
+export class FMPAuthError extends FMPAPIError {
+  constructor(
+    message: string,
+    status = 401,
+    statusText?: string,
+    context: FMPErrorContext = {}
+  ) {
+    super(message, status, statusText, context);
+    this.name = 'FMPAuthError';
+    Object.setPrototypeOf(this, FMPAuthError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the endpoint is not included in the current
+ * subscription plan (HTTP 402/403)
+ */
+export class FMPSubscriptionError extends FMPAPIError {
+  /** Endpoint that requires a higher plan */
+  public readonly restrictedEndpoint?: string;
+
+  constructor(
+    message: string,
+    status = 402,
+    statusText?: string,
+    context: FMPErrorContext = {}
+  ) {
+    super(message, status, statusText, context);
+    this.name = 'FMPSubscriptionError';
+    this.restrictedEndpoint = context.endpoint;
+    Object.setPrototypeOf(this, FMPSubscriptionError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the requested resource does not exist (HTTP 404)
+ */
+export class FMPNotFoundError extends FMPAPIError {
+  constructor(
+    message: string,
+    status = 404,
+    statusText?: string,
+    context: FMPErrorContext = {}
+  ) {
+    super(message, status, statusText, context);
+    this.name = 'FMPNotFoundError';
+    Object.setPrototypeOf(this, FMPNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the plan's rate limit is exceeded (HTTP 429)
+ */
+export class FMPRateLimitError extends FMPAPIError {
+  /** Delay requested by the server's Retry-After header (ms) */
+  public readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    status = 429,
+    statusText?: string,
+    context: FMPErrorContext = {},
+    retryAfterMs?: number
+  ) {
+    super(message, status, statusText, context);
+    this.name = 'FMPRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, FMPRateLimitError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the FMP API fails on its side (HTTP 5xx)
+ */
+export class FMPServerError extends FMPAPIError {
+  constructor(
+    message: string,
+    status = 500,
+    statusText?: string,
+    context: FMPErrorContext = {}
+  ) {
+    super(message, status, statusText, context);
+    this.name = 'FMPServerError';
+    Object.setPrototypeOf(this, FMPServerError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a request exceeds the configured timeout
+ */
+export class FMPTimeoutError extends FMPAPIError {
+  constructor(message: string, context: FMPErrorContext = {}) {
+    super(message, undefined, undefined, context);
+    this.name = 'FMPTimeoutError';
+    Object.setPrototypeOf(this, FMPTimeoutError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the request could not reach the API
+ * (DNS failure, connection refused, connection reset, etc.)
+ */
+export class FMPNetworkError extends FMPAPIError {
+  constructor(message: string, context: FMPErrorContext = {}) {
+    super(message, undefined, undefined, context);
+    this.name = 'FMPNetworkError';
+    Object.setPrototypeOf(this, FMPNetworkError.prototype);
+  }
+}
+
 /**
  * Error thrown when validation fails
  */
@@ -35,3 +177,198 @@ export class FMPValidationError extends FMPError {
     Object.setPrototypeOf(this, FMPValidationError.prototype);
   }
 }
+
+/**
+ * Error thrown in strict validation mode when a response no longer
+ * matches the SDK types (missing fields or wrong types)
+ */
+export class FMPSchemaError extends FMPError {
+  public readonly endpoint: string;
+  public readonly schema: string;
+  public readonly issues: SchemaIssue[];
+
+  constructor(result: SchemaValidationResult) {
+    const fields = result.issues
+      .filter((issue) => issue.kind !== 'unexpected')
+      .map((issue) => issue.field || '(response)');
+    super(
+      `Response from "${result.endpoint}" does not match ${result.schema}: ${fields.join(', ')}`
+    );
+    this.name = 'FMPSchemaError';
+    this.endpoint = result.endpoint;
+    this.schema = result.schema;
+    this.issues = result.issues;
+    Object.setPrototypeOf(this, FMPSchemaError.prototype);
+  }
+}
+
+/**
+ * Error thrown in fixture replay mode when a request has no recorded response
+ */
+export class FMPFixtureError extends FMPError {
+  public readonly key: string;
+  public readonly path: string;
+
+  constructor(message: string, key: string, path: string) {
+    super(message);
+    this.name = 'FMPFixtureError';
+    this.key = key;
+    this.path = path;
+    Object.setPrototypeOf(this, FMPFixtureError.prototype);
+  }
+}
+
+/**
+ * Error thrown without calling the API while the circuit breaker for an
+ * endpoint family is open
+ */
+export class FMPCircuitOpenError extends FMPError {
+  public readonly endpoint: string;
+  public readonly family: string;
+  /** Time until the circuit lets a probe request through (ms) */
+  public readonly retryAfterMs: number;
+
+  constructor(endpoint: string, family: string, retryAfterMs: number) {
+    super(
+      `Circuit for "${family}" is open after repeated failures; not calling "${endpoint}"`
+    );
+    this.name = 'FMPCircuitOpenError';
+    this.endpoint = endpoint;
+    this.family = family;
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, FMPCircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Error thrown without calling the API once the daily request budget is spent
+ */
+export class FMPBudgetExceededError extends FMPError {
+  public readonly endpoint: string;
+  /** UTC day (YYYY-MM-DD) the budget applies to */
+  public readonly day: string;
+  public readonly used: number;
+  public readonly limit: number;
+
+  constructor(endpoint: string, day: string, used: number, limit: number) {
+    super(
+      `Daily request budget of ${limit} is spent for ${day}; not calling "${endpoint}"`
+    );
+    this.name = 'FMPBudgetExceededError';
+    this.endpoint = endpoint;
+    this.day = day;
+    this.used = used;
+    this.limit = limit;
+    Object.setPrototypeOf(this, FMPBudgetExceededError.prototype);
+  }
+}
+
+/**
+ * Error thrown in offline mode when a call has no cached response
+ */
+export class FMPOfflineError extends FMPError {
+  public readonly endpoint: string;
+  /** Query parameters of the call, without the API key */
+  public readonly params?: Record<string, string>;
+
+  constructor(endpoint: string, params?: Record<string, string>) {
+    super(
+      `Offline mode: no cached response for "${endpoint}"; not calling the API`
+    );
+    this.name = 'FMPOfflineError';
+    this.endpoint = endpoint;
+    this.params = params;
+    Object.setPrototypeOf(this, FMPOfflineError.prototype);
+  }
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or HTTP date)
+ * @returns Delay in milliseconds, or undefined if missing/invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Create the error subclass matching an HTTP status code
+ * @param message - Error message (raw API response)
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @param context - Request context
+ * @param headers - Response headers (used for Retry-After)
+ */
+export function createAPIError(
+  message: string,
+  status: number,
+  statusText?: string,
+  context: FMPErrorContext = {},
+  headers?: Headers
+): FMPAPIError {
+  if (status === 401) {
+    return new FMPAuthError(message, status, statusText, context);
+  }
+  if (status === 402 || status === 403) {
+    return new FMPSubscriptionError(message, status, statusText, context);
+  }
+  if (status === 404) {
+    return new FMPNotFoundError(message, status, statusText, context);
+  }
+  if (status === 429) {
+    return new FMPRateLimitError(
+      message,
+      status,
+      statusText,
+      context,
+      parseRetryAfter(headers?.get('Retry-After'))
+    );
+  }
+  if (status >= 500) {
+    return new FMPServerError(message, status, statusText, context);
+  }
+  return new FMPAPIError(message, status, statusText, context);
+}
+
+/**
+ * Create an error from an FMP "Error Message" body
+ * FMP sometimes reports failures with HTTP 200 and a JSON body such as
+ * `{ "Error Message": "Invalid API KEY..." }`, so the status is inferred
+ * from the message text
+ * @param message - Value of the "Error Message" field
+ * @param status - HTTP status code of the response
+ * @param statusText - HTTP status text of the response
+ * @param context - Request context
+ */
+export function createErrorFromMessage(
+  message: string,
+  status: number,
+  statusText?: string,
+  context: FMPErrorContext = {}
+): FMPAPIError {
+  if (/invalid api key|api key is missing/i.test(message)) {
+    return new FMPAuthError(message, status, statusText, context);
+  }
+  if (/limit reach|too many requests|rate limit/i.test(message)) {
+    return new FMPRateLimitError(message, status, statusText, context);
+  }
+  if (/restricted endpoint|special endpoint|subscription/i.test(message)) {
+    return new FMPSubscriptionError(message, status, statusText, context);
+  }
+  return new FMPAPIError(message, status, statusText, context);
+}
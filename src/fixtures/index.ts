@@ -0,0 +1,6 @@
+/**
+ * Fixtures module exports
+ */
+
+export { FixtureTransport, fixtureKey } from './transport.js';
+export type { Fixture, FixtureConfig, FixtureMode } from './types.js';
@@ -0,0 +1,177 @@
+/**
+ * Record/replay transport for deterministic offline tests
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { FMPFixtureError } from '../errors/index.js';
+import type { Fixture, FixtureConfig, FixtureMode } from './types.js';
+
+/**
+ * Longest file name used for the query part of a fixture path
+ */
+const MAX_FILE_NAME_LENGTH = 120;
+
+/**
+ * Parse JSON, returning undefined for malformed input
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the fixture key from an endpoint and its sorted params
+ *
+ * @example
+ * ```typescript
+ * fixtureKey('profile', { symbol: 'AAPL' }); // "profile?symbol=AAPL"
+ * ```
+ */
+export function fixtureKey(
+  endpoint: string,
+  params: Record<string, string> = {}
+): string {
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+/**
+ * Records API responses to disk and replays them without the network
+ *
+ * Fixtures are stored as one JSON file per request under
+ * `<dir>/<endpoint>/<sorted params>.json`. The API key is never written:
+ * only the endpoint, the remaining params and the response are kept.
+ *
+ * @example
+ * ```typescript
+ * const transport = new FixtureTransport({ mode: 'replay', dir: 'fixtures' });
+ * const response = await transport.fetch(request, 'profile', { symbol: 'AAPL' });
+ * ```
+ */
+export class FixtureTransport {
+  readonly mode: FixtureMode;
+  private readonly dir: string;
+
+  constructor(config: FixtureConfig) {
+    this.mode = config.mode;
+    this.dir = config.dir;
+  }
+
+  /**
+   * Path of the fixture file for a request
+   */
+  pathFor(endpoint: string, params: Record<string, string> = {}): string {
+    const query = fixtureKey('', params).slice(1);
+    let name = query.replace(/[^\w.,=&@+-]/g, '_') || 'index';
+    // Sanitized names can collide (`^GSPC` and `_GSPC`), so tell them apart
+    // with a hash of the raw query
+    if (name !== (query || 'index') || name.length > MAX_FILE_NAME_LENGTH) {
+      const hash = createHash('sha256').update(query).digest('hex');
+      name = `${name.slice(0, MAX_FILE_NAME_LENGTH)}-${hash.slice(0, 12)}`;
+    }
+    const segments = endpoint
+      .split('/')
+      .filter((segment) => segment && segment !== '.' && segment !== '..');
+    return join(this.dir, ...segments, `${name}.json`);
+  }
+
+  /**
+   * Send a request according to the transport mode
+   * @param request - Request to send (may include the API key)
+   * @param endpoint - Endpoint the request targets
+   * @param params - Query parameters without the API key
+   */
+  async fetch(
+    request: Request,
+    endpoint: string,
+    params: Record<string, string> = {}
+  ): Promise<Response> {
+    switch (this.mode) {
+      case 'replay':
+        return this.replay(endpoint, params);
+      case 'record':
+        return this.record(request, endpoint, params);
+      default:
+        return globalThis.fetch(request);
+    }
+  }
+
+  /**
+   * Serve a recorded response; fails if the fixture does not exist
+   */
+  private async replay(
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<Response> {
+    const path = this.pathFor(endpoint, params);
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await readFile(path, 'utf8')) as Fixture;
+    } catch (error) {
+      const key = fixtureKey(endpoint, params);
+      const reason =
+        (error as NodeJS.ErrnoException).code === 'ENOENT'
+          ? 'No fixture recorded'
+          : 'Unreadable fixture';
+      throw new FMPFixtureError(
+        `${reason} for "${key}" (${path}). Run with fixtures.mode 'record' to capture it.`,
+        key,
+        path
+      );
+    }
+
+    const body = fixture.text ?? JSON.stringify(fixture.body);
+    return new Response(body, {
+      status: fixture.status,
+      statusText: fixture.statusText,
+      headers: fixture.headers,
+    });
+  }
+
+  /**
+   * Send the request and save the response
+   */
+  private async record(
+    request: Request,
+    endpoint: string,
+    params: Record<string, string>
+  ): Promise<Response> {
+    const response = await globalThis.fetch(request);
+
+    const headers: Record<string, string> = {};
+    const contentType = response.headers.get('content-type');
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const fixture: Fixture = {
+      endpoint,
+      params,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    };
+    const text = await response.clone().text();
+    const body = contentType?.includes('json') ? parseJson(text) : undefined;
+    if (body !== undefined) {
+      fixture.body = body;
+    } else {
+      fixture.text = text;
+    }
+
+    const path = this.pathFor(endpoint, params);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`);
+
+    return response;
+  }
+}
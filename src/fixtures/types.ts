@@ -0,0 +1,41 @@
+/**
+ * Fixture recording types
+ */
+
+/**
+ * Fixture transport mode
+ * - `record`: send requests to the API and save every response to `dir`
+ * - `replay`: serve responses from `dir` without touching the network
+ * - `passthrough`: normal network requests, fixtures are ignored
+ */
+export type FixtureMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * Fixture configuration
+ */
+export interface FixtureConfig {
+  /** Transport mode */
+  mode: FixtureMode;
+  /** Directory fixtures are written to and read from */
+  dir: string;
+}
+
+/**
+ * A recorded API response, as stored on disk
+ */
+export interface Fixture {
+  /** Endpoint that was called (e.g. "profile") */
+  endpoint: string;
+  /** Query parameters, without the API key */
+  params: Record<string, string>;
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText: string;
+  /** Response headers that affect parsing (content type) */
+  headers: Record<string, string>;
+  /** Parsed body of JSON responses */
+  body?: unknown;
+  /** Raw body of non-JSON (or malformed JSON) responses */
+  text?: string;
+}
@@ -1,6 +1,23 @@
 import { FMPClient } from './client.js';
 import type { FMPConfig } from './types/index.js';
-import type { CacheProvider } from './cache/index.js';
+import type {
+  CacheInvalidation,
+  CacheProvider,
+  TTLExplanation,
+} from './cache/index.js';
+import type { RateLimiter } from './rate-limit/index.js';
+import type { CircuitBreaker } from './circuit-breaker/index.js';
+import type { ApiKeyPool } from './api-keys/index.js';
+import type { DailyUsage } from './budget/index.js';
+import type { Middleware } from './middleware/index.js';
+import { PrefetchScheduler, runPrefetch } from './prefetch/index.js';
+import type {
+  PrefetchPlan,
+  PrefetchReport,
+  PrefetchResources,
+  PrefetchScheduleOptions,
+} from './prefetch/index.js';
+import { labelResourceMethods } from './telemetry/call-site.js';
 import { CompanyResource } from './resources/company.js';
 import { MarketResource } from './resources/market.js';
 import { FinancialsResource } from './resources/financials.js';
@@ -171,6 +188,33 @@ export class FMP {
     this.fundraisers = new FundraisersResource(this.client);
     this.search = new SearchResource(this.client);
     this.bulk = new BulkResource(this.client);
+
+    // Attribute telemetry and cache tags to the resource method that made
+    // each call
+    if (config.telemetry || config.cache?.enabled) {
+      for (const [name, resource] of Object.entries(this)) {
+        if (resource !== this.client) {
+          labelResourceMethods(resource as object, name);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add middleware around every API call
+   * Middleware run in registration order, after those from `config.middleware`
+   *
+   * @example
+   * ```typescript
+   * fmp.use(async (ctx, next) => {
+   *   ctx.params.limit ??= '50';
+   *   return next();
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.client.use(middleware);
+    return this;
   }
 
   /**
@@ -185,6 +229,71 @@ export class FMP {
     return this.client.clearCache();
   }
 
+  /**
+   * Delete every cached response for a symbol, CIK and/or resource
+   * Responses must match every field that is set. Resource tags are only
+   * recorded for calls made through `fmp.<resource>`
+   *
+   * @example
+   * ```typescript
+   * // MSFT filed a new 10-Q
+   * await fmp.invalidate({ symbol: 'MSFT' });
+   * await fmp.invalidate({ resource: 'financials' });
+   * await fmp.invalidate({ symbol: 'MSFT', resource: 'financials' });
+   * ```
+   * @returns Number of entries deleted
+   */
+  async invalidate(filter: CacheInvalidation): Promise<number> {
+    return this.client.invalidate(filter);
+  }
+
+  /**
+   * Warm the cache by running resource method calls with bounded
+   * concurrency. Requests still go through the rate limiter and budget.
+   * Failed calls are collected in the report instead of thrown
+   *
+   * @example
+   * ```typescript
+   * const args = universe.map((symbol) => [symbol]);
+   * const report = await fmp.prefetch({
+   *   tasks: [
+   *     { method: 'company.getProfile', args },
+   *     { method: 'financials.getKeyMetricsTTM', args },
+   *     { method: 'company.getQuote', args },
+   *   ],
+   *   concurrency: 10,
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * });
+   * console.log(report.succeeded, report.failures);
+   * ```
+   * @throws {RangeError} When a method does not exist or an option is invalid
+   */
+  async prefetch(plan: PrefetchPlan): Promise<PrefetchReport> {
+    return runPrefetch(this.resources(), plan);
+  }
+
+  /**
+   * Run a prefetch plan every `interval` ms, refreshing cached entries
+   * before they expire. Call `stop()` on the returned scheduler to end it
+   *
+   * @example
+   * ```typescript
+   * const schedule = fmp.schedulePrefetch(
+   *   { tasks: [{ method: 'company.getQuote', args }] },
+   *   { interval: 30000, onReport: (report) => metrics.record(report) }
+   * );
+   *
+   * process.on('SIGTERM', () => schedule.stop());
+   * ```
+   * @throws {RangeError} When a method does not exist or an option is invalid
+   */
+  schedulePrefetch(
+    plan: PrefetchPlan,
+    options: PrefetchScheduleOptions
+  ): PrefetchScheduler {
+    return new PrefetchScheduler(this.resources(), plan, options);
+  }
+
   /**
    * Get the cache provider instance (if caching is enabled)
    * Useful for advanced cache operations or custom cache management
@@ -194,11 +303,113 @@ export class FMP {
    * const cache = fmp.getCacheProvider();
    * if (cache) {
    *   // Access cache directly for advanced operations
-   *   const hasEntry = await cache.has('some-key');
+   *   const hasEntry = await cache.has(
+   *     fmp.getCacheKey('profile', { symbol: 'AAPL' })
+   *   );
    * }
    * ```
    */
   getCacheProvider(): CacheProvider | undefined {
     return this.client.getCacheProvider();
   }
+
+  /**
+   * Get the cache key of a request
+   * Keys are namespaced by schema version and a hash of the base URL and
+   * API keys, with canonical params (sorted, symbols upper-cased)
+   *
+   * @example
+   * ```typescript
+   * fmp.getCacheKey('profile', { symbol: 'aapl' });
+   * // 'v1:3f2a9c1d0b7e4a55:profile?symbol=AAPL'
+   * ```
+   */
+  getCacheKey(endpoint: string, params?: Record<string, unknown>): string {
+    return this.client.getCacheKey(endpoint, params);
+  }
+
+  /**
+   * Explain which cache TTL applies to an endpoint and params, and which
+   * `endpointTTL` pattern decided it
+   *
+   * @example
+   * ```typescript
+   * const { ttl, pattern, source } = fmp.explainTTL('income-statement', {
+   *   symbol: 'AAPL',
+   *   period: 'quarter',
+   * });
+   * ```
+   */
+  explainTTL(
+    endpoint: string,
+    params?: Record<string, unknown>
+  ): TTLExplanation {
+    return this.client.explainTTL(endpoint, params);
+  }
+
+  /**
+   * Get the rate limiter instance (if rate limiting is enabled)
+   * Useful for monitoring queue depth and wait times
+   *
+   * @example
+   * ```typescript
+   * const stats = fmp.getRateLimiter()?.stats();
+   * console.log(stats?.queueDepth, stats?.averageWaitMs);
+   * ```
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.client.getRateLimiter();
+  }
+
+  /**
+   * Get today's request count (UTC), in total and per endpoint
+   * Requires a `budget` config; cache hits are not counted
+   *
+   * @example
+   * ```typescript
+   * const usage = await fmp.usage();
+   * console.log(`${usage?.total}/${usage?.limit}`, usage?.endpoints);
+   * ```
+   */
+  usage(): Promise<DailyUsage | undefined> {
+    return this.client.usage();
+  }
+
+  /**
+   * Get the API key pool
+   * Useful for monitoring usage per key when several keys are configured
+   *
+   * @example
+   * ```typescript
+   * for (const key of fmp.getApiKeyPool().stats()) {
+   *   console.log(key.key, key.requests, key.rateLimited, key.coolingDownMs);
+   * }
+   * ```
+   */
+  getApiKeyPool(): ApiKeyPool {
+    return this.client.getApiKeyPool();
+  }
+
+  /**
+   * Get the circuit breaker instance (if the circuit breaker is enabled)
+   * Useful for checking which endpoint families are failing
+   *
+   * @example
+   * ```typescript
+   * const states = fmp.getCircuitBreaker()?.states();
+   * console.log(states); // { profile: 'closed', 'historical-chart': 'open' }
+   * ```
+   */
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.client.getCircuitBreaker();
+  }
+
+  /**
+   * Resources by name, for resolving prefetch methods
+   */
+  private resources(): PrefetchResources {
+    return Object.fromEntries(
+      Object.entries(this).filter(([, value]) => value !== this.client)
+    );
+  }
 }
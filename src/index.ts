@@ -4,24 +4,147 @@
  */
 
 export { FMP } from './fmp.js';
-export type { FMPConfig, RequestInterceptor } from './types/index.js';
+export type {
+  FMPConfig,
+  RequestInterceptor,
+  RequestOptions,
+  CacheMode,
+  NetworkMode,
+} from './types/index.js';
 
 // Cache exports
 export {
   MemoryCache,
   RedisCacheProvider,
+  FileCacheProvider,
+  SQLiteCacheProvider,
   CacheTTL,
   DEFAULT_ENDPOINT_TTLS,
+  EndpointPatterns,
+  CACHE_SCHEMA_VERSION,
+  cacheNamespace,
+  canonicalParams,
+  createCacheKey,
+  legacyCacheKey,
+  MarketHoursPolicy,
+  DEFAULT_MARKET_HOURS_ENDPOINTS,
 } from './cache/index.js';
 export type {
   CacheProvider,
   CacheConfig,
   CacheEntry,
+  CacheReadOptions,
   EndpointTTLConfig,
+  StaleConfig,
+  TTLExplanation,
+  PatternMatch,
+  MarketHoursConfig,
+  MarketCalendarSource,
+  CacheInvalidation,
+  MemoryCacheOptions,
+  MemoryCacheStats,
   RedisClientLike,
   RedisCacheProviderOptions,
+  RedisCacheItem,
+  RedisPipelineLike,
+  RedisScanReply,
+  RedisClientStyle,
+  FileCacheProviderOptions,
+  SQLiteDatabaseLike,
+  SQLiteStatementLike,
+  SQLiteCacheProviderOptions,
 } from './cache/index.js';
 
+// Rate limit exports
+export { TokenBucketRateLimiter, RateLimitPresets } from './rate-limit/index.js';
+export type {
+  RateLimiter,
+  RateLimiterStats,
+  RateLimitConfig,
+} from './rate-limit/index.js';
+
+// Retry exports
+export { RetryPolicy } from './retry/index.js';
+export type { RetryBudget, RetryConfig } from './retry/index.js';
+
+// API key rotation exports
+export { ApiKeyPool } from './api-keys/index.js';
+export type {
+  ApiKeyStats,
+  KeyRotationConfig,
+  KeySelectionStrategy,
+} from './api-keys/index.js';
+
+// Daily request budget exports
+export { RequestBudget } from './budget/index.js';
+export type {
+  BudgetConfig,
+  BudgetExhaustedMode,
+  BudgetWarning,
+  DailyUsage,
+} from './budget/index.js';
+
+// Circuit breaker exports
+export { CircuitBreaker } from './circuit-breaker/index.js';
+export type {
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStateChange,
+} from './circuit-breaker/index.js';
+
+// Prefetch exports
+export { PrefetchScheduler } from './prefetch/index.js';
+export type {
+  PrefetchFailure,
+  PrefetchPlan,
+  PrefetchProgress,
+  PrefetchReport,
+  PrefetchScheduleOptions,
+  PrefetchTask,
+} from './prefetch/index.js';
+
+// Schema validation exports
+export {
+  validateResponse,
+  RESPONSE_SCHEMAS,
+  ENDPOINT_SCHEMAS,
+} from './schemas/index.js';
+export type {
+  ValidationMode,
+  ObjectSchema,
+  ResponseSchema,
+  SchemaIssue,
+  SchemaValidationResult,
+} from './schemas/index.js';
+
+// Fixture exports
+export { FixtureTransport, fixtureKey } from './fixtures/index.js';
+export type { Fixture, FixtureConfig, FixtureMode } from './fixtures/index.js';
+
+// Middleware exports
+export {
+  composeMiddleware,
+  interceptorMiddleware,
+  retryMiddleware,
+  circuitBreakerMiddleware,
+} from './middleware/index.js';
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+  RequestHandler,
+  ResponseBodyType,
+} from './middleware/index.js';
+
+// Telemetry types (the OpenTelemetry implementation is in "fmp-node-sdk/telemetry")
+export type {
+  CacheStatus,
+  CallInfo,
+  CallRecorder,
+  CallResult,
+  Instrumentation,
+} from './telemetry/types.js';
+
 // Export enums (values, not just types)
 export { Period, Exchange } from './types/index.js';
 export { IntradayInterval } from './resources/market.js';
@@ -178,8 +301,21 @@ export type {
 export {
   FMPError,
   FMPAPIError,
+  FMPAuthError,
+  FMPSubscriptionError,
+  FMPNotFoundError,
+  FMPRateLimitError,
+  FMPServerError,
+  FMPTimeoutError,
+  FMPNetworkError,
   FMPValidationError,
+  FMPSchemaError,
+  FMPFixtureError,
+  FMPCircuitOpenError,
+  FMPBudgetExceededError,
+  FMPOfflineError,
 } from './errors/index.js';
+export type { FMPErrorContext } from './errors/index.js';
 
 // Export economic indicator names
 export type { EconomicIndicatorName } from './resources/economics.js';
@@ -0,0 +1,17 @@
+/**
+ * Built-in middleware failing fast while an endpoint family is down
+ */
+
+import type { CircuitBreaker } from '../circuit-breaker/index.js';
+import type { Middleware } from './types.js';
+
+/**
+ * Send each attempt through the circuit of its endpoint family
+ * While the circuit is open, `next()` is not called and
+ * `FMPCircuitOpenError` is thrown instead
+ *
+ * @param breaker - Circuit breaker
+ */
+export function circuitBreakerMiddleware(breaker: CircuitBreaker): Middleware {
+  return (ctx, next) => breaker.execute(ctx.endpoint, next);
+}
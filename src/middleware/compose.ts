@@ -0,0 +1,34 @@
+/**
+ * Middleware composition
+ */
+
+import type { Middleware, MiddlewareContext } from './types.js';
+
+/**
+ * Handler at the end of the chain that sends the request
+ */
+export type RequestHandler = (ctx: MiddlewareContext) => Promise<Response>;
+
+/**
+ * Compose middleware into a single handler
+ * The first middleware is the outermost; `handler` runs when the last
+ * middleware calls `next()`
+ *
+ * @param middleware - Middleware in execution order
+ * @param handler - Sends the request
+ */
+export function composeMiddleware(
+  middleware: readonly Middleware[],
+  handler: RequestHandler
+): RequestHandler {
+  return (ctx) => {
+    const dispatch = (index: number): Promise<Response> => {
+      const current = middleware[index];
+      if (!current) {
+        return handler(ctx);
+      }
+      return current(ctx, () => dispatch(index + 1));
+    };
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Middleware module exports
+ */
+
+export { composeMiddleware } from './compose.js';
+export { interceptorMiddleware } from './interceptors.js';
+export { retryMiddleware } from './retry.js';
+export { circuitBreakerMiddleware } from './circuit-breaker.js';
+export type { RequestHandler } from './compose.js';
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+  ResponseBodyType,
+} from './types.js';
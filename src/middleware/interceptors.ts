@@ -0,0 +1,60 @@
+/**
+ * Built-in middleware adapting the `interceptors` config
+ */
+
+import type { RequestInterceptor } from '../types/common.js';
+import { withoutUrl } from '../utils/redact.js';
+import type { Middleware, MiddlewareContext } from './types.js';
+
+/**
+ * Report requests, responses and errors to `RequestInterceptor` callbacks
+ * Callbacks observe the call and cannot change it; aborts through the
+ * caller's signal are not reported as errors. An async `onResponse` may
+ * read the body until its promise settles
+ *
+ * @param interceptors - Interceptor callbacks
+ * @param formatUrl - URL reported to the callbacks (e.g. with params masked)
+ */
+export function interceptorMiddleware(
+  interceptors: RequestInterceptor,
+  formatUrl: (ctx: MiddlewareContext) => string = (ctx) => ctx.url
+): Middleware {
+  return async (ctx, next) => {
+    const url = formatUrl(ctx);
+    interceptors.onRequest?.(url, {
+      method: 'GET',
+      headers: ctx.headers,
+      signal: ctx.signal,
+    });
+
+    let response: Response;
+    try {
+      response = await next();
+    } catch (error) {
+      if (!ctx.signal?.aborted) {
+        interceptors.onError?.(
+          url,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+      throw error;
+    }
+
+    if (interceptors.onResponse) {
+      // Hand out a copy so reading it does not consume the SDK's body, and
+      // without the URL, which may include the API key
+      const copy = withoutUrl(response.clone());
+      // Release an unread copy once the callback (sync or async) is done;
+      // the SDK does not wait for it
+      void Promise.resolve(interceptors.onResponse(url, copy))
+        .catch(() => undefined)
+        .then(() => {
+          if (!copy.bodyUsed) {
+            return copy.body?.cancel();
+          }
+        })
+        .catch(() => undefined);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Built-in middleware retrying failed attempts
+ */
+
+import type { RetryPolicy } from '../retry/index.js';
+import type { Middleware } from './types.js';
+
+/**
+ * Wait for a delay, rejecting early with the signal's reason on abort
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry failed attempts according to a `RetryPolicy`
+ * Each retry calls `next()` again, so middleware after this one (such as
+ * interceptors) see every attempt; aborts through the caller's signal are
+ * never retried
+ *
+ * @param policy - Retry policy
+ */
+export function retryMiddleware(policy: RetryPolicy): Middleware {
+  return async (ctx, next) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next();
+      } catch (error) {
+        if (ctx.signal?.aborted) {
+          throw error;
+        }
+        const delay = policy.nextDelay(error, attempt);
+        if (delay === undefined) {
+          throw error;
+        }
+        await sleep(delay, ctx.signal);
+      }
+    }
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Middleware types
+ */
+
+/**
+ * How the response body of a call is read
+ */
+export type ResponseBodyType = 'json' | 'text';
+
+/**
+ * Per-call request state passed through the middleware chain
+ *
+ * `endpoint`, `params` and `headers` may be changed before calling
+ * `next()`; the request is built from their values at that point.
+ */
+export interface MiddlewareContext {
+  /** Endpoint relative to the base URL (e.g. "profile") */
+  endpoint: string;
+  /** Query parameters, without the API key */
+  params: Record<string, string>;
+  /** Request headers */
+  headers: Headers;
+  /** Full request URL built from `endpoint` and `params`, without the API key */
+  readonly url: string;
+  /** How the response body will be read */
+  readonly responseType: ResponseBodyType;
+  /** Signal passed to the call, if any */
+  readonly signal?: AbortSignal;
+  /** Scratch space shared by all middleware of this call */
+  readonly state: Record<string, unknown>;
+}
+
+/**
+ * Continue with the next middleware, or send the request
+ */
+export type MiddlewareNext = () => Promise<Response>;
+
+/**
+ * Async middleware wrapped around every API call
+ *
+ * Middleware can change the request before calling `next()`, replace or
+ * transform the response it returns, recover from errors it throws, or
+ * return a response without calling `next()` at all.
+ * Non-2xx responses and network failures reach middleware as typed
+ * `FMPError`s thrown by `next()`. Cache hits do not run middleware.
+ *
+ * @example
+ * ```typescript
+ * const fmp = new FMP({ apiKey: 'your-api-key' });
+ *
+ * fmp.use(async (ctx, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(ctx.endpoint, Date.now() - started);
+ *   }
+ * });
+ * ```
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: MiddlewareNext
+) => Promise<Response>;
@@ -0,0 +1,29 @@
+/**
+ * Tracks the prefetch run an API call belongs to
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Settings of the prefetch run in progress
+ */
+export interface PrefetchContext {
+  /** Cached entries expiring within this many milliseconds are refetched */
+  refreshAhead: number;
+}
+
+const prefetchContext = new AsyncLocalStorage<PrefetchContext>();
+
+/**
+ * Prefetch run the current call belongs to, if any
+ */
+export function currentPrefetch(): PrefetchContext | undefined {
+  return prefetchContext.getStore();
+}
+
+/**
+ * Run a function as part of a prefetch run
+ */
+export function runInPrefetch<T>(context: PrefetchContext, run: () => T): T {
+  return prefetchContext.run(context, run);
+}
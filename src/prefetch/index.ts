@@ -0,0 +1,14 @@
+/**
+ * Prefetch module exports
+ */
+
+export { PrefetchScheduler, runPrefetch } from './prefetch.js';
+export type { PrefetchResources } from './prefetch.js';
+export type {
+  PrefetchFailure,
+  PrefetchPlan,
+  PrefetchProgress,
+  PrefetchReport,
+  PrefetchScheduleOptions,
+  PrefetchTask,
+} from './types.js';
@@ -0,0 +1,256 @@
+/**
+ * Cache warm-up: prefetch runs and scheduled refreshes
+ */
+
+import { runInPrefetch } from './context.js';
+import type {
+  PrefetchPlan,
+  PrefetchReport,
+  PrefetchScheduleOptions,
+} from './types.js';
+
+/**
+ * Resources by name (e.g. `{ company, financials }`)
+ */
+export type PrefetchResources = Record<string, object>;
+
+/**
+ * Resolved call of a plan
+ */
+interface PrefetchCall {
+  method: string;
+  args: unknown[];
+  run: () => Promise<unknown>;
+}
+
+/**
+ * Resolve the calls of a plan
+ * @throws {RangeError} When a method does not exist or an option is invalid
+ */
+function planCalls(
+  resources: PrefetchResources,
+  plan: PrefetchPlan
+): PrefetchCall[] {
+  if (plan.concurrency !== undefined && !(plan.concurrency >= 1)) {
+    throw new RangeError('concurrency must be at least 1');
+  }
+
+  return plan.tasks.flatMap((task) => {
+    const [name = '', key = ''] = task.method.split('.');
+    const resource = Object.hasOwn(resources, name)
+      ? resources[name]
+      : undefined;
+    const method =
+      resource && key !== 'constructor'
+        ? (resource as Record<string, unknown>)[key]
+        : undefined;
+    if (typeof method !== 'function') {
+      throw new RangeError(`Unknown resource method: ${task.method}`);
+    }
+
+    return (task.args ?? [[]]).map((args) => ({
+      method: task.method,
+      args,
+      run: () => method.apply(resource, args) as Promise<unknown>,
+    }));
+  });
+}
+
+/**
+ * Run resolved calls with bounded concurrency, collecting failures
+ */
+async function executeCalls(
+  calls: PrefetchCall[],
+  plan: PrefetchPlan,
+  refreshAhead: number,
+  cancelled: () => boolean
+): Promise<PrefetchReport> {
+  const startedAt = Date.now();
+  const report: PrefetchReport = {
+    total: calls.length,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    failures: [],
+    durationMs: 0,
+  };
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < calls.length) {
+      if (plan.signal?.aborted || cancelled()) {
+        report.skipped += calls.length - next;
+        next = calls.length;
+        return;
+      }
+
+      const call = calls[next++]!;
+      try {
+        await runInPrefetch({ refreshAhead }, call.run);
+        report.succeeded++;
+      } catch (error) {
+        report.failed++;
+        report.failures.push({ method: call.method, args: call.args, error });
+      }
+      plan.onProgress?.({
+        total: report.total,
+        completed: report.succeeded + report.failed,
+        failed: report.failed,
+      });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(plan.concurrency ?? 4, calls.length) }, () =>
+      worker()
+    )
+  );
+  report.durationMs = Date.now() - startedAt;
+  return report;
+}
+
+/**
+ * Run every call of a plan once, filling the cache
+ * Failed calls are reported, not thrown
+ *
+ * @param resources - Resources the plan's methods belong to
+ * @param plan - Calls to run
+ * @throws {RangeError} When a method does not exist or an option is invalid
+ */
+export async function runPrefetch(
+  resources: PrefetchResources,
+  plan: PrefetchPlan
+): Promise<PrefetchReport> {
+  return executeCalls(
+    planCalls(resources, plan),
+    plan,
+    plan.refreshAhead ?? 0,
+    () => false
+  );
+}
+
+/**
+ * Runs a prefetch plan at a fixed interval to keep the cache warm
+ *
+ * Each run starts `interval` ms after the previous one ended, so runs never
+ * overlap. Unless the plan sets `refreshAhead`, entries expiring before the
+ * next run is due (`interval` plus the duration of the previous run) are
+ * refreshed, and fresher entries are left alone.
+ *
+ * @example
+ * ```typescript
+ * const schedule = new PrefetchScheduler(resources, plan, {
+ *   interval: 60000,
+ *   onReport: (report) => console.log(`${report.failed} failed`),
+ * });
+ *
+ * // Later
+ * schedule.stop();
+ * ```
+ */
+export class PrefetchScheduler {
+  private readonly calls: PrefetchCall[];
+  private readonly plan: PrefetchPlan;
+  private readonly options: PrefetchScheduleOptions;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running?: Promise<PrefetchReport>;
+  private stopped = false;
+  private last?: PrefetchReport;
+
+  /**
+   * Create a scheduler and start it
+   * @param resources - Resources the plan's methods belong to
+   * @param plan - Calls to run
+   * @param options - Schedule options
+   * @throws {RangeError} When a method does not exist or an option is invalid
+   */
+  constructor(
+    resources: PrefetchResources,
+    plan: PrefetchPlan,
+    options: PrefetchScheduleOptions
+  ) {
+    if (!(options.interval > 0)) {
+      throw new RangeError('interval must be greater than 0');
+    }
+
+    this.calls = planCalls(resources, plan);
+    this.plan = plan;
+    this.options = options;
+
+    if (options.immediate ?? true) {
+      this.start();
+    } else {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Report of the last completed run
+   */
+  get lastReport(): PrefetchReport | undefined {
+    return this.last;
+  }
+
+  /**
+   * Run the plan now, or join the run in progress
+   * The next run is scheduled `interval` ms after this one ends
+   */
+  run(): Promise<PrefetchReport> {
+    if (this.running) {
+      return this.running;
+    }
+    clearTimeout(this.timer);
+
+    const refreshAhead =
+      this.plan.refreshAhead ??
+      this.options.interval + (this.last?.durationMs ?? 0);
+    this.running = (async () => {
+      try {
+        const report = await executeCalls(
+          this.calls,
+          this.plan,
+          refreshAhead,
+          () => this.stopped
+        );
+        this.last = report;
+        this.options.onReport?.(report);
+        return report;
+      } finally {
+        this.running = undefined;
+        this.schedule();
+      }
+    })();
+    return this.running;
+  }
+
+  /**
+   * Stop scheduling runs; a run in progress starts no new calls
+   */
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Schedule the next run
+   */
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.start();
+    }, this.options.interval);
+  }
+
+  /**
+   * Start a scheduled run
+   * Errors thrown by `onProgress` or `onReport` end the run early; they
+   * are ignored and the next run is still scheduled
+   */
+  private start(): void {
+    this.run().catch(() => undefined);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Prefetch types
+ */
+
+/**
+ * Calls of one resource method
+ *
+ * @example
+ * ```typescript
+ * {
+ *   method: 'company.getProfile',
+ *   args: symbols.map((symbol) => [symbol]),
+ * }
+ * ```
+ */
+export interface PrefetchTask {
+  /** Resource method, as "<resource>.<method>" (e.g. "company.getProfile") */
+  method: string;
+
+  /**
+   * Argument lists, one call per entry
+   * @default [[]] (a single call without arguments)
+   */
+  args?: unknown[][];
+}
+
+/**
+ * Progress of a prefetch run, passed to `onProgress` after every call
+ */
+export interface PrefetchProgress {
+  /** Number of calls in the plan */
+  total: number;
+  /** Calls that have settled so far */
+  completed: number;
+  /** Calls that have failed so far */
+  failed: number;
+}
+
+/**
+ * Call that failed during a prefetch run
+ */
+export interface PrefetchFailure {
+  /** Resource method (e.g. "company.getProfile") */
+  method: string;
+  /** Arguments of the call */
+  args: unknown[];
+  /** Error thrown by the call */
+  error: unknown;
+}
+
+/**
+ * Outcome of a prefetch run
+ */
+export interface PrefetchReport {
+  /** Number of calls in the plan */
+  total: number;
+  /** Calls that succeeded (from the cache or the API) */
+  succeeded: number;
+  /** Calls that failed */
+  failed: number;
+  /** Calls not started because the run was cancelled */
+  skipped: number;
+  /** Failed calls with their errors */
+  failures: PrefetchFailure[];
+  /** Duration of the run (ms) */
+  durationMs: number;
+}
+
+/**
+ * Prefetch plan: resource method calls to run to fill the cache
+ *
+ * @example
+ * ```typescript
+ * const args = universe.map((symbol) => [symbol]);
+ * const plan: PrefetchPlan = {
+ *   tasks: [
+ *     { method: 'company.getProfile', args },
+ *     { method: 'financials.getKeyMetricsTTM', args },
+ *     { method: 'company.getQuote', args },
+ *   ],
+ *   concurrency: 10,
+ * };
+ * ```
+ */
+export interface PrefetchPlan {
+  /** Calls to run, in order */
+  tasks: PrefetchTask[];
+
+  /**
+   * Maximum number of calls in flight. Requests still go through the
+   * rate limiter, so this only bounds how many wait at once
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Refresh cached entries expiring within this many milliseconds;
+   * fresher entries are served from the cache without a request.
+   * Requires a provider with `getEntry`
+   * @default 0 (only expired or missing entries are fetched)
+   */
+  refreshAhead?: number;
+
+  /** Stop starting new calls once aborted; calls in flight still settle */
+  signal?: AbortSignal;
+
+  /** Called after every call settles */
+  onProgress?: (progress: PrefetchProgress) => void;
+}
+
+/**
+ * Options of a scheduled prefetch
+ */
+export interface PrefetchScheduleOptions {
+  /**
+   * Time between the end of a run and the start of the next (ms)
+   */
+  interval: number;
+
+  /**
+   * Start the first run right away instead of after `interval`
+   * @default true
+   */
+  immediate?: boolean;
+
+  /** Called with the report of every run */
+  onReport?: (report: PrefetchReport) => void;
+}
@@ -0,0 +1,11 @@
+/**
+ * Rate limit module exports
+ */
+
+export { TokenBucketRateLimiter } from './token-bucket.js';
+export { RateLimitPresets } from './types.js';
+export type {
+  RateLimiter,
+  RateLimiterStats,
+  RateLimitConfig,
+} from './types.js';
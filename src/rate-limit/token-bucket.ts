@@ -0,0 +1,173 @@
+/**
+ * Token bucket rate limiter
+ */
+
+import type { RateLimiter, RateLimiterStats } from './types.js';
+
+/**
+ * Queued request waiting for a token
+ */
+interface Waiter {
+  resolve: () => void;
+  enqueuedAt: number;
+  /** Stops listening for the caller's abort */
+  cleanup?: () => void;
+}
+
+/**
+ * Default token bucket rate limiter
+ *
+ * Features:
+ * - Sustained rate of `requestsPerMinute`, with bursts up to `burst`
+ * - Requests beyond the limit are queued (FIFO), never rejected
+ * - Cancelled requests leave the queue without consuming a token
+ * - Queue depth and wait time statistics for monitoring
+ *
+ * @example
+ * ```typescript
+ * const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 300, burst: 10 });
+ * await limiter.acquire(); // resolves when the request may be sent
+ * console.log(limiter.stats().queueDepth);
+ * ```
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private readonly queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  private totalRequests = 0;
+  private queuedRequests = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  /**
+   * Create a new token bucket rate limiter
+   * @param options - Limiter options
+   * @param options.requestsPerMinute - Sustained requests per minute (default: 300)
+   * @param options.burst - Bucket capacity (default: requestsPerMinute / 60)
+   */
+  constructor(options: { requestsPerMinute?: number; burst?: number } = {}) {
+    const requestsPerMinute = options.requestsPerMinute ?? 300;
+    if (!(requestsPerMinute > 0)) {
+      throw new RangeError('requestsPerMinute must be greater than 0');
+    }
+
+    this.capacity = Math.max(
+      1,
+      Math.floor(options.burst ?? Math.ceil(requestsPerMinute / 60))
+    );
+    this.refillPerMs = requestsPerMinute / 60000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available and consume it
+   * @param signal - Cancels the wait; rejects with the abort reason
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    this.refill();
+
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.record(0);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { resolve, enqueuedAt: Date.now() };
+      if (signal) {
+        const onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+          }
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        waiter.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+      this.queue.push(waiter);
+      this.queuedRequests++;
+      this.schedule();
+    });
+  }
+
+  /**
+   * Get rate limiter statistics
+   */
+  stats(): RateLimiterStats {
+    this.refill();
+    return {
+      queueDepth: this.queue.length,
+      availableTokens: Math.floor(this.tokens),
+      totalRequests: this.totalRequests,
+      queuedRequests: this.queuedRequests,
+      totalWaitMs: this.totalWaitMs,
+      averageWaitMs:
+        this.totalRequests > 0 ? this.totalWaitMs / this.totalRequests : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  /**
+   * Add tokens earned since the last refill, up to capacity
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + elapsed * this.refillPerMs
+      );
+      this.lastRefill = now;
+    }
+  }
+
+  /**
+   * Release queued requests for which tokens are available
+   */
+  private drain(): void {
+    this.timer = undefined;
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const waiter = this.queue.shift()!;
+      this.tokens -= 1;
+      this.record(Date.now() - waiter.enqueuedAt);
+      waiter.cleanup?.();
+      waiter.resolve();
+    }
+
+    if (this.queue.length > 0) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Schedule the next drain for when one token will be available
+   */
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    const delay = Math.max(0, Math.ceil((1 - this.tokens) / this.refillPerMs));
+    this.timer = setTimeout(() => this.drain(), delay);
+  }
+
+  /**
+   * Record wait statistics for an acquired token
+   */
+  private record(waitMs: number): void {
+    this.totalRequests++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+}
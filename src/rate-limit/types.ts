@@ -0,0 +1,88 @@
+/**
+ * Rate limiting types and interfaces
+ */
+
+/**
+ * Snapshot of rate limiter activity, useful for monitoring
+ */
+export interface RateLimiterStats {
+  /** Number of requests currently waiting for a token */
+  queueDepth: number;
+  /** Tokens currently available for immediate use */
+  availableTokens: number;
+  /** Total number of requests that have acquired a token */
+  totalRequests: number;
+  /** Number of requests that had to wait in the queue */
+  queuedRequests: number;
+  /** Cumulative time spent waiting in the queue (ms) */
+  totalWaitMs: number;
+  /** Average wait per request (ms), including requests that did not wait */
+  averageWaitMs: number;
+  /** Longest time a single request spent in the queue (ms) */
+  maxWaitMs: number;
+}
+
+/**
+ * Rate limiter interface - implement this to plug in a custom limiter
+ * (e.g. one shared across processes)
+ */
+export interface RateLimiter {
+  /**
+   * Wait until a request is allowed to be sent
+   * Resolves once a token has been consumed
+   * @param signal - Aborted when the request is cancelled; the wait should
+   * then end without consuming a token, rejecting with `signal.reason`
+   */
+  acquire(signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Get rate limiter statistics
+   */
+  stats(): RateLimiterStats;
+}
+
+/**
+ * Requests-per-minute presets matching the FMP plan tiers
+ *
+ * The free Basic plan is capped per day rather than per minute,
+ * so it has no preset here.
+ */
+export const RateLimitPresets = {
+  /** Starter plan - 300 requests per minute */
+  STARTER: { requestsPerMinute: 300, burst: 10 },
+  /** Premium plan - 750 requests per minute */
+  PREMIUM: { requestsPerMinute: 750, burst: 25 },
+  /** Ultimate plan - 3000 requests per minute */
+  ULTIMATE: { requestsPerMinute: 3000, burst: 100 },
+} as const;
+
+/**
+ * Rate limit configuration options
+ */
+export interface RateLimitConfig {
+  /**
+   * Enable or disable rate limiting
+   * @default true (when a rateLimit config is provided)
+   */
+  enabled?: boolean;
+
+  /**
+   * Sustained number of requests allowed per minute
+   * @default 300 (Starter plan)
+   */
+  requestsPerMinute?: number;
+
+  /**
+   * Maximum number of requests that can be sent back-to-back
+   * before the limiter starts spacing them out
+   * @default one second worth of requests (requestsPerMinute / 60)
+   */
+  burst?: number;
+
+  /**
+   * Custom rate limiter instance
+   * If not provided, uses the built-in TokenBucketRateLimiter
+   * Pass the same instance to several clients to share one quota
+   */
+  limiter?: RateLimiter;
+}
@@ -8,6 +8,7 @@ import type {
   AnalystRecommendation,
   StockGrade,
   UpgradesDowngradesConsensus,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -22,11 +23,13 @@ export class AnalystResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getEstimates(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<AnalystEstimate[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -36,26 +39,31 @@ export class AnalystResource {
 
     return this.client.get<AnalystEstimate[]>('analyst-estimates', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get price targets
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getPriceTargets(symbol: string): Promise<PriceTarget[]> {
+  async getPriceTargets(symbol: string, options?: RequestOptions): Promise<PriceTarget[]> {
     return this.client.get<PriceTarget[]>('price-target', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get price target summary
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getPriceTargetSummary(symbol: string): Promise<PriceTargetSummary> {
+  async getPriceTargetSummary(symbol: string, options?: RequestOptions): Promise<PriceTargetSummary> {
     const result = await this.client.get<PriceTargetSummary[]>('price-target-summary', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
     return result[0]!;
   }
@@ -63,10 +71,12 @@ export class AnalystResource {
   /**
    * Get price target consensus
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getPriceTargetConsensus(symbol: string): Promise<PriceTargetConsensus> {
+  async getPriceTargetConsensus(symbol: string, options?: RequestOptions): Promise<PriceTargetConsensus> {
     const result = await this.client.get<PriceTargetConsensus[]>('price-target-consensus', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
     return result[0]!;
   }
@@ -74,10 +84,12 @@ export class AnalystResource {
   /**
    * Get analyst recommendations (ratings)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getRecommendations(symbol: string): Promise<AnalystRecommendation[]> {
+  async getRecommendations(symbol: string, options?: RequestOptions): Promise<AnalystRecommendation[]> {
     return this.client.get<AnalystRecommendation[]>('analyst-stock-recommendations', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -85,23 +97,27 @@ export class AnalystResource {
    * Get stock grades (upgrades/downgrades)
    * @param symbol - Stock symbol
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getGrades(symbol: string, limit?: number): Promise<StockGrade[]> {
+  async getGrades(symbol: string, limit?: number, options?: RequestOptions): Promise<StockGrade[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
 
     return this.client.get<StockGrade[]>('grades', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get upgrades and downgrades consensus
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getUpgradesDowngradesConsensus(symbol: string): Promise<UpgradesDowngradesConsensus> {
+  async getUpgradesDowngradesConsensus(symbol: string, options?: RequestOptions): Promise<UpgradesDowngradesConsensus> {
     const result = await this.client.get<UpgradesDowngradesConsensus[]>('grades-consensus', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
     return result[0]!;
   }
@@ -109,10 +125,12 @@ export class AnalystResource {
   /**
    * Get analyst ratings snapshot
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getRatingsSnapshot(symbol: string): Promise<AnalystRecommendation> {
+  async getRatingsSnapshot(symbol: string, options?: RequestOptions): Promise<AnalystRecommendation> {
     const result = await this.client.get<AnalystRecommendation[]>('rating', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
     return result[0]!;
   }
@@ -121,22 +139,26 @@ export class AnalystResource {
    * Get historical stock grades
    * @param symbol - Stock symbol
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalGrades(symbol: string, limit?: number): Promise<StockGrade[]> {
+  async getHistoricalGrades(symbol: string, limit?: number, options?: RequestOptions): Promise<StockGrade[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
     return this.client.get<StockGrade[]>('grades-historical', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get stock grades summary
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getGradesSummary(symbol: string): Promise<UpgradesDowngradesConsensus> {
+  async getGradesSummary(symbol: string, options?: RequestOptions): Promise<UpgradesDowngradesConsensus> {
     const result = await this.client.get<UpgradesDowngradesConsensus[]>('grades-summary', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
     return result[0]!;
   }
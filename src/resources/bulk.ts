@@ -17,6 +17,7 @@ import type {
   IncomeStatementGrowth,
   BalanceSheetGrowth,
   CashFlowStatementGrowth,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -75,94 +76,107 @@ export class BulkResource {
    * Get all company profiles (bulk)
    * Returns profiles for all available symbols
    * @param part - Part number for pagination (default: 0)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllProfiles(part = 0): Promise<CompanyProfile[]> {
+  async getAllProfiles(part = 0, options?: RequestOptions): Promise<CompanyProfile[]> {
     return this.client.get<CompanyProfile[]>('profile-bulk', {
       searchParams: { part },
+      ...options,
     });
   }
 
   /**
    * Get all analyst ratings (bulk)
    * Returns the latest rating for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllRatings(): Promise<AnalystRecommendation[]> {
-    return this.client.get<AnalystRecommendation[]>('rating-bulk');
+  async getAllRatings(options?: RequestOptions): Promise<AnalystRecommendation[]> {
+    return this.client.get<AnalystRecommendation[]>('rating-bulk', options);
   }
 
   /**
    * Get all DCF valuations (bulk)
    * Returns DCF valuations for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllDCF(): Promise<DCFValuation[]> {
-    return this.client.get<DCFValuation[]>('dcf-bulk');
+  async getAllDCF(options?: RequestOptions): Promise<DCFValuation[]> {
+    return this.client.get<DCFValuation[]>('dcf-bulk', options);
   }
 
   /**
    * Get all financial scores (bulk)
    * Returns Altman Z-Score and Piotroski Score for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllScores(): Promise<FinancialScores[]> {
-    return this.client.get<FinancialScores[]>('scores-bulk');
+  async getAllScores(options?: RequestOptions): Promise<FinancialScores[]> {
+    return this.client.get<FinancialScores[]>('scores-bulk', options);
   }
 
   /**
    * Get all price targets (bulk)
    * Returns price targets for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllPriceTargets(): Promise<PriceTarget[]> {
-    return this.client.get<PriceTarget[]>('price-target-summary-bulk');
+  async getAllPriceTargets(options?: RequestOptions): Promise<PriceTarget[]> {
+    return this.client.get<PriceTarget[]>('price-target-summary-bulk', options);
   }
 
   /**
    * Get all ETF holdings (bulk)
    * Returns ETF holdings data for all ETF symbols
    * @param part - Part number for pagination (default: 1)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllETFHoldings(part = 1): Promise<ETFHolding[]> {
+  async getAllETFHoldings(part = 1, options?: RequestOptions): Promise<ETFHolding[]> {
     return this.client.get<ETFHolding[]>('etf-holder-bulk', {
       searchParams: { part },
+      ...options,
     });
   }
 
   /**
    * Get all upgrades and downgrades (bulk)
    * Returns analyst upgrades and downgrades for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllUpgradesDowngrades(): Promise<StockGrade[]> {
-    return this.client.get<StockGrade[]>('upgrades-downgrades-consensus-bulk');
+  async getAllUpgradesDowngrades(options?: RequestOptions): Promise<StockGrade[]> {
+    return this.client.get<StockGrade[]>('upgrades-downgrades-consensus-bulk', options);
   }
 
   /**
    * Get all key metrics TTM (bulk)
    * Returns trailing twelve months key metrics for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllKeyMetricsTTM(): Promise<KeyMetrics[]> {
-    return this.client.get<KeyMetrics[]>('key-metrics-ttm-bulk');
+  async getAllKeyMetricsTTM(options?: RequestOptions): Promise<KeyMetrics[]> {
+    return this.client.get<KeyMetrics[]>('key-metrics-ttm-bulk', options);
   }
 
   /**
    * Get all financial ratios TTM (bulk)
    * Returns trailing twelve months financial ratios for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllRatiosTTM(): Promise<FinancialRatios[]> {
-    return this.client.get<FinancialRatios[]>('ratios-ttm-bulk');
+  async getAllRatiosTTM(options?: RequestOptions): Promise<FinancialRatios[]> {
+    return this.client.get<FinancialRatios[]>('ratios-ttm-bulk', options);
   }
 
   /**
    * Get all stock peers (bulk)
    * Returns peer companies for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllPeers(): Promise<StockPeer[]> {
-    return this.client.get<StockPeer[]>('peers-bulk');
+  async getAllPeers(options?: RequestOptions): Promise<StockPeer[]> {
+    return this.client.get<StockPeer[]>('peers-bulk', options);
   }
 
   /**
    * Get all earnings surprises (bulk)
    * Returns earnings surprises (actual vs estimated) for all symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllEarningsSurprises(): Promise<EarningsSurprise[]> {
-    return this.client.get<EarningsSurprise[]>('earnings-surprises-bulk');
+  async getAllEarningsSurprises(options?: RequestOptions): Promise<EarningsSurprise[]> {
+    return this.client.get<EarningsSurprise[]>('earnings-surprises-bulk', options);
   }
 
   /**
@@ -170,11 +184,12 @@ export class BulkResource {
    * Returns income statements for all symbols
    * @param period - Period type (annual or quarter)
    * @param year - Specific year (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllIncomeStatements(period: Period = Period.Annual, year?: number): Promise<IncomeStatement[]> {
+  async getAllIncomeStatements(period: Period = Period.Annual, year?: number, options?: RequestOptions): Promise<IncomeStatement[]> {
     const params: Record<string, string | number> = { period };
     if (year) params.year = year;
-    return this.client.get<IncomeStatement[]>('income-statement-bulk', { searchParams: params });
+    return this.client.get<IncomeStatement[]>('income-statement-bulk', { searchParams: params, ...options });
   }
 
   /**
@@ -182,14 +197,16 @@ export class BulkResource {
    * Returns income statement growth metrics for all symbols
    * @param period - Period type (annual or quarter)
    * @param year - Specific year (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getAllIncomeStatementGrowth(
     period: Period = Period.Annual,
-    year?: number
+    year?: number,
+    options?: RequestOptions
   ): Promise<IncomeStatementGrowth[]> {
     const params: Record<string, string | number> = { period };
     if (year) params.year = year;
-    return this.client.get<IncomeStatementGrowth[]>('income-statement-growth-bulk', { searchParams: params });
+    return this.client.get<IncomeStatementGrowth[]>('income-statement-growth-bulk', { searchParams: params, ...options });
   }
 
   /**
@@ -197,11 +214,12 @@ export class BulkResource {
    * Returns balance sheet statements for all symbols
    * @param period - Period type (annual or quarter)
    * @param year - Specific year (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllBalanceSheets(period: Period = Period.Annual, year?: number): Promise<BalanceSheet[]> {
+  async getAllBalanceSheets(period: Period = Period.Annual, year?: number, options?: RequestOptions): Promise<BalanceSheet[]> {
     const params: Record<string, string | number> = { period };
     if (year) params.year = year;
-    return this.client.get<BalanceSheet[]>('balance-sheet-statement-bulk', { searchParams: params });
+    return this.client.get<BalanceSheet[]>('balance-sheet-statement-bulk', { searchParams: params, ...options });
   }
 
   /**
@@ -209,14 +227,16 @@ export class BulkResource {
    * Returns balance sheet growth metrics for all symbols
    * @param period - Period type (annual or quarter)
    * @param year - Specific year (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getAllBalanceSheetGrowth(
     period: Period = Period.Annual,
-    year?: number
+    year?: number,
+    options?: RequestOptions
   ): Promise<BalanceSheetGrowth[]> {
     const params: Record<string, string | number> = { period };
     if (year) params.year = year;
-    return this.client.get<BalanceSheetGrowth[]>('balance-sheet-statement-growth-bulk', { searchParams: params });
+    return this.client.get<BalanceSheetGrowth[]>('balance-sheet-statement-growth-bulk', { searchParams: params, ...options });
   }
 
   /**
@@ -224,11 +244,12 @@ export class BulkResource {
    * Returns cash flow statements for all symbols
    * @param period - Period type (annual or quarter)
    * @param year - Specific year (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllCashFlowStatements(period: Period = Period.Annual, year?: number): Promise<CashFlowStatement[]> {
+  async getAllCashFlowStatements(period: Period = Period.Annual, year?: number, options?: RequestOptions): Promise<CashFlowStatement[]> {
     const params: Record<string, string | number> = { period };
     if (year) params.year = year;
-    return this.client.get<CashFlowStatement[]>('cash-flow-statement-bulk', { searchParams: params });
+    return this.client.get<CashFlowStatement[]>('cash-flow-statement-bulk', { searchParams: params, ...options });
   }
 
   /**
@@ -236,14 +257,16 @@ export class BulkResource {
    * Returns cash flow statement growth metrics for all symbols
    * @param period - Period type (annual or quarter)
    * @param year - Specific year (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getAllCashFlowStatementGrowth(
     period: Period = Period.Annual,
-    year?: number
+    year?: number,
+    options?: RequestOptions
   ): Promise<CashFlowStatementGrowth[]> {
     const params: Record<string, string | number> = { period };
     if (year) params.year = year;
-    return this.client.get<CashFlowStatementGrowth[]>('cash-flow-statement-growth-bulk', { searchParams: params });
+    return this.client.get<CashFlowStatementGrowth[]>('cash-flow-statement-growth-bulk', { searchParams: params, ...options });
   }
 
   /**
@@ -251,9 +274,10 @@ export class BulkResource {
    * Returns end of day prices for all symbols for a specific date.
    * The eod-bulk endpoint returns CSV — this method parses it into typed objects.
    * @param date - Date in YYYY-MM-DD format
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBatchEODPrices(date: string): Promise<EODPrice[]> {
-    const csv = await this.client.getText('eod-bulk', { searchParams: { date } });
+  async getBatchEODPrices(date: string, options?: RequestOptions): Promise<EODPrice[]> {
+    const csv = await this.client.getText('eod-bulk', { searchParams: { date }, ...options });
     return parseCsvToEODPrices(csv);
   }
 
@@ -263,9 +287,10 @@ export class BulkResource {
    * The eod-bulk endpoint returns CSV — this method parses it into typed objects.
    * @param from - Start date in YYYY-MM-DD format
    * @param to - End date in YYYY-MM-DD format
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBatchEODPricesRange(from: string, to: string): Promise<EODPrice[]> {
-    const csv = await this.client.getText('eod-bulk', { searchParams: { from, to } });
+  async getBatchEODPricesRange(from: string, to: string, options?: RequestOptions): Promise<EODPrice[]> {
+    const csv = await this.client.getText('eod-bulk', { searchParams: { from, to }, ...options });
     return parseCsvToEODPrices(csv);
   }
 }
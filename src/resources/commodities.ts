@@ -4,6 +4,7 @@ import type {
   CommodityQuote,
   HistoricalPrice,
   IntradayChart,
+  RequestOptions,
 } from '../types/index.js';
 import { IntradayInterval } from './market.js';
 
@@ -16,36 +17,42 @@ export class CommoditiesResource {
 
   /**
    * Get commodities list
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getList(): Promise<CommodityList[]> {
-    return this.client.get<CommodityList[]>('commodities-list');
+  async getList(options?: RequestOptions): Promise<CommodityList[]> {
+    return this.client.get<CommodityList[]>('commodities-list', options);
   }
 
   /**
    * Get commodity quote
    * @param symbol - Commodity symbol (e.g., "GCUSD" for Gold)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getQuote(symbol: string): Promise<CommodityQuote[]> {
+  async getQuote(symbol: string, options?: RequestOptions): Promise<CommodityQuote[]> {
     return this.client.get<CommodityQuote[]>('quote', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get short quote (simplified quote data)
    * @param symbol - Commodity symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getQuoteShort(symbol: string): Promise<Record<string, unknown>[]> {
+  async getQuoteShort(symbol: string, options?: RequestOptions): Promise<Record<string, unknown>[]> {
     return this.client.get<Record<string, unknown>[]>('quote-short', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get all commodity quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllQuotes(): Promise<CommodityQuote[]> {
-    return this.client.get<CommodityQuote[]>('batch-commodity-quotes');
+  async getAllQuotes(options?: RequestOptions): Promise<CommodityQuote[]> {
+    return this.client.get<CommodityQuote[]>('batch-commodity-quotes', options);
   }
 
   /**
@@ -53,11 +60,13 @@ export class CommoditiesResource {
    * @param symbol - Commodity symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalPrices(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<HistoricalPrice[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
@@ -65,6 +74,7 @@ export class CommoditiesResource {
 
     return this.client.get<HistoricalPrice[]>('historical-price-eod/full', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -73,11 +83,13 @@ export class CommoditiesResource {
    * @param symbol - Commodity symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getLightChart(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<{ date: string; close: number }[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
@@ -85,6 +97,7 @@ export class CommoditiesResource {
 
     return this.client.get<{ date: string; close: number }[]>('historical-price-eod/light', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -94,12 +107,14 @@ export class CommoditiesResource {
    * @param interval - Time interval
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getIntradayChart(
     symbol: string,
     interval: IntradayInterval = IntradayInterval.OneHour,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<IntradayChart[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
@@ -107,6 +122,7 @@ export class CommoditiesResource {
 
     return this.client.get<IntradayChart[]>(`historical-chart/${interval}`, {
       searchParams: params,
+      ...options,
     });
   }
 }
@@ -25,6 +25,7 @@ import type {
   AftermarketQuote,
   PriceChange,
   FundListItem,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -37,48 +38,57 @@ export class CompanyResource {
   /**
    * Get company profile information
    * @param symbol - Stock symbol (e.g., "AAPL")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getProfile(symbol: string): Promise<CompanyProfile[]> {
+  async getProfile(symbol: string, options?: RequestOptions): Promise<CompanyProfile[]> {
     return this.client.get<CompanyProfile[]>('profile', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get real-time quote for a symbol
    * @param symbol - Stock symbol (e.g., "AAPL")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getQuote(symbol: string): Promise<Quote[]> {
+  async getQuote(symbol: string, options?: RequestOptions): Promise<Quote[]> {
     return this.client.get<Quote[]>('quote', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get quotes for multiple symbols
    * @param symbols - Array of stock symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getQuotes(symbols: string[]): Promise<Quote[]> {
+  async getQuotes(symbols: string[], options?: RequestOptions): Promise<Quote[]> {
     const symbolsParam = symbols.map(s => s.toUpperCase()).join(',');
     return this.client.get<Quote[]>('batch-quote', {
       searchParams: { symbols: symbolsParam },
+      ...options,
     });
   }
 
   /**
    * Get all available trading symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSymbolsList(): Promise<SymbolsList[]> {
-    return this.client.get<SymbolsList[]>('stock-list');
+  async getSymbolsList(options?: RequestOptions): Promise<SymbolsList[]> {
+    return this.client.get<SymbolsList[]>('stock-list', options);
   }
 
   /**
    * Get available symbols for a specific exchange
    * @param exchange - Exchange name (e.g., "NASDAQ", "NYSE")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getExchangeSymbols(exchange: string): Promise<SymbolsList[]> {
+  async getExchangeSymbols(exchange: string, options?: RequestOptions): Promise<SymbolsList[]> {
     return this.client.get<SymbolsList[]>('stock-list', {
       searchParams: { exchange: exchange.toUpperCase() },
+      ...options,
     });
   }
 
@@ -87,8 +97,9 @@ export class CompanyResource {
    * @param query - Search query
    * @param limit - Maximum number of results
    * @param exchange - Filter by exchange (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchSymbol(query: string, limit = 10, exchange?: string): Promise<SymbolsList[]> {
+  async searchSymbol(query: string, limit = 10, exchange?: string, options?: RequestOptions): Promise<SymbolsList[]> {
     const params: Record<string, string | number> = {
       query,
       limit,
@@ -98,7 +109,7 @@ export class CompanyResource {
       params.exchange = exchange;
     }
 
-    return this.client.get<SymbolsList[]>('search-symbol', { searchParams: params });
+    return this.client.get<SymbolsList[]>('search-symbol', { searchParams: params, ...options });
   }
 
   /**
@@ -106,8 +117,9 @@ export class CompanyResource {
    * @param query - Search query
    * @param limit - Maximum number of results
    * @param exchange - Filter by exchange (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchName(query: string, limit = 10, exchange?: string): Promise<SymbolsList[]> {
+  async searchName(query: string, limit = 10, exchange?: string, options?: RequestOptions): Promise<SymbolsList[]> {
     const params: Record<string, string | number> = {
       query,
       limit,
@@ -117,7 +129,7 @@ export class CompanyResource {
       params.exchange = exchange;
     }
 
-    return this.client.get<SymbolsList[]>('search-name', { searchParams: params });
+    return this.client.get<SymbolsList[]>('search-name', { searchParams: params, ...options });
   }
 
   /**
@@ -125,39 +137,46 @@ export class CompanyResource {
    * @param query - Search query
    * @param limit - Maximum number of results
    * @param exchange - Filter by exchange (optional)
+   * @param options - Request options (signal, timeout, cache)
    * @deprecated Use searchSymbol or searchName instead
    */
-  async search(query: string, limit = 10, exchange?: string): Promise<SymbolsList[]> {
-    return this.searchSymbol(query, limit, exchange);
+  async search(query: string, limit = 10, exchange?: string, options?: RequestOptions): Promise<SymbolsList[]> {
+    return this.searchSymbol(query, limit, exchange, options);
   }
 
   /**
    * Get company profile by CIK
    * @param cik - Central Index Key
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getProfileByCIK(cik: string): Promise<CompanyProfile[]> {
+  async getProfileByCIK(cik: string, options?: RequestOptions): Promise<CompanyProfile[]> {
     return this.client.get<CompanyProfile[]>('profile-cik', {
       searchParams: { cik },
+      ...options,
     });
   }
 
   /**
    * Get company notes
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCompanyNotes(symbol: string): Promise<CompanyNotes[]> {
+  async getCompanyNotes(symbol: string, options?: RequestOptions): Promise<CompanyNotes[]> {
     return this.client.get<CompanyNotes[]>('company-notes', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get stock peers
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getStockPeers(symbol: string): Promise<StockPeer[]> {
+  async getStockPeers(symbol: string, options?: RequestOptions): Promise<StockPeer[]> {
     return this.client.get<StockPeer[]>('stock-peers', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -165,51 +184,61 @@ export class CompanyResource {
    * Get delisted companies
    * @param page - Page number
    * @param limit - Maximum number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getDelistedCompanies(page = 0, limit = 100): Promise<DelistedCompany[]> {
+  async getDelistedCompanies(page = 0, limit = 100, options?: RequestOptions): Promise<DelistedCompany[]> {
     return this.client.get<DelistedCompany[]>('delisted-companies', {
       searchParams: { page, limit },
+      ...options,
     });
   }
 
   /**
    * Get employee count for a company
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getEmployeeCount(symbol: string): Promise<EmployeeCount[]> {
+  async getEmployeeCount(symbol: string, options?: RequestOptions): Promise<EmployeeCount[]> {
     return this.client.get<EmployeeCount[]>('employee-count', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get historical employee count
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalEmployeeCount(symbol: string): Promise<HistoricalEmployeeCount[]> {
+  async getHistoricalEmployeeCount(symbol: string, options?: RequestOptions): Promise<HistoricalEmployeeCount[]> {
     return this.client.get<HistoricalEmployeeCount[]>('historical-employee-count', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get market capitalization
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMarketCap(symbol: string): Promise<MarketCap[]> {
+  async getMarketCap(symbol: string, options?: RequestOptions): Promise<MarketCap[]> {
     return this.client.get<MarketCap[]>('market-capitalization', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get batch market capitalization for multiple symbols
    * @param symbols - Array of stock symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBatchMarketCap(symbols: string[]): Promise<MarketCap[]> {
+  async getBatchMarketCap(symbols: string[], options?: RequestOptions): Promise<MarketCap[]> {
     const symbolsParam = symbols.map(s => s.toUpperCase()).join(',');
     return this.client.get<MarketCap[]>('market-capitalization-batch', {
       searchParams: { symbols: symbolsParam },
+      ...options,
     });
   }
 
@@ -217,22 +246,26 @@ export class CompanyResource {
    * Get historical market capitalization
    * @param symbol - Stock symbol
    * @param limit - Maximum number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalMarketCap(symbol: string, limit?: number): Promise<HistoricalMarketCap[]> {
+  async getHistoricalMarketCap(symbol: string, limit?: number, options?: RequestOptions): Promise<HistoricalMarketCap[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
     return this.client.get<HistoricalMarketCap[]>('historical-market-capitalization', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get shares float
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSharesFloat(symbol: string): Promise<SharesFloat[]> {
+  async getSharesFloat(symbol: string, options?: RequestOptions): Promise<SharesFloat[]> {
     return this.client.get<SharesFloat[]>('shares-float', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -240,10 +273,12 @@ export class CompanyResource {
    * Get all shares float
    * @param page - Page number
    * @param limit - Maximum number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllSharesFloat(page = 0, limit = 1000): Promise<SharesFloat[]> {
+  async getAllSharesFloat(page = 0, limit = 1000, options?: RequestOptions): Promise<SharesFloat[]> {
     return this.client.get<SharesFloat[]>('shares-float-all', {
       searchParams: { page, limit },
+      ...options,
     });
   }
 
@@ -251,234 +286,274 @@ export class CompanyResource {
    * Get latest M&A transactions
    * @param page - Page number
    * @param limit - Maximum number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMergerAcquisitions(page = 0, limit = 100): Promise<MergerAcquisition[]> {
+  async getMergerAcquisitions(page = 0, limit = 100, options?: RequestOptions): Promise<MergerAcquisition[]> {
     return this.client.get<MergerAcquisition[]>('mergers-acquisitions-latest', {
       searchParams: { page, limit },
+      ...options,
     });
   }
 
   /**
    * Search M&A transactions
    * @param name - Company name
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchMergerAcquisitions(name: string): Promise<MergerAcquisition[]> {
+  async searchMergerAcquisitions(name: string, options?: RequestOptions): Promise<MergerAcquisition[]> {
     return this.client.get<MergerAcquisition[]>('mergers-acquisitions-search', {
       searchParams: { name },
+      ...options,
     });
   }
 
   /**
    * Get company executives
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getExecutives(symbol: string): Promise<Executive[]> {
+  async getExecutives(symbol: string, options?: RequestOptions): Promise<Executive[]> {
     return this.client.get<Executive[]>('key-executives', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get executive compensation
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getExecutiveCompensation(symbol: string): Promise<ExecutiveCompensation[]> {
+  async getExecutiveCompensation(symbol: string, options?: RequestOptions): Promise<ExecutiveCompensation[]> {
     return this.client.get<ExecutiveCompensation[]>('governance-executive-compensation', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get compensation benchmark by industry
    * @param year - Year (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCompensationBenchmark(year?: number): Promise<CompensationBenchmark[]> {
+  async getCompensationBenchmark(year?: number, options?: RequestOptions): Promise<CompensationBenchmark[]> {
     const params: Record<string, number> = {};
     if (year) params.year = year;
     return this.client.get<CompensationBenchmark[]>('executive-compensation-benchmark', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get symbols with financial statements
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFinancialStatementSymbols(): Promise<SymbolsList[]> {
-    return this.client.get<SymbolsList[]>('financial-statement-symbol-list');
+  async getFinancialStatementSymbols(options?: RequestOptions): Promise<SymbolsList[]> {
+    return this.client.get<SymbolsList[]>('financial-statement-symbol-list', options);
   }
 
   /**
    * Get CIK list
    * @param page - Page number
    * @param limit - Maximum number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCIKList(page = 0, limit = 1000): Promise<CIKMapping[]> {
+  async getCIKList(page = 0, limit = 1000, options?: RequestOptions): Promise<CIKMapping[]> {
     return this.client.get<CIKMapping[]>('cik-list', {
       searchParams: { page, limit },
+      ...options,
     });
   }
 
   /**
    * Get symbol changes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSymbolChanges(): Promise<SymbolChange[]> {
-    return this.client.get<SymbolChange[]>('symbol-change');
+  async getSymbolChanges(options?: RequestOptions): Promise<SymbolChange[]> {
+    return this.client.get<SymbolChange[]>('symbol-change', options);
   }
 
   /**
    * Get ETF symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getETFSymbols(): Promise<SymbolsList[]> {
-    return this.client.get<SymbolsList[]>('etf-list');
+  async getETFSymbols(options?: RequestOptions): Promise<SymbolsList[]> {
+    return this.client.get<SymbolsList[]>('etf-list', options);
   }
 
   /**
    * Get actively trading symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getActivelyTrading(): Promise<TradableSymbol[]> {
-    return this.client.get<TradableSymbol[]>('actively-trading-list');
+  async getActivelyTrading(options?: RequestOptions): Promise<TradableSymbol[]> {
+    return this.client.get<TradableSymbol[]>('actively-trading-list', options);
   }
 
   /**
    * Get list of available exchanges
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getExchanges(): Promise<ExchangeInfo[]> {
-    return this.client.get<ExchangeInfo[]>('available-exchanges');
+  async getExchanges(options?: RequestOptions): Promise<ExchangeInfo[]> {
+    return this.client.get<ExchangeInfo[]>('available-exchanges', options);
   }
 
   /**
    * Get list of available sectors
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSectors(): Promise<SectorIndustry[]> {
-    return this.client.get<SectorIndustry[]>('available-sectors');
+  async getSectors(options?: RequestOptions): Promise<SectorIndustry[]> {
+    return this.client.get<SectorIndustry[]>('available-sectors', options);
   }
 
   /**
    * Get list of available industries
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIndustries(): Promise<SectorIndustry[]> {
-    return this.client.get<SectorIndustry[]>('available-industries');
+  async getIndustries(options?: RequestOptions): Promise<SectorIndustry[]> {
+    return this.client.get<SectorIndustry[]>('available-industries', options);
   }
 
   /**
    * Get list of available countries
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCountries(): Promise<string[]> {
-    return this.client.get<string[]>('available-countries');
+  async getCountries(options?: RequestOptions): Promise<string[]> {
+    return this.client.get<string[]>('available-countries', options);
   }
 
   /**
    * Get short quote (simplified quote data)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getQuoteShort(symbol: string): Promise<QuoteShort[]> {
+  async getQuoteShort(symbol: string, options?: RequestOptions): Promise<QuoteShort[]> {
     return this.client.get<QuoteShort[]>('quote-short', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get aftermarket trade price
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAftermarketTrade(symbol: string): Promise<AftermarketTrade[]> {
+  async getAftermarketTrade(symbol: string, options?: RequestOptions): Promise<AftermarketTrade[]> {
     return this.client.get<AftermarketTrade[]>('aftermarket-trade', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get aftermarket quote
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAftermarketQuote(symbol: string): Promise<AftermarketQuote[]> {
+  async getAftermarketQuote(symbol: string, options?: RequestOptions): Promise<AftermarketQuote[]> {
     return this.client.get<AftermarketQuote[]>('aftermarket-quote', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get price change
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getPriceChange(symbol: string): Promise<PriceChange[]> {
+  async getPriceChange(symbol: string, options?: RequestOptions): Promise<PriceChange[]> {
     return this.client.get<PriceChange[]>('stock-price-change', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get batch short quotes
    * @param symbols - Array of stock symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBatchQuotesShort(symbols: string[]): Promise<QuoteShort[]> {
+  async getBatchQuotesShort(symbols: string[], options?: RequestOptions): Promise<QuoteShort[]> {
     const symbolsParam = symbols.map(s => s.toUpperCase()).join(',');
     return this.client.get<QuoteShort[]>('quote-short', {
       searchParams: { symbol: symbolsParam },
+      ...options,
     });
   }
 
   /**
    * Get batch aftermarket quotes
    * @param symbols - Array of stock symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBatchAftermarketQuotes(symbols: string[]): Promise<AftermarketQuote[]> {
+  async getBatchAftermarketQuotes(symbols: string[], options?: RequestOptions): Promise<AftermarketQuote[]> {
     const symbolsParam = symbols.map(s => s.toUpperCase()).join(',');
     return this.client.get<AftermarketQuote[]>('batch-aftermarket-quote', {
       searchParams: { symbols: symbolsParam },
+      ...options,
     });
   }
 
   /**
    * Get mutual fund quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMutualFundQuotes(): Promise<Quote[]> {
-    return this.client.get<Quote[]>('batch-mutualfund-quotes');
+  async getMutualFundQuotes(options?: RequestOptions): Promise<Quote[]> {
+    return this.client.get<Quote[]>('batch-mutualfund-quotes', options);
   }
 
   /**
    * Get ETF quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getETFQuotes(): Promise<Quote[]> {
-    return this.client.get<Quote[]>('batch-etf-quotes');
+  async getETFQuotes(options?: RequestOptions): Promise<Quote[]> {
+    return this.client.get<Quote[]>('batch-etf-quotes', options);
   }
 
   /**
    * Get commodities quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCommoditiesQuotes(): Promise<Quote[]> {
-    return this.client.get<Quote[]>('batch-commodity-quotes');
+  async getCommoditiesQuotes(options?: RequestOptions): Promise<Quote[]> {
+    return this.client.get<Quote[]>('batch-commodity-quotes', options);
   }
 
   /**
    * Get index quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIndexQuotes(): Promise<Quote[]> {
-    return this.client.get<Quote[]>('batch-index-quotes');
+  async getIndexQuotes(options?: RequestOptions): Promise<Quote[]> {
+    return this.client.get<Quote[]>('batch-index-quotes', options);
   }
 
   /**
    * Get batch aftermarket trades for multiple symbols
    * @param symbols - Array of stock symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBatchAftermarketTrades(symbols: string[]): Promise<AftermarketTrade[]> {
+  async getBatchAftermarketTrades(symbols: string[], options?: RequestOptions): Promise<AftermarketTrade[]> {
     const symbolsParam = symbols.map(s => s.toUpperCase()).join(',');
     return this.client.get<AftermarketTrade[]>('batch-aftermarket-trade', {
       searchParams: { symbols: symbolsParam },
+      ...options,
     });
   }
 
   /**
    * Get ETF list
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getETFList(): Promise<FundListItem[]> {
-    return this.client.get<FundListItem[]>('etf-list');
+  async getETFList(options?: RequestOptions): Promise<FundListItem[]> {
+    return this.client.get<FundListItem[]>('etf-list', options);
   }
 
   /**
    * Get mutual fund list
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMutualFundList(): Promise<FundListItem[]> {
-    return this.client.get<FundListItem[]>('mutual-fund-list');
+  async getMutualFundList(options?: RequestOptions): Promise<FundListItem[]> {
+    return this.client.get<FundListItem[]>('mutual-fund-list', options);
   }
 }
@@ -1,5 +1,5 @@
 import type { FMPClient } from '../client.js';
-import type { COTReport, COTAnalysis, COTSymbol } from '../types/index.js';
+import type { COTReport, COTAnalysis, COTSymbol, RequestOptions } from '../types/index.js';
 
 /**
  * Commitment of Traders (COT) resource
@@ -12,13 +12,14 @@ export class COTResource {
    * @param symbol - Trading symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getReport(symbol: string, from?: string, to?: string): Promise<COTReport[]> {
+  async getReport(symbol: string, from?: string, to?: string, options?: RequestOptions): Promise<COTReport[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
     if (to) params.to = to;
 
-    return this.client.get<COTReport[]>('commitment-of-traders-report', { searchParams: params });
+    return this.client.get<COTReport[]>('commitment-of-traders-report', { searchParams: params, ...options });
   }
 
   /**
@@ -26,19 +27,21 @@ export class COTResource {
    * @param symbol - Trading symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAnalysis(symbol: string, from?: string, to?: string): Promise<COTAnalysis[]> {
+  async getAnalysis(symbol: string, from?: string, to?: string, options?: RequestOptions): Promise<COTAnalysis[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
     if (to) params.to = to;
 
-    return this.client.get<COTAnalysis[]>('commitment-of-traders-analysis', { searchParams: params });
+    return this.client.get<COTAnalysis[]>('commitment-of-traders-analysis', { searchParams: params, ...options });
   }
 
   /**
    * Get list of available COT symbols
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSymbols(): Promise<COTSymbol[]> {
-    return this.client.get<COTSymbol[]>('commitment-of-traders-list');
+  async getSymbols(options?: RequestOptions): Promise<COTSymbol[]> {
+    return this.client.get<COTSymbol[]>('commitment-of-traders-list', options);
   }
 }
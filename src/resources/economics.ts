@@ -3,6 +3,7 @@ import type {
   TreasuryRate,
   EconomicIndicator,
   MarketRiskPremium,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -44,13 +45,14 @@ export class EconomicsResource {
    * Get treasury rates
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getTreasuryRates(from?: string, to?: string): Promise<TreasuryRate[]> {
+  async getTreasuryRates(from?: string, to?: string, options?: RequestOptions): Promise<TreasuryRate[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
-    return this.client.get<TreasuryRate[]>('treasury-rates', { searchParams: params });
+    return this.client.get<TreasuryRate[]>('treasury-rates', { searchParams: params, ...options });
   }
 
   /**
@@ -58,68 +60,76 @@ export class EconomicsResource {
    * @param name - Indicator name
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getIndicator(
     name: EconomicIndicatorName,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<EconomicIndicator[]> {
     const params: Record<string, string> = { name };
     if (from) params.from = from;
     if (to) params.to = to;
 
-    return this.client.get<EconomicIndicator[]>('economic-indicators', { searchParams: params });
+    return this.client.get<EconomicIndicator[]>('economic-indicators', { searchParams: params, ...options });
   }
 
   /**
    * Get GDP data
    * @param from - Start date
    * @param to - End date
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getGDP(from?: string, to?: string): Promise<EconomicIndicator[]> {
-    return this.getIndicator('GDP', from, to);
+  async getGDP(from?: string, to?: string, options?: RequestOptions): Promise<EconomicIndicator[]> {
+    return this.getIndicator('GDP', from, to, options);
   }
 
   /**
    * Get CPI (Consumer Price Index) data
    * @param from - Start date
    * @param to - End date
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCPI(from?: string, to?: string): Promise<EconomicIndicator[]> {
-    return this.getIndicator('CPI', from, to);
+  async getCPI(from?: string, to?: string, options?: RequestOptions): Promise<EconomicIndicator[]> {
+    return this.getIndicator('CPI', from, to, options);
   }
 
   /**
    * Get inflation rate data
    * @param from - Start date
    * @param to - End date
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInflationRate(from?: string, to?: string): Promise<EconomicIndicator[]> {
-    return this.getIndicator('inflationRate', from, to);
+  async getInflationRate(from?: string, to?: string, options?: RequestOptions): Promise<EconomicIndicator[]> {
+    return this.getIndicator('inflationRate', from, to, options);
   }
 
   /**
    * Get unemployment rate data
    * @param from - Start date
    * @param to - End date
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getUnemploymentRate(from?: string, to?: string): Promise<EconomicIndicator[]> {
-    return this.getIndicator('unemploymentRate', from, to);
+  async getUnemploymentRate(from?: string, to?: string, options?: RequestOptions): Promise<EconomicIndicator[]> {
+    return this.getIndicator('unemploymentRate', from, to, options);
   }
 
   /**
    * Get federal funds rate data
    * @param from - Start date
    * @param to - End date
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFederalFundsRate(from?: string, to?: string): Promise<EconomicIndicator[]> {
-    return this.getIndicator('federalFunds', from, to);
+  async getFederalFundsRate(from?: string, to?: string, options?: RequestOptions): Promise<EconomicIndicator[]> {
+    return this.getIndicator('federalFunds', from, to, options);
   }
 
   /**
    * Get market risk premium
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMarketRiskPremium(): Promise<MarketRiskPremium[]> {
-    return this.client.get<MarketRiskPremium[]>('market-risk-premium');
+  async getMarketRiskPremium(options?: RequestOptions): Promise<MarketRiskPremium[]> {
+    return this.client.get<MarketRiskPremium[]>('market-risk-premium', options);
   }
 }
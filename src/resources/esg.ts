@@ -1,5 +1,5 @@
 import type { FMPClient } from '../client.js';
-import type { ESGData, ESGRating, ESGBenchmark } from '../types/index.js';
+import type { ESGData, ESGRating, ESGBenchmark, RequestOptions } from '../types/index.js';
 
 /**
  * ESG (Environmental, Social, and Governance) data resource
@@ -12,10 +12,12 @@ export class ESGResource {
    * Get ESG data for a company
    * Returns environmental, social, and governance scores
    * @param symbol - Stock symbol (e.g., "AAPL")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getESGData(symbol: string): Promise<ESGData[]> {
+  async getESGData(symbol: string, options?: RequestOptions): Promise<ESGData[]> {
     return this.client.get<ESGData[]>('esg-disclosures', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -23,10 +25,12 @@ export class ESGResource {
    * Get ESG ratings for a company
    * Returns ESG risk rating and industry rank
    * @param symbol - Stock symbol (e.g., "AAPL")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getESGRatings(symbol: string): Promise<ESGRating[]> {
+  async getESGRatings(symbol: string, options?: RequestOptions): Promise<ESGRating[]> {
     return this.client.get<ESGRating[]>('esg-ratings', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -34,10 +38,12 @@ export class ESGResource {
    * Get ESG sector benchmarks
    * Returns average ESG scores by sector
    * @param year - Year for benchmark data
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getESGBenchmark(year: number): Promise<ESGBenchmark[]> {
+  async getESGBenchmark(year: number, options?: RequestOptions): Promise<ESGBenchmark[]> {
     return this.client.get<ESGBenchmark[]>('esg-benchmark', {
       searchParams: { year },
+      ...options,
     });
   }
 }
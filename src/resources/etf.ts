@@ -7,6 +7,7 @@ import type {
   ETFStockExposure,
   MutualFundHolder,
   FundListItem,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -19,82 +20,97 @@ export class ETFResource {
   /**
    * Get ETF holdings
    * @param symbol - ETF symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHoldings(symbol: string): Promise<ETFHolding[]> {
+  async getHoldings(symbol: string, options?: RequestOptions): Promise<ETFHolding[]> {
     return this.client.get<ETFHolding[]>('etf/holdings', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get ETF information
    * @param symbol - ETF symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInfo(symbol: string): Promise<ETFInfo[]> {
+  async getInfo(symbol: string, options?: RequestOptions): Promise<ETFInfo[]> {
     return this.client.get<ETFInfo[]>('etf/info', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get ETF sector weightings
    * @param symbol - ETF symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSectorWeightings(symbol: string): Promise<ETFSectorWeighting[]> {
+  async getSectorWeightings(symbol: string, options?: RequestOptions): Promise<ETFSectorWeighting[]> {
     return this.client.get<ETFSectorWeighting[]>('etf/sector-weightings', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get ETF country weightings
    * @param symbol - ETF symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCountryWeightings(symbol: string): Promise<ETFCountryWeighting[]> {
+  async getCountryWeightings(symbol: string, options?: RequestOptions): Promise<ETFCountryWeighting[]> {
     return this.client.get<ETFCountryWeighting[]>('etf/country-weightings', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get stock exposure to ETFs (which ETFs hold this stock)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getStockExposure(symbol: string): Promise<ETFStockExposure[]> {
+  async getStockExposure(symbol: string, options?: RequestOptions): Promise<ETFStockExposure[]> {
     return this.client.get<ETFStockExposure[]>('etf/asset-exposure', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get mutual fund holders for a stock
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMutualFundHolders(symbol: string): Promise<MutualFundHolder[]> {
+  async getMutualFundHolders(symbol: string, options?: RequestOptions): Promise<MutualFundHolder[]> {
     return this.client.get<MutualFundHolder[]>('funds/disclosure-holders-latest', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get ETF list
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getETFList(): Promise<FundListItem[]> {
-    return this.client.get<FundListItem[]>('etf-list');
+  async getETFList(options?: RequestOptions): Promise<FundListItem[]> {
+    return this.client.get<FundListItem[]>('etf-list', options);
   }
 
   /**
    * Get available mutual funds
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAvailableMutualFunds(): Promise<FundListItem[]> {
-    return this.client.get<FundListItem[]>('mutual-fund-list');
+  async getAvailableMutualFunds(options?: RequestOptions): Promise<FundListItem[]> {
+    return this.client.get<FundListItem[]>('mutual-fund-list', options);
   }
 
   /**
    * Get latest ETF holdings disclosure dates
    * Returns the most recent portfolio dates for all ETFs
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestDisclosures(): Promise<Array<{ symbol: string; date: string }>> {
-    return this.client.get<Array<{ symbol: string; date: string }>>('funds/disclosure-dates');
+  async getLatestDisclosures(options?: RequestOptions): Promise<Array<{ symbol: string; date: string }>> {
+    return this.client.get<Array<{ symbol: string; date: string }>>('funds/disclosure-dates', options);
   }
 }
@@ -9,6 +9,7 @@ import type {
   IPOProspectus,
   IPOConfirmed,
   EconomicCalendar,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -22,13 +23,15 @@ export class EventsResource {
    * Get historical earnings
    * @param symbol - Stock symbol
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getEarnings(symbol: string, limit?: number): Promise<Earnings[]> {
+  async getEarnings(symbol: string, limit?: number, options?: RequestOptions): Promise<Earnings[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
 
     return this.client.get<Earnings[]>('earnings', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -36,14 +39,16 @@ export class EventsResource {
    * Get earnings calendar
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getEarningsCalendar(from?: string, to?: string): Promise<EarningsCalendar[]> {
+  async getEarningsCalendar(from?: string, to?: string, options?: RequestOptions): Promise<EarningsCalendar[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<EarningsCalendar[]>('earnings-calendar', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -51,24 +56,28 @@ export class EventsResource {
    * Get confirmed earnings
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getConfirmedEarnings(from?: string, to?: string): Promise<EarningsCalendar[]> {
+  async getConfirmedEarnings(from?: string, to?: string, options?: RequestOptions): Promise<EarningsCalendar[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<EarningsCalendar[]>('earnings-calendar-confirmed', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get historical dividends
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getDividends(symbol: string): Promise<Dividend[]> {
+  async getDividends(symbol: string, options?: RequestOptions): Promise<Dividend[]> {
     return this.client.get<Dividend[]>('dividends', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -76,24 +85,28 @@ export class EventsResource {
    * Get dividend calendar
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getDividendCalendar(from?: string, to?: string): Promise<DividendCalendar[]> {
+  async getDividendCalendar(from?: string, to?: string, options?: RequestOptions): Promise<DividendCalendar[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<DividendCalendar[]>('dividends-calendar', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get historical stock splits
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSplits(symbol: string): Promise<StockSplit[]> {
+  async getSplits(symbol: string, options?: RequestOptions): Promise<StockSplit[]> {
     return this.client.get<StockSplit[]>('splits', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -101,14 +114,16 @@ export class EventsResource {
    * Get stock splits calendar
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSplitsCalendar(from?: string, to?: string): Promise<StockSplit[]> {
+  async getSplitsCalendar(from?: string, to?: string, options?: RequestOptions): Promise<StockSplit[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<StockSplit[]>('splits-calendar', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -116,14 +131,16 @@ export class EventsResource {
    * Get IPO calendar
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIPOCalendar(from?: string, to?: string): Promise<IPOCalendar[]> {
+  async getIPOCalendar(from?: string, to?: string, options?: RequestOptions): Promise<IPOCalendar[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<IPOCalendar[]>('ipos-calendar', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -131,14 +148,16 @@ export class EventsResource {
    * Get IPO disclosures/prospectus
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIPOProspectus(from?: string, to?: string): Promise<IPOProspectus[]> {
+  async getIPOProspectus(from?: string, to?: string, options?: RequestOptions): Promise<IPOProspectus[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<IPOProspectus[]>('ipos-prospectus', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -146,14 +165,16 @@ export class EventsResource {
    * Get confirmed IPO calendar
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIPOConfirmed(from?: string, to?: string): Promise<IPOConfirmed[]> {
+  async getIPOConfirmed(from?: string, to?: string, options?: RequestOptions): Promise<IPOConfirmed[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<IPOConfirmed[]>('ipos-confirmed', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -161,14 +182,16 @@ export class EventsResource {
    * Get economic calendar
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getEconomicCalendar(from?: string, to?: string): Promise<EconomicCalendar[]> {
+  async getEconomicCalendar(from?: string, to?: string, options?: RequestOptions): Promise<EconomicCalendar[]> {
     const params: Record<string, string> = {};
     if (from) params.from = from;
     if (to) params.to = to;
 
     return this.client.get<EconomicCalendar[]>('economic-calendar', {
       searchParams: params,
+      ...options,
     });
   }
 }
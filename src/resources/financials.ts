@@ -18,6 +18,7 @@ import type {
   CashFlowStatementGrowth,
   RevenueProductSegmentation,
   RevenueGeographicSegmentation,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -32,11 +33,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type (annual or quarter)
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getIncomeStatement(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<IncomeStatement[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -46,6 +49,7 @@ export class FinancialsResource {
 
     return this.client.get<IncomeStatement[]>('income-statement', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -54,11 +58,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type (annual or quarter)
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getBalanceSheet(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<BalanceSheet[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -68,6 +74,7 @@ export class FinancialsResource {
 
     return this.client.get<BalanceSheet[]>('balance-sheet-statement', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -76,11 +83,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type (annual or quarter)
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getCashFlowStatement(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<CashFlowStatement[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -90,36 +99,43 @@ export class FinancialsResource {
 
     return this.client.get<CashFlowStatement[]>('cash-flow-statement', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get income statement (TTM - Trailing Twelve Months)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIncomeStatementTTM(symbol: string): Promise<IncomeStatement[]> {
+  async getIncomeStatementTTM(symbol: string, options?: RequestOptions): Promise<IncomeStatement[]> {
     return this.client.get<IncomeStatement[]>('income-statement-ttm', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get balance sheet (TTM)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBalanceSheetTTM(symbol: string): Promise<BalanceSheet[]> {
+  async getBalanceSheetTTM(symbol: string, options?: RequestOptions): Promise<BalanceSheet[]> {
     return this.client.get<BalanceSheet[]>('balance-sheet-statement-ttm', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get cash flow statement (TTM)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCashFlowStatementTTM(symbol: string): Promise<CashFlowStatement[]> {
+  async getCashFlowStatementTTM(symbol: string, options?: RequestOptions): Promise<CashFlowStatement[]> {
     return this.client.get<CashFlowStatement[]>('cash-flow-statement-ttm', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -128,11 +144,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getRatios(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<FinancialRatios[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -142,16 +160,19 @@ export class FinancialsResource {
 
     return this.client.get<FinancialRatios[]>('ratios', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get financial ratios (TTM)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getRatiosTTM(symbol: string): Promise<FinancialRatios[]> {
+  async getRatiosTTM(symbol: string, options?: RequestOptions): Promise<FinancialRatios[]> {
     return this.client.get<FinancialRatios[]>('ratios-ttm', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -160,11 +181,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getKeyMetrics(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<KeyMetrics[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -174,16 +197,19 @@ export class FinancialsResource {
 
     return this.client.get<KeyMetrics[]>('key-metrics', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get key metrics (TTM)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getKeyMetricsTTM(symbol: string): Promise<KeyMetrics[]> {
+  async getKeyMetricsTTM(symbol: string, options?: RequestOptions): Promise<KeyMetrics[]> {
     return this.client.get<KeyMetrics[]>('key-metrics-ttm', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -192,11 +218,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getEnterpriseValues(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<EnterpriseValue[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -206,6 +234,7 @@ export class FinancialsResource {
 
     return this.client.get<EnterpriseValue[]>('enterprise-values', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -214,11 +243,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getIncomeStatementGrowth(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<IncomeStatementGrowth[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -228,6 +259,7 @@ export class FinancialsResource {
 
     return this.client.get<IncomeStatementGrowth[]>('income-statement-growth', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -236,11 +268,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getBalanceSheetGrowth(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<BalanceSheetGrowth[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -250,6 +284,7 @@ export class FinancialsResource {
 
     return this.client.get<BalanceSheetGrowth[]>('balance-sheet-statement-growth', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -258,11 +293,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getCashFlowStatementGrowth(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<CashFlowStatementGrowth[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -272,6 +309,7 @@ export class FinancialsResource {
 
     return this.client.get<CashFlowStatementGrowth[]>('cash-flow-statement-growth', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -279,10 +317,12 @@ export class FinancialsResource {
    * Get revenue by product segment
    * @param symbol - Stock symbol
    * @param period - Period type
+   * @param options - Request options (signal, timeout, cache)
    */
   async getRevenueByProduct(
     symbol: string,
-    period: Period = Period.Annual
+    period: Period = Period.Annual,
+    options?: RequestOptions
   ): Promise<RevenueProductSegmentation[]> {
     return this.client.get<RevenueProductSegmentation[]>('revenue-product-segmentation', {
       searchParams: {
@@ -290,6 +330,7 @@ export class FinancialsResource {
         period,
         structure: 'flat',
       },
+      ...options,
     });
   }
 
@@ -297,10 +338,12 @@ export class FinancialsResource {
    * Get revenue by geographic segment
    * @param symbol - Stock symbol
    * @param period - Period type
+   * @param options - Request options (signal, timeout, cache)
    */
   async getRevenueByGeography(
     symbol: string,
-    period: Period = Period.Annual
+    period: Period = Period.Annual,
+    options?: RequestOptions
   ): Promise<RevenueGeographicSegmentation[]> {
     return this.client.get<RevenueGeographicSegmentation[]>('revenue-geographic-segmentation', {
       searchParams: {
@@ -308,16 +351,19 @@ export class FinancialsResource {
         period,
         structure: 'flat',
       },
+      ...options,
     });
   }
 
   /**
    * Get financial scores (Altman Z-Score, Piotroski Score)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFinancialScores(symbol: string): Promise<FinancialScores[]> {
+  async getFinancialScores(symbol: string, options?: RequestOptions): Promise<FinancialScores[]> {
     return this.client.get<FinancialScores[]>('financial-scores', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -325,12 +371,14 @@ export class FinancialsResource {
    * Get owner earnings
    * @param symbol - Stock symbol
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getOwnerEarnings(symbol: string, limit?: number): Promise<OwnerEarnings[]> {
+  async getOwnerEarnings(symbol: string, limit?: number, options?: RequestOptions): Promise<OwnerEarnings[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
     return this.client.get<OwnerEarnings[]>('owner-earnings', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -339,11 +387,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getFinancialGrowth(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<FinancialGrowth[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -352,16 +402,19 @@ export class FinancialsResource {
     if (limit) params.limit = limit;
     return this.client.get<FinancialGrowth[]>('financial-growth', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get available reporting dates for financial statements
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getReportDates(symbol: string): Promise<ReportDate[]> {
+  async getReportDates(symbol: string, options?: RequestOptions): Promise<ReportDate[]> {
     return this.client.get<ReportDate[]>('financial-reports-dates', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -370,11 +423,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getAsReportedIncomeStatement(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<Record<string, unknown>[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -383,6 +438,7 @@ export class FinancialsResource {
     if (limit) params.limit = limit;
     return this.client.get<Record<string, unknown>[]>('income-statement-as-reported', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -391,11 +447,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getAsReportedBalanceSheet(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<Record<string, unknown>[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -404,6 +462,7 @@ export class FinancialsResource {
     if (limit) params.limit = limit;
     return this.client.get<Record<string, unknown>[]>('balance-sheet-statement-as-reported', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -412,11 +471,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param period - Period type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getAsReportedCashFlow(
     symbol: string,
     period: Period = Period.Annual,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<Record<string, unknown>[]> {
     const params: Record<string, string | number> = {
       symbol: symbol.toUpperCase(),
@@ -425,6 +486,7 @@ export class FinancialsResource {
     if (limit) params.limit = limit;
     return this.client.get<Record<string, unknown>[]>('cash-flow-statement-as-reported', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -432,16 +494,19 @@ export class FinancialsResource {
    * Get full as-reported financials
    * @param symbol - Stock symbol
    * @param period - Period type
+   * @param options - Request options (signal, timeout, cache)
    */
   async getAsReportedFull(
     symbol: string,
-    period: Period = Period.Annual
+    period: Period = Period.Annual,
+    options?: RequestOptions
   ): Promise<Record<string, unknown>> {
     return this.client.get<Record<string, unknown>>('financial-statement-full-as-reported', {
       searchParams: {
         symbol: symbol.toUpperCase(),
         period,
       },
+      ...options,
     });
   }
 
@@ -450,16 +515,19 @@ export class FinancialsResource {
    * Returns the most recent complete financial statement as reported to the SEC
    * @param symbol - Stock symbol
    * @param period - Period type (FY for annual, Q1-Q4 for quarterly)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getLatestFinancialStatement(
     symbol: string,
-    period: Period = Period.Annual
+    period: Period = Period.Annual,
+    options?: RequestOptions
   ): Promise<LatestFinancialStatement[]> {
     return this.client.get<LatestFinancialStatement[]>('financial-statement-full-as-reported', {
       searchParams: {
         symbol: symbol.toUpperCase(),
         period,
       },
+      ...options,
     });
   }
 
@@ -468,11 +536,13 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param year - Year of the report
    * @param period - Period (FY for 10-K, Q1-Q4 for 10-Q)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getFinancialReportJSON(
     symbol: string,
     year: number,
-    period: string
+    period: string,
+    options?: RequestOptions
   ): Promise<Record<string, unknown>> {
     return this.client.get<Record<string, unknown>>('financial-reports-json', {
       searchParams: {
@@ -480,6 +550,7 @@ export class FinancialsResource {
         year,
         period,
       },
+      ...options,
     });
   }
 
@@ -488,12 +559,14 @@ export class FinancialsResource {
    * @param symbol - Stock symbol
    * @param year - Year of the report
    * @param period - Period (FY for 10-K, Q1-Q4 for 10-Q)
+   * @param options - Request options (signal, timeout, cache)
    * @returns Download URL for the XLSX file
    */
   async getFinancialReportXLSX(
     symbol: string,
     year: number,
-    period: string
+    period: string,
+    options?: RequestOptions
   ): Promise<FinancialReportDownload> {
     return this.client.get<FinancialReportDownload>('financial-reports-xlsx', {
       searchParams: {
@@ -501,6 +574,7 @@ export class FinancialsResource {
         year,
         period,
       },
+      ...options,
     });
   }
 }
@@ -4,6 +4,7 @@ import type {
   EquityOffering,
   CrowdfundingRSSItem,
   EquityOfferingRSSItem,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -15,10 +16,12 @@ export class FundraisersResource {
   /**
    * Get latest crowdfunding offerings from RSS feed
    * @param page - Page number (default: 0)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestCrowdfunding(page = 0): Promise<CrowdfundingRSSItem[]> {
+  async getLatestCrowdfunding(page = 0, options?: RequestOptions): Promise<CrowdfundingRSSItem[]> {
     return this.client.get<CrowdfundingRSSItem[]>('crowdfunding-offerings-latest', {
       searchParams: { page },
+      ...options,
     });
   }
 
@@ -27,33 +30,38 @@ export class FundraisersResource {
    * @param name - Company name to search for (optional)
    * @param cik - CIK number to search for (optional)
    * @param page - Page number (default: 0)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchCrowdfunding(name?: string, cik?: string, page = 0): Promise<Crowdfunding[]> {
+  async searchCrowdfunding(name?: string, cik?: string, page = 0, options?: RequestOptions): Promise<Crowdfunding[]> {
     const params: Record<string, string | number> = { page };
     if (name) params.name = name;
     if (cik) params.cik = cik;
 
-    return this.client.get<Crowdfunding[]>('crowdfunding-offerings-search', { searchParams: params });
+    return this.client.get<Crowdfunding[]>('crowdfunding-offerings-search', { searchParams: params, ...options });
   }
 
   /**
    * Get crowdfunding offerings by CIK
    * @param cik - CIK number
    * @param page - Page number (default: 0)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCrowdfundingByCIK(cik: string, page = 0): Promise<Crowdfunding[]> {
+  async getCrowdfundingByCIK(cik: string, page = 0, options?: RequestOptions): Promise<Crowdfunding[]> {
     return this.client.get<Crowdfunding[]>('crowdfunding-offerings', {
       searchParams: { cik, page },
+      ...options,
     });
   }
 
   /**
    * Get latest equity offerings from RSS feed
    * @param page - Page number (default: 0)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestEquity(page = 0): Promise<EquityOfferingRSSItem[]> {
+  async getLatestEquity(page = 0, options?: RequestOptions): Promise<EquityOfferingRSSItem[]> {
     return this.client.get<EquityOfferingRSSItem[]>('fundraising-latest', {
       searchParams: { page },
+      ...options,
     });
   }
 
@@ -62,23 +70,26 @@ export class FundraisersResource {
    * @param name - Company name to search for (optional)
    * @param cik - CIK number to search for (optional)
    * @param page - Page number (default: 0)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchEquity(name?: string, cik?: string, page = 0): Promise<EquityOffering[]> {
+  async searchEquity(name?: string, cik?: string, page = 0, options?: RequestOptions): Promise<EquityOffering[]> {
     const params: Record<string, string | number> = { page };
     if (name) params.name = name;
     if (cik) params.cik = cik;
 
-    return this.client.get<EquityOffering[]>('fundraising-search', { searchParams: params });
+    return this.client.get<EquityOffering[]>('fundraising-search', { searchParams: params, ...options });
   }
 
   /**
    * Get equity offerings by CIK
    * @param cik - CIK number
    * @param page - Page number (default: 0)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getEquityByCIK(cik: string, page = 0): Promise<EquityOffering[]> {
+  async getEquityByCIK(cik: string, page = 0, options?: RequestOptions): Promise<EquityOffering[]> {
     return this.client.get<EquityOffering[]>('fundraising', {
       searchParams: { cik, page },
+      ...options,
     });
   }
 }
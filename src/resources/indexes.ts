@@ -5,6 +5,7 @@ import type {
   Quote,
   HistoricalPrice,
   IntradayChart,
+  RequestOptions,
 } from '../types/index.js';
 import { IntradayInterval } from './market.js';
 
@@ -17,78 +18,90 @@ export class IndexesResource {
 
   /**
    * Get S&P 500 constituents
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSP500Constituents(): Promise<IndexConstituent[]> {
-    return this.client.get<IndexConstituent[]>('sp500-constituent');
+  async getSP500Constituents(options?: RequestOptions): Promise<IndexConstituent[]> {
+    return this.client.get<IndexConstituent[]>('sp500-constituent', options);
   }
 
   /**
    * Get NASDAQ constituents
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getNASDAQConstituents(): Promise<IndexConstituent[]> {
-    return this.client.get<IndexConstituent[]>('nasdaq-constituent');
+  async getNASDAQConstituents(options?: RequestOptions): Promise<IndexConstituent[]> {
+    return this.client.get<IndexConstituent[]>('nasdaq-constituent', options);
   }
 
   /**
    * Get Dow Jones constituents
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getDowJonesConstituents(): Promise<IndexConstituent[]> {
-    return this.client.get<IndexConstituent[]>('dowjones-constituent');
+  async getDowJonesConstituents(options?: RequestOptions): Promise<IndexConstituent[]> {
+    return this.client.get<IndexConstituent[]>('dowjones-constituent', options);
   }
 
   /**
    * Get historical S&P 500 constituents
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalSP500(): Promise<HistoricalIndexConstituent[]> {
-    return this.client.get<HistoricalIndexConstituent[]>('historical-sp500-constituent');
+  async getHistoricalSP500(options?: RequestOptions): Promise<HistoricalIndexConstituent[]> {
+    return this.client.get<HistoricalIndexConstituent[]>('historical-sp500-constituent', options);
   }
 
   /**
    * Get historical NASDAQ constituents
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalNASDAQ(): Promise<HistoricalIndexConstituent[]> {
-    return this.client.get<HistoricalIndexConstituent[]>('historical-nasdaq-constituent');
+  async getHistoricalNASDAQ(options?: RequestOptions): Promise<HistoricalIndexConstituent[]> {
+    return this.client.get<HistoricalIndexConstituent[]>('historical-nasdaq-constituent', options);
   }
 
   /**
    * Get historical Dow Jones constituents
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalDowJones(): Promise<HistoricalIndexConstituent[]> {
-    return this.client.get<HistoricalIndexConstituent[]>('historical-dowjones-constituent');
+  async getHistoricalDowJones(options?: RequestOptions): Promise<HistoricalIndexConstituent[]> {
+    return this.client.get<HistoricalIndexConstituent[]>('historical-dowjones-constituent', options);
   }
 
   /**
    * Get index quote
    * @param symbol - Index symbol (e.g., "^GSPC" for S&P 500)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getQuote(symbol: string): Promise<Quote[]> {
+  async getQuote(symbol: string, options?: RequestOptions): Promise<Quote[]> {
     return this.client.get<Quote[]>('quote', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get short quote (simplified quote data)
    * @param symbol - Index symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getQuoteShort(symbol: string): Promise<Record<string, unknown>[]> {
+  async getQuoteShort(symbol: string, options?: RequestOptions): Promise<Record<string, unknown>[]> {
     return this.client.get<Record<string, unknown>[]>('quote-short', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get all index quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllQuotes(): Promise<Quote[]> {
-    return this.client.get<Quote[]>('batch-index-quotes');
+  async getAllQuotes(options?: RequestOptions): Promise<Quote[]> {
+    return this.client.get<Quote[]>('batch-index-quotes', options);
   }
 
   /**
    * Get index list
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getList(): Promise<Record<string, unknown>[]> {
-    return this.client.get<Record<string, unknown>[]>('index-list');
+  async getList(options?: RequestOptions): Promise<Record<string, unknown>[]> {
+    return this.client.get<Record<string, unknown>[]>('index-list', options);
   }
 
   /**
@@ -96,11 +109,13 @@ export class IndexesResource {
    * @param symbol - Index symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalPrices(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<HistoricalPrice[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
@@ -108,6 +123,7 @@ export class IndexesResource {
 
     return this.client.get<HistoricalPrice[]>('historical-price-eod/full', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -116,11 +132,13 @@ export class IndexesResource {
    * @param symbol - Index symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalLight(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<{ date: string; close: number }[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
@@ -128,6 +146,7 @@ export class IndexesResource {
 
     return this.client.get<{ date: string; close: number }[]>('historical-price-eod/light', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -137,12 +156,14 @@ export class IndexesResource {
    * @param interval - Time interval
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getIntradayChart(
     symbol: string,
     interval: IntradayInterval = IntradayInterval.OneHour,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<IntradayChart[]> {
     const params: Record<string, string> = { symbol: symbol.toUpperCase() };
     if (from) params.from = from;
@@ -150,6 +171,7 @@ export class IndexesResource {
 
     return this.client.get<IntradayChart[]>(`historical-chart/${interval}`, {
       searchParams: params,
+      ...options,
     });
   }
 }
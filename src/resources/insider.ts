@@ -13,6 +13,7 @@ import type {
   SymbolOwnership,
   IndustryInstitutionalOwnership,
   Form4Ownership,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -25,43 +26,51 @@ export class InsiderResource {
    * Get insider trading transactions
    * @param symbol - Stock symbol
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInsiderTrades(symbol: string, limit?: number): Promise<InsiderTrade[]> {
+  async getInsiderTrades(symbol: string, limit?: number, options?: RequestOptions): Promise<InsiderTrade[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
 
     return this.client.get<InsiderTrade[]>('insider-trading', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get insider trading statistics
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInsiderStatistics(symbol: string): Promise<InsiderTradingStatistics[]> {
+  async getInsiderStatistics(symbol: string, options?: RequestOptions): Promise<InsiderTradingStatistics[]> {
     return this.client.get<InsiderTradingStatistics[]>('insider-roaster-statistic', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get insider roster
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInsiderRoster(symbol: string): Promise<InsiderRoster[]> {
+  async getInsiderRoster(symbol: string, options?: RequestOptions): Promise<InsiderRoster[]> {
     return this.client.get<InsiderRoster[]>('insider-roaster', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get institutional holders
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInstitutionalHolders(symbol: string): Promise<InstitutionalHolder[]> {
+  async getInstitutionalHolders(symbol: string, options?: RequestOptions): Promise<InstitutionalHolder[]> {
     return this.client.get<InstitutionalHolder[]>('institutional-holder', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -69,85 +78,99 @@ export class InsiderResource {
    * Get Form 13F filings
    * @param cik - CIK number
    * @param date - Filing date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async get13F(cik: string, date?: string): Promise<Form13F[]> {
+  async get13F(cik: string, date?: string, options?: RequestOptions): Promise<Form13F[]> {
     const params: Record<string, string> = { cik };
     if (date) params.date = date;
 
     return this.client.get<Form13F[]>('form-thirteen', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get Senate trading disclosures
    * @param symbol - Stock symbol (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSenateTrades(symbol?: string): Promise<CongressionalTrade[]> {
+  async getSenateTrades(symbol?: string, options?: RequestOptions): Promise<CongressionalTrade[]> {
     const params: Record<string, string> = {};
     if (symbol) params.symbol = symbol.toUpperCase();
 
     return this.client.get<CongressionalTrade[]>('senate-trading', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get House of Representatives trading disclosures
    * @param symbol - Stock symbol (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHouseTrades(symbol?: string): Promise<CongressionalTrade[]> {
+  async getHouseTrades(symbol?: string, options?: RequestOptions): Promise<CongressionalTrade[]> {
     const params: Record<string, string> = {};
     if (symbol) params.symbol = symbol.toUpperCase();
 
     return this.client.get<CongressionalTrade[]>('house-disclosure', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get latest Senate trading disclosures from RSS feed
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestSenateTrades(): Promise<CongressionalTrade[]> {
-    return this.client.get<CongressionalTrade[]>('senate-trading-rss-feed');
+  async getLatestSenateTrades(options?: RequestOptions): Promise<CongressionalTrade[]> {
+    return this.client.get<CongressionalTrade[]>('senate-trading-rss-feed', options);
   }
 
   /**
    * Get latest House of Representatives trading disclosures from RSS feed
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestHouseTrades(): Promise<CongressionalTrade[]> {
-    return this.client.get<CongressionalTrade[]>('house-disclosure-rss-feed');
+  async getLatestHouseTrades(options?: RequestOptions): Promise<CongressionalTrade[]> {
+    return this.client.get<CongressionalTrade[]>('house-disclosure-rss-feed', options);
   }
 
   /**
    * Get Senate trading disclosures by senator name
    * @param name - Senator name
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSenateTradingByName(name: string): Promise<CongressionalTrade[]> {
+  async getSenateTradingByName(name: string, options?: RequestOptions): Promise<CongressionalTrade[]> {
     return this.client.get<CongressionalTrade[]>('senate-trading', {
       searchParams: { name },
+      ...options,
     });
   }
 
   /**
    * Get House of Representatives trading disclosures by representative name
    * @param name - Representative name
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHouseTradingByName(name: string): Promise<CongressionalTrade[]> {
+  async getHouseTradingByName(name: string, options?: RequestOptions): Promise<CongressionalTrade[]> {
     return this.client.get<CongressionalTrade[]>('house-disclosure', {
       searchParams: { name },
+      ...options,
     });
   }
 
   /**
    * Get latest insider trades
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestInsiderTrades(limit?: number): Promise<InsiderTrade[]> {
+  async getLatestInsiderTrades(limit?: number, options?: RequestOptions): Promise<InsiderTrade[]> {
     const params: Record<string, number> = {};
     if (limit) params.limit = limit;
     return this.client.get<InsiderTrade[]>('insider-trading', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -155,32 +178,37 @@ export class InsiderResource {
    * Get insider trades by reporting person name
    * @param name - Reporting person name
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInsiderTradesByName(name: string, limit?: number): Promise<InsiderTrade[]> {
+  async getInsiderTradesByName(name: string, limit?: number, options?: RequestOptions): Promise<InsiderTrade[]> {
     const params: Record<string, string | number> = { reportingName: name };
     if (limit) params.limit = limit;
     return this.client.get<InsiderTrade[]>('insider-trading', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get insider transaction types
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getInsiderTransactionTypes(): Promise<{ transactionType: string }[]> {
-    return this.client.get<{ transactionType: string }[]>('insider-trading-transaction-type');
+  async getInsiderTransactionTypes(options?: RequestOptions): Promise<{ transactionType: string }[]> {
+    return this.client.get<{ transactionType: string }[]>('insider-trading-transaction-type', options);
   }
 
   /**
    * Get Form 4 ownership data
    * @param symbol - Stock symbol
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getForm4Ownership(symbol: string, limit?: number): Promise<Form4Ownership[]> {
+  async getForm4Ownership(symbol: string, limit?: number, options?: RequestOptions): Promise<Form4Ownership[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
     return this.client.get<Form4Ownership[]>('form-four', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -188,24 +216,28 @@ export class InsiderResource {
    * Get latest Form 13F filing dates for institutional investors
    * @param cik - CIK number (optional)
    * @param page - Page number for pagination (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatest13FFilings(cik?: string, page?: number): Promise<Form13FPortfolioDate[]> {
+  async getLatest13FFilings(cik?: string, page?: number, options?: RequestOptions): Promise<Form13FPortfolioDate[]> {
     const params: Record<string, string | number> = {};
     if (cik) params.cik = cik;
     if (page) params.page = page;
 
     return this.client.get<Form13FPortfolioDate[]>('institutional-ownership-portfolio-date', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get Form 13F filing dates for a specific institutional investor
    * @param cik - CIK number
+   * @param options - Request options (signal, timeout, cache)
    */
-  async get13FFilingDates(cik: string): Promise<Form13FPortfolioDate[]> {
+  async get13FFilingDates(cik: string, options?: RequestOptions): Promise<Form13FPortfolioDate[]> {
     return this.client.get<Form13FPortfolioDate[]>('institutional-ownership-portfolio-date', {
       searchParams: { cik },
+      ...options,
     });
   }
 
@@ -214,14 +246,16 @@ export class InsiderResource {
    * @param cik - CIK number
    * @param date - Filing date (YYYY-MM-DD, optional)
    * @param page - Page number for pagination (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async get13FWithAnalytics(cik: string, date?: string, page?: number): Promise<Form13FWithAnalytics[]> {
+  async get13FWithAnalytics(cik: string, date?: string, page?: number, options?: RequestOptions): Promise<Form13FWithAnalytics[]> {
     const params: Record<string, string | number> = { cik };
     if (date) params.date = date;
     if (page) params.page = page;
 
     return this.client.get<Form13FWithAnalytics[]>('form-thirteen', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -230,14 +264,16 @@ export class InsiderResource {
    * @param cik - CIK number
    * @param date - Filing date (YYYY-MM-DD, optional)
    * @param page - Page number for pagination (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getPortfolioHoldingsSummary(cik: string, date?: string, page?: number): Promise<PortfolioHoldingsSummary[]> {
+  async getPortfolioHoldingsSummary(cik: string, date?: string, page?: number, options?: RequestOptions): Promise<PortfolioHoldingsSummary[]> {
     const params: Record<string, string | number> = { cik };
     if (date) params.date = date;
     if (page) params.page = page;
 
     return this.client.get<PortfolioHoldingsSummary[]>('institutional-ownership-portfolio-holdings-summary', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -246,14 +282,16 @@ export class InsiderResource {
    * @param cik - CIK number
    * @param date - Filing date (YYYY-MM-DD, optional)
    * @param page - Page number for pagination (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIndustryPortfolioBreakdown(cik: string, date?: string, page?: number): Promise<IndustryPortfolioHoldingsSummary[]> {
+  async getIndustryPortfolioBreakdown(cik: string, date?: string, page?: number, options?: RequestOptions): Promise<IndustryPortfolioHoldingsSummary[]> {
     const params: Record<string, string | number> = { cik };
     if (date) params.date = date;
     if (page) params.page = page;
 
     return this.client.get<IndustryPortfolioHoldingsSummary[]>('institutional-ownership-industry-portfolio-holdings-summary', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -262,14 +300,16 @@ export class InsiderResource {
    * @param symbol - Stock symbol
    * @param includeCurrentQuarter - Whether to include current quarter data (optional)
    * @param page - Page number for pagination (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSymbolOwnershipPositions(symbol: string, includeCurrentQuarter?: boolean, page?: number): Promise<SymbolOwnership[]> {
+  async getSymbolOwnershipPositions(symbol: string, includeCurrentQuarter?: boolean, page?: number, options?: RequestOptions): Promise<SymbolOwnership[]> {
     const params: Record<string, string | number | boolean> = { symbol: symbol.toUpperCase() };
     if (includeCurrentQuarter !== undefined) params.includeCurrentQuarter = includeCurrentQuarter;
     if (page) params.page = page;
 
     return this.client.get<SymbolOwnership[]>('institutional-ownership-symbol-ownership', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -277,13 +317,15 @@ export class InsiderResource {
    * Get industry summary of institutional ownership by symbol
    * @param symbol - Stock symbol
    * @param page - Page number for pagination (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIndustryInstitutionalOwnership(symbol: string, page?: number): Promise<IndustryInstitutionalOwnership[]> {
+  async getIndustryInstitutionalOwnership(symbol: string, page?: number, options?: RequestOptions): Promise<IndustryInstitutionalOwnership[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (page) params.page = page;
 
     return this.client.get<IndustryInstitutionalOwnership[]>('institutional-ownership-symbol-ownership-percent', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -291,13 +333,15 @@ export class InsiderResource {
    * Get holder performance summary for an institutional investor
    * @param cik - CIK number
    * @param date - Filing date (YYYY-MM-DD, optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHolderPerformanceSummary(cik: string, date?: string): Promise<PortfolioHoldingsSummary[]> {
+  async getHolderPerformanceSummary(cik: string, date?: string, options?: RequestOptions): Promise<PortfolioHoldingsSummary[]> {
     const params: Record<string, string> = { cik };
     if (date) params.date = date;
 
     return this.client.get<PortfolioHoldingsSummary[]>('institutional-ownership-portfolio-holdings-summary', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -305,13 +349,15 @@ export class InsiderResource {
    * Get industry performance summary for an institutional investor
    * @param cik - CIK number
    * @param date - Filing date (YYYY-MM-DD, optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIndustryPerformanceSummary(cik: string, date?: string): Promise<IndustryPortfolioHoldingsSummary[]> {
+  async getIndustryPerformanceSummary(cik: string, date?: string, options?: RequestOptions): Promise<IndustryPortfolioHoldingsSummary[]> {
     const params: Record<string, string> = { cik };
     if (date) params.date = date;
 
     return this.client.get<IndustryPortfolioHoldingsSummary[]>('institutional-ownership-industry-portfolio-holdings-summary', {
       searchParams: params,
+      ...options,
     });
   }
 }
@@ -10,6 +10,7 @@ import type {
   CryptoList,
   MarketHours,
   MarketHoliday,
+  RequestOptions,
 } from '../types/index.js';
 import { validateDateRange, validateSymbol } from '../utils/validation.js';
 
@@ -37,11 +38,13 @@ export class MarketResource {
    * @param symbol - Stock symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalPrices(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<HistoricalPrice[]> {
     validateSymbol(symbol);
     validateDateRange(from, to);
@@ -55,6 +58,7 @@ export class MarketResource {
 
     return this.client.get<HistoricalPrice[]>('historical-price-eod/full', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -63,11 +67,13 @@ export class MarketResource {
    * @param symbol - Stock symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalPricesLight(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<LightChartData[]> {
     validateSymbol(symbol);
     validateDateRange(from, to);
@@ -81,6 +87,7 @@ export class MarketResource {
 
     return this.client.get<LightChartData[]>('historical-price-eod/light', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -90,12 +97,14 @@ export class MarketResource {
    * @param interval - Time interval
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getIntradayChart(
     symbol: string,
     interval: IntradayInterval = IntradayInterval.OneHour,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<IntradayChart[]> {
     validateSymbol(symbol);
     validateDateRange(from, to);
@@ -109,57 +118,67 @@ export class MarketResource {
 
     return this.client.get<IntradayChart[]>(`historical-chart/${interval}`, {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get forex pair quote
    * @param pair - Forex pair (e.g., "EURUSD")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getForexPrice(pair: string): Promise<ForexPrice[]> {
+  async getForexPrice(pair: string, options?: RequestOptions): Promise<ForexPrice[]> {
     return this.client.get<ForexPrice[]>('quote', {
       searchParams: { symbol: pair.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get all forex pair quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllForexPrices(): Promise<ForexPrice[]> {
-    return this.client.get<ForexPrice[]>('batch-forex-quotes');
+  async getAllForexPrices(options?: RequestOptions): Promise<ForexPrice[]> {
+    return this.client.get<ForexPrice[]>('batch-forex-quotes', options);
   }
 
   /**
    * Get cryptocurrency quote
    * @param symbol - Crypto symbol (e.g., "BTCUSD")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCryptoPrice(symbol: string): Promise<CryptoPrice[]> {
+  async getCryptoPrice(symbol: string, options?: RequestOptions): Promise<CryptoPrice[]> {
     return this.client.get<CryptoPrice[]>('quote', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get all cryptocurrency quotes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllCryptoPrices(): Promise<CryptoPrice[]> {
-    return this.client.get<CryptoPrice[]>('batch-crypto-quotes');
+  async getAllCryptoPrices(options?: RequestOptions): Promise<CryptoPrice[]> {
+    return this.client.get<CryptoPrice[]>('batch-crypto-quotes', options);
   }
 
   /**
    * Get list of available cryptocurrencies
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCryptoList(): Promise<CryptoList[]> {
-    return this.client.get<CryptoList[]>('cryptocurrency-list');
+  async getCryptoList(options?: RequestOptions): Promise<CryptoList[]> {
+    return this.client.get<CryptoList[]>('cryptocurrency-list', options);
   }
 
   /**
    * Get cryptocurrency quote (short format)
    * @param symbol - Crypto symbol (e.g., "BTCUSD")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCryptoQuoteShort(symbol: string): Promise<ForexQuoteShort[]> {
+  async getCryptoQuoteShort(symbol: string, options?: RequestOptions): Promise<ForexQuoteShort[]> {
     return this.client.get<ForexQuoteShort[]>('quote-short', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -168,11 +187,13 @@ export class MarketResource {
    * @param symbol - Crypto symbol (e.g., "BTCUSD")
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getCryptoLightChart(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<LightChartData[]> {
     const params: Record<string, string> = {
       symbol: symbol.toUpperCase(),
@@ -182,6 +203,7 @@ export class MarketResource {
 
     return this.client.get<LightChartData[]>('historical-price-eod/light', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -190,11 +212,13 @@ export class MarketResource {
    * @param symbol - Crypto symbol (e.g., "BTCUSD")
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getCryptoFullChart(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<HistoricalPrice[]> {
     const params: Record<string, string> = {
       symbol: symbol.toUpperCase(),
@@ -204,6 +228,7 @@ export class MarketResource {
 
     return this.client.get<HistoricalPrice[]>('historical-price-eod/full', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -213,12 +238,14 @@ export class MarketResource {
    * @param interval - Time interval
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getCryptoIntraday(
     symbol: string,
     interval: IntradayInterval = IntradayInterval.OneHour,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<IntradayChart[]> {
     const params: Record<string, string> = {
       symbol: symbol.toUpperCase(),
@@ -228,6 +255,7 @@ export class MarketResource {
 
     return this.client.get<IntradayChart[]>(`historical-chart/${interval}`, {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -236,11 +264,13 @@ export class MarketResource {
    * @param pair - Forex pair
    * @param from - Start date
    * @param to - End date
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalForex(
     pair: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<HistoricalPrice[]> {
     const params: Record<string, string> = {
       symbol: pair.toUpperCase(),
@@ -251,23 +281,27 @@ export class MarketResource {
 
     return this.client.get<HistoricalPrice[]>('historical-price-eod/full', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get list of available forex currency pairs
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getForexCurrencyPairs(): Promise<ForexCurrencyPair[]> {
-    return this.client.get<ForexCurrencyPair[]>('forex-list');
+  async getForexCurrencyPairs(options?: RequestOptions): Promise<ForexCurrencyPair[]> {
+    return this.client.get<ForexCurrencyPair[]>('forex-list', options);
   }
 
   /**
    * Get forex quote in short format (symbol, price, volume)
    * @param pair - Forex pair (e.g., "EURUSD")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getForexQuoteShort(pair: string): Promise<ForexQuoteShort[]> {
+  async getForexQuoteShort(pair: string, options?: RequestOptions): Promise<ForexQuoteShort[]> {
     return this.client.get<ForexQuoteShort[]>('quote-short', {
       searchParams: { symbol: pair.toUpperCase() },
+      ...options,
     });
   }
 
@@ -276,11 +310,13 @@ export class MarketResource {
    * @param pair - Forex pair (e.g., "EURUSD")
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getForexLightChart(
     pair: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<LightChartData[]> {
     const params: Record<string, string> = {
       symbol: pair.toUpperCase(),
@@ -290,6 +326,7 @@ export class MarketResource {
 
     return this.client.get<LightChartData[]>('historical-price-eod/light', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -299,12 +336,14 @@ export class MarketResource {
    * @param interval - Time interval
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getForexIntraday(
     pair: string,
     interval: IntradayInterval = IntradayInterval.OneHour,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<IntradayChart[]> {
     const params: Record<string, string> = {
       symbol: pair.toUpperCase(),
@@ -314,34 +353,40 @@ export class MarketResource {
 
     return this.client.get<IntradayChart[]>(`historical-chart/${interval}`, {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get market hours for a specific exchange
    * @param exchange - Exchange name (e.g., "NYSE", "NASDAQ")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMarketHours(exchange: string): Promise<MarketHours[]> {
+  async getMarketHours(exchange: string, options?: RequestOptions): Promise<MarketHours[]> {
     return this.client.get<MarketHours[]>('exchange-market-hours', {
       searchParams: { exchange },
+      ...options,
     });
   }
 
   /**
    * Get market holidays for a specific exchange
    * @param exchange - Exchange name (e.g., "NYSE", "NASDAQ")
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMarketHolidays(exchange: string): Promise<MarketHoliday[]> {
+  async getMarketHolidays(exchange: string, options?: RequestOptions): Promise<MarketHoliday[]> {
     return this.client.get<MarketHoliday[]>('holidays-by-exchange', {
       searchParams: { exchange },
+      ...options,
     });
   }
 
   /**
    * Get hours for all exchanges
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllMarketHours(): Promise<MarketHours[]> {
-    return this.client.get<MarketHours[]>('all-exchange-market-hours');
+  async getAllMarketHours(options?: RequestOptions): Promise<MarketHours[]> {
+    return this.client.get<MarketHours[]>('all-exchange-market-hours', options);
   }
 
   /**
@@ -349,11 +394,13 @@ export class MarketResource {
    * @param symbol - Stock symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getUnadjustedPrice(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<HistoricalPrice[]> {
     const params: Record<string, string> = {
       symbol: symbol.toUpperCase(),
@@ -363,7 +410,7 @@ export class MarketResource {
 
     return this.client.get<HistoricalPrice[]>(
       'historical-price-eod/non-split-adjusted',
-      { searchParams: params }
+      { searchParams: params, ...options }
     );
   }
 
@@ -372,11 +419,13 @@ export class MarketResource {
    * @param symbol - Stock symbol
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getDividendAdjusted(
     symbol: string,
     from?: string,
-    to?: string
+    to?: string,
+    options?: RequestOptions
   ): Promise<HistoricalPrice[]> {
     const params: Record<string, string> = {
       symbol: symbol.toUpperCase(),
@@ -386,7 +435,7 @@ export class MarketResource {
 
     return this.client.get<HistoricalPrice[]>(
       'historical-price-eod/dividend-adjusted',
-      { searchParams: params }
+      { searchParams: params, ...options }
     );
   }
 }
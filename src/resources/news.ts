@@ -4,6 +4,7 @@ import type {
   StockNews,
   PressRelease,
   EarningsTranscript,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -16,20 +17,24 @@ export class NewsResource {
    * Get FMP articles
    * @param page - Page number
    * @param limit - Results per page
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFMPArticles(page = 0, limit = 50): Promise<FMPArticle[]> {
+  async getFMPArticles(page = 0, limit = 50, options?: RequestOptions): Promise<FMPArticle[]> {
     return this.client.get<FMPArticle[]>('fmp-articles', {
       searchParams: { page, size: limit },
+      ...options,
     });
   }
 
   /**
    * Get general news
    * @param page - Page number
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getGeneralNews(page = 0): Promise<StockNews[]> {
+  async getGeneralNews(page = 0, options?: RequestOptions): Promise<StockNews[]> {
     return this.client.get<StockNews[]>('general-news', {
       searchParams: { page },
+      ...options,
     });
   }
 
@@ -37,13 +42,15 @@ export class NewsResource {
    * Get stock news
    * @param tickers - Comma-separated stock symbols (optional)
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getStockNews(tickers?: string, limit = 50): Promise<StockNews[]> {
+  async getStockNews(tickers?: string, limit = 50, options?: RequestOptions): Promise<StockNews[]> {
     const params: Record<string, string | number> = { limit };
     if (tickers) params.tickers = tickers;
 
     return this.client.get<StockNews[]>('stock-news', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -51,10 +58,12 @@ export class NewsResource {
    * Get crypto news
    * @param page - Page number
    * @param limit - Results per page
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCryptoNews(page = 0, limit = 50): Promise<StockNews[]> {
+  async getCryptoNews(page = 0, limit = 50, options?: RequestOptions): Promise<StockNews[]> {
     return this.client.get<StockNews[]>('crypto-news', {
       searchParams: { page, limit },
+      ...options,
     });
   }
 
@@ -62,10 +71,12 @@ export class NewsResource {
    * Get forex news
    * @param page - Page number
    * @param limit - Results per page
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getForexNews(page = 0, limit = 50): Promise<StockNews[]> {
+  async getForexNews(page = 0, limit = 50, options?: RequestOptions): Promise<StockNews[]> {
     return this.client.get<StockNews[]>('forex-news', {
       searchParams: { page, limit },
+      ...options,
     });
   }
 
@@ -73,10 +84,12 @@ export class NewsResource {
    * Get press releases
    * @param symbol - Stock symbol
    * @param page - Page number
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getPressReleases(symbol: string, page = 0): Promise<PressRelease[]> {
+  async getPressReleases(symbol: string, page = 0, options?: RequestOptions): Promise<PressRelease[]> {
     return this.client.get<PressRelease[]>('press-releases', {
       searchParams: { symbol: symbol.toUpperCase(), page },
+      ...options,
     });
   }
 
@@ -84,10 +97,12 @@ export class NewsResource {
    * Get latest press releases for a symbol
    * @param symbol - Stock symbol
    * @param limit - Number of results (default: 50)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestPressReleases(symbol: string, limit = 50): Promise<PressRelease[]> {
+  async getLatestPressReleases(symbol: string, limit = 50, options?: RequestOptions): Promise<PressRelease[]> {
     return this.client.get<PressRelease[]>('press-releases', {
       searchParams: { symbol: symbol.toUpperCase(), limit },
+      ...options,
     });
   }
 
@@ -96,11 +111,13 @@ export class NewsResource {
    * @param symbol - Stock symbol
    * @param year - Year
    * @param quarter - Quarter (1-4)
+   * @param options - Request options (signal, timeout, cache)
    */
   async getEarningsTranscript(
     symbol: string,
     year: number,
-    quarter: number
+    quarter: number,
+    options?: RequestOptions
   ): Promise<EarningsTranscript[]> {
     return this.client.get<EarningsTranscript[]>('earning-call-transcript', {
       searchParams: {
@@ -108,17 +125,20 @@ export class NewsResource {
         year,
         quarter,
       },
+      ...options,
     });
   }
 
   /**
    * Get available earnings transcript dates
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getEarningsTranscriptDates(symbol: string): Promise<Array<{ year: number; quarter: number }>> {
+  async getEarningsTranscriptDates(symbol: string, options?: RequestOptions): Promise<Array<{ year: number; quarter: number }>> {
     return this.client.get<Array<{ year: number; quarter: number }>>(
       'earning-call-transcript-dates', {
         searchParams: { symbol: symbol.toUpperCase() },
+        ...options,
       }
     );
   }
@@ -126,28 +146,33 @@ export class NewsResource {
   /**
    * Get batch earnings call transcripts (all available transcripts for a symbol)
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getBatchEarningsTranscripts(symbol: string): Promise<EarningsTranscript[]> {
+  async getBatchEarningsTranscripts(symbol: string, options?: RequestOptions): Promise<EarningsTranscript[]> {
     return this.client.get<EarningsTranscript[]>('batch-earning-call-transcript', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get list of symbols with available earnings transcripts
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAvailableTranscriptSymbols(): Promise<Array<{ symbol: string }>> {
-    return this.client.get<Array<{ symbol: string }>>('earning-call-transcript-available-symbols');
+  async getAvailableTranscriptSymbols(options?: RequestOptions): Promise<Array<{ symbol: string }>> {
+    return this.client.get<Array<{ symbol: string }>>('earning-call-transcript-available-symbols', options);
   }
 
   /**
    * Search press releases
    * @param query - Search query
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchPressReleases(query: string, limit = 50): Promise<PressRelease[]> {
+  async searchPressReleases(query: string, limit = 50, options?: RequestOptions): Promise<PressRelease[]> {
     return this.client.get<PressRelease[]>('press-releases-search', {
       searchParams: { query, limit },
+      ...options,
     });
   }
 
@@ -155,10 +180,12 @@ export class NewsResource {
    * Search stock news
    * @param query - Search query
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchStockNews(query: string, limit = 50): Promise<StockNews[]> {
+  async searchStockNews(query: string, limit = 50, options?: RequestOptions): Promise<StockNews[]> {
     return this.client.get<StockNews[]>('stock-news-search', {
       searchParams: { query, limit },
+      ...options,
     });
   }
 
@@ -166,10 +193,12 @@ export class NewsResource {
    * Search crypto news
    * @param query - Search query
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchCryptoNews(query: string, limit = 50): Promise<StockNews[]> {
+  async searchCryptoNews(query: string, limit = 50, options?: RequestOptions): Promise<StockNews[]> {
     return this.client.get<StockNews[]>('crypto-news-search', {
       searchParams: { query, limit },
+      ...options,
     });
   }
 
@@ -177,10 +206,12 @@ export class NewsResource {
    * Search forex news
    * @param query - Search query
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchForexNews(query: string, limit = 50): Promise<StockNews[]> {
+  async searchForexNews(query: string, limit = 50, options?: RequestOptions): Promise<StockNews[]> {
     return this.client.get<StockNews[]>('forex-news-search', {
       searchParams: { query, limit },
+      ...options,
     });
   }
 }
@@ -4,6 +4,7 @@ import type {
   SectorPerformance,
   SectorPE,
   HistoricalSectorPerformance,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -15,35 +16,40 @@ export class PerformanceResource {
 
   /**
    * Get biggest gainers
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getGainers(): Promise<StockMover[]> {
-    return this.client.get<StockMover[]>('stock-market-gainers');
+  async getGainers(options?: RequestOptions): Promise<StockMover[]> {
+    return this.client.get<StockMover[]>('stock-market-gainers', options);
   }
 
   /**
    * Get biggest losers
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLosers(): Promise<StockMover[]> {
-    return this.client.get<StockMover[]>('stock-market-losers');
+  async getLosers(options?: RequestOptions): Promise<StockMover[]> {
+    return this.client.get<StockMover[]>('stock-market-losers', options);
   }
 
   /**
    * Get most active stocks
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getMostActive(): Promise<StockMover[]> {
-    return this.client.get<StockMover[]>('stock-market-actives');
+  async getMostActive(options?: RequestOptions): Promise<StockMover[]> {
+    return this.client.get<StockMover[]>('stock-market-actives', options);
   }
 
   /**
    * Get sector performance
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSectorPerformance(limit?: number): Promise<SectorPerformance[]> {
+  async getSectorPerformance(limit?: number, options?: RequestOptions): Promise<SectorPerformance[]> {
     const params: Record<string, number> = {};
     if (limit) params.limit = limit;
 
     return this.client.get<SectorPerformance[]>('sector-performance', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -51,16 +57,19 @@ export class PerformanceResource {
    * Get historical sector performance
    * @param sector - Sector name
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalSectorPerformance(
     sector: string,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<HistoricalSectorPerformance[]> {
     const params: Record<string, string | number> = { sector };
     if (limit) params.limit = limit;
 
     return this.client.get<HistoricalSectorPerformance[]>('historical-sector-performance', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -68,13 +77,15 @@ export class PerformanceResource {
    * Get sector PE ratios
    * @param date - Date (YYYY-MM-DD)
    * @param exchange - Exchange (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSectorPE(date: string, exchange?: string): Promise<SectorPE[]> {
+  async getSectorPE(date: string, exchange?: string, options?: RequestOptions): Promise<SectorPE[]> {
     const params: Record<string, string> = { date };
     if (exchange) params.exchange = exchange;
 
     return this.client.get<SectorPE[]>('sector-price-earning-ratio', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -82,33 +93,39 @@ export class PerformanceResource {
    * Get industry PE ratios
    * @param date - Date (YYYY-MM-DD)
    * @param exchange - Exchange (optional)
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getIndustryPE(date: string, exchange?: string): Promise<Record<string, unknown>[]> {
+  async getIndustryPE(date: string, exchange?: string, options?: RequestOptions): Promise<Record<string, unknown>[]> {
     const params: Record<string, string> = { date };
     if (exchange) params.exchange = exchange;
 
     return this.client.get<Record<string, unknown>[]>('industry-price-earning-ratio', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get historical sector PE
    * @param sector - Sector name
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalSectorPE(sector: string): Promise<SectorPE[]> {
+  async getHistoricalSectorPE(sector: string, options?: RequestOptions): Promise<SectorPE[]> {
     return this.client.get<SectorPE[]>('historical-sector-pe', {
       searchParams: { sector },
+      ...options,
     });
   }
 
   /**
    * Get historical industry PE
    * @param industry - Industry name
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalIndustryPE(industry: string): Promise<Record<string, unknown>[]> {
+  async getHistoricalIndustryPE(industry: string, options?: RequestOptions): Promise<Record<string, unknown>[]> {
     return this.client.get<Record<string, unknown>[]>('historical-industry-pe', {
       searchParams: { industry },
+      ...options,
     });
   }
 }
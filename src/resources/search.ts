@@ -8,6 +8,7 @@ import type {
   StockScreenerParams,
   StockScreenerResult,
   ExchangeSymbol,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -22,6 +23,7 @@ export class SearchResource {
    * @param query - Ticker symbol to search for
    * @param limit - Maximum number of results (default: 10)
    * @param exchange - Filter by exchange (optional)
+   * @param options - Request options (signal, timeout, cache)
    * @returns Array of matching symbols
    *
    * @example
@@ -36,7 +38,8 @@ export class SearchResource {
   async searchBySymbol(
     query: string,
     limit = 10,
-    exchange?: string
+    exchange?: string,
+    options?: RequestOptions
   ): Promise<SymbolSearchResult[]> {
     const params: Record<string, string | number> = {
       query: query.toUpperCase(),
@@ -47,7 +50,7 @@ export class SearchResource {
       params.exchange = exchange.toUpperCase();
     }
 
-    return this.client.get<SymbolSearchResult[]>('search-symbol', { searchParams: params });
+    return this.client.get<SymbolSearchResult[]>('search-symbol', { searchParams: params, ...options });
   }
 
   /**
@@ -55,6 +58,7 @@ export class SearchResource {
    * @param query - Company name to search for
    * @param limit - Maximum number of results (default: 10)
    * @param exchange - Filter by exchange (optional)
+   * @param options - Request options (signal, timeout, cache)
    * @returns Array of matching companies
    *
    * @example
@@ -69,7 +73,8 @@ export class SearchResource {
   async searchByName(
     query: string,
     limit = 10,
-    exchange?: string
+    exchange?: string,
+    options?: RequestOptions
   ): Promise<NameSearchResult[]> {
     const params: Record<string, string | number> = {
       query,
@@ -80,12 +85,13 @@ export class SearchResource {
       params.exchange = exchange.toUpperCase();
     }
 
-    return this.client.get<NameSearchResult[]>('search-name', { searchParams: params });
+    return this.client.get<NameSearchResult[]>('search-name', { searchParams: params, ...options });
   }
 
   /**
    * Search company by CIK (Central Index Key)
    * @param cik - CIK number to search for
+   * @param options - Request options (signal, timeout, cache)
    * @returns Array of matching companies
    *
    * @example
@@ -94,15 +100,17 @@ export class SearchResource {
    * const results = await fmp.search.searchByCIK('0000320193');
    * ```
    */
-  async searchByCIK(cik: string): Promise<CIKSearchResult[]> {
+  async searchByCIK(cik: string, options?: RequestOptions): Promise<CIKSearchResult[]> {
     return this.client.get<CIKSearchResult[]>('search-cik', {
       searchParams: { cik },
+      ...options,
     });
   }
 
   /**
    * Search company by CUSIP
    * @param cusip - CUSIP number to search for
+   * @param options - Request options (signal, timeout, cache)
    * @returns Array of matching companies
    *
    * @example
@@ -111,15 +119,17 @@ export class SearchResource {
    * const results = await fmp.search.searchByCUSIP('037833100');
    * ```
    */
-  async searchByCUSIP(cusip: string): Promise<CUSIPSearchResult[]> {
+  async searchByCUSIP(cusip: string, options?: RequestOptions): Promise<CUSIPSearchResult[]> {
     return this.client.get<CUSIPSearchResult[]>('search-cusip', {
       searchParams: { cusip },
+      ...options,
     });
   }
 
   /**
    * Search company by ISIN (International Securities Identification Number)
    * @param isin - ISIN to search for
+   * @param options - Request options (signal, timeout, cache)
    * @returns Array of matching companies
    *
    * @example
@@ -128,13 +138,14 @@ export class SearchResource {
    * const results = await fmp.search.searchByISIN('US0378331005');
    * ```
    */
-  async searchByISIN(isin: string): Promise<ISINSearchResult[]> {
-    return this.client.get<ISINSearchResult[]>('search-isin', { searchParams: { isin } });
+  async searchByISIN(isin: string, options?: RequestOptions): Promise<ISINSearchResult[]> {
+    return this.client.get<ISINSearchResult[]>('search-isin', { searchParams: { isin }, ...options });
   }
 
   /**
    * Screen stocks based on multiple criteria
    * @param params - Screening parameters
+   * @param options - Request options (signal, timeout, cache)
    * @returns Array of stocks matching the criteria
    *
    * @example
@@ -155,7 +166,7 @@ export class SearchResource {
    * });
    * ```
    */
-  async screenStocks(params: StockScreenerParams = {}): Promise<StockScreenerResult[]> {
+  async screenStocks(params: StockScreenerParams = {}, options?: RequestOptions): Promise<StockScreenerResult[]> {
     const queryParams: Record<string, string | number | boolean> = {};
 
     // Market cap filters
@@ -225,12 +236,13 @@ export class SearchResource {
       queryParams.limit = params.limit;
     }
 
-    return this.client.get<StockScreenerResult[]>('company-screener', { searchParams: queryParams });
+    return this.client.get<StockScreenerResult[]>('company-screener', { searchParams: queryParams, ...options });
   }
 
   /**
    * Get all symbols listed on a specific exchange
    * @param exchange - Exchange code (e.g., 'NASDAQ', 'NYSE', 'AMEX', 'ETF', 'MUTUAL_FUND', 'COMMODITY', 'INDEX', 'CRYPTO', 'FOREX', 'TSX', 'EURONEXT')
+   * @param options - Request options (signal, timeout, cache)
    * @returns Array of symbols on the exchange
    *
    * @example
@@ -245,9 +257,10 @@ export class SearchResource {
    * const etfs = await fmp.search.getExchangeSymbols('ETF');
    * ```
    */
-  async getExchangeSymbols(exchange: string): Promise<ExchangeSymbol[]> {
+  async getExchangeSymbols(exchange: string, options?: RequestOptions): Promise<ExchangeSymbol[]> {
     return this.client.get<ExchangeSymbol[]>('exchange-symbols', {
       searchParams: { exchange: exchange.toUpperCase() },
+      ...options,
     });
   }
 }
@@ -5,6 +5,7 @@ import type {
   SICCode,
   CompanyCIKSearch,
   SECFullProfile,
+  RequestOptions,
 } from '../types/index.js';
 
 /**
@@ -18,14 +19,16 @@ export class SECResource {
    * @param symbol - Stock symbol
    * @param type - Filing type (e.g., "10-K", "10-Q", "8-K")
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFilings(symbol: string, type?: string, limit?: number): Promise<SECFiling[]> {
+  async getFilings(symbol: string, type?: string, limit?: number, options?: RequestOptions): Promise<SECFiling[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (type) params.type = type;
     if (limit) params.limit = limit;
 
     return this.client.get<SECFiling[]>('sec-filings', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -35,8 +38,9 @@ export class SECResource {
    * @param from - Start date (YYYY-MM-DD)
    * @param to - End date (YYYY-MM-DD)
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getRSSFeed(type?: string, from?: string, to?: string, limit?: number): Promise<SECRSSFeed[]> {
+  async getRSSFeed(type?: string, from?: string, to?: string, limit?: number, options?: RequestOptions): Promise<SECRSSFeed[]> {
     const params: Record<string, string | number> = {};
     if (type) params.type = type;
     if (from) params.from = from;
@@ -45,6 +49,7 @@ export class SECResource {
 
     return this.client.get<SECRSSFeed[]>('rss-feed', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -54,12 +59,14 @@ export class SECResource {
    * @param from - Start date
    * @param to - End date
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async searchByFormType(
     formType: string,
     from?: string,
     to?: string,
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<SECRSSFeed[]> {
     const params: Record<string, string | number> = { type: formType };
     if (from) params.from = from;
@@ -68,6 +75,7 @@ export class SECResource {
 
     return this.client.get<SECRSSFeed[]>('rss-feed', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -76,9 +84,10 @@ export class SECResource {
    * @param from - Start date
    * @param to - End date
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async get8KFilings(from?: string, to?: string, limit?: number): Promise<SECRSSFeed[]> {
-    return this.searchByFormType('8-K', from, to, limit);
+  async get8KFilings(from?: string, to?: string, limit?: number, options?: RequestOptions): Promise<SECRSSFeed[]> {
+    return this.searchByFormType('8-K', from, to, limit, options);
   }
 
   /**
@@ -86,13 +95,15 @@ export class SECResource {
    * @param cik - Central Index Key
    * @param type - Filing type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFilingsByCIK(cik: string, type?: string, limit?: number): Promise<SECFiling[]> {
+  async getFilingsByCIK(cik: string, type?: string, limit?: number, options?: RequestOptions): Promise<SECFiling[]> {
     const params: Record<string, string | number> = { cik };
     if (type) params.type = type;
     if (limit) params.limit = limit;
     return this.client.get<SECFiling[]>('sec-filings', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -101,72 +112,85 @@ export class SECResource {
    * @param name - Company name
    * @param type - Filing type
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFilingsByName(name: string, type?: string, limit?: number): Promise<SECFiling[]> {
+  async getFilingsByName(name: string, type?: string, limit?: number, options?: RequestOptions): Promise<SECFiling[]> {
     const params: Record<string, string | number> = { name };
     if (type) params.type = type;
     if (limit) params.limit = limit;
     return this.client.get<SECFiling[]>('sec-filings', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Search company by symbol for CIK
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchCompanyBySymbol(symbol: string): Promise<CompanyCIKSearch[]> {
+  async searchCompanyBySymbol(symbol: string, options?: RequestOptions): Promise<CompanyCIKSearch[]> {
     return this.client.get<CompanyCIKSearch[]>('cik-search', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Search company by CIK
    * @param cik - Central Index Key
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchCompanyByCIK(cik: string): Promise<CompanyCIKSearch[]> {
+  async searchCompanyByCIK(cik: string, options?: RequestOptions): Promise<CompanyCIKSearch[]> {
     return this.client.get<CompanyCIKSearch[]>('cik', {
       searchParams: { cik },
+      ...options,
     });
   }
 
   /**
    * Get latest SEC filings
    * @param limit - Number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLatestFilings(limit?: number): Promise<SECRSSFeed[]> {
+  async getLatestFilings(limit?: number, options?: RequestOptions): Promise<SECRSSFeed[]> {
     const params: Record<string, number> = {};
     if (limit) params.limit = limit;
     return this.client.get<SECRSSFeed[]>('rss-feed-8k', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get list of all SIC codes
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAllSICCodes(): Promise<SICCode[]> {
-    return this.client.get<SICCode[]>('standard-industrial-classification-all');
+  async getAllSICCodes(options?: RequestOptions): Promise<SICCode[]> {
+    return this.client.get<SICCode[]>('standard-industrial-classification-all', options);
   }
 
   /**
    * Get SIC codes by code
    * @param sicCode - SIC code
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getSICByCode(sicCode: string): Promise<SICCode[]> {
+  async getSICByCode(sicCode: string, options?: RequestOptions): Promise<SICCode[]> {
     return this.client.get<SICCode[]>('standard-industrial-classification', {
       searchParams: { sicCode },
+      ...options,
     });
   }
 
   /**
    * Search SIC codes by industry
    * @param industry - Industry name
+   * @param options - Request options (signal, timeout, cache)
    */
-  async searchSIC(industry: string): Promise<SICCode[]> {
+  async searchSIC(industry: string, options?: RequestOptions): Promise<SICCode[]> {
     return this.client.get<SICCode[]>('standard-industrial-classification', {
       searchParams: { industry },
+      ...options,
     });
   }
 
@@ -174,10 +198,12 @@ export class SECResource {
    * Get comprehensive company outlook/profile
    * Includes profile, financials, ratios, insider trading, executives, and more
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getFullProfile(symbol: string): Promise<SECFullProfile> {
+  async getFullProfile(symbol: string, options?: RequestOptions): Promise<SECFullProfile> {
     return this.client.get<SECFullProfile>('company-outlook', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 }
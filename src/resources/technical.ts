@@ -1,5 +1,5 @@
 import type { FMPClient } from '../client.js';
-import type { SMA, EMA, RSI, ADX, Williams, StandardDeviation, WMA, DEMA, TEMA } from '../types/index.js';
+import type { SMA, EMA, RSI, ADX, Williams, StandardDeviation, WMA, DEMA, TEMA, RequestOptions } from '../types/index.js';
 
 /**
  * Technical indicators timeframes
@@ -25,11 +25,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getSMA(
     symbol: string,
     period = 10,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<SMA[]> {
     return this.client.get<SMA[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -37,6 +39,7 @@ export class TechnicalResource {
         type: 'sma',
         period,
       },
+      ...options,
     });
   }
 
@@ -45,11 +48,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getEMA(
     symbol: string,
     period = 10,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<EMA[]> {
     return this.client.get<EMA[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -57,6 +62,7 @@ export class TechnicalResource {
         type: 'ema',
         period,
       },
+      ...options,
     });
   }
 
@@ -65,11 +71,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getRSI(
     symbol: string,
     period = 14,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<RSI[]> {
     return this.client.get<RSI[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -77,6 +85,7 @@ export class TechnicalResource {
         type: 'rsi',
         period,
       },
+      ...options,
     });
   }
 
@@ -85,11 +94,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getADX(
     symbol: string,
     period = 14,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<ADX[]> {
     return this.client.get<ADX[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -97,6 +108,7 @@ export class TechnicalResource {
         type: 'adx',
         period,
       },
+      ...options,
     });
   }
 
@@ -105,11 +117,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getWilliams(
     symbol: string,
     period = 14,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<Williams[]> {
     return this.client.get<Williams[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -117,6 +131,7 @@ export class TechnicalResource {
         type: 'williams',
         period,
       },
+      ...options,
     });
   }
 
@@ -125,11 +140,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getStandardDeviation(
     symbol: string,
     period = 10,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<StandardDeviation[]> {
     return this.client.get<StandardDeviation[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -137,6 +154,7 @@ export class TechnicalResource {
         type: 'standardDeviation',
         period,
       },
+      ...options,
     });
   }
 
@@ -145,11 +163,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getWMA(
     symbol: string,
     period = 10,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<WMA[]> {
     return this.client.get<WMA[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -157,6 +177,7 @@ export class TechnicalResource {
         type: 'wma',
         period,
       },
+      ...options,
     });
   }
 
@@ -165,11 +186,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getDEMA(
     symbol: string,
     period = 10,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<DEMA[]> {
     return this.client.get<DEMA[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -177,6 +200,7 @@ export class TechnicalResource {
         type: 'dema',
         period,
       },
+      ...options,
     });
   }
 
@@ -185,11 +209,13 @@ export class TechnicalResource {
    * @param symbol - Stock symbol
    * @param period - Period length
    * @param timeframe - Time interval
+   * @param options - Request options (signal, timeout, cache)
    */
   async getTEMA(
     symbol: string,
     period = 10,
-    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily
+    timeframe: TechnicalTimeframe = TechnicalTimeframe.Daily,
+    options?: RequestOptions
   ): Promise<TEMA[]> {
     return this.client.get<TEMA[]>(`technical-indicator/${timeframe}`, {
       searchParams: {
@@ -197,6 +223,7 @@ export class TechnicalResource {
         type: 'tema',
         period,
       },
+      ...options,
     });
   }
 }
@@ -1,5 +1,5 @@
 import type { FMPClient } from '../client.js';
-import type { DCFValuation, LeveredDCF, AdvancedDCF } from '../types/index.js';
+import type { DCFValuation, LeveredDCF, AdvancedDCF, RequestOptions } from '../types/index.js';
 
 /**
  * Valuation resource
@@ -11,30 +11,36 @@ export class ValuationResource {
   /**
    * Get DCF (Discounted Cash Flow) valuation
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getDCF(symbol: string): Promise<DCFValuation[]> {
+  async getDCF(symbol: string, options?: RequestOptions): Promise<DCFValuation[]> {
     return this.client.get<DCFValuation[]>('discounted-cash-flow', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get levered DCF valuation
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getLeveredDCF(symbol: string): Promise<LeveredDCF[]> {
+  async getLeveredDCF(symbol: string, options?: RequestOptions): Promise<LeveredDCF[]> {
     return this.client.get<LeveredDCF[]>('levered-discounted-cash-flow', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
   /**
    * Get advanced DCF with detailed breakdown
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getAdvancedDCF(symbol: string): Promise<AdvancedDCF[]> {
+  async getAdvancedDCF(symbol: string, options?: RequestOptions): Promise<AdvancedDCF[]> {
     return this.client.get<AdvancedDCF[]>('custom-discounted-cash-flow', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 
@@ -42,12 +48,14 @@ export class ValuationResource {
    * Get historical daily DCF
    * @param symbol - Stock symbol
    * @param limit - Maximum number of results
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getHistoricalDailyDCF(symbol: string, limit?: number): Promise<DCFValuation[]> {
+  async getHistoricalDailyDCF(symbol: string, limit?: number, options?: RequestOptions): Promise<DCFValuation[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase() };
     if (limit) params.limit = limit;
     return this.client.get<DCFValuation[]>('historical-daily-discounted-cash-flow', {
       searchParams: params,
+      ...options,
     });
   }
 
@@ -56,26 +64,31 @@ export class ValuationResource {
    * @param symbol - Stock symbol
    * @param period - Period (annual or quarter)
    * @param limit - Maximum number of results
+   * @param options - Request options (signal, timeout, cache)
    */
   async getHistoricalDCF(
     symbol: string,
     period: 'annual' | 'quarter' = 'annual',
-    limit?: number
+    limit?: number,
+    options?: RequestOptions
   ): Promise<DCFValuation[]> {
     const params: Record<string, string | number> = { symbol: symbol.toUpperCase(), period };
     if (limit) params.limit = limit;
     return this.client.get<DCFValuation[]>('historical-discounted-cash-flow-statement', {
       searchParams: params,
+      ...options,
     });
   }
 
   /**
    * Get custom levered DCF valuation
    * @param symbol - Stock symbol
+   * @param options - Request options (signal, timeout, cache)
    */
-  async getCustomLeveredDCF(symbol: string): Promise<LeveredDCF[]> {
+  async getCustomLeveredDCF(symbol: string, options?: RequestOptions): Promise<LeveredDCF[]> {
     return this.client.get<LeveredDCF[]>('custom-levered-discounted-cash-flow', {
       searchParams: { symbol: symbol.toUpperCase() },
+      ...options,
     });
   }
 }
@@ -0,0 +1,6 @@
+/**
+ * Retry module exports
+ */
+
+export { RetryPolicy } from './policy.js';
+export type { RetryBudget, RetryConfig } from './types.js';
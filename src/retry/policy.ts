@@ -0,0 +1,139 @@
+/**
+ * Retry policy: backoff, Retry-After and retry budget
+ */
+
+import {
+  FMPAPIError,
+  FMPNetworkError,
+  FMPRateLimitError,
+  FMPTimeoutError,
+} from '../errors/index.js';
+import type { RetryConfig } from './types.js';
+
+/**
+ * Status codes retried by default
+ */
+const DEFAULT_STATUS_CODES = [408, 413, 429, 500, 502, 503, 504];
+
+/**
+ * Decides whether and when a failed attempt is retried
+ *
+ * Features:
+ * - Exponential backoff with optional full jitter, capped at `maxDelay`
+ * - `Retry-After` honored for rate limit (429) errors
+ * - Retry budget shared by every call using the policy
+ *
+ * @example
+ * ```typescript
+ * const policy = new RetryPolicy({ limit: 2, jitter: 'none' });
+ * policy.nextDelay(new FMPServerError('down', 503), 1); // 300
+ * policy.nextDelay(new FMPServerError('down', 503), 3); // undefined
+ * ```
+ */
+export class RetryPolicy {
+  private readonly limit: number;
+  private readonly statusCodes: Set<number>;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly jitter: 'full' | 'none';
+  private readonly respectRetryAfter: boolean;
+  private readonly budget?: RetryConfig['budget'];
+  private readonly shouldRetry?: RetryConfig['shouldRetry'];
+  private readonly retriedAt: number[] = [];
+
+  /**
+   * Create a retry policy
+   * @param config - Retry configuration
+   */
+  constructor(config: RetryConfig = {}) {
+    this.limit = Math.max(0, config.limit ?? 3);
+    this.statusCodes = new Set(config.statusCodes ?? DEFAULT_STATUS_CODES);
+    this.baseDelay = config.baseDelay ?? 300;
+    this.maxDelay = config.maxDelay ?? 30000;
+    this.jitter = config.jitter ?? 'full';
+    this.respectRetryAfter = config.respectRetryAfter ?? true;
+    this.budget = config.budget;
+    this.shouldRetry = config.shouldRetry;
+  }
+
+  /**
+   * Get the delay before retrying a failed attempt
+   * Consumes retry budget when a retry is granted
+   *
+   * @param error - Error thrown by the attempt
+   * @param attempt - Number of the failed attempt, starting at 1
+   * @returns Delay in milliseconds, or undefined if the error should be thrown
+   */
+  nextDelay(error: unknown, attempt: number): number | undefined {
+    if (attempt > this.limit) {
+      return undefined;
+    }
+
+    const retryable = this.shouldRetry
+      ? this.shouldRetry(error, attempt)
+      : this.isRetryable(error);
+    if (!retryable) {
+      return undefined;
+    }
+
+    let delay: number;
+    if (
+      this.respectRetryAfter &&
+      error instanceof FMPRateLimitError &&
+      error.retryAfterMs !== undefined
+    ) {
+      // Retrying sooner than the server asked would only be rejected again
+      if (error.retryAfterMs > this.maxDelay) {
+        return undefined;
+      }
+      delay = error.retryAfterMs;
+    } else {
+      const backoff = Math.min(
+        this.maxDelay,
+        this.baseDelay * 2 ** (attempt - 1)
+      );
+      delay = this.jitter === 'full' ? Math.random() * backoff : backoff;
+    }
+
+    if (!this.takeBudget()) {
+      return undefined;
+    }
+    return delay;
+  }
+
+  /**
+   * Default retry check: timeouts, network failures and retryable statuses
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof FMPTimeoutError || error instanceof FMPNetworkError) {
+      return true;
+    }
+    return (
+      error instanceof FMPAPIError &&
+      error.status !== undefined &&
+      this.statusCodes.has(error.status)
+    );
+  }
+
+  /**
+   * Record a retry against the budget
+   * @returns false if the budget for the current window is spent
+   */
+  private takeBudget(): boolean {
+    if (!this.budget) {
+      return true;
+    }
+    const now = Date.now();
+    while (
+      this.retriedAt.length > 0 &&
+      now - this.retriedAt[0]! >= this.budget.windowMs
+    ) {
+      this.retriedAt.shift();
+    }
+    if (this.retriedAt.length >= this.budget.maxRetries) {
+      return false;
+    }
+    this.retriedAt.push(now);
+    return true;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Retry policy types
+ */
+
+/**
+ * Cap on the number of retries across all calls within a time window
+ */
+export interface RetryBudget {
+  /** Maximum number of retries allowed within the window */
+  maxRetries: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Retry configuration
+ *
+ * @example
+ * ```typescript
+ * const fmp = new FMP({
+ *   apiKey: 'your-api-key',
+ *   retry: {
+ *     limit: 5,
+ *     maxDelay: 10000,
+ *     budget: { maxRetries: 50, windowMs: 60000 },
+ *     shouldRetry: (error) => !(error instanceof FMPNotFoundError),
+ *   },
+ * });
+ * ```
+ */
+export interface RetryConfig {
+  /**
+   * Maximum number of retries per call
+   * @default `retries`, or 3
+   */
+  limit?: number;
+
+  /**
+   * HTTP status codes that are retried
+   * @default [408, 413, 429, 500, 502, 503, 504]
+   */
+  statusCodes?: number[];
+
+  /**
+   * Base delay for exponential backoff (ms)
+   * The n-th retry waits up to `baseDelay * 2^(n-1)`
+   * @default 300
+   */
+  baseDelay?: number;
+
+  /**
+   * Maximum delay before a retry (ms)
+   * A `Retry-After` longer than this ends retrying instead of being shortened
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomization of the backoff delay
+   * - `full`: wait a random time between 0 and the backoff delay
+   * - `none`: wait exactly the backoff delay
+   * @default 'full'
+   */
+  jitter?: 'full' | 'none';
+
+  /**
+   * Wait for the `Retry-After` delay of 429 responses instead of backing off
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Limit retries across all calls, so an outage does not multiply traffic
+   * Calls fail with their last error once the budget is spent
+   */
+  budget?: RetryBudget;
+
+  /**
+   * Decide whether a failed attempt is retried, replacing the `statusCodes`
+   * check (`limit` and `budget` still apply)
+   * @param error - Error thrown by the attempt
+   * @param attempt - Number of the failed attempt, starting at 1
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
@@ -0,0 +1,2627 @@
+/**
+ * Generated response schemas - do not edit by hand
+ * Run `pnpm generate-schemas` after changing response types or resources
+ */
+
+import type { JSONType, ObjectSchema, ResponseSchema } from './types.js';
+
+function arrayOf(items: ObjectSchema | JSONType): ResponseSchema {
+  return { type: 'array', items };
+}
+
+function objectOf(schema: ObjectSchema): ResponseSchema {
+  return { type: 'object', schema };
+}
+
+const AdvancedDCF: ObjectSchema = {
+  name: 'AdvancedDCF',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    stockPrice: 'number',
+    dcf: 'number',
+    wacc: 'number',
+    revenues: 'number',
+    revenueGrowthRate: 'number',
+    operatingCashFlow: 'number',
+    operatingExpense: 'number',
+    capitalExpenditure: 'number',
+    netIncome: 'number',
+    freeCashFlow: 'number',
+    operatingCashFlowGrowthRate: 'number',
+    freeCashFlowGrowthRate: 'number',
+    longTermDebt: 'number',
+    totalDebt: 'number',
+    cashAndCashEquivalents: 'number',
+    shareholdersEquity: 'number',
+    marketCapitalization: 'number',
+    riskFreeRate: 'number',
+    beta: 'number',
+  },
+};
+
+const ADX: ObjectSchema = {
+  name: 'ADX',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    adx: 'number',
+  },
+};
+
+const AftermarketQuote: ObjectSchema = {
+  name: 'AftermarketQuote',
+  fields: {
+    symbol: 'string',
+    ask: 'number',
+    bid: 'number',
+    asize: 'number',
+    bsize: 'number',
+    timestamp: 'number',
+  },
+};
+
+const AftermarketTrade: ObjectSchema = {
+  name: 'AftermarketTrade',
+  fields: {
+    symbol: 'string',
+    price: 'number',
+    size: 'number',
+    timestamp: 'number',
+  },
+};
+
+const AnalystEstimate: ObjectSchema = {
+  name: 'AnalystEstimate',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    estimatedRevenueLow: 'number',
+    estimatedRevenueHigh: 'number',
+    estimatedRevenueAvg: 'number',
+    estimatedEbitdaLow: 'number',
+    estimatedEbitdaHigh: 'number',
+    estimatedEbitdaAvg: 'number',
+    estimatedEbitLow: 'number',
+    estimatedEbitHigh: 'number',
+    estimatedEbitAvg: 'number',
+    estimatedNetIncomeLow: 'number',
+    estimatedNetIncomeHigh: 'number',
+    estimatedNetIncomeAvg: 'number',
+    estimatedSgaExpenseLow: 'number',
+    estimatedSgaExpenseHigh: 'number',
+    estimatedSgaExpenseAvg: 'number',
+    estimatedEpsAvg: 'number',
+    estimatedEpsHigh: 'number',
+    estimatedEpsLow: 'number',
+    numberAnalystEstimatedRevenue: 'number',
+    numberAnalystsEstimatedEps: 'number',
+  },
+};
+
+const AnalystRecommendation: ObjectSchema = {
+  name: 'AnalystRecommendation',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    analystRatingsbuy: 'number',
+    analystRatingsHold: 'number',
+    analystRatingsSell: 'number',
+    analystRatingsStrongSell: 'number',
+    analystRatingsStrongBuy: 'number',
+  },
+};
+
+const BalanceSheet: ObjectSchema = {
+  name: 'BalanceSheet',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    reportedCurrency: 'string',
+    cik: 'string | null',
+    fillingDate: 'string',
+    acceptedDate: 'string',
+    calendarYear: 'string',
+    period: 'string',
+    cashAndCashEquivalents: 'number | null',
+    shortTermInvestments: 'number | null',
+    cashAndShortTermInvestments: 'number | null',
+    netReceivables: 'number | null',
+    inventory: 'number | null',
+    otherCurrentAssets: 'number | null',
+    totalCurrentAssets: 'number | null',
+    propertyPlantEquipmentNet: 'number | null',
+    goodwill: 'number | null',
+    intangibleAssets: 'number | null',
+    goodwillAndIntangibleAssets: 'number | null',
+    longTermInvestments: 'number | null',
+    taxAssets: 'number | null',
+    otherNonCurrentAssets: 'number | null',
+    totalNonCurrentAssets: 'number | null',
+    otherAssets: 'number | null',
+    totalAssets: 'number | null',
+    accountPayables: 'number | null',
+    shortTermDebt: 'number | null',
+    taxPayables: 'number | null',
+    deferredRevenue: 'number | null',
+    otherCurrentLiabilities: 'number | null',
+    totalCurrentLiabilities: 'number | null',
+    longTermDebt: 'number | null',
+    deferredRevenueNonCurrent: 'number | null',
+    deferredTaxLiabilitiesNonCurrent: 'number | null',
+    otherNonCurrentLiabilities: 'number | null',
+    totalNonCurrentLiabilities: 'number | null',
+    otherLiabilities: 'number | null',
+    capitalLeaseObligations: 'number | null',
+    totalLiabilities: 'number | null',
+    preferredStock: 'number | null',
+    commonStock: 'number | null',
+    retainedEarnings: 'number | null',
+    accumulatedOtherComprehensiveIncomeLoss: 'number | null',
+    othertotalStockholdersEquity: 'number | null',
+    totalStockholdersEquity: 'number | null',
+    totalEquity: 'number | null',
+    totalLiabilitiesAndStockholdersEquity: 'number | null',
+    minorityInterest: 'number | null',
+    totalLiabilitiesAndTotalEquity: 'number | null',
+    totalInvestments: 'number | null',
+    totalDebt: 'number | null',
+    netDebt: 'number | null',
+    link: 'string | null',
+    finalLink: 'string | null',
+  },
+};
+
+const BalanceSheetGrowth: ObjectSchema = {
+  name: 'BalanceSheetGrowth',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    period: 'string',
+    calendarYear: 'string',
+    growthCashAndCashEquivalents: 'number | null',
+    growthShortTermInvestments: 'number | null',
+    growthCashAndShortTermInvestments: 'number | null',
+    growthNetReceivables: 'number | null',
+    growthInventory: 'number | null',
+    growthOtherCurrentAssets: 'number | null',
+    growthTotalCurrentAssets: 'number | null',
+    growthPropertyPlantEquipmentNet: 'number | null',
+    growthGoodwill: 'number | null',
+    growthIntangibleAssets: 'number | null',
+    growthGoodwillAndIntangibleAssets: 'number | null',
+    growthLongTermInvestments: 'number | null',
+    growthTaxAssets: 'number | null',
+    growthOtherNonCurrentAssets: 'number | null',
+    growthTotalNonCurrentAssets: 'number | null',
+    growthOtherAssets: 'number | null',
+    growthTotalAssets: 'number | null',
+    growthAccountPayables: 'number | null',
+    growthShortTermDebt: 'number | null',
+    growthTaxPayables: 'number | null',
+    growthDeferredRevenue: 'number | null',
+    growthOtherCurrentLiabilities: 'number | null',
+    growthTotalCurrentLiabilities: 'number | null',
+    growthLongTermDebt: 'number | null',
+    growthDeferredRevenueNonCurrent: 'number | null',
+    growthDeferrredTaxLiabilitiesNonCurrent: 'number | null',
+    growthOtherNonCurrentLiabilities: 'number | null',
+    growthTotalNonCurrentLiabilities: 'number | null',
+    growthOtherLiabilities: 'number | null',
+    growthTotalLiabilities: 'number | null',
+    growthCommonStock: 'number | null',
+    growthRetainedEarnings: 'number | null',
+    growthAccumulatedOtherComprehensiveIncomeLoss: 'number | null',
+    growthOthertotalStockholdersEquity: 'number | null',
+    growthTotalStockholdersEquity: 'number | null',
+    growthTotalLiabilitiesAndStockholdersEquity: 'number | null',
+    growthTotalInvestments: 'number | null',
+    growthTotalDebt: 'number | null',
+    growthNetDebt: 'number | null',
+  },
+};
+
+const CashFlowStatement: ObjectSchema = {
+  name: 'CashFlowStatement',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    reportedCurrency: 'string',
+    cik: 'string | null',
+    fillingDate: 'string',
+    acceptedDate: 'string',
+    calendarYear: 'string',
+    period: 'string',
+    netIncome: 'number | null',
+    depreciationAndAmortization: 'number | null',
+    deferredIncomeTax: 'number | null',
+    stockBasedCompensation: 'number | null',
+    changeInWorkingCapital: 'number | null',
+    accountsReceivables: 'number | null',
+    inventory: 'number | null',
+    accountsPayables: 'number | null',
+    otherWorkingCapital: 'number | null',
+    otherNonCashItems: 'number | null',
+    netCashProvidedByOperatingActivities: 'number | null',
+    investmentsInPropertyPlantAndEquipment: 'number | null',
+    acquisitionsNet: 'number | null',
+    purchasesOfInvestments: 'number | null',
+    salesMaturitiesOfInvestments: 'number | null',
+    otherInvestingActivites: 'number | null',
+    netCashUsedForInvestingActivites: 'number | null',
+    debtRepayment: 'number | null',
+    commonStockIssued: 'number | null',
+    commonStockRepurchased: 'number | null',
+    dividendsPaid: 'number | null',
+    otherFinancingActivites: 'number | null',
+    netCashUsedProvidedByFinancingActivities: 'number | null',
+    effectOfForexChangesOnCash: 'number | null',
+    netChangeInCash: 'number | null',
+    cashAtEndOfPeriod: 'number | null',
+    cashAtBeginningOfPeriod: 'number | null',
+    operatingCashFlow: 'number | null',
+    capitalExpenditure: 'number | null',
+    freeCashFlow: 'number | null',
+    link: 'string | null',
+    finalLink: 'string | null',
+  },
+};
+
+const CashFlowStatementGrowth: ObjectSchema = {
+  name: 'CashFlowStatementGrowth',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    period: 'string',
+    calendarYear: 'string',
+    growthNetIncome: 'number | null',
+    growthDepreciationAndAmortization: 'number | null',
+    growthDeferredIncomeTax: 'number | null',
+    growthStockBasedCompensation: 'number | null',
+    growthChangeInWorkingCapital: 'number | null',
+    growthAccountsReceivables: 'number | null',
+    growthInventory: 'number | null',
+    growthAccountsPayables: 'number | null',
+    growthOtherWorkingCapital: 'number | null',
+    growthOtherNonCashItems: 'number | null',
+    growthNetCashProvidedByOperatingActivites: 'number | null',
+    growthInvestmentsInPropertyPlantAndEquipment: 'number | null',
+    growthAcquisitionsNet: 'number | null',
+    growthPurchasesOfInvestments: 'number | null',
+    growthSalesMaturitiesOfInvestments: 'number | null',
+    growthOtherInvestingActivites: 'number | null',
+    growthNetCashUsedForInvestingActivites: 'number | null',
+    growthDebtRepayment: 'number | null',
+    growthCommonStockIssued: 'number | null',
+    growthCommonStockRepurchased: 'number | null',
+    growthDividendsPaid: 'number | null',
+    growthOtherFinancingActivites: 'number | null',
+    growthNetCashUsedProvidedByFinancingActivities: 'number | null',
+    growthEffectOfForexChangesOnCash: 'number | null',
+    growthNetChangeInCash: 'number | null',
+    growthCashAtEndOfPeriod: 'number | null',
+    growthCashAtBeginningOfPeriod: 'number | null',
+    growthOperatingCashFlow: 'number | null',
+    growthCapitalExpenditure: 'number | null',
+    growthFreeCashFlow: 'number | null',
+  },
+};
+
+const CIKMapping: ObjectSchema = {
+  name: 'CIKMapping',
+  fields: {
+    cik: 'string',
+    name: 'string',
+  },
+};
+
+const CIKSearchResult: ObjectSchema = {
+  name: 'CIKSearchResult',
+  fields: {
+    cik: 'string',
+    name: 'string',
+  },
+};
+
+const CommodityList: ObjectSchema = {
+  name: 'CommodityList',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    currency: 'string',
+    stockExchange: 'string',
+    exchangeShortName: 'string',
+  },
+};
+
+const CommodityQuote: ObjectSchema = {
+  name: 'CommodityQuote',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    price: 'number',
+    changesPercentage: 'number',
+    change: 'number',
+    dayLow: 'number',
+    dayHigh: 'number',
+    yearHigh: 'number',
+    yearLow: 'number',
+    marketCap: 'number | null',
+    priceAvg50: 'number',
+    priceAvg200: 'number',
+    volume: 'number',
+    avgVolume: 'number',
+    exchange: 'string',
+    open: 'number',
+    previousClose: 'number',
+    eps: 'number | null',
+    pe: 'number | null',
+    earningsAnnouncement: 'string | null',
+    sharesOutstanding: 'number | null',
+    timestamp: 'number',
+  },
+};
+
+const CompanyCIKSearch: ObjectSchema = {
+  name: 'CompanyCIKSearch',
+  fields: {
+    cik: 'string',
+    name: 'string',
+  },
+};
+
+const CompanyNotes: ObjectSchema = {
+  name: 'CompanyNotes',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    title: 'string',
+    exchange: 'string',
+  },
+};
+
+const CompanyProfile: ObjectSchema = {
+  name: 'CompanyProfile',
+  fields: {
+    symbol: 'string',
+    price: 'number',
+    beta: 'number',
+    volAvg: 'number',
+    mktCap: 'number',
+    lastDiv: 'number',
+    range: 'string',
+    changes: 'number',
+    companyName: 'string',
+    currency: 'string',
+    cik: 'string',
+    isin: 'string',
+    cusip: 'string',
+    exchange: 'string',
+    exchangeShortName: 'string',
+    industry: 'string',
+    website: 'string',
+    description: 'string',
+    ceo: 'string',
+    sector: 'string',
+    country: 'string',
+    fullTimeEmployees: 'string',
+    phone: 'string',
+    address: 'string',
+    city: 'string',
+    state: 'string',
+    zip: 'string',
+    dcfDiff: 'number',
+    dcf: 'number',
+    image: 'string',
+    ipoDate: 'string',
+    defaultImage: 'boolean',
+    isEtf: 'boolean',
+    isActivelyTrading: 'boolean',
+    isAdr: 'boolean',
+    isFund: 'boolean',
+  },
+};
+
+const CompensationBenchmark: ObjectSchema = {
+  name: 'CompensationBenchmark',
+  fields: {
+    industryTitle: 'string',
+    year: 'number',
+    averageSalary: 'number',
+    averageBonus: 'number',
+    averageStockAward: 'number',
+    averageIncentivePlanCompensation: 'number',
+    averageAllOtherCompensation: 'number',
+    averageTotal: 'number',
+  },
+};
+
+const CongressionalTrade: ObjectSchema = {
+  name: 'CongressionalTrade',
+  fields: {
+    firstName: 'string',
+    lastName: 'string',
+    office: 'string',
+    link: 'string',
+    dateRecieved: 'string',
+    transactionDate: 'string',
+    owner: 'string',
+    assetDescription: 'string',
+    assetType: 'string',
+    type: 'string',
+    amount: 'string',
+    representative: 'string',
+    district: 'string',
+    ptr_link: 'string',
+    cap_gains_over_200_usd: 'boolean',
+    symbol: 'string',
+  },
+};
+
+const COTAnalysis: ObjectSchema = {
+  name: 'COTAnalysis',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    date: 'string',
+    short_name: 'string',
+    exchange: 'string',
+    netposition_marketmaker: 'number',
+    netposition_otherreportables: 'number',
+    netposition_nonreportables: 'number',
+    change_netposition_marketmaker: 'number',
+    change_netposition_otherreportables: 'number',
+    change_netposition_nonreportables: 'number',
+    pct_netposition_marketmaker: 'number',
+    pct_netposition_otherreportables: 'number',
+    pct_netposition_nonreportables: 'number',
+  },
+};
+
+const COTReport: ObjectSchema = {
+  name: 'COTReport',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    date: 'string',
+    short_name: 'string',
+    exchange: 'string',
+    current_long_marketmaker: 'number',
+    current_short_marketmaker: 'number',
+    current_long_otherreportables: 'number',
+    current_short_otherreportables: 'number',
+    current_long_nonreportables: 'number',
+    current_short_nonreportables: 'number',
+    change_long_marketmaker: 'number',
+    change_short_marketmaker: 'number',
+    change_long_otherreportables: 'number',
+    change_short_otherreportables: 'number',
+    change_long_nonreportables: 'number',
+    change_short_nonreportables: 'number',
+    pct_long_marketmaker: 'number',
+    pct_short_marketmaker: 'number',
+    pct_long_otherreportables: 'number',
+    pct_short_otherreportables: 'number',
+    pct_long_nonreportables: 'number',
+    pct_short_nonreportables: 'number',
+  },
+};
+
+const COTSymbol: ObjectSchema = {
+  name: 'COTSymbol',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    trading_symbol: 'string',
+  },
+};
+
+const Crowdfunding: ObjectSchema = {
+  name: 'Crowdfunding',
+  fields: {
+    cik: 'string',
+    name: 'string',
+    date: 'string',
+    acceptedDate: 'string',
+    company_name: 'string',
+    amount: 'number',
+    security_type: 'string',
+    form_type: 'string',
+    link: 'string',
+  },
+};
+
+const CrowdfundingRSSItem: ObjectSchema = {
+  name: 'CrowdfundingRSSItem',
+  fields: {
+    cik: 'string',
+    title: 'string',
+    date: 'string',
+    link: 'string',
+  },
+};
+
+const CryptoList: ObjectSchema = {
+  name: 'CryptoList',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    currency: 'string',
+    stockExchange: 'string',
+    exchangeShortName: 'string',
+  },
+};
+
+const CryptoPrice: ObjectSchema = {
+  name: 'CryptoPrice',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    price: 'number',
+    changesPercentage: 'number',
+    change: 'number',
+    dayLow: 'number',
+    dayHigh: 'number',
+    yearHigh: 'number',
+    yearLow: 'number',
+    marketCap: 'number',
+    priceAvg50: 'number',
+    priceAvg200: 'number',
+    volume: 'number',
+    avgVolume: 'number',
+    exchange: 'string',
+    open: 'number',
+    previousClose: 'number',
+    timestamp: 'number',
+  },
+};
+
+const CUSIPSearchResult: ObjectSchema = {
+  name: 'CUSIPSearchResult',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    cusip: 'string',
+    isin: 'string',
+    exchange: 'string',
+  },
+};
+
+const DCFValuation: ObjectSchema = {
+  name: 'DCFValuation',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    dcf: 'number',
+    stockPrice: 'number | null',
+  },
+};
+
+const DelistedCompany: ObjectSchema = {
+  name: 'DelistedCompany',
+  fields: {
+    symbol: 'string',
+    companyName: 'string',
+    exchange: 'string',
+    ipoDate: 'string',
+    delistedDate: 'string',
+  },
+};
+
+const DEMA: ObjectSchema = {
+  name: 'DEMA',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    dema: 'number',
+  },
+};
+
+const Dividend: ObjectSchema = {
+  name: 'Dividend',
+  fields: {
+    date: 'string',
+    label: 'string',
+    adjDividend: 'number',
+    dividend: 'number',
+    recordDate: 'string',
+    paymentDate: 'string',
+    declarationDate: 'string',
+  },
+};
+
+const DividendCalendar: ObjectSchema = {
+  name: 'DividendCalendar',
+  fields: {
+    date: 'string',
+    label: 'string',
+    adjDividend: 'number',
+    symbol: 'string',
+    dividend: 'number',
+    recordDate: 'string',
+    paymentDate: 'string',
+    declarationDate: 'string',
+  },
+};
+
+const Earnings: ObjectSchema = {
+  name: 'Earnings',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    eps: 'number',
+    epsEstimated: 'number',
+    time: 'string',
+    revenue: 'number',
+    revenueEstimated: 'number',
+    fiscalDateEnding: 'string',
+    updatedFromDate: 'string',
+  },
+};
+
+const EarningsCalendar: ObjectSchema = {
+  name: 'EarningsCalendar',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    eps: 'number | null',
+    epsEstimated: 'number | null',
+    time: 'string',
+    revenue: 'number | null',
+    revenueEstimated: 'number | null',
+    fiscalDateEnding: 'string',
+    updatedFromDate: 'string',
+  },
+};
+
+const EarningsSurprise: ObjectSchema = {
+  name: 'EarningsSurprise',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    actualEarningResult: 'number | null',
+    estimatedEarning: 'number | null',
+  },
+};
+
+const EarningsTranscript: ObjectSchema = {
+  name: 'EarningsTranscript',
+  fields: {
+    symbol: 'string',
+    quarter: 'number',
+    year: 'number',
+    date: 'string',
+    content: 'string',
+  },
+};
+
+const EconomicCalendar: ObjectSchema = {
+  name: 'EconomicCalendar',
+  fields: {
+    event: 'string',
+    date: 'string',
+    country: 'string',
+    actual: 'number',
+    previous: 'number',
+    change: 'number',
+    changePercentage: 'number',
+    estimate: 'number',
+    impact: 'string',
+  },
+};
+
+const EconomicIndicator: ObjectSchema = {
+  name: 'EconomicIndicator',
+  fields: {
+    date: 'string',
+    value: 'number',
+  },
+};
+
+const EMA: ObjectSchema = {
+  name: 'EMA',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    ema: 'number',
+  },
+};
+
+const EmployeeCount: ObjectSchema = {
+  name: 'EmployeeCount',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    acceptanceTime: 'string',
+    periodOfReport: 'string',
+    companyName: 'string',
+    formType: 'string',
+    filingDate: 'string',
+    employeeCount: 'number',
+    source: 'string',
+  },
+};
+
+const EnterpriseValue: ObjectSchema = {
+  name: 'EnterpriseValue',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    stockPrice: 'number | null',
+    numberOfShares: 'number | null',
+    marketCapitalization: 'number | null',
+    minusCashAndCashEquivalents: 'number | null',
+    addTotalDebt: 'number | null',
+    enterpriseValue: 'number | null',
+  },
+};
+
+const EquityOffering: ObjectSchema = {
+  name: 'EquityOffering',
+  fields: {
+    cik: 'string',
+    name: 'string',
+    date: 'string',
+    acceptedDate: 'string',
+    company_name: 'string',
+    amount: 'number',
+    security_type: 'string',
+    form_type: 'string',
+    link: 'string',
+  },
+};
+
+const EquityOfferingRSSItem: ObjectSchema = {
+  name: 'EquityOfferingRSSItem',
+  fields: {
+    cik: 'string',
+    title: 'string',
+    date: 'string',
+    link: 'string',
+  },
+};
+
+const ESGBenchmark: ObjectSchema = {
+  name: 'ESGBenchmark',
+  fields: {
+    year: 'number',
+    sector: 'string',
+    environmentalScore: 'number',
+    socialScore: 'number',
+    governanceScore: 'number',
+    ESGScore: 'number',
+  },
+};
+
+const ESGData: ObjectSchema = {
+  name: 'ESGData',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    companyName: 'string',
+    formType: 'string',
+    filingDate: 'string',
+    acceptanceDate: 'string',
+    date: 'string',
+    environmentalScore: 'number',
+    socialScore: 'number',
+    governanceScore: 'number',
+    ESGScore: 'number',
+    url: 'string',
+  },
+};
+
+const ESGRating: ObjectSchema = {
+  name: 'ESGRating',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    companyName: 'string',
+    formType: 'string',
+    filingDate: 'string',
+    acceptanceDate: 'string',
+    date: 'string',
+    ESGRiskRating: 'string',
+    industryRank: 'string',
+    url: 'string',
+  },
+};
+
+const ETFCountryWeighting: ObjectSchema = {
+  name: 'ETFCountryWeighting',
+  fields: {
+    country: 'string',
+    weightPercentage: 'string',
+  },
+};
+
+const ETFHolding: ObjectSchema = {
+  name: 'ETFHolding',
+  fields: {
+    asset: 'string',
+    name: 'string',
+    shares: 'number',
+    weightPercentage: 'string',
+    marketValue: 'number',
+  },
+};
+
+const ETFInfo: ObjectSchema = {
+  name: 'ETFInfo',
+  fields: {
+    symbol: 'string',
+    companyName: 'string',
+    cik: 'string',
+    isin: 'string',
+    cusip: 'string',
+    exchange: 'string',
+    exchangeShortName: 'string',
+    description: 'string',
+    domicile: 'string',
+    etfCompany: 'string',
+    aum: 'number',
+    nav: 'number',
+    navCurrency: 'string',
+    expenseRatio: 'number',
+    inceptionDate: 'string',
+    website: 'string',
+  },
+};
+
+const ETFSectorWeighting: ObjectSchema = {
+  name: 'ETFSectorWeighting',
+  fields: {
+    sector: 'string',
+    weightPercentage: 'string',
+  },
+};
+
+const ETFStockExposure: ObjectSchema = {
+  name: 'ETFStockExposure',
+  fields: {
+    etfSymbol: 'string',
+    assetExposure: 'string',
+    sharesNumber: 'number',
+    weightPercentage: 'string',
+    marketValue: 'number',
+  },
+};
+
+const ExchangeInfo: ObjectSchema = {
+  name: 'ExchangeInfo',
+  fields: {
+    name: 'string',
+    code: 'string',
+    exchangeShortName: 'string',
+    country: 'string',
+  },
+};
+
+const ExchangeSymbol: ObjectSchema = {
+  name: 'ExchangeSymbol',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    price: 'number',
+    exchange: 'string',
+    exchangeShortName: 'string',
+    type: 'string',
+  },
+};
+
+const Executive: ObjectSchema = {
+  name: 'Executive',
+  fields: {
+    title: 'string',
+    name: 'string',
+    pay: 'number',
+    currencyPay: 'string',
+    gender: 'string',
+    yearBorn: 'number',
+    titleSince: 'number',
+  },
+};
+
+const ExecutiveCompensation: ObjectSchema = {
+  name: 'ExecutiveCompensation',
+  fields: {
+    cik: 'string',
+    symbol: 'string',
+    companyName: 'string',
+    industryTitle: 'string',
+    filingDate: 'string',
+    acceptanceDate: 'string',
+    nameAndPosition: 'string',
+    year: 'number',
+    salary: 'number',
+    bonus: 'number',
+    stockAward: 'number',
+    incentivePlanCompensation: 'number',
+    allOtherCompensation: 'number',
+    total: 'number',
+    url: 'string',
+  },
+};
+
+const FinancialGrowth: ObjectSchema = {
+  name: 'FinancialGrowth',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    period: 'string',
+    calendarYear: 'string',
+    revenueGrowth: 'number | null',
+    grossProfitGrowth: 'number | null',
+    ebitgrowth: 'number | null',
+    operatingIncomeGrowth: 'number | null',
+    netIncomeGrowth: 'number | null',
+    epsgrowth: 'number | null',
+    epsdilutedGrowth: 'number | null',
+    weightedAverageSharesGrowth: 'number | null',
+    weightedAverageSharesDilutedGrowth: 'number | null',
+    dividendsperShareGrowth: 'number | null',
+    operatingCashFlowGrowth: 'number | null',
+    freeCashFlowGrowth: 'number | null',
+    tenYRevenueGrowthPerShare: 'number | null',
+    fiveYRevenueGrowthPerShare: 'number | null',
+    threeYRevenueGrowthPerShare: 'number | null',
+    tenYOperatingCFGrowthPerShare: 'number | null',
+    fiveYOperatingCFGrowthPerShare: 'number | null',
+    threeYOperatingCFGrowthPerShare: 'number | null',
+    tenYNetIncomeGrowthPerShare: 'number | null',
+    fiveYNetIncomeGrowthPerShare: 'number | null',
+    threeYNetIncomeGrowthPerShare: 'number | null',
+    tenYShareholdersEquityGrowthPerShare: 'number | null',
+    fiveYShareholdersEquityGrowthPerShare: 'number | null',
+    threeYShareholdersEquityGrowthPerShare: 'number | null',
+    tenYDividendperShareGrowthPerShare: 'number | null',
+    fiveYDividendperShareGrowthPerShare: 'number | null',
+    threeYDividendperShareGrowthPerShare: 'number | null',
+    receivablesGrowth: 'number | null',
+    inventoryGrowth: 'number | null',
+    assetGrowth: 'number | null',
+    bookValueperShareGrowth: 'number | null',
+    debtGrowth: 'number | null',
+    rdexpenseGrowth: 'number | null',
+    sgaexpensesGrowth: 'number | null',
+  },
+};
+
+const FinancialRatios: ObjectSchema = {
+  name: 'FinancialRatios',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    calendarYear: 'string',
+    period: 'string',
+    currentRatio: 'number | null',
+    quickRatio: 'number | null',
+    cashRatio: 'number | null',
+    daysOfSalesOutstanding: 'number | null',
+    daysOfInventoryOutstanding: 'number | null',
+    operatingCycle: 'number | null',
+    daysOfPayablesOutstanding: 'number | null',
+    cashConversionCycle: 'number | null',
+    grossProfitMargin: 'number | null',
+    operatingProfitMargin: 'number | null',
+    pretaxProfitMargin: 'number | null',
+    netProfitMargin: 'number | null',
+    effectiveTaxRate: 'number | null',
+    returnOnAssets: 'number | null',
+    returnOnEquity: 'number | null',
+    returnOnCapitalEmployed: 'number | null',
+    netIncomePerEBT: 'number | null',
+    ebtPerEbit: 'number | null',
+    ebitPerRevenue: 'number | null',
+    debtRatio: 'number | null',
+    debtEquityRatio: 'number | null',
+    longTermDebtToCapitalization: 'number | null',
+    totalDebtToCapitalization: 'number | null',
+    interestCoverage: 'number | null',
+    cashFlowToDebtRatio: 'number | null',
+    companyEquityMultiplier: 'number | null',
+    receivablesTurnover: 'number | null',
+    payablesTurnover: 'number | null',
+    inventoryTurnover: 'number | null',
+    fixedAssetTurnover: 'number | null',
+    assetTurnover: 'number | null',
+    operatingCashFlowPerShare: 'number | null',
+    freeCashFlowPerShare: 'number | null',
+    cashPerShare: 'number | null',
+    payoutRatio: 'number | null',
+    operatingCashFlowSalesRatio: 'number | null',
+    freeCashFlowOperatingCashFlowRatio: 'number | null',
+    cashFlowCoverageRatios: 'number | null',
+    shortTermCoverageRatios: 'number | null',
+    capitalExpenditureCoverageRatio: 'number | null',
+    dividendPaidAndCapexCoverageRatio: 'number | null',
+    priceBookValueRatio: 'number | null',
+    priceToBookRatio: 'number | null',
+    priceToSalesRatio: 'number | null',
+    priceEarningsRatio: 'number | null',
+    priceToFreeCashFlowsRatio: 'number | null',
+    priceToOperatingCashFlowsRatio: 'number | null',
+    priceCashFlowRatio: 'number | null',
+    priceEarningsToGrowthRatio: 'number | null',
+    priceSalesRatio: 'number | null',
+    dividendYield: 'number | null',
+    enterpriseValueMultiple: 'number | null',
+    priceFairValue: 'number | null',
+  },
+};
+
+const FinancialReportDownload: ObjectSchema = {
+  name: 'FinancialReportDownload',
+  fields: {
+    url: 'string',
+  },
+};
+
+const FinancialScores: ObjectSchema = {
+  name: 'FinancialScores',
+  fields: {
+    symbol: 'string',
+    altmanZScore: 'number | null',
+    piotroskiScore: 'number | null',
+    workingCapital: 'number | null',
+    totalAssets: 'number | null',
+    retainedEarnings: 'number | null',
+    ebit: 'number | null',
+    marketCap: 'number | null',
+    totalLiabilities: 'number | null',
+    revenue: 'number | null',
+  },
+};
+
+const FMPArticle: ObjectSchema = {
+  name: 'FMPArticle',
+  fields: {
+    title: 'string',
+    date: 'string',
+    content: 'string',
+    tickers: 'string',
+    image: 'string',
+    link: 'string',
+    author: 'string',
+    site: 'string',
+  },
+};
+
+const ForexCurrencyPair: ObjectSchema = {
+  name: 'ForexCurrencyPair',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    currency: 'string',
+    stockExchange: 'string',
+    exchangeShortName: 'string',
+  },
+};
+
+const ForexPrice: ObjectSchema = {
+  name: 'ForexPrice',
+  fields: {
+    ticker: 'string',
+    bid: 'number',
+    ask: 'number',
+    open: 'number',
+    low: 'number',
+    high: 'number',
+    changes: 'number',
+    date: 'string',
+  },
+};
+
+const ForexQuoteShort: ObjectSchema = {
+  name: 'ForexQuoteShort',
+  fields: {
+    symbol: 'string',
+    price: 'number',
+    volume: 'number',
+  },
+};
+
+const Form13F: ObjectSchema = {
+  name: 'Form13F',
+  fields: {
+    fillingDate: 'string',
+    acceptedDate: 'string',
+    cik: 'string',
+    cusip: 'string',
+    tickercusip: 'string',
+    nameOfIssuer: 'string',
+    shares: 'number',
+    titleOfClass: 'string',
+    value: 'number',
+    link: 'string',
+    finalLink: 'string',
+  },
+};
+
+const Form13FPortfolioDate: ObjectSchema = {
+  name: 'Form13FPortfolioDate',
+  fields: {
+    cik: 'string',
+    date: 'string',
+  },
+};
+
+const Form13FWithAnalytics: ObjectSchema = {
+  name: 'Form13FWithAnalytics',
+  fields: {
+    date: 'string',
+    fillingDate: 'string',
+    acceptedDate: 'string',
+    cik: 'string',
+    cusip: 'string',
+    tickercusip: 'string',
+    nameOfIssuer: 'string',
+    shares: 'number',
+    titleOfClass: 'string',
+    value: 'number',
+    change: 'number?',
+    changeP: 'number?',
+    link: 'string',
+    finalLink: 'string',
+  },
+};
+
+const Form4Ownership: ObjectSchema = {
+  name: 'Form4Ownership',
+  fields: {
+    symbol: 'string',
+    filingDate: 'string',
+    transactionDate: 'string',
+    reportingCik: 'string',
+    reportingName: 'string',
+    typeOfOwner: 'string',
+    acquistionOrDisposition: 'string',
+    formType: 'string',
+    securitiesOwned: 'number | null',
+    securitiesTransacted: 'number | null',
+    transactionType: 'string',
+    price: 'number | null',
+    securityName: 'string',
+    companyCik: 'string',
+    link: 'string',
+  },
+};
+
+const FundListItem: ObjectSchema = {
+  name: 'FundListItem',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    price: 'number | null',
+    exchange: 'string',
+    exchangeShortName: 'string',
+  },
+};
+
+const HistoricalEmployeeCount: ObjectSchema = {
+  name: 'HistoricalEmployeeCount',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    acceptanceTime: 'string',
+    periodOfReport: 'string',
+    companyName: 'string',
+    formType: 'string',
+    filingDate: 'string',
+    employeeCount: 'number',
+    source: 'string',
+  },
+};
+
+const HistoricalIndexConstituent: ObjectSchema = {
+  name: 'HistoricalIndexConstituent',
+  fields: {
+    dateAdded: 'string',
+    addedSecurity: 'string',
+    removedTicker: 'string',
+    removedSecurity: 'string',
+    date: 'string',
+    symbol: 'string',
+    reason: 'string',
+  },
+};
+
+const HistoricalMarketCap: ObjectSchema = {
+  name: 'HistoricalMarketCap',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    marketCap: 'number',
+  },
+};
+
+const HistoricalPrice: ObjectSchema = {
+  name: 'HistoricalPrice',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    adjClose: 'number',
+    volume: 'number',
+    unadjustedVolume: 'number',
+    change: 'number',
+    changePercent: 'number',
+    vwap: 'number',
+    label: 'string',
+    changeOverTime: 'number',
+  },
+};
+
+const HistoricalSectorPerformance: ObjectSchema = {
+  name: 'HistoricalSectorPerformance',
+  fields: {
+    date: 'string',
+    sector: 'string',
+    changesPercentage: 'number',
+  },
+};
+
+const IncomeStatement: ObjectSchema = {
+  name: 'IncomeStatement',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    reportedCurrency: 'string',
+    cik: 'string | null',
+    fillingDate: 'string',
+    acceptedDate: 'string',
+    calendarYear: 'string',
+    period: 'string',
+    revenue: 'number | null',
+    costOfRevenue: 'number | null',
+    grossProfit: 'number | null',
+    grossProfitRatio: 'number | null',
+    researchAndDevelopmentExpenses: 'number | null',
+    generalAndAdministrativeExpenses: 'number | null',
+    sellingAndMarketingExpenses: 'number | null',
+    sellingGeneralAndAdministrativeExpenses: 'number | null',
+    otherExpenses: 'number | null',
+    operatingExpenses: 'number | null',
+    costAndExpenses: 'number | null',
+    interestIncome: 'number | null',
+    interestExpense: 'number | null',
+    depreciationAndAmortization: 'number | null',
+    ebitda: 'number | null',
+    ebitdaratio: 'number | null',
+    operatingIncome: 'number | null',
+    operatingIncomeRatio: 'number | null',
+    totalOtherIncomeExpensesNet: 'number | null',
+    incomeBeforeTax: 'number | null',
+    incomeBeforeTaxRatio: 'number | null',
+    incomeTaxExpense: 'number | null',
+    netIncome: 'number | null',
+    netIncomeRatio: 'number | null',
+    eps: 'number | null',
+    epsdiluted: 'number | null',
+    weightedAverageShsOut: 'number | null',
+    weightedAverageShsOutDil: 'number | null',
+    link: 'string | null',
+    finalLink: 'string | null',
+  },
+};
+
+const IncomeStatementGrowth: ObjectSchema = {
+  name: 'IncomeStatementGrowth',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    period: 'string',
+    calendarYear: 'string',
+    growthRevenue: 'number | null',
+    growthCostOfRevenue: 'number | null',
+    growthGrossProfit: 'number | null',
+    growthGrossProfitRatio: 'number | null',
+    growthResearchAndDevelopmentExpenses: 'number | null',
+    growthGeneralAndAdministrativeExpenses: 'number | null',
+    growthSellingAndMarketingExpenses: 'number | null',
+    growthOtherExpenses: 'number | null',
+    growthOperatingExpenses: 'number | null',
+    growthCostAndExpenses: 'number | null',
+    growthInterestExpense: 'number | null',
+    growthDepreciationAndAmortization: 'number | null',
+    growthEBITDA: 'number | null',
+    growthEBITDARatio: 'number | null',
+    growthOperatingIncome: 'number | null',
+    growthOperatingIncomeRatio: 'number | null',
+    growthTotalOtherIncomeExpensesNet: 'number | null',
+    growthIncomeBeforeTax: 'number | null',
+    growthIncomeBeforeTaxRatio: 'number | null',
+    growthIncomeTaxExpense: 'number | null',
+    growthNetIncome: 'number | null',
+    growthNetIncomeRatio: 'number | null',
+    growthEPS: 'number | null',
+    growthEPSDiluted: 'number | null',
+    growthWeightedAverageShsOut: 'number | null',
+    growthWeightedAverageShsOutDil: 'number | null',
+  },
+};
+
+const IndexConstituent: ObjectSchema = {
+  name: 'IndexConstituent',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    sector: 'string',
+    subSector: 'string',
+    headQuarter: 'string',
+    dateFirstAdded: 'string',
+    cik: 'string',
+    founded: 'string',
+  },
+};
+
+const IndustryInstitutionalOwnership: ObjectSchema = {
+  name: 'IndustryInstitutionalOwnership',
+  fields: {
+    symbol: 'string',
+    industry: 'string',
+    numberOfInstitutions: 'number',
+    totalShares: 'number',
+    totalValue: 'number',
+    percentageOwned: 'number',
+    date: 'string',
+  },
+};
+
+const IndustryPortfolioHoldingsSummary: ObjectSchema = {
+  name: 'IndustryPortfolioHoldingsSummary',
+  fields: {
+    cik: 'string',
+    date: 'string',
+    industry: 'string',
+    totalValue: 'number',
+    totalShares: 'number',
+    numberOfHoldings: 'number',
+    weightPercentage: 'number?',
+  },
+};
+
+const Inline_date_close: ObjectSchema = {
+  name: '{ date, close }',
+  fields: {
+    date: 'string',
+    close: 'number',
+  },
+};
+
+const Inline_symbol: ObjectSchema = {
+  name: '{ symbol }',
+  fields: {
+    symbol: 'string',
+  },
+};
+
+const Inline_symbol_date: ObjectSchema = {
+  name: '{ symbol, date }',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+  },
+};
+
+const Inline_transactionType: ObjectSchema = {
+  name: '{ transactionType }',
+  fields: {
+    transactionType: 'string',
+  },
+};
+
+const Inline_year_quarter: ObjectSchema = {
+  name: '{ year, quarter }',
+  fields: {
+    year: 'number',
+    quarter: 'number',
+  },
+};
+
+const InsiderRoster: ObjectSchema = {
+  name: 'InsiderRoster',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    title: 'string',
+    cik: 'string',
+  },
+};
+
+const InsiderTrade: ObjectSchema = {
+  name: 'InsiderTrade',
+  fields: {
+    symbol: 'string',
+    filingDate: 'string',
+    transactionDate: 'string',
+    reportingCik: 'string',
+    transactionType: 'string',
+    securitiesOwned: 'number',
+    companyCik: 'string',
+    reportingName: 'string',
+    typeOfOwner: 'string',
+    acquistionOrDisposition: 'string',
+    formType: 'string',
+    securitiesTransacted: 'number',
+    price: 'number',
+    securityName: 'string',
+    link: 'string',
+  },
+};
+
+const InsiderTradingStatistics: ObjectSchema = {
+  name: 'InsiderTradingStatistics',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    year: 'number',
+    quarter: 'number',
+    purchases: 'number',
+    sales: 'number',
+    pPurchases: 'number',
+    sSales: 'number',
+  },
+};
+
+const InstitutionalHolder: ObjectSchema = {
+  name: 'InstitutionalHolder',
+  fields: {
+    holder: 'string',
+    cik: 'string',
+    shares: 'number',
+    dateReported: 'string',
+    change: 'number',
+  },
+};
+
+const IntradayChart: ObjectSchema = {
+  name: 'IntradayChart',
+  fields: {
+    date: 'string',
+    open: 'number',
+    low: 'number',
+    high: 'number',
+    close: 'number',
+    volume: 'number',
+  },
+};
+
+const IPOCalendar: ObjectSchema = {
+  name: 'IPOCalendar',
+  fields: {
+    date: 'string',
+    company: 'string',
+    symbol: 'string',
+    exchange: 'string',
+    actions: 'string',
+    shares: 'number',
+    priceRange: 'string',
+    marketCap: 'number',
+  },
+};
+
+const IPOConfirmed: ObjectSchema = {
+  name: 'IPOConfirmed',
+  fields: {
+    date: 'string',
+    company: 'string',
+    symbol: 'string',
+    exchange: 'string',
+    actions: 'string',
+    shares: 'number',
+    priceRange: 'string',
+    marketCap: 'number',
+  },
+};
+
+const IPOProspectus: ObjectSchema = {
+  name: 'IPOProspectus',
+  fields: {
+    date: 'string',
+    company: 'string',
+    symbol: 'string',
+    exchange: 'string',
+    actions: 'string',
+    shares: 'number',
+    priceRange: 'string',
+    marketCap: 'number',
+  },
+};
+
+const ISINSearchResult: ObjectSchema = {
+  name: 'ISINSearchResult',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    isin: 'string',
+    cusip: 'string',
+    exchange: 'string',
+  },
+};
+
+const KeyMetrics: ObjectSchema = {
+  name: 'KeyMetrics',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    calendarYear: 'string',
+    period: 'string',
+    revenuePerShare: 'number | null',
+    netIncomePerShare: 'number | null',
+    operatingCashFlowPerShare: 'number | null',
+    freeCashFlowPerShare: 'number | null',
+    cashPerShare: 'number | null',
+    bookValuePerShare: 'number | null',
+    tangibleBookValuePerShare: 'number | null',
+    shareholdersEquityPerShare: 'number | null',
+    interestDebtPerShare: 'number | null',
+    marketCap: 'number | null',
+    enterpriseValue: 'number | null',
+    peRatio: 'number | null',
+    priceToSalesRatio: 'number | null',
+    pocfratio: 'number | null',
+    pfcfRatio: 'number | null',
+    pbRatio: 'number | null',
+    ptbRatio: 'number | null',
+    evToSales: 'number | null',
+    enterpriseValueOverEBITDA: 'number | null',
+    evToOperatingCashFlow: 'number | null',
+    evToFreeCashFlow: 'number | null',
+    earningsYield: 'number | null',
+    freeCashFlowYield: 'number | null',
+    debtToEquity: 'number | null',
+    debtToAssets: 'number | null',
+    netDebtToEBITDA: 'number | null',
+    currentRatio: 'number | null',
+    interestCoverage: 'number | null',
+    incomeQuality: 'number | null',
+    dividendYield: 'number | null',
+    payoutRatio: 'number | null',
+    salesGeneralAndAdministrativeToRevenue: 'number | null',
+    researchAndDdevelopementToRevenue: 'number | null',
+    intangiblesToTotalAssets: 'number | null',
+    capexToOperatingCashFlow: 'number | null',
+    capexToRevenue: 'number | null',
+    capexToDepreciation: 'number | null',
+    stockBasedCompensationToRevenue: 'number | null',
+    grahamNumber: 'number | null',
+    roic: 'number | null',
+    returnOnTangibleAssets: 'number | null',
+    grahamNetNet: 'number | null',
+    workingCapital: 'number | null',
+    tangibleAssetValue: 'number | null',
+    netCurrentAssetValue: 'number | null',
+    investedCapital: 'number | null',
+    averageReceivables: 'number | null',
+    averagePayables: 'number | null',
+    averageInventory: 'number | null',
+    daysSalesOutstanding: 'number | null',
+    daysPayablesOutstanding: 'number | null',
+    daysOfInventoryOnHand: 'number | null',
+    receivablesTurnover: 'number | null',
+    payablesTurnover: 'number | null',
+    inventoryTurnover: 'number | null',
+    roe: 'number | null',
+    capexPerShare: 'number | null',
+  },
+};
+
+const LatestFinancialStatement: ObjectSchema = {
+  name: 'LatestFinancialStatement',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+    period: 'string',
+    documenttype: 'string',
+    reportedCurrency: 'string',
+    cik: 'string',
+    fillingDate: 'string',
+    acceptedDate: 'string',
+    calendarYear: 'string',
+  },
+};
+
+const LeveredDCF: ObjectSchema = {
+  name: 'LeveredDCF',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    dcf: 'number',
+    stockPrice: 'number | null',
+  },
+};
+
+const LightChartData: ObjectSchema = {
+  name: 'LightChartData',
+  fields: {
+    date: 'string',
+    close: 'number',
+  },
+};
+
+const MarketCap: ObjectSchema = {
+  name: 'MarketCap',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    marketCap: 'number',
+  },
+};
+
+const MarketHoliday: ObjectSchema = {
+  name: 'MarketHoliday',
+  fields: {
+    year: 'number',
+    'New Years Day': 'string',
+    'Martin Luther King, Jr. Day': 'string',
+    "Washington's Birthday": 'string',
+    'Good Friday': 'string',
+    'Memorial Day': 'string',
+    'Independence Day': 'string',
+    'Labor Day': 'string',
+    'Thanksgiving Day': 'string',
+    Christmas: 'string',
+  },
+};
+
+const MarketHours: ObjectSchema = {
+  name: 'MarketHours',
+  fields: {
+    stockExchangeName: 'string',
+    stockMarketHours: 'object',
+    stockMarketHolidays: 'array',
+    isTheStockMarketOpen: 'boolean',
+    isTheEuronextMarketOpen: 'boolean',
+    isTheForexMarketOpen: 'boolean',
+    isTheCryptoMarketOpen: 'boolean',
+  },
+};
+
+const MarketRiskPremium: ObjectSchema = {
+  name: 'MarketRiskPremium',
+  fields: {
+    country: 'string',
+    continent: 'string',
+    totalEquityRiskPremium: 'number',
+    countryRiskPremium: 'number',
+  },
+};
+
+const MergerAcquisition: ObjectSchema = {
+  name: 'MergerAcquisition',
+  fields: {
+    symbol: 'string',
+    companyName: 'string',
+    targetedCompanySymbol: 'string',
+    targetedCompanyName: 'string',
+    transactionDate: 'string',
+    acceptanceTime: 'string',
+    url: 'string',
+  },
+};
+
+const MutualFundHolder: ObjectSchema = {
+  name: 'MutualFundHolder',
+  fields: {
+    holder: 'string',
+    shares: 'number',
+    dateReported: 'string',
+    change: 'number',
+    weightPercent: 'number',
+  },
+};
+
+const NameSearchResult: ObjectSchema = {
+  name: 'NameSearchResult',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    currency: 'string',
+    stockExchange: 'string',
+    exchangeShortName: 'string',
+  },
+};
+
+const OwnerEarnings: ObjectSchema = {
+  name: 'OwnerEarnings',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    averagePPE: 'number | null',
+    maintenanceCapex: 'number | null',
+    ownersEarnings: 'number | null',
+    growthCapex: 'number | null',
+    ownersEarningsPerShare: 'number | null',
+  },
+};
+
+const PortfolioHoldingsSummary: ObjectSchema = {
+  name: 'PortfolioHoldingsSummary',
+  fields: {
+    cik: 'string',
+    date: 'string',
+    symbol: 'string?',
+    name: 'string?',
+    shares: 'number',
+    value: 'number',
+    weightPercentage: 'number?',
+  },
+};
+
+const PressRelease: ObjectSchema = {
+  name: 'PressRelease',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    title: 'string',
+    text: 'string',
+  },
+};
+
+const PriceChange: ObjectSchema = {
+  name: 'PriceChange',
+  fields: {
+    symbol: 'string',
+    '1D': 'number | null',
+    '5D': 'number | null',
+    '1M': 'number | null',
+    '3M': 'number | null',
+    '6M': 'number | null',
+    ytd: 'number | null',
+    '1Y': 'number | null',
+    '3Y': 'number | null',
+    '5Y': 'number | null',
+    '10Y': 'number | null',
+    max: 'number | null',
+  },
+};
+
+const PriceTarget: ObjectSchema = {
+  name: 'PriceTarget',
+  fields: {
+    symbol: 'string',
+    publishedDate: 'string',
+    newsURL: 'string',
+    newsTitle: 'string',
+    analystName: 'string',
+    priceTarget: 'number',
+    adjPriceTarget: 'number',
+    priceWhenPosted: 'number',
+    newsPublisher: 'string',
+    newsBaseURL: 'string',
+    analystCompany: 'string',
+  },
+};
+
+const PriceTargetConsensus: ObjectSchema = {
+  name: 'PriceTargetConsensus',
+  fields: {
+    symbol: 'string',
+    targetHigh: 'number',
+    targetLow: 'number',
+    targetConsensus: 'number',
+    targetMedian: 'number',
+  },
+};
+
+const PriceTargetSummary: ObjectSchema = {
+  name: 'PriceTargetSummary',
+  fields: {
+    symbol: 'string',
+    lastMonth: 'number',
+    lastMonthAvgPriceTarget: 'number',
+    lastQuarter: 'number',
+    lastQuarterAvgPriceTarget: 'number',
+    lastYear: 'number',
+    lastYearAvgPriceTarget: 'number',
+    allTime: 'number',
+    allTimeAvgPriceTarget: 'number',
+    publishers: 'array',
+  },
+};
+
+const Quote: ObjectSchema = {
+  name: 'Quote',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    price: 'number',
+    changesPercentage: 'number',
+    change: 'number',
+    dayLow: 'number',
+    dayHigh: 'number',
+    yearHigh: 'number',
+    yearLow: 'number',
+    marketCap: 'number | null',
+    priceAvg50: 'number | null',
+    priceAvg200: 'number | null',
+    exchange: 'string',
+    volume: 'number',
+    avgVolume: 'number',
+    open: 'number',
+    previousClose: 'number',
+    eps: 'number | null',
+    pe: 'number | null',
+    earningsAnnouncement: 'string | null',
+    sharesOutstanding: 'number | null',
+    timestamp: 'number',
+  },
+};
+
+const QuoteShort: ObjectSchema = {
+  name: 'QuoteShort',
+  fields: {
+    symbol: 'string',
+    price: 'number',
+    volume: 'number',
+  },
+};
+
+const ReportDate: ObjectSchema = {
+  name: 'ReportDate',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    period: 'string',
+    linkXlsx: 'string',
+    linkJson: 'string',
+  },
+};
+
+const RevenueGeographicSegmentation: ObjectSchema = {
+  name: 'RevenueGeographicSegmentation',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+  },
+};
+
+const RevenueProductSegmentation: ObjectSchema = {
+  name: 'RevenueProductSegmentation',
+  fields: {
+    date: 'string',
+    symbol: 'string',
+  },
+};
+
+const RSI: ObjectSchema = {
+  name: 'RSI',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    rsi: 'number',
+  },
+};
+
+const SECFiling: ObjectSchema = {
+  name: 'SECFiling',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    title: 'string',
+    date: 'string',
+    type: 'string',
+    link: 'string',
+    finalLink: 'string',
+  },
+};
+
+const SECFullProfile: ObjectSchema = {
+  name: 'SECFullProfile',
+  fields: {
+    profile: 'object',
+    metrics: 'object',
+    ratios: 'array',
+    insiderTrading: 'array',
+    keyExecutives: 'array',
+    splitsHistory: 'array',
+    stockDividend: 'array',
+    stockNews: 'array',
+    rating: 'array',
+    financialsAnnual: 'object',
+    financialsQuarter: 'object',
+  },
+};
+
+const SECRSSFeed: ObjectSchema = {
+  name: 'SECRSSFeed',
+  fields: {
+    title: 'string',
+    date: 'string',
+    link: 'string',
+    cik: 'string',
+    formType: 'string',
+    acceptanceDateTime: 'string',
+    filingDate: 'string',
+    reportDate: 'string',
+    accessionNumber: 'string',
+    fileNumber: 'string',
+    filmNumber: 'string',
+    items: 'string',
+    size: 'string',
+  },
+};
+
+const SectorIndustry: ObjectSchema = {
+  name: 'SectorIndustry',
+  fields: {
+    sector: 'string?',
+    industry: 'string?',
+  },
+};
+
+const SectorPE: ObjectSchema = {
+  name: 'SectorPE',
+  fields: {
+    date: 'string',
+    sector: 'string',
+    pe: 'number',
+  },
+};
+
+const SectorPerformance: ObjectSchema = {
+  name: 'SectorPerformance',
+  fields: {
+    sector: 'string',
+    changesPercentage: 'number',
+    '5DayChange': 'number?',
+    '1MonthChange': 'number?',
+    '3MonthChange': 'number?',
+    '6MonthChange': 'number?',
+    yearToDateChange: 'number?',
+    '1YearChange': 'number?',
+  },
+};
+
+const SharesFloat: ObjectSchema = {
+  name: 'SharesFloat',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    freeFloat: 'number',
+    floatShares: 'number',
+    outstandingShares: 'number',
+    source: 'string',
+  },
+};
+
+const SICCode: ObjectSchema = {
+  name: 'SICCode',
+  fields: {
+    sicCode: 'string',
+    industry: 'string',
+    office: 'string',
+  },
+};
+
+const SMA: ObjectSchema = {
+  name: 'SMA',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    sma: 'number',
+  },
+};
+
+const StandardDeviation: ObjectSchema = {
+  name: 'StandardDeviation',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    standardDeviation: 'number',
+  },
+};
+
+const StockGrade: ObjectSchema = {
+  name: 'StockGrade',
+  fields: {
+    symbol: 'string',
+    date: 'string',
+    gradingCompany: 'string',
+    previousGrade: 'string',
+    newGrade: 'string',
+  },
+};
+
+const StockMover: ObjectSchema = {
+  name: 'StockMover',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    change: 'number',
+    price: 'number',
+    changesPercentage: 'number',
+  },
+};
+
+const StockNews: ObjectSchema = {
+  name: 'StockNews',
+  fields: {
+    symbol: 'string',
+    publishedDate: 'string',
+    title: 'string',
+    image: 'string',
+    site: 'string',
+    text: 'string',
+    url: 'string',
+  },
+};
+
+const StockPeer: ObjectSchema = {
+  name: 'StockPeer',
+  fields: {
+    symbol: 'string',
+    peersList: 'array',
+  },
+};
+
+const StockScreenerResult: ObjectSchema = {
+  name: 'StockScreenerResult',
+  fields: {
+    symbol: 'string',
+    companyName: 'string',
+    marketCap: 'number',
+    sector: 'string',
+    industry: 'string',
+    beta: 'number',
+    price: 'number',
+    lastAnnualDividend: 'number',
+    volume: 'number',
+    exchange: 'string',
+    exchangeShortName: 'string',
+    country: 'string',
+    isEtf: 'boolean',
+    isActivelyTrading: 'boolean',
+  },
+};
+
+const StockSplit: ObjectSchema = {
+  name: 'StockSplit',
+  fields: {
+    date: 'string',
+    label: 'string',
+    symbol: 'string',
+    numerator: 'number',
+    denominator: 'number',
+  },
+};
+
+const SymbolChange: ObjectSchema = {
+  name: 'SymbolChange',
+  fields: {
+    date: 'string',
+    name: 'string',
+    oldSymbol: 'string',
+    newSymbol: 'string',
+  },
+};
+
+const SymbolOwnership: ObjectSchema = {
+  name: 'SymbolOwnership',
+  fields: {
+    symbol: 'string',
+    cik: 'string',
+    name: 'string',
+    date: 'string',
+    shares: 'number',
+    value: 'number',
+    change: 'number?',
+    changeP: 'number?',
+    weightPercentage: 'number?',
+  },
+};
+
+const SymbolSearchResult: ObjectSchema = {
+  name: 'SymbolSearchResult',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    currency: 'string',
+    stockExchange: 'string',
+    exchangeShortName: 'string',
+  },
+};
+
+const SymbolsList: ObjectSchema = {
+  name: 'SymbolsList',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    price: 'number',
+    exchange: 'string',
+    exchangeShortName: 'string',
+    type: 'string',
+  },
+};
+
+const TEMA: ObjectSchema = {
+  name: 'TEMA',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    tema: 'number',
+  },
+};
+
+const TradableSymbol: ObjectSchema = {
+  name: 'TradableSymbol',
+  fields: {
+    symbol: 'string',
+    name: 'string',
+    price: 'number',
+    exchange: 'string',
+  },
+};
+
+const TreasuryRate: ObjectSchema = {
+  name: 'TreasuryRate',
+  fields: {
+    date: 'string',
+    month1: 'string',
+    month2: 'string',
+    month3: 'string',
+    month6: 'string',
+    year1: 'string',
+    year2: 'string',
+    year3: 'string',
+    year5: 'string',
+    year7: 'string',
+    year10: 'string',
+    year20: 'string',
+    year30: 'string',
+  },
+};
+
+const UpgradesDowngradesConsensus: ObjectSchema = {
+  name: 'UpgradesDowngradesConsensus',
+  fields: {
+    symbol: 'string',
+    strongBuy: 'number',
+    buy: 'number',
+    hold: 'number',
+    sell: 'number',
+    strongSell: 'number',
+    consensus: 'string',
+  },
+};
+
+const Williams: ObjectSchema = {
+  name: 'Williams',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    williams: 'number',
+  },
+};
+
+const WMA: ObjectSchema = {
+  name: 'WMA',
+  fields: {
+    date: 'string',
+    open: 'number',
+    high: 'number',
+    low: 'number',
+    close: 'number',
+    volume: 'number',
+    wma: 'number',
+  },
+};
+
+/**
+ * Schemas for every SDK response type, keyed by interface name
+ */
+export const RESPONSE_SCHEMAS: Record<string, ObjectSchema> = {
+  AdvancedDCF,
+  ADX,
+  AftermarketQuote,
+  AftermarketTrade,
+  AnalystEstimate,
+  AnalystRecommendation,
+  BalanceSheet,
+  BalanceSheetGrowth,
+  CashFlowStatement,
+  CashFlowStatementGrowth,
+  CIKMapping,
+  CIKSearchResult,
+  CommodityList,
+  CommodityQuote,
+  CompanyCIKSearch,
+  CompanyNotes,
+  CompanyProfile,
+  CompensationBenchmark,
+  CongressionalTrade,
+  COTAnalysis,
+  COTReport,
+  COTSymbol,
+  Crowdfunding,
+  CrowdfundingRSSItem,
+  CryptoList,
+  CryptoPrice,
+  CUSIPSearchResult,
+  DCFValuation,
+  DelistedCompany,
+  DEMA,
+  Dividend,
+  DividendCalendar,
+  Earnings,
+  EarningsCalendar,
+  EarningsSurprise,
+  EarningsTranscript,
+  EconomicCalendar,
+  EconomicIndicator,
+  EMA,
+  EmployeeCount,
+  EnterpriseValue,
+  EquityOffering,
+  EquityOfferingRSSItem,
+  ESGBenchmark,
+  ESGData,
+  ESGRating,
+  ETFCountryWeighting,
+  ETFHolding,
+  ETFInfo,
+  ETFSectorWeighting,
+  ETFStockExposure,
+  ExchangeInfo,
+  ExchangeSymbol,
+  Executive,
+  ExecutiveCompensation,
+  FinancialGrowth,
+  FinancialRatios,
+  FinancialReportDownload,
+  FinancialScores,
+  FMPArticle,
+  ForexCurrencyPair,
+  ForexPrice,
+  ForexQuoteShort,
+  Form13F,
+  Form13FPortfolioDate,
+  Form13FWithAnalytics,
+  Form4Ownership,
+  FundListItem,
+  HistoricalEmployeeCount,
+  HistoricalIndexConstituent,
+  HistoricalMarketCap,
+  HistoricalPrice,
+  HistoricalSectorPerformance,
+  IncomeStatement,
+  IncomeStatementGrowth,
+  IndexConstituent,
+  IndustryInstitutionalOwnership,
+  IndustryPortfolioHoldingsSummary,
+  InsiderRoster,
+  InsiderTrade,
+  InsiderTradingStatistics,
+  InstitutionalHolder,
+  IntradayChart,
+  IPOCalendar,
+  IPOConfirmed,
+  IPOProspectus,
+  ISINSearchResult,
+  KeyMetrics,
+  LatestFinancialStatement,
+  LeveredDCF,
+  LightChartData,
+  MarketCap,
+  MarketHoliday,
+  MarketHours,
+  MarketRiskPremium,
+  MergerAcquisition,
+  MutualFundHolder,
+  NameSearchResult,
+  OwnerEarnings,
+  PortfolioHoldingsSummary,
+  PressRelease,
+  PriceChange,
+  PriceTarget,
+  PriceTargetConsensus,
+  PriceTargetSummary,
+  Quote,
+  QuoteShort,
+  ReportDate,
+  RevenueGeographicSegmentation,
+  RevenueProductSegmentation,
+  RSI,
+  SECFiling,
+  SECFullProfile,
+  SECRSSFeed,
+  SectorIndustry,
+  SectorPE,
+  SectorPerformance,
+  SharesFloat,
+  SICCode,
+  SMA,
+  StandardDeviation,
+  StockGrade,
+  StockMover,
+  StockNews,
+  StockPeer,
+  StockScreenerResult,
+  StockSplit,
+  SymbolChange,
+  SymbolOwnership,
+  SymbolSearchResult,
+  SymbolsList,
+  TEMA,
+  TradableSymbol,
+  TreasuryRate,
+  UpgradesDowngradesConsensus,
+  Williams,
+  WMA,
+};
+
+/**
+ * Response schemas by endpoint
+ * Endpoints shared by several SDK types list every candidate
+ */
+export const ENDPOINT_SCHEMAS: Record<string, ResponseSchema[]> = {
+  'actively-trading-list': [arrayOf(TradableSymbol)],
+  'aftermarket-quote': [arrayOf(AftermarketQuote)],
+  'aftermarket-trade': [arrayOf(AftermarketTrade)],
+  'all-exchange-market-hours': [arrayOf(MarketHours)],
+  'analyst-estimates': [arrayOf(AnalystEstimate)],
+  'analyst-stock-recommendations': [arrayOf(AnalystRecommendation)],
+  'available-countries': [arrayOf('string')],
+  'available-exchanges': [arrayOf(ExchangeInfo)],
+  'available-industries': [arrayOf(SectorIndustry)],
+  'available-sectors': [arrayOf(SectorIndustry)],
+  'balance-sheet-statement': [arrayOf(BalanceSheet)],
+  'balance-sheet-statement-as-reported': [arrayOf('object')],
+  'balance-sheet-statement-bulk': [arrayOf(BalanceSheet)],
+  'balance-sheet-statement-growth': [arrayOf(BalanceSheetGrowth)],
+  'balance-sheet-statement-growth-bulk': [arrayOf(BalanceSheetGrowth)],
+  'balance-sheet-statement-ttm': [arrayOf(BalanceSheet)],
+  'batch-aftermarket-quote': [arrayOf(AftermarketQuote)],
+  'batch-aftermarket-trade': [arrayOf(AftermarketTrade)],
+  'batch-commodity-quotes': [arrayOf(CommodityQuote), arrayOf(Quote)],
+  'batch-crypto-quotes': [arrayOf(CryptoPrice)],
+  'batch-earning-call-transcript': [arrayOf(EarningsTranscript)],
+  'batch-etf-quotes': [arrayOf(Quote)],
+  'batch-forex-quotes': [arrayOf(ForexPrice)],
+  'batch-index-quotes': [arrayOf(Quote)],
+  'batch-mutualfund-quotes': [arrayOf(Quote)],
+  'batch-quote': [arrayOf(Quote)],
+  'cash-flow-statement': [arrayOf(CashFlowStatement)],
+  'cash-flow-statement-as-reported': [arrayOf('object')],
+  'cash-flow-statement-bulk': [arrayOf(CashFlowStatement)],
+  'cash-flow-statement-growth': [arrayOf(CashFlowStatementGrowth)],
+  'cash-flow-statement-growth-bulk': [arrayOf(CashFlowStatementGrowth)],
+  'cash-flow-statement-ttm': [arrayOf(CashFlowStatement)],
+  cik: [arrayOf(CompanyCIKSearch)],
+  'cik-list': [arrayOf(CIKMapping)],
+  'cik-search': [arrayOf(CompanyCIKSearch)],
+  'commitment-of-traders-analysis': [arrayOf(COTAnalysis)],
+  'commitment-of-traders-list': [arrayOf(COTSymbol)],
+  'commitment-of-traders-report': [arrayOf(COTReport)],
+  'commodities-list': [arrayOf(CommodityList)],
+  'company-notes': [arrayOf(CompanyNotes)],
+  'company-outlook': [objectOf(SECFullProfile)],
+  'company-screener': [arrayOf(StockScreenerResult)],
+  'crowdfunding-offerings': [arrayOf(Crowdfunding)],
+  'crowdfunding-offerings-latest': [arrayOf(CrowdfundingRSSItem)],
+  'crowdfunding-offerings-search': [arrayOf(Crowdfunding)],
+  'crypto-news': [arrayOf(StockNews)],
+  'crypto-news-search': [arrayOf(StockNews)],
+  'cryptocurrency-list': [arrayOf(CryptoList)],
+  'custom-discounted-cash-flow': [arrayOf(AdvancedDCF)],
+  'custom-levered-discounted-cash-flow': [arrayOf(LeveredDCF)],
+  'dcf-bulk': [arrayOf(DCFValuation)],
+  'delisted-companies': [arrayOf(DelistedCompany)],
+  'discounted-cash-flow': [arrayOf(DCFValuation)],
+  dividends: [arrayOf(Dividend)],
+  'dividends-calendar': [arrayOf(DividendCalendar)],
+  'dowjones-constituent': [arrayOf(IndexConstituent)],
+  'earning-call-transcript': [arrayOf(EarningsTranscript)],
+  'earning-call-transcript-available-symbols': [arrayOf(Inline_symbol)],
+  'earning-call-transcript-dates': [arrayOf(Inline_year_quarter)],
+  earnings: [arrayOf(Earnings)],
+  'earnings-calendar': [arrayOf(EarningsCalendar)],
+  'earnings-calendar-confirmed': [arrayOf(EarningsCalendar)],
+  'earnings-surprises-bulk': [arrayOf(EarningsSurprise)],
+  'economic-calendar': [arrayOf(EconomicCalendar)],
+  'economic-indicators': [arrayOf(EconomicIndicator)],
+  'employee-count': [arrayOf(EmployeeCount)],
+  'enterprise-values': [arrayOf(EnterpriseValue)],
+  'esg-benchmark': [arrayOf(ESGBenchmark)],
+  'esg-disclosures': [arrayOf(ESGData)],
+  'esg-ratings': [arrayOf(ESGRating)],
+  'etf-holder-bulk': [arrayOf(ETFHolding)],
+  'etf-list': [arrayOf(FundListItem), arrayOf(SymbolsList)],
+  'etf/asset-exposure': [arrayOf(ETFStockExposure)],
+  'etf/country-weightings': [arrayOf(ETFCountryWeighting)],
+  'etf/holdings': [arrayOf(ETFHolding)],
+  'etf/info': [arrayOf(ETFInfo)],
+  'etf/sector-weightings': [arrayOf(ETFSectorWeighting)],
+  'exchange-market-hours': [arrayOf(MarketHours)],
+  'exchange-symbols': [arrayOf(ExchangeSymbol)],
+  'executive-compensation-benchmark': [arrayOf(CompensationBenchmark)],
+  'financial-growth': [arrayOf(FinancialGrowth)],
+  'financial-reports-dates': [arrayOf(ReportDate)],
+  'financial-reports-xlsx': [objectOf(FinancialReportDownload)],
+  'financial-scores': [arrayOf(FinancialScores)],
+  'financial-statement-full-as-reported': [arrayOf(LatestFinancialStatement)],
+  'financial-statement-symbol-list': [arrayOf(SymbolsList)],
+  'fmp-articles': [arrayOf(FMPArticle)],
+  'forex-list': [arrayOf(ForexCurrencyPair)],
+  'forex-news': [arrayOf(StockNews)],
+  'forex-news-search': [arrayOf(StockNews)],
+  'form-four': [arrayOf(Form4Ownership)],
+  'form-thirteen': [arrayOf(Form13F), arrayOf(Form13FWithAnalytics)],
+  fundraising: [arrayOf(EquityOffering)],
+  'fundraising-latest': [arrayOf(EquityOfferingRSSItem)],
+  'fundraising-search': [arrayOf(EquityOffering)],
+  'funds/disclosure-dates': [arrayOf(Inline_symbol_date)],
+  'funds/disclosure-holders-latest': [arrayOf(MutualFundHolder)],
+  'general-news': [arrayOf(StockNews)],
+  'governance-executive-compensation': [arrayOf(ExecutiveCompensation)],
+  grades: [arrayOf(StockGrade)],
+  'grades-consensus': [arrayOf(UpgradesDowngradesConsensus)],
+  'grades-historical': [arrayOf(StockGrade)],
+  'grades-summary': [arrayOf(UpgradesDowngradesConsensus)],
+  'historical-chart/*': [arrayOf(IntradayChart)],
+  'historical-daily-discounted-cash-flow': [arrayOf(DCFValuation)],
+  'historical-discounted-cash-flow-statement': [arrayOf(DCFValuation)],
+  'historical-dowjones-constituent': [arrayOf(HistoricalIndexConstituent)],
+  'historical-employee-count': [arrayOf(HistoricalEmployeeCount)],
+  'historical-industry-pe': [arrayOf('object')],
+  'historical-market-capitalization': [arrayOf(HistoricalMarketCap)],
+  'historical-nasdaq-constituent': [arrayOf(HistoricalIndexConstituent)],
+  'historical-price-eod/dividend-adjusted': [arrayOf(HistoricalPrice)],
+  'historical-price-eod/full': [arrayOf(HistoricalPrice)],
+  'historical-price-eod/light': [
+    arrayOf(Inline_date_close),
+    arrayOf(LightChartData),
+  ],
+  'historical-price-eod/non-split-adjusted': [arrayOf(HistoricalPrice)],
+  'historical-sector-pe': [arrayOf(SectorPE)],
+  'historical-sector-performance': [arrayOf(HistoricalSectorPerformance)],
+  'historical-sp500-constituent': [arrayOf(HistoricalIndexConstituent)],
+  'holidays-by-exchange': [arrayOf(MarketHoliday)],
+  'house-disclosure': [arrayOf(CongressionalTrade)],
+  'house-disclosure-rss-feed': [arrayOf(CongressionalTrade)],
+  'income-statement': [arrayOf(IncomeStatement)],
+  'income-statement-as-reported': [arrayOf('object')],
+  'income-statement-bulk': [arrayOf(IncomeStatement)],
+  'income-statement-growth': [arrayOf(IncomeStatementGrowth)],
+  'income-statement-growth-bulk': [arrayOf(IncomeStatementGrowth)],
+  'income-statement-ttm': [arrayOf(IncomeStatement)],
+  'index-list': [arrayOf('object')],
+  'industry-price-earning-ratio': [arrayOf('object')],
+  'insider-roaster': [arrayOf(InsiderRoster)],
+  'insider-roaster-statistic': [arrayOf(InsiderTradingStatistics)],
+  'insider-trading': [arrayOf(InsiderTrade)],
+  'insider-trading-transaction-type': [arrayOf(Inline_transactionType)],
+  'institutional-holder': [arrayOf(InstitutionalHolder)],
+  'institutional-ownership-industry-portfolio-holdings-summary': [
+    arrayOf(IndustryPortfolioHoldingsSummary),
+  ],
+  'institutional-ownership-portfolio-date': [arrayOf(Form13FPortfolioDate)],
+  'institutional-ownership-portfolio-holdings-summary': [
+    arrayOf(PortfolioHoldingsSummary),
+  ],
+  'institutional-ownership-symbol-ownership': [arrayOf(SymbolOwnership)],
+  'institutional-ownership-symbol-ownership-percent': [
+    arrayOf(IndustryInstitutionalOwnership),
+  ],
+  'ipos-calendar': [arrayOf(IPOCalendar)],
+  'ipos-confirmed': [arrayOf(IPOConfirmed)],
+  'ipos-prospectus': [arrayOf(IPOProspectus)],
+  'key-executives': [arrayOf(Executive)],
+  'key-metrics': [arrayOf(KeyMetrics)],
+  'key-metrics-ttm': [arrayOf(KeyMetrics)],
+  'key-metrics-ttm-bulk': [arrayOf(KeyMetrics)],
+  'levered-discounted-cash-flow': [arrayOf(LeveredDCF)],
+  'market-capitalization': [arrayOf(MarketCap)],
+  'market-capitalization-batch': [arrayOf(MarketCap)],
+  'market-risk-premium': [arrayOf(MarketRiskPremium)],
+  'mergers-acquisitions-latest': [arrayOf(MergerAcquisition)],
+  'mergers-acquisitions-search': [arrayOf(MergerAcquisition)],
+  'mutual-fund-list': [arrayOf(FundListItem)],
+  'nasdaq-constituent': [arrayOf(IndexConstituent)],
+  'owner-earnings': [arrayOf(OwnerEarnings)],
+  'peers-bulk': [arrayOf(StockPeer)],
+  'press-releases': [arrayOf(PressRelease)],
+  'press-releases-search': [arrayOf(PressRelease)],
+  'price-target': [arrayOf(PriceTarget)],
+  'price-target-consensus': [arrayOf(PriceTargetConsensus)],
+  'price-target-summary': [arrayOf(PriceTargetSummary)],
+  'price-target-summary-bulk': [arrayOf(PriceTarget)],
+  profile: [arrayOf(CompanyProfile)],
+  'profile-bulk': [arrayOf(CompanyProfile)],
+  'profile-cik': [arrayOf(CompanyProfile)],
+  quote: [
+    arrayOf(CommodityQuote),
+    arrayOf(CryptoPrice),
+    arrayOf(ForexPrice),
+    arrayOf(Quote),
+  ],
+  'quote-short': [
+    arrayOf('object'),
+    arrayOf(ForexQuoteShort),
+    arrayOf(QuoteShort),
+  ],
+  rating: [arrayOf(AnalystRecommendation)],
+  'rating-bulk': [arrayOf(AnalystRecommendation)],
+  ratios: [arrayOf(FinancialRatios)],
+  'ratios-ttm': [arrayOf(FinancialRatios)],
+  'ratios-ttm-bulk': [arrayOf(FinancialRatios)],
+  'revenue-geographic-segmentation': [arrayOf(RevenueGeographicSegmentation)],
+  'revenue-product-segmentation': [arrayOf(RevenueProductSegmentation)],
+  'rss-feed': [arrayOf(SECRSSFeed)],
+  'rss-feed-8k': [arrayOf(SECRSSFeed)],
+  'scores-bulk': [arrayOf(FinancialScores)],
+  'search-cik': [arrayOf(CIKSearchResult)],
+  'search-cusip': [arrayOf(CUSIPSearchResult)],
+  'search-isin': [arrayOf(ISINSearchResult)],
+  'search-name': [arrayOf(NameSearchResult), arrayOf(SymbolsList)],
+  'search-symbol': [arrayOf(SymbolSearchResult), arrayOf(SymbolsList)],
+  'sec-filings': [arrayOf(SECFiling)],
+  'sector-performance': [arrayOf(SectorPerformance)],
+  'sector-price-earning-ratio': [arrayOf(SectorPE)],
+  'senate-trading': [arrayOf(CongressionalTrade)],
+  'senate-trading-rss-feed': [arrayOf(CongressionalTrade)],
+  'shares-float': [arrayOf(SharesFloat)],
+  'shares-float-all': [arrayOf(SharesFloat)],
+  'sp500-constituent': [arrayOf(IndexConstituent)],
+  splits: [arrayOf(StockSplit)],
+  'splits-calendar': [arrayOf(StockSplit)],
+  'standard-industrial-classification': [arrayOf(SICCode)],
+  'standard-industrial-classification-all': [arrayOf(SICCode)],
+  'stock-list': [arrayOf(SymbolsList)],
+  'stock-market-actives': [arrayOf(StockMover)],
+  'stock-market-gainers': [arrayOf(StockMover)],
+  'stock-market-losers': [arrayOf(StockMover)],
+  'stock-news': [arrayOf(StockNews)],
+  'stock-news-search': [arrayOf(StockNews)],
+  'stock-peers': [arrayOf(StockPeer)],
+  'stock-price-change': [arrayOf(PriceChange)],
+  'symbol-change': [arrayOf(SymbolChange)],
+  'technical-indicator/*': [
+    arrayOf(ADX),
+    arrayOf(DEMA),
+    arrayOf(EMA),
+    arrayOf(RSI),
+    arrayOf(SMA),
+    arrayOf(StandardDeviation),
+    arrayOf(TEMA),
+    arrayOf(WMA),
+    arrayOf(Williams),
+  ],
+  'treasury-rates': [arrayOf(TreasuryRate)],
+  'upgrades-downgrades-consensus-bulk': [arrayOf(StockGrade)],
+};
@@ -0,0 +1,15 @@
+/**
+ * Schemas module exports
+ */
+
+export { validateResponse, getEndpointSchemas } from './validate.js';
+export { RESPONSE_SCHEMAS, ENDPOINT_SCHEMAS } from './generated.js';
+export type {
+  JSONType,
+  FieldSchema,
+  ObjectSchema,
+  ResponseSchema,
+  ValidationMode,
+  SchemaIssue,
+  SchemaValidationResult,
+} from './types.js';
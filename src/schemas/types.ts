@@ -0,0 +1,81 @@
+/**
+ * Response schema types
+ */
+
+/**
+ * Runtime type of a JSON value
+ */
+export type JSONType =
+  'string' | 'number' | 'boolean' | 'null' | 'object' | 'array' | 'unknown';
+
+/**
+ * Field type notation used by the generated schemas
+ *
+ * One or more JSON types joined with `|`, optionally suffixed with `?`
+ * when the field may be absent, e.g. `'number'`, `'string | null'`,
+ * `'number?'`. Nested objects and arrays are checked shallowly.
+ */
+export type FieldSchema = string;
+
+/**
+ * Schema for an object returned by the API, mirroring an SDK interface
+ */
+export interface ObjectSchema {
+  /** Name of the matching TypeScript interface (e.g. "CompanyProfile") */
+  name: string;
+  /** Expected top-level fields */
+  fields: Record<string, FieldSchema>;
+}
+
+/**
+ * Schema for a full endpoint response
+ */
+export type ResponseSchema =
+  | { type: 'array'; items: ObjectSchema | JSONType }
+  | { type: 'object'; schema: ObjectSchema };
+
+/**
+ * Response validation mode
+ * - `off`: no validation (default)
+ * - `warn`: report drift through `onSchemaDrift` (or console.warn)
+ * - `strict`: throw `FMPSchemaError` when required fields are missing or
+ *   have the wrong type
+ */
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * A single field-level difference between a response and its schema
+ */
+export interface SchemaIssue {
+  /** Field name ("" for the response itself) */
+  field: string;
+  /**
+   * Kind of drift:
+   * - `missing`: required field is absent
+   * - `type`: field has an unexpected type
+   * - `unexpected`: field is not part of the SDK type (possible rename)
+   */
+  kind: 'missing' | 'type' | 'unexpected';
+  /** Expected type notation */
+  expected?: string;
+  /** Received JSON type */
+  received: JSONType | 'undefined';
+  /** Number of checked items with this issue */
+  count: number;
+}
+
+/**
+ * Result of validating a response against its schema
+ */
+export interface SchemaValidationResult {
+  /** Endpoint that returned the response */
+  endpoint: string;
+  /** Name of the schema that matched best */
+  schema: string;
+  /** False when a required field is missing or has the wrong type */
+  valid: boolean;
+  /** Field-level differences, including unexpected fields */
+  issues: SchemaIssue[];
+  /** Number of items checked (large arrays are sampled) */
+  checked: number;
+}
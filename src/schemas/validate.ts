@@ -0,0 +1,229 @@
+/**
+ * Runtime response validation against the generated schemas
+ */
+
+import { ENDPOINT_SCHEMAS } from './generated.js';
+import type {
+  JSONType,
+  ObjectSchema,
+  ResponseSchema,
+  SchemaIssue,
+  SchemaValidationResult,
+} from './types.js';
+
+/**
+ * Maximum number of array items checked per response
+ * Bulk endpoints can return tens of thousands of rows
+ */
+const MAX_VALIDATED_ITEMS = 100;
+
+/**
+ * Parsed field notation
+ */
+interface ParsedField {
+  types: Set<JSONType>;
+  optional: boolean;
+}
+
+const parsedFields = new Map<string, ParsedField>();
+
+/**
+ * Parse a field notation such as "number | null" or "string?"
+ */
+function parseField(notation: string): ParsedField {
+  let parsed = parsedFields.get(notation);
+  if (!parsed) {
+    const optional = notation.endsWith('?');
+    const types = (optional ? notation.slice(0, -1) : notation)
+      .split('|')
+      .map((type) => type.trim() as JSONType);
+    parsed = { types: new Set(types), optional };
+    parsedFields.set(notation, parsed);
+  }
+  return parsed;
+}
+
+/**
+ * Get the JSON type of a value
+ */
+function typeOf(value: unknown): JSONType | 'undefined' {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean') {
+    return type;
+  }
+  return 'object';
+}
+
+/**
+ * Check whether a value matches a field notation
+ */
+function matches(
+  field: ParsedField,
+  received: JSONType | 'undefined'
+): boolean {
+  if (received === 'undefined') return field.optional;
+  return field.types.has('unknown') || field.types.has(received);
+}
+
+/**
+ * Collects issues, aggregated by field, kind and received type
+ */
+class IssueCollector {
+  private readonly issues = new Map<string, SchemaIssue>();
+
+  add(issue: Omit<SchemaIssue, 'count'>): void {
+    const key = `${issue.field}\u0000${issue.kind}\u0000${issue.received}`;
+    const existing = this.issues.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      this.issues.set(key, { ...issue, count: 1 });
+    }
+  }
+
+  list(): SchemaIssue[] {
+    return Array.from(this.issues.values());
+  }
+}
+
+/**
+ * Check one object against an object schema
+ */
+function checkObject(
+  value: unknown,
+  schema: ObjectSchema,
+  collector: IssueCollector
+): void {
+  const received = typeOf(value);
+  if (received !== 'object') {
+    collector.add({ field: '', kind: 'type', expected: 'object', received });
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  for (const [field, notation] of Object.entries(schema.fields)) {
+    const fieldType = typeOf(record[field]);
+    if (matches(parseField(notation), fieldType)) continue;
+    collector.add({
+      field,
+      kind: fieldType === 'undefined' ? 'missing' : 'type',
+      expected: notation,
+      received: fieldType,
+    });
+  }
+
+  for (const field of Object.keys(record)) {
+    if (!(field in schema.fields)) {
+      collector.add({
+        field,
+        kind: 'unexpected',
+        received: typeOf(record[field]),
+      });
+    }
+  }
+}
+
+/**
+ * Validate a payload against one response schema
+ */
+function checkResponse(
+  endpoint: string,
+  data: unknown,
+  schema: ResponseSchema
+): SchemaValidationResult {
+  const collector = new IssueCollector();
+  let name: string;
+  let checked = 0;
+
+  if (schema.type === 'object') {
+    name = schema.schema.name;
+    checkObject(data, schema.schema, collector);
+    checked = 1;
+  } else {
+    const items = schema.items;
+    name = typeof items === 'string' ? `${items}[]` : `${items.name}[]`;
+    const received = typeOf(data);
+
+    if (received !== 'array') {
+      collector.add({ field: '', kind: 'type', expected: 'array', received });
+    } else {
+      const sample = (data as unknown[]).slice(0, MAX_VALIDATED_ITEMS);
+      checked = sample.length;
+      for (const item of sample) {
+        if (typeof items !== 'string') {
+          checkObject(item, items, collector);
+          continue;
+        }
+        const itemType = typeOf(item);
+        if (!matches(parseField(items), itemType)) {
+          collector.add({
+            field: '',
+            kind: 'type',
+            expected: items,
+            received: itemType,
+          });
+        }
+      }
+    }
+  }
+
+  const issues = collector.list();
+  return {
+    endpoint,
+    schema: name,
+    valid: issues.every((issue) => issue.kind === 'unexpected'),
+    issues,
+    checked,
+  };
+}
+
+/**
+ * Find the response schemas registered for an endpoint
+ * Path-style endpoints such as "historical-chart/5min" fall back to
+ * their wildcard entry ("historical-chart/*")
+ */
+export function getEndpointSchemas(
+  endpoint: string
+): ResponseSchema[] | undefined {
+  return (
+    ENDPOINT_SCHEMAS[endpoint] ??
+    ENDPOINT_SCHEMAS[endpoint.replace(/\/[^/]+$/, '/*')]
+  );
+}
+
+/**
+ * Validate an API response against the schema(s) of its endpoint
+ *
+ * Endpoints shared by several SDK types (e.g. "quote" for stocks, forex
+ * and crypto) are checked against each candidate and the closest match
+ * is reported.
+ *
+ * @param endpoint - API endpoint (e.g. "profile")
+ * @param data - Parsed response body
+ * @returns Validation result, or undefined if the endpoint has no schema
+ */
+export function validateResponse(
+  endpoint: string,
+  data: unknown
+): SchemaValidationResult | undefined {
+  const schemas = getEndpointSchemas(endpoint);
+  if (!schemas || schemas.length === 0) {
+    return undefined;
+  }
+
+  let best: SchemaValidationResult | undefined;
+  for (const schema of schemas) {
+    const result = checkResponse(endpoint, data, schema);
+    if (
+      !best ||
+      (result.valid && !best.valid) ||
+      (result.valid === best.valid && result.issues.length < best.issues.length)
+    ) {
+      best = result;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,38 @@
+/**
+ * Tracks which resource method made an API call
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const callSite = new AsyncLocalStorage<string>();
+
+/**
+ * Resource method currently running (e.g. "company.getProfile")
+ */
+export function currentMethod(): string | undefined {
+  return callSite.getStore();
+}
+
+/**
+ * Wrap the public methods of a resource so calls made through them are
+ * attributed to "<name>.<method>"
+ * Methods calling other methods keep the outermost name
+ *
+ * @param resource - Resource instance
+ * @param name - Resource name (e.g. "company")
+ */
+export function labelResourceMethods(resource: object, name: string): void {
+  const target = resource as Record<string, unknown>;
+  const prototype = Object.getPrototypeOf(resource) as object;
+  for (const key of Object.getOwnPropertyNames(prototype)) {
+    const method = target[key];
+    if (key === 'constructor' || typeof method !== 'function') {
+      continue;
+    }
+    const label = `${name}.${key}`;
+    target[key] = (...args: unknown[]): unknown =>
+      callSite.getStore() === undefined
+        ? callSite.run(label, () => method.apply(resource, args))
+        : method.apply(resource, args);
+  }
+}
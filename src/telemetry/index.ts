@@ -0,0 +1,14 @@
+/**
+ * Telemetry (import from "fmp-node-sdk/telemetry")
+ * Requires the optional `@opentelemetry/api` peer dependency
+ */
+
+export { OpenTelemetryInstrumentation } from './opentelemetry.js';
+export type { OpenTelemetryOptions } from './opentelemetry.js';
+export type {
+  CacheStatus,
+  CallInfo,
+  CallRecorder,
+  CallResult,
+  Instrumentation,
+} from './types.js';
@@ -0,0 +1,178 @@
+/**
+ * OpenTelemetry instrumentation (requires the `@opentelemetry/api` peer)
+ */
+
+import {
+  metrics,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Counter,
+  type Histogram,
+  type MeterProvider,
+  type Tracer,
+  type TracerProvider,
+} from '@opentelemetry/api';
+import type {
+  CallInfo,
+  CallRecorder,
+  CallResult,
+  Instrumentation,
+} from './types.js';
+
+/**
+ * Instrumentation scope name for tracers and meters
+ */
+const INSTRUMENTATION_SCOPE = 'fmp-node-sdk';
+
+/**
+ * OpenTelemetry instrumentation options
+ */
+export interface OpenTelemetryOptions {
+  /**
+   * Tracer provider for call spans
+   * @default the global tracer provider
+   */
+  tracerProvider?: TracerProvider;
+
+  /**
+   * Meter provider for latency, error and rate limit metrics
+   * @default the global meter provider
+   */
+  meterProvider?: MeterProvider;
+}
+
+/**
+ * Get the error type reported in `error.type`
+ */
+function errorType(error: unknown): string {
+  return error instanceof Error ? error.name : typeof error;
+}
+
+/**
+ * Creates a client span for every API call and records metrics
+ *
+ * Span attributes: `fmp.endpoint`, `fmp.method` (resource method, when
+ * called through `FMP`), `http.request.method`,
+ * `http.response.status_code`, `fmp.cache` (`hit`, `miss`, `skip`, `stale`
+ * or `negative`), `http.request.resend_count` (retries),
+ * `http.response.body.size`, `fmp.rate_limited` and `error.type`.
+ *
+ * Metrics: `fmp.client.request.duration` (histogram, seconds),
+ * `fmp.client.errors` and `fmp.client.rate_limits` (counters).
+ *
+ * @example
+ * ```typescript
+ * import { FMP } from 'fmp-node-sdk';
+ * import { OpenTelemetryInstrumentation } from 'fmp-node-sdk/telemetry';
+ *
+ * const fmp = new FMP({
+ *   apiKey: 'your-api-key',
+ *   telemetry: new OpenTelemetryInstrumentation(),
+ * });
+ * ```
+ */
+export class OpenTelemetryInstrumentation implements Instrumentation {
+  private readonly tracer: Tracer;
+  private readonly duration: Histogram;
+  private readonly errors: Counter;
+  private readonly rateLimits: Counter;
+
+  constructor(options: OpenTelemetryOptions = {}) {
+    const tracerProvider = options.tracerProvider ?? trace.getTracerProvider();
+    const meterProvider = options.meterProvider ?? metrics.getMeterProvider();
+    this.tracer = tracerProvider.getTracer(INSTRUMENTATION_SCOPE);
+
+    const meter = meterProvider.getMeter(INSTRUMENTATION_SCOPE);
+    this.duration = meter.createHistogram('fmp.client.request.duration', {
+      description: 'Duration of FMP API calls, including cache hits',
+      unit: 's',
+    });
+    this.errors = meter.createCounter('fmp.client.errors', {
+      description: 'Number of failed FMP API calls',
+    });
+    this.rateLimits = meter.createCounter('fmp.client.rate_limits', {
+      description: 'Number of rate limit (429) responses from FMP',
+    });
+  }
+
+  /**
+   * Run a call inside an active client span
+   */
+  instrumentCall<T>(
+    info: CallInfo,
+    run: (recorder: CallRecorder) => Promise<T>
+  ): Promise<T> {
+    const attributes: Attributes = {
+      'fmp.endpoint': info.endpoint,
+      'http.request.method': 'GET',
+    };
+    if (info.method) {
+      attributes['fmp.method'] = info.method;
+    }
+
+    return this.tracer.startActiveSpan(
+      `FMP ${info.endpoint}`,
+      { kind: SpanKind.CLIENT, attributes },
+      async (span) => {
+        const started = performance.now();
+        let result: CallResult | undefined;
+        let failed = false;
+        let error: unknown;
+        try {
+          return await run({
+            record: (outcome) => {
+              result = outcome;
+            },
+          });
+        } catch (thrown) {
+          failed = true;
+          error = thrown;
+          throw thrown;
+        } finally {
+          const metricAttributes: Attributes = { ...attributes };
+
+          if (result) {
+            span.setAttributes({
+              'fmp.cache': result.cache,
+              'http.request.resend_count': Math.max(result.attempts - 1, 0),
+            });
+            metricAttributes['fmp.cache'] = result.cache;
+            if (result.status !== undefined) {
+              span.setAttribute('http.response.status_code', result.status);
+              metricAttributes['http.response.status_code'] = result.status;
+            }
+            if (result.bytes !== undefined) {
+              span.setAttribute('http.response.body.size', result.bytes);
+            }
+            if (result.rateLimited > 0) {
+              span.setAttribute('fmp.rate_limited', result.rateLimited);
+              this.rateLimits.add(result.rateLimited, attributes);
+            }
+          }
+
+          if (failed) {
+            const type = errorType(error);
+            span.setAttribute('error.type', type);
+            span.setStatus({
+              code: SpanStatusCode.ERROR,
+              message: error instanceof Error ? error.message : String(error),
+            });
+            if (error instanceof Error) {
+              span.recordException(error);
+            }
+            metricAttributes['error.type'] = type;
+            this.errors.add(1, { ...attributes, 'error.type': type });
+          }
+
+          this.duration.record(
+            (performance.now() - started) / 1000,
+            metricAttributes
+          );
+          span.end();
+        }
+      }
+    );
+  }
+}
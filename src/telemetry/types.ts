@@ -0,0 +1,68 @@
+/**
+ * Telemetry types
+ */
+
+/**
+ * How the cache was involved in a call
+ * - `hit`: served from the cache
+ * - `miss`: looked up but not found
+ * - `skip`: not looked up (caching disabled, TTL of 0, `bypass` or `refresh`)
+ * - `stale`: served from an expired entry (`staleWhileRevalidate`,
+ *   `staleIfError` or while the circuit was open)
+ * - `negative`: served a cached empty array or not-found error
+ *   (`negativeTTL`)
+ */
+export type CacheStatus = 'hit' | 'miss' | 'skip' | 'stale' | 'negative';
+
+/**
+ * API call about to be made
+ */
+export interface CallInfo {
+  /** API endpoint (e.g. "profile") */
+  endpoint: string;
+  /** Resource method that made the call (e.g. "company.getProfile") */
+  method?: string;
+}
+
+/**
+ * Outcome of an API call
+ */
+export interface CallResult {
+  /** HTTP status of the last response, if one was received */
+  status?: number;
+  /** Cache involvement */
+  cache: CacheStatus;
+  /** Number of requests sent (0 for cache hits) */
+  attempts: number;
+  /** Number of rate limit (429) responses received */
+  rateLimited: number;
+  /** Response body size in bytes */
+  bytes?: number;
+}
+
+/**
+ * Handle passed to an instrumented call
+ */
+export interface CallRecorder {
+  /**
+   * Record the outcome of the call
+   * Called once before the call settles, whether it succeeds or fails
+   */
+  record(result: CallResult): void;
+}
+
+/**
+ * Instrumentation hook wrapped around every `FMPClient` call
+ * Implemented by `OpenTelemetryInstrumentation` from "fmp-node-sdk/telemetry"
+ */
+export interface Instrumentation {
+  /**
+   * Run a call, e.g. inside an active span
+   * @param info - Call details
+   * @param run - Makes the call; must be invoked exactly once
+   */
+  instrumentCall<T>(
+    info: CallInfo,
+    run: (recorder: CallRecorder) => Promise<T>
+  ): Promise<T>;
+}
@@ -0,0 +1,606 @@
+/**
+ * Deterministic data generators for the fake FMP server
+ *
+ * Every value is derived from the symbol and date, so the same request
+ * always returns the same data and prices agree across endpoints.
+ */
+
+import type { CompanyProfile, Quote, QuoteShort } from '../types/company.js';
+import type { HistoricalPrice, IntradayChart } from '../types/market.js';
+import type { IncomeStatement } from '../types/financials.js';
+import type {
+  StockScreenerResult,
+  SymbolSearchResult,
+} from '../types/search.js';
+
+/**
+ * Company used to seed generated data
+ */
+interface Company {
+  symbol: string;
+  name: string;
+  sector: string;
+  industry: string;
+  exchange: string;
+  country: string;
+  isEtf: boolean;
+}
+
+/**
+ * Companies known to the fake server (used by search, screener and bulk
+ * endpoints); any other symbol still gets generated data
+ */
+export const FAKE_COMPANIES: readonly Company[] = [
+  ['AAPL', 'Apple Inc.', 'Technology', 'Consumer Electronics', 'NASDAQ'],
+  [
+    'MSFT',
+    'Microsoft Corporation',
+    'Technology',
+    'Software - Infrastructure',
+    'NASDAQ',
+  ],
+  [
+    'GOOGL',
+    'Alphabet Inc.',
+    'Communication Services',
+    'Internet Content & Information',
+    'NASDAQ',
+  ],
+  [
+    'AMZN',
+    'Amazon.com, Inc.',
+    'Consumer Cyclical',
+    'Internet Retail',
+    'NASDAQ',
+  ],
+  ['NVDA', 'NVIDIA Corporation', 'Technology', 'Semiconductors', 'NASDAQ'],
+  [
+    'META',
+    'Meta Platforms, Inc.',
+    'Communication Services',
+    'Internet Content & Information',
+    'NASDAQ',
+  ],
+  [
+    'TSLA',
+    'Tesla, Inc.',
+    'Consumer Cyclical',
+    'Auto - Manufacturers',
+    'NASDAQ',
+  ],
+  [
+    'JPM',
+    'JPMorgan Chase & Co.',
+    'Financial Services',
+    'Banks - Diversified',
+    'NYSE',
+  ],
+  [
+    'V',
+    'Visa Inc.',
+    'Financial Services',
+    'Financial - Credit Services',
+    'NYSE',
+  ],
+  [
+    'JNJ',
+    'Johnson & Johnson',
+    'Healthcare',
+    'Drug Manufacturers - General',
+    'NYSE',
+  ],
+  ['XOM', 'Exxon Mobil Corporation', 'Energy', 'Oil & Gas Integrated', 'NYSE'],
+  [
+    'KO',
+    'The Coca-Cola Company',
+    'Consumer Defensive',
+    'Beverages - Non-Alcoholic',
+    'NYSE',
+  ],
+  [
+    'SPY',
+    'SPDR S&P 500 ETF Trust',
+    'Financial Services',
+    'Asset Management',
+    'AMEX',
+  ],
+].map(([symbol, name, sector, industry, exchange]) => ({
+  symbol: symbol!,
+  name: name!,
+  sector: sector!,
+  industry: industry!,
+  exchange: exchange!,
+  country: 'US',
+  isEtf: symbol === 'SPY',
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic number in [0, 1) for a key
+ */
+function noise(key: string): number {
+  let t = hash(key) + 0x6d2b79f5;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Round to a number of decimals
+ */
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function toDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Trading days (weekdays) between two dates, newest first
+ */
+function tradingDays(from: string, to: string, max = 5000): string[] {
+  const days: string[] = [];
+  const start = toDate(from).getTime();
+  for (let t = toDate(to).getTime(); t >= start && days.length < max;) {
+    const day = new Date(t).getUTCDay();
+    if (day !== 0 && day !== 6) {
+      days.push(formatDate(new Date(t)));
+    }
+    t -= DAY_MS;
+  }
+  return days;
+}
+
+/**
+ * Find a known company, or describe an unknown symbol
+ */
+export function companyFor(symbol: string): Company {
+  const upper = symbol.toUpperCase();
+  return (
+    FAKE_COMPANIES.find((company) => company.symbol === upper) ?? {
+      symbol: upper,
+      name: `${upper} Inc.`,
+      sector: 'Technology',
+      industry: 'Software - Application',
+      exchange: 'NASDAQ',
+      country: 'US',
+      isEtf: false,
+    }
+  );
+}
+
+function basePrice(symbol: string): number {
+  return 20 + noise(`${symbol}:base`) * 480;
+}
+
+function sharesOutstanding(symbol: string): number {
+  return Math.round((0.5 + noise(`${symbol}:shares`) * 15) * 1e9);
+}
+
+/**
+ * Daily OHLCV bar for a symbol and date
+ */
+export function dailyBar(
+  symbol: string,
+  date: string
+): Omit<
+  HistoricalPrice,
+  'change' | 'changePercent' | 'label' | 'changeOverTime'
+> {
+  const day = toDate(date).getTime() / DAY_MS;
+  const trend = 1 + 0.15 * Math.sin(day / 45 + noise(symbol) * 6);
+  const close =
+    basePrice(symbol) * trend * (0.98 + noise(`${symbol}:${date}`) * 0.04);
+  const open = close * (0.99 + noise(`${symbol}:${date}:o`) * 0.02);
+  const high =
+    Math.max(open, close) * (1 + noise(`${symbol}:${date}:h`) * 0.015);
+  const low =
+    Math.min(open, close) * (1 - noise(`${symbol}:${date}:l`) * 0.015);
+  const volume = Math.round(1e6 + noise(`${symbol}:${date}:v`) * 9e7);
+  return {
+    date,
+    open: round(open),
+    high: round(high),
+    low: round(low),
+    close: round(close),
+    adjClose: round(close),
+    volume,
+    unadjustedVolume: volume,
+    vwap: round((high + low + close) / 3),
+  };
+}
+
+/**
+ * Most recent trading day on or before a date
+ */
+function lastTradingDay(asOf: string): string {
+  return tradingDays(
+    formatDate(new Date(toDate(asOf).getTime() - 7 * DAY_MS)),
+    asOf,
+    1
+  )[0]!;
+}
+
+export function profile(symbol: string, asOf: string): CompanyProfile {
+  const company = companyFor(symbol);
+  const s = company.symbol;
+  const price = dailyBar(s, lastTradingDay(asOf)).close;
+  const cik = String(hash(`${s}:cik`) % 2000000).padStart(10, '0');
+  return {
+    symbol: s,
+    price,
+    beta: round(0.5 + noise(`${s}:beta`) * 1.5),
+    volAvg: Math.round(1e6 + noise(`${s}:volAvg`) * 5e7),
+    mktCap: Math.round(price * sharesOutstanding(s)),
+    lastDiv: round(noise(`${s}:div`) * 4),
+    range: `${round(price * 0.75)}-${round(price * 1.15)}`,
+    changes: round((noise(`${s}:${asOf}:chg`) - 0.5) * 6),
+    companyName: company.name,
+    currency: 'USD',
+    cik,
+    isin: `US${cik.slice(2)}0`,
+    cusip: cik.slice(1),
+    exchange: company.exchange,
+    exchangeShortName: company.exchange,
+    industry: company.industry,
+    website: `https://www.${s.toLowerCase()}.example.com`,
+    description: `${company.name} is a generated company used for testing.`,
+    ceo: 'Jane Doe',
+    sector: company.sector,
+    country: company.country,
+    fullTimeEmployees: String(Math.round(1000 + noise(`${s}:emp`) * 200000)),
+    phone: '555 0100',
+    address: '1 Market Street',
+    city: 'New York',
+    state: 'NY',
+    zip: '10001',
+    dcfDiff: round((noise(`${s}:dcf`) - 0.5) * 40),
+    dcf: round(price * (0.8 + noise(`${s}:dcf`) * 0.4)),
+    image: `https://images.financialmodelingprep.com/symbol/${s}.png`,
+    ipoDate: `19${80 + (hash(s) % 20)}-12-12`,
+    defaultImage: false,
+    isEtf: company.isEtf,
+    isActivelyTrading: true,
+    isAdr: false,
+    isFund: false,
+  };
+}
+
+export function quote(symbol: string, asOf: string): Quote {
+  const company = companyFor(symbol);
+  const s = company.symbol;
+  const days = tradingDays(
+    formatDate(new Date(toDate(asOf).getTime() - 400 * DAY_MS)),
+    asOf
+  );
+  const bar = dailyBar(s, days[0]!);
+  const previousClose = dailyBar(s, days[1]!).close;
+  const closes = days.slice(0, 252).map((day) => dailyBar(s, day).close);
+  const average = (values: number[]) =>
+    round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  const eps = round(1 + noise(`${s}:eps`) * 10);
+  return {
+    symbol: s,
+    name: company.name,
+    price: bar.close,
+    changesPercentage: round(
+      ((bar.close - previousClose) / previousClose) * 100,
+      4
+    ),
+    change: round(bar.close - previousClose),
+    dayLow: bar.low,
+    dayHigh: bar.high,
+    yearHigh: Math.max(...closes),
+    yearLow: Math.min(...closes),
+    marketCap: Math.round(bar.close * sharesOutstanding(s)),
+    priceAvg50: average(closes.slice(0, 50)),
+    priceAvg200: average(closes.slice(0, 200)),
+    exchange: company.exchange,
+    volume: bar.volume,
+    avgVolume: Math.round(
+      average(days.slice(0, 30).map((day) => dailyBar(s, day).volume))
+    ),
+    open: bar.open,
+    previousClose,
+    eps,
+    pe: round(bar.close / eps),
+    earningsAnnouncement: `${asOf.slice(0, 4)}-01-30T21:00:00.000+0000`,
+    sharesOutstanding: sharesOutstanding(s),
+    timestamp: Math.floor(
+      (toDate(days[0]!).getTime() + 20 * 60 * 60 * 1000) / 1000
+    ),
+  };
+}
+
+export function quoteShort(symbol: string, asOf: string): QuoteShort {
+  const { symbol: s, price, volume } = quote(symbol, asOf);
+  return { symbol: s, price, volume };
+}
+
+/**
+ * Daily history, newest first (defaults to the last 30 days before asOf)
+ */
+export function historicalPrices(
+  symbol: string,
+  asOf: string,
+  from?: string,
+  to?: string
+): HistoricalPrice[] {
+  const s = symbol.toUpperCase();
+  const end = to ?? asOf;
+  const start =
+    from ?? formatDate(new Date(toDate(end).getTime() - 30 * DAY_MS));
+  const days = tradingDays(start, end);
+  const first = days.length > 0 ? dailyBar(s, days[days.length - 1]!).close : 0;
+  return days.map((day) => {
+    const bar = dailyBar(s, day);
+    const change = round(bar.close - bar.open);
+    return {
+      ...bar,
+      change,
+      changePercent: round((change / bar.open) * 100, 4),
+      label: day,
+      changeOverTime: round((bar.close - first) / first, 4),
+    };
+  });
+}
+
+/**
+ * Intraday bars for the last trading day, newest first
+ */
+export function intradayChart(
+  symbol: string,
+  interval: string,
+  asOf: string
+): IntradayChart[] {
+  const minutes =
+    {
+      '1min': 1,
+      '5min': 5,
+      '15min': 15,
+      '30min': 30,
+      '1hour': 60,
+      '4hour': 240,
+    }[interval] ?? 5;
+  const s = symbol.toUpperCase();
+  const day = lastTradingDay(asOf);
+  const { open } = dailyBar(s, day);
+  const bars: IntradayChart[] = [];
+  let price = open;
+  for (let t = 9 * 60 + 30; t < 16 * 60; t += minutes) {
+    const time = `${String(Math.floor(t / 60)).padStart(2, '0')}:${String(t % 60).padStart(2, '0')}:00`;
+    const close = price * (0.997 + noise(`${s}:${day}:${time}`) * 0.006);
+    bars.push({
+      date: `${day} ${time}`,
+      open: round(price),
+      high: round(Math.max(price, close) * 1.001),
+      low: round(Math.min(price, close) * 0.999),
+      close: round(close),
+      volume: Math.round(1e4 + noise(`${s}:${day}:${time}:v`) * 1e6),
+    });
+    price = close;
+  }
+  return bars.reverse();
+}
+
+/**
+ * Income statements, newest first
+ */
+export function incomeStatements(
+  symbol: string,
+  asOf: string,
+  period = 'annual',
+  limit = 5
+): IncomeStatement[] {
+  const company = companyFor(symbol);
+  const s = company.symbol;
+  const quarterly = period === 'quarter';
+  const year = Number(asOf.slice(0, 4)) - 1;
+  const cik = profile(s, asOf).cik;
+  const statements: IncomeStatement[] = [];
+
+  for (let i = 0; i < limit; i++) {
+    const fiscalYear = quarterly ? year - Math.floor(i / 4) : year - i;
+    const quarter = quarterly ? 4 - (i % 4) : undefined;
+    const date = quarter
+      ? formatDate(new Date(Date.UTC(fiscalYear, quarter * 3, 0)))
+      : `${fiscalYear}-12-31`;
+    const scale = quarterly ? 0.25 : 1;
+    const growth = 1 / (1 + 0.08) ** (quarterly ? i / 4 : i);
+    const revenue = Math.round(
+      (5e9 + noise(`${s}:revenue`) * 3e11) * growth * scale
+    );
+    const costOfRevenue = Math.round(
+      revenue * (0.4 + noise(`${s}:cogs`) * 0.3)
+    );
+    const grossProfit = revenue - costOfRevenue;
+    const rnd = Math.round(revenue * 0.08);
+    const sga = Math.round(revenue * 0.07);
+    const operatingExpenses = rnd + sga;
+    const operatingIncome = grossProfit - operatingExpenses;
+    const interestExpense = Math.round(revenue * 0.005);
+    const incomeBeforeTax = operatingIncome - interestExpense;
+    const incomeTaxExpense = Math.round(incomeBeforeTax * 0.18);
+    const netIncome = incomeBeforeTax - incomeTaxExpense;
+    const depreciation = Math.round(revenue * 0.03);
+    const shares = sharesOutstanding(s);
+    statements.push({
+      date,
+      symbol: s,
+      reportedCurrency: 'USD',
+      cik,
+      fillingDate: formatDate(new Date(toDate(date).getTime() + 35 * DAY_MS)),
+      acceptedDate: `${formatDate(new Date(toDate(date).getTime() + 34 * DAY_MS))} 16:30:00`,
+      calendarYear: String(fiscalYear),
+      period: quarter ? `Q${quarter}` : 'FY',
+      revenue,
+      costOfRevenue,
+      grossProfit,
+      grossProfitRatio: round(grossProfit / revenue, 4),
+      researchAndDevelopmentExpenses: rnd,
+      generalAndAdministrativeExpenses: Math.round(sga * 0.4),
+      sellingAndMarketingExpenses: Math.round(sga * 0.6),
+      sellingGeneralAndAdministrativeExpenses: sga,
+      otherExpenses: 0,
+      operatingExpenses,
+      costAndExpenses: costOfRevenue + operatingExpenses,
+      interestIncome: Math.round(revenue * 0.004),
+      interestExpense,
+      depreciationAndAmortization: depreciation,
+      ebitda: operatingIncome + depreciation,
+      ebitdaratio: round((operatingIncome + depreciation) / revenue, 4),
+      operatingIncome,
+      operatingIncomeRatio: round(operatingIncome / revenue, 4),
+      totalOtherIncomeExpensesNet: -interestExpense,
+      incomeBeforeTax,
+      incomeBeforeTaxRatio: round(incomeBeforeTax / revenue, 4),
+      incomeTaxExpense,
+      netIncome,
+      netIncomeRatio: round(netIncome / revenue, 4),
+      eps: round(netIncome / shares),
+      epsdiluted: round(netIncome / (shares * 1.01)),
+      weightedAverageShsOut: shares,
+      weightedAverageShsOutDil: Math.round(shares * 1.01),
+      link: null,
+      finalLink: null,
+    });
+  }
+  return statements;
+}
+
+export function searchSymbol(query: string, limit = 10): SymbolSearchResult[] {
+  const q = query.toLowerCase();
+  return FAKE_COMPANIES.filter(
+    (company) =>
+      company.symbol.toLowerCase().includes(q) ||
+      company.name.toLowerCase().includes(q)
+  )
+    .slice(0, limit)
+    .map((company) => ({
+      symbol: company.symbol,
+      name: company.name,
+      currency: 'USD',
+      stockExchange: company.exchange,
+      exchangeShortName: company.exchange,
+    }));
+}
+
+/**
+ * Screener over the known companies, supporting the common filters
+ */
+export function screener(
+  params: Record<string, string>,
+  asOf: string
+): StockScreenerResult[] {
+  const num = (key: string) =>
+    params[key] === undefined ? undefined : Number(params[key]);
+  const filters: [
+    number | undefined,
+    number | undefined,
+    keyof StockScreenerResult,
+  ][] = [
+    [num('marketCapMoreThan'), num('marketCapLowerThan'), 'marketCap'],
+    [num('priceMoreThan'), num('priceLowerThan'), 'price'],
+    [num('betaMoreThan'), num('betaLowerThan'), 'beta'],
+    [num('volumeMoreThan'), num('volumeLowerThan'), 'volume'],
+    [num('dividendMoreThan'), num('dividendLowerThan'), 'lastAnnualDividend'],
+  ];
+
+  const results = FAKE_COMPANIES.map((company): StockScreenerResult => {
+    const p = profile(company.symbol, asOf);
+    return {
+      symbol: p.symbol,
+      companyName: p.companyName,
+      marketCap: p.mktCap,
+      sector: p.sector,
+      industry: p.industry,
+      beta: p.beta,
+      price: p.price,
+      lastAnnualDividend: p.lastDiv,
+      volume: p.volAvg,
+      exchange: p.exchange,
+      exchangeShortName: p.exchangeShortName,
+      country: p.country,
+      isEtf: p.isEtf,
+      isActivelyTrading: p.isActivelyTrading,
+    };
+  }).filter((result) => {
+    for (const [min, max, field] of filters) {
+      const value = result[field] as number;
+      if (min !== undefined && value <= min) return false;
+      if (max !== undefined && value >= max) return false;
+    }
+    for (const field of [
+      'sector',
+      'industry',
+      'country',
+      'exchange',
+    ] as const) {
+      if (
+        params[field] &&
+        result[field].toLowerCase() !== params[field].toLowerCase()
+      ) {
+        return false;
+      }
+    }
+    if (
+      params['isEtf'] !== undefined &&
+      String(result.isEtf) !== params['isEtf']
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  return results.slice(0, num('limit') ?? results.length);
+}
+
+/**
+ * End-of-day prices for every known company as CSV
+ */
+export function eodBulkCsv(
+  asOf: string,
+  date?: string,
+  from?: string,
+  to?: string
+): string {
+  const days = date ? [date] : tradingDays(from ?? asOf, to ?? asOf).reverse();
+  const rows = ['symbol,date,open,low,high,close,adjClose,volume'];
+  for (const day of days) {
+    for (const company of FAKE_COMPANIES) {
+      const bar = dailyBar(company.symbol, day);
+      rows.push(
+        [
+          company.symbol,
+          day,
+          bar.open,
+          bar.low,
+          bar.high,
+          bar.close,
+          bar.adjClose,
+          bar.volume,
+        ].join(',')
+      );
+    }
+  }
+  return `${rows.join('\n')}\n`;
+}
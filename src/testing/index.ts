@@ -0,0 +1,13 @@
+/**
+ * Testing utilities (import from "fmp-node-sdk/testing")
+ */
+
+export { FakeFMPServer } from './server.js';
+export { FAKE_COMPANIES } from './data.js';
+export type {
+  FakeRequest,
+  FakeReply,
+  FakeRouteHandler,
+  FakeFailure,
+  FakeFMPServerOptions,
+} from './types.js';
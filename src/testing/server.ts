@@ -0,0 +1,391 @@
+/**
+ * In-process fake FMP server for integration tests
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as data from './data.js';
+import type {
+  FakeFailure,
+  FakeFMPServerOptions,
+  FakeReply,
+  FakeRequest,
+  FakeRouteHandler,
+} from './types.js';
+
+/**
+ * Path prefix of the FMP stable API
+ */
+const BASE_PATH = '/stable';
+
+/**
+ * Bodies FMP returns for common error statuses
+ */
+const ERROR_MESSAGES: Record<number, string> = {
+  401: 'Invalid API KEY. Feel free to create a Free API Key or visit https://site.financialmodelingprep.com/faqs?search=why-is-my-api-key-invalid for more information.',
+  402: 'Restricted Endpoint: This endpoint is not available under your current subscription please visit our subscription page to upgrade your plan at https://site.financialmodelingprep.com/developer/docs/pricing',
+  403: 'Forbidden',
+  404: 'Not Found',
+  429: 'Limit Reach . Please upgrade your plan or visit our documentation for more details at https://site.financialmodelingprep.com/',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+/**
+ * Pending failure for a route
+ */
+interface ScheduledFailure extends FakeFailure {
+  remaining: number;
+}
+
+/**
+ * Programmable local HTTP server implementing the FMP `/stable` routes
+ *
+ * Built-in routes return deterministic generated data:
+ * `profile`, `quote`, `quote-short`, `batch-quote`, `search-symbol`,
+ * `historical-price-eod/full`, `historical-chart/{interval}`,
+ * `income-statement`, `company-screener` and `eod-bulk` (CSV).
+ * Add or override routes with `route()`, and simulate errors and
+ * latency with `fail()` and `setLatency()`.
+ *
+ * @example
+ * ```typescript
+ * import { FMP } from 'fmp-node-sdk';
+ * import { FakeFMPServer } from 'fmp-node-sdk/testing';
+ *
+ * const server = new FakeFMPServer({ apiKey: 'test-key' });
+ * const baseUrl = await server.start();
+ * const fmp = new FMP({ apiKey: 'test-key', baseUrl });
+ *
+ * server.fail('profile', { status: 429, retryAfter: 1 });
+ * await fmp.company.getProfile('AAPL'); // retried, then succeeds
+ * console.log(server.requests.length); // 2
+ *
+ * await server.stop();
+ * ```
+ */
+export class FakeFMPServer {
+  private readonly options: FakeFMPServerOptions;
+  private readonly asOf: string;
+  private readonly routes = new Map<string, FakeRouteHandler>();
+  private readonly failures = new Map<string, ScheduledFailure[]>();
+  private readonly latencies = new Map<string, number>();
+  private readonly log: FakeRequest[] = [];
+  private server?: Server;
+  private url?: string;
+
+  constructor(options: FakeFMPServerOptions = {}) {
+    this.options = options;
+    this.asOf = options.asOf ?? '2024-12-31';
+    this.registerDefaultRoutes();
+  }
+
+  /**
+   * Base URL to pass as `baseUrl` (e.g. "http://127.0.0.1:53124/stable")
+   * @throws Error if the server has not been started
+   */
+  get baseUrl(): string {
+    if (!this.url) {
+      throw new Error('FakeFMPServer is not running - call start() first');
+    }
+    return this.url;
+  }
+
+  /**
+   * Requests received so far, oldest first
+   */
+  get requests(): readonly FakeRequest[] {
+    return this.log;
+  }
+
+  /**
+   * Start listening on a random local port
+   * @returns The base URL
+   */
+  async start(): Promise<string> {
+    if (this.url) {
+      return this.url;
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        res.statusCode = 500;
+        res.end(error instanceof Error ? error.message : String(error));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.url = `http://127.0.0.1:${port}${BASE_PATH}`;
+    return this.url;
+  }
+
+  /**
+   * Stop the server and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    this.url = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Add or replace a route
+   * @param endpoint - Endpoint relative to /stable; a `*` segment matches
+   * any value (e.g. "historical-chart/*")
+   * @param handler - Returns the reply for a request
+   */
+  route(endpoint: string, handler: FakeRouteHandler): this {
+    this.routes.set(endpoint, handler);
+    return this;
+  }
+
+  /**
+   * Make the next request(s) to an endpoint fail
+   * @param endpoint - Endpoint, or "*" for every endpoint
+   * @param failure - Status, number of failures and optional body
+   */
+  fail(endpoint: string, failure: FakeFailure): this {
+    const queue = this.failures.get(endpoint) ?? [];
+    queue.push({ ...failure, remaining: failure.times ?? 1 });
+    this.failures.set(endpoint, queue);
+    return this;
+  }
+
+  /**
+   * Delay responses
+   * @param ms - Delay in milliseconds
+   * @param endpoint - Only delay this endpoint (default: every endpoint)
+   */
+  setLatency(ms: number, endpoint = '*'): this {
+    this.latencies.set(endpoint, ms);
+    return this;
+  }
+
+  /**
+   * Number of requests received, optionally for one endpoint
+   */
+  requestCount(endpoint?: string): number {
+    return endpoint
+      ? this.log.filter((request) => request.endpoint === endpoint).length
+      : this.log.length;
+  }
+
+  /**
+   * Clear the request log, scheduled failures and latency overrides
+   * Custom routes are kept
+   */
+  reset(): void {
+    this.log.length = 0;
+    this.failures.clear();
+    this.latencies.clear();
+  }
+
+  /**
+   * Handle an incoming HTTP request
+   */
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams.entries());
+    const apiKey = params['apikey'];
+    delete params['apikey'];
+
+    const endpoint = url.pathname.startsWith(`${BASE_PATH}/`)
+      ? url.pathname.slice(BASE_PATH.length + 1)
+      : url.pathname.replace(/^\/+/, '');
+    const request: FakeRequest = {
+      endpoint,
+      params,
+      apiKey,
+      receivedAt: Date.now(),
+    };
+    this.log.push(request);
+
+    const latency =
+      this.latencies.get(endpoint) ??
+      this.latencies.get('*') ??
+      this.options.latency ??
+      0;
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+    if (res.destroyed) {
+      return;
+    }
+
+    this.send(res, await this.reply(request, url.pathname));
+  }
+
+  /**
+   * Build the reply for a request
+   */
+  private async reply(
+    request: FakeRequest,
+    pathname: string
+  ): Promise<FakeReply> {
+    if (
+      !request.apiKey ||
+      (this.options.apiKey !== undefined &&
+        request.apiKey !== this.options.apiKey)
+    ) {
+      return { status: 401, text: ERROR_MESSAGES[401] };
+    }
+
+    const failure = this.takeFailure(request.endpoint) ?? this.takeFailure('*');
+    if (failure) {
+      return {
+        status: failure.status,
+        headers:
+          failure.retryAfter !== undefined
+            ? { 'Retry-After': String(failure.retryAfter) }
+            : undefined,
+        text: failure.message ?? ERROR_MESSAGES[failure.status] ?? 'Error',
+      };
+    }
+
+    const handler = pathname.startsWith(`${BASE_PATH}/`)
+      ? this.findRoute(request.endpoint)
+      : undefined;
+    if (!handler) {
+      return { status: 404, text: ERROR_MESSAGES[404] };
+    }
+    return handler(request);
+  }
+
+  /**
+   * Consume one scheduled failure for an endpoint
+   */
+  private takeFailure(endpoint: string): FakeFailure | undefined {
+    const queue = this.failures.get(endpoint);
+    const failure = queue?.[0];
+    if (!queue || !failure) {
+      return undefined;
+    }
+    failure.remaining--;
+    if (failure.remaining <= 0) {
+      queue.shift();
+    }
+    return failure;
+  }
+
+  /**
+   * Find the handler for an endpoint, trying wildcard segments last
+   */
+  private findRoute(endpoint: string): FakeRouteHandler | undefined {
+    const exact = this.routes.get(endpoint);
+    if (exact) {
+      return exact;
+    }
+    const segments = endpoint.split('/');
+    for (const [pattern, handler] of this.routes) {
+      const parts = pattern.split('/');
+      if (
+        parts.length === segments.length &&
+        parts.every((part, i) => part === '*' || part === segments[i])
+      ) {
+        return handler;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Write a reply to the response
+   */
+  private send(res: ServerResponse, reply: FakeReply): void {
+    const headers: Record<string, string> = { ...reply.headers };
+    let body: string;
+    if (reply.text !== undefined) {
+      headers['Content-Type'] ??= 'text/plain; charset=utf-8';
+      body = reply.text;
+    } else {
+      headers['Content-Type'] ??= 'application/json; charset=utf-8';
+      body = JSON.stringify(reply.json ?? []);
+    }
+    res.writeHead(reply.status ?? 200, headers);
+    res.end(body);
+  }
+
+  /**
+   * Register the built-in routes
+   */
+  private registerDefaultRoutes(): void {
+    const asOf = this.asOf;
+    const symbols = (request: FakeRequest) =>
+      (request.params['symbols'] ?? request.params['symbol'] ?? '')
+        .split(',')
+        .map((symbol) => symbol.trim())
+        .filter(Boolean);
+    const limit = (request: FakeRequest) =>
+      request.params['limit'] ? Number(request.params['limit']) : undefined;
+
+    this.route('profile', (request) => ({
+      json: symbols(request).map((symbol) => data.profile(symbol, asOf)),
+    }));
+    this.route('quote', (request) => ({
+      json: symbols(request).map((symbol) => data.quote(symbol, asOf)),
+    }));
+    this.route('batch-quote', (request) => ({
+      json: symbols(request).map((symbol) => data.quote(symbol, asOf)),
+    }));
+    this.route('quote-short', (request) => ({
+      json: symbols(request).map((symbol) => data.quoteShort(symbol, asOf)),
+    }));
+    this.route('search-symbol', (request) => ({
+      json: data.searchSymbol(request.params['query'] ?? '', limit(request)),
+    }));
+    this.route('historical-price-eod/full', (request) => ({
+      json: data.historicalPrices(
+        request.params['symbol'] ?? '',
+        asOf,
+        request.params['from'],
+        request.params['to']
+      ),
+    }));
+    this.route('historical-chart/*', (request) => ({
+      json: data.intradayChart(
+        request.params['symbol'] ?? '',
+        request.endpoint.split('/')[1] ?? '5min',
+        asOf
+      ),
+    }));
+    this.route('income-statement', (request) => ({
+      json: data.incomeStatements(
+        request.params['symbol'] ?? '',
+        asOf,
+        request.params['period'],
+        limit(request)
+      ),
+    }));
+    this.route('company-screener', (request) => ({
+      json: data.screener(request.params, asOf),
+    }));
+    this.route('eod-bulk', (request) => ({
+      headers: { 'Content-Type': 'text/csv; charset=utf-8' },
+      text: data.eodBulkCsv(
+        asOf,
+        request.params['date'],
+        request.params['from'],
+        request.params['to']
+      ),
+    }));
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Fake FMP server types
+ */
+
+/**
+ * A request received by the fake server
+ */
+export interface FakeRequest {
+  /** Endpoint relative to /stable (e.g. "profile") */
+  endpoint: string;
+  /** Query parameters, without the API key */
+  params: Record<string, string>;
+  /** API key sent with the request, if any */
+  apiKey?: string;
+  /** Time the request was received (ms since epoch) */
+  receivedAt: number;
+}
+
+/**
+ * Response produced by a route handler
+ * Set `json` for JSON bodies or `text` for raw bodies such as CSV
+ */
+export interface FakeReply {
+  /** HTTP status code (default 200) */
+  status?: number;
+  /** Extra response headers */
+  headers?: Record<string, string>;
+  /** JSON body */
+  json?: unknown;
+  /** Raw body (served as text/plain unless a content-type header is set) */
+  text?: string;
+}
+
+/**
+ * Route handler; receives the request and returns the reply
+ */
+export type FakeRouteHandler = (
+  request: FakeRequest
+) => FakeReply | Promise<FakeReply>;
+
+/**
+ * A simulated failure
+ */
+export interface FakeFailure {
+  /** HTTP status to return (e.g. 401, 402, 429, 500) */
+  status: number;
+  /**
+   * Number of requests that fail before the route recovers
+   * @default 1
+   */
+  times?: number;
+  /** Response body; defaults to the message FMP sends for the status */
+  message?: string;
+  /** Retry-After header value in seconds */
+  retryAfter?: number;
+}
+
+/**
+ * Fake server options
+ */
+export interface FakeFMPServerOptions {
+  /**
+   * API key the server accepts; other keys get HTTP 401
+   * When omitted any non-empty key is accepted
+   */
+  apiKey?: string;
+  /**
+   * Delay before every response in milliseconds
+   * @default 0
+   */
+  latency?: number;
+  /**
+   * "Today" for generated data, in YYYY-MM-DD format
+   * Fixed by default so generated responses are stable across runs
+   * @default '2024-12-31'
+   */
+  asOf?: string;
+}
@@ -3,41 +3,122 @@
  */
 
 import type { CacheConfig } from '../cache/index.js';
+import type { RateLimitConfig } from '../rate-limit/index.js';
+import type { RetryConfig } from '../retry/index.js';
+import type { CircuitBreakerConfig } from '../circuit-breaker/index.js';
+import type { KeyRotationConfig } from '../api-keys/index.js';
+import type { BudgetConfig } from '../budget/index.js';
+import type { FixtureConfig } from '../fixtures/index.js';
+import type { Middleware } from '../middleware/index.js';
+import type { Instrumentation } from '../telemetry/types.js';
+import type {
+  ValidationMode,
+  SchemaValidationResult,
+} from '../schemas/index.js';
 
 /**
  * Request/response interceptor hooks for debugging and monitoring
+ * URLs never include the API key; parameters listed in `redact` are masked
  */
 export interface RequestInterceptor {
   /**
-   * Called before each request is sent
-   * @param url - The request URL
+   * Called before each attempt is sent, including retries
+   * @param url - The request URL, without the API key
    * @param options - Request options
    */
   onRequest?: (url: string, options: RequestInit) => void;
 
   /**
    * Called after a successful response is received
-   * @param url - The request URL
+   * The response is a copy: reading it does not affect the SDK, and an
+   * async callback may read it until its promise settles. Rejections are
+   * ignored
+   * @param url - The request URL, without the API key
    * @param response - The Response object
    */
-  onResponse?: (url: string, response: Response) => void;
+  onResponse?: (url: string, response: Response) => void | Promise<void>;
 
   /**
    * Called when a request fails
-   * @param url - The request URL
+   * @param url - The request URL, without the API key
    * @param error - The error that occurred
    */
   onError?: (url: string, error: Error) => void;
 }
 
+/**
+ * Cache behaviour for a single request
+ * - `default`: use the cache as configured
+ * - `bypass`: skip the cache (no read, no write)
+ * - `refresh`: skip the cached value, then store the fresh response
+ */
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+/**
+ * Whether the client may call the API
+ * - `online`: use the cache as configured and call the API otherwise
+ * - `offline`: never call the API; serve cached entries whatever their
+ *   age and throw `FMPOfflineError` on a miss
+ * - `prefer-cache`: serve cached entries whatever their age and call
+ *   the API only on a miss
+ */
+export type NetworkMode = 'online' | 'offline' | 'prefer-cache';
+
+/**
+ * Per-call options accepted by every resource method
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const prices = await fmp.market.getHistoricalPrices('AAPL', from, to, {
+ *   signal: controller.signal,
+ *   timeout: 120000,
+ *   cache: 'bypass',
+ * });
+ * ```
+ */
+export interface RequestOptions {
+  /** Signal to cancel the request */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds for this call, overriding `timeout` */
+  timeout?: number;
+  /**
+   * Cache behaviour for this call
+   * @default 'default'
+   */
+  cache?: CacheMode;
+  /** Cache TTL in milliseconds for this response, overriding the endpoint TTL */
+  ttl?: number;
+}
+
 /**
  * FMP client configuration options
  */
 export interface FMPConfig {
   /**
    * Your Financial Modeling Prep API key
+   * Required unless `apiKeys` is set
    */
-  apiKey: string;
+  apiKey?: string;
+
+  /**
+   * Several API keys to spread requests over (see `keyRotation`)
+   * A key that gets a 429 or 402/403 response is skipped and the call is
+   * sent again with another key. Combined with `apiKey` if both are set
+   *
+   * @example
+   * ```typescript
+   * const fmp = new FMP({ apiKeys: [keyA, keyB, keyC] });
+   * console.log(fmp.getApiKeyPool().stats());
+   * ```
+   */
+  apiKeys?: string[];
+
+  /**
+   * How requests are spread over `apiKeys`
+   * @default round-robin over every key
+   */
+  keyRotation?: KeyRotationConfig;
 
   /**
    * Base URL for the FMP API
@@ -53,15 +134,102 @@ export interface FMPConfig {
 
   /**
    * Number of retry attempts for failed requests
+   * Shorthand for `retry.limit`
    * @default 3
    */
   retries?: number;
 
+  /**
+   * Retry policy: exponential backoff with full jitter, `Retry-After` on
+   * 429 responses, an optional retry budget and a custom `shouldRetry`
+   * Every retry goes through the rate limiter and interceptors again
+   *
+   * @example
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   retry: {
+   *     limit: 5,
+   *     baseDelay: 500,
+   *     maxDelay: 10000,
+   *     budget: { maxRetries: 50, windowMs: 60000 },
+   *   },
+   * });
+   * ```
+   */
+  retry?: RetryConfig;
+
+  /**
+   * Share one HTTP request between concurrent identical calls
+   * Calls are considered identical when they produce the same cache key
+   * (see `cache.keyGenerator`), whether or not caching is enabled.
+   * If the request fails, every caller receives the error.
+   * @default true
+   */
+  dedupe?: boolean;
+
   /**
    * Optional request/response interceptors for logging and debugging
+   * Interceptors only observe calls; use `middleware` to change them
    */
   interceptors?: RequestInterceptor;
 
+  /**
+   * Extra query parameters to mask (as "***") wherever request details
+   * leave the client: interceptor URLs, error `url`/`params` and error
+   * messages. The API key is always masked.
+   *
+   * @example Hide CIKs for compliance
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   redact: ['cik'],
+   * });
+   * ```
+   */
+  redact?: string[];
+
+  /**
+   * Async middleware wrapped around every API call, outermost first
+   * More middleware can be added later with `fmp.use()`
+   *
+   * @example Add a header and fall back to an empty list on 404
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   middleware: [
+   *     async (ctx, next) => {
+   *       ctx.headers.set('X-Request-Source', 'worker');
+   *       try {
+   *         return await next();
+   *       } catch (error) {
+   *         if (error instanceof FMPNotFoundError) return Response.json([]);
+   *         throw error;
+   *       }
+   *     },
+   *   ],
+   * });
+   * ```
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Instrumentation wrapped around every API call (spans and metrics)
+   * Use `OpenTelemetryInstrumentation` from "fmp-node-sdk/telemetry",
+   * which requires the optional `@opentelemetry/api` peer dependency
+   *
+   * @example
+   * ```typescript
+   * import { OpenTelemetryInstrumentation } from 'fmp-node-sdk/telemetry';
+   *
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   telemetry: new OpenTelemetryInstrumentation(),
+   * });
+   * ```
+   */
+  telemetry?: Instrumentation;
+
   /**
    * Cache configuration for response caching
    * Caching is disabled by default - opt-in by setting enabled: true
@@ -109,6 +277,147 @@ export interface FMPConfig {
    * ```
    */
   cache?: CacheConfig;
+
+  /**
+   * Client-side rate limiting
+   * Requests from every resource share one token bucket and are queued
+   * (never rejected) once the limit is reached, so batch jobs stay within
+   * the plan quota instead of being throttled with HTTP 429
+   *
+   * @example Use a plan preset
+   * ```typescript
+   * import { RateLimitPresets } from 'fmp-node-sdk';
+   *
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   rateLimit: RateLimitPresets.PREMIUM,
+   * });
+   * ```
+   *
+   * @example Custom limits
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   rateLimit: { requestsPerMinute: 120, burst: 5 },
+   * });
+   * ```
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Circuit breaker with one circuit per endpoint family
+   * After repeated timeouts, network errors or 5xx responses, calls fail
+   * fast with `FMPCircuitOpenError` instead of waiting for the API, and can
+   * be served from stale cache entries (`staleTTL`)
+   *
+   * @example
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   cache: { enabled: true },
+   *   circuitBreaker: {
+   *     failureThreshold: 5,
+   *     openMs: 30000,
+   *     staleTTL: CacheTTL.DAY,
+   *     onStateChange: ({ family, from, to }) =>
+   *       logger.warn(`FMP circuit ${family}: ${from} -> ${to}`),
+   *   },
+   * });
+   * ```
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+
+  /**
+   * Daily request budget (FMP plans cap calls per day)
+   * Requests are counted per UTC day, excluding cache hits, and the count is
+   * stored through the cache provider so processes sharing it share the
+   * budget. Once spent, calls fail with `FMPBudgetExceededError` or are
+   * served from the cache only (`whenExhausted: 'cache-only'`)
+   *
+   * @example
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   cache: { enabled: true },
+   *   budget: { dailyLimit: 250, warnAt: [0.8], whenExhausted: 'cache-only' },
+   * });
+   *
+   * const usage = await fmp.usage();
+   * console.log(usage?.total, usage?.endpoints);
+   * ```
+   */
+  budget?: BudgetConfig;
+
+  /**
+   * Whether calls may reach the API (see `NetworkMode`)
+   * In `offline` and `prefer-cache` mode cached entries are served past
+   * their TTL for as long as the provider keeps them: `MemoryCache`,
+   * `FileCacheProvider` and `SQLiteCacheProvider` return expired entries
+   * until they are pruned, Redis deletes them on expiry. Text (CSV)
+   * responses are never cached, so they throw `FMPOfflineError` offline
+   *
+   * @example Take a snapshot on the road
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   mode: 'offline',
+   *   cache: {
+   *     enabled: true,
+   *     provider: new FileCacheProvider({ dir: '.fmp-cache' }),
+   *   },
+   * });
+   * ```
+   * @default 'online'
+   */
+  mode?: NetworkMode;
+
+  /**
+   * Runtime validation of responses against the SDK types
+   * - `off`: responses are returned as-is
+   * - `warn`: field-level drift is reported through `onSchemaDrift`
+   *   (or `console.warn`, once per endpoint)
+   * - `strict`: responses with missing or mistyped fields throw
+   *   `FMPSchemaError`; new fields are only reported
+   *
+   * Only network responses are validated; cached data is not re-checked.
+   * @default 'off'
+   */
+  validation?: ValidationMode;
+
+  /**
+   * Called when a response does not match its SDK type
+   * Receives every difference, including new fields that may indicate a
+   * renamed property (e.g. `mktCap` -> `marketCap`)
+   *
+   * @example
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: 'your-api-key',
+   *   validation: 'warn',
+   *   onSchemaDrift: (result) => logger.warn('FMP schema drift', result),
+   * });
+   * ```
+   */
+  onSchemaDrift?: (result: SchemaValidationResult) => void;
+
+  /**
+   * Record API responses to disk, or replay them without the network
+   * Fixtures are keyed by endpoint and sorted params and never contain
+   * the API key. In `replay` mode a request without a fixture throws
+   * `FMPFixtureError`.
+   *
+   * @example Record once, then run tests offline
+   * ```typescript
+   * const fmp = new FMP({
+   *   apiKey: process.env.FMP_API_KEY ?? 'replay',
+   *   fixtures: {
+   *     mode: process.env.FMP_RECORD ? 'record' : 'replay',
+   *     dir: 'tests/fixtures/fmp',
+   *   },
+   * });
+   * ```
+   */
+  fixtures?: FixtureConfig;
 }
 
 /**
@@ -0,0 +1,102 @@
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = '***';
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Copy a response without its URL, which includes the API key
+ * The body is moved to the copy, so only the copy may be read
+ */
+export function withoutUrl(response: Response): Response {
+  if (!response.url) {
+    return response;
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Masks API keys and configured query parameters before URLs, params
+ * and messages leave the client (interceptors, errors, logs)
+ */
+export class Redactor {
+  private readonly apiKeys: string[];
+  private readonly names: Set<string>;
+  private readonly pattern: RegExp;
+
+  /**
+   * @param apiKeys - API keys to mask wherever they appear
+   * @param params - Extra query parameter names to mask (e.g. "cik")
+   */
+  constructor(apiKeys: readonly string[], params: readonly string[] = []) {
+    this.apiKeys = apiKeys.filter((key) => key.length > 0);
+    this.names = new Set([
+      'apikey',
+      ...params.map((name) => name.toLowerCase()),
+    ]);
+    // Matches "name=value" pairs in URLs embedded in free text
+    const names = Array.from(this.names, escapeRegExp).join('|');
+    this.pattern = new RegExp(`([?&](?:${names})=)[^&#\\s"']*`, 'gi');
+  }
+
+  /**
+   * Whether a query parameter is masked
+   */
+  private masks(name: string): boolean {
+    return this.names.has(name.toLowerCase());
+  }
+
+  /**
+   * Mask the values of redacted parameters
+   */
+  params(
+    params: Record<string, string> | undefined
+  ): Record<string, string> | undefined {
+    if (!params) {
+      return undefined;
+    }
+    const redacted: Record<string, string> = {};
+    for (const [key, value] of Object.entries(params)) {
+      redacted[key] = this.masks(key) ? REDACTED : value;
+    }
+    return redacted;
+  }
+
+  /**
+   * Mask the values of redacted parameters in a URL
+   */
+  url(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return this.text(url);
+    }
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (this.masks(key)) {
+        parsed.searchParams.set(key, REDACTED);
+      }
+    }
+    return parsed.toString();
+  }
+
+  /**
+   * Mask API keys and redacted parameters in free text (error messages)
+   */
+  text(text: string): string {
+    return this.apiKeys.reduce(
+      (masked, key) => masked.split(key).join(REDACTED),
+      text.replace(this.pattern, `$1${REDACTED}`)
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { ApiKeyPool } from '../src/api-keys/index.js';
+import {
+  FMPAPIError,
+  FMPNotFoundError,
+  FMPRateLimitError,
+  FMPSubscriptionError,
+} from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('ApiKeyPool', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rotate keys round-robin', () => {
+    const pool = new ApiKeyPool(['key-a', 'key-b', 'key-c']);
+
+    expect(Array.from({ length: 4 }, () => pool.select('profile'))).toEqual([
+      'key-a',
+      'key-b',
+      'key-c',
+      'key-a',
+    ]);
+  });
+
+  it('should pick the least-used key', () => {
+    const pool = new ApiKeyPool(['key-a', 'key-b'], {
+      strategy: 'least-used',
+      endpointKeys: { 'earning-call-transcript': ['key-b'] },
+    });
+
+    pool.select('earning-call-transcript');
+    pool.select('earning-call-transcript');
+
+    expect(Array.from({ length: 4 }, () => pool.select('profile'))).toEqual([
+      'key-a',
+      'key-a',
+      'key-a',
+      'key-b',
+    ]);
+  });
+
+  it('should route endpoints to the keys that have access', () => {
+    const pool = new ApiKeyPool(['key-a', 'key-b'], {
+      endpointKeys: { 'historical-chart': ['key-b'] },
+    });
+
+    expect(pool.select('historical-chart/1min')).toBe('key-b');
+    expect(pool.select('historical-chart/5min')).toBe('key-b');
+  });
+
+  it('should skip a rate limited key until its cooldown ends', () => {
+    vi.useFakeTimers();
+    const pool = new ApiKeyPool(['key-a', 'key-b'], { cooldownMs: 1000 });
+
+    expect(
+      pool.report('key-a', 'quote', new FMPRateLimitError('Limit Reach'))
+    ).toBe(true);
+    expect(pool.select('quote')).toBe('key-b');
+    expect(pool.select('quote')).toBe('key-b');
+
+    vi.advanceTimersByTime(1000);
+    expect(pool.select('quote')).toBe('key-a');
+  });
+
+  it('should use Retry-After as the cooldown', () => {
+    vi.useFakeTimers();
+    const pool = new ApiKeyPool(['key-a', 'key-b']);
+
+    pool.report('key-a', 'quote', new FMPRateLimitError('', 429, '', {}, 5000));
+
+    expect(pool.stats()[0]?.coolingDownMs).toBe(5000);
+  });
+
+  it('should stop using a key for endpoints it was denied', () => {
+    const pool = new ApiKeyPool(['key-a', 'key-b']);
+
+    pool.report(
+      'key-a',
+      'etf/holdings',
+      new FMPSubscriptionError('Restricted')
+    );
+
+    expect(pool.select('etf/holdings')).toBe('key-b');
+    expect(pool.select('etf/holdings')).toBe('key-b');
+    expect(pool.select('profile')).toBe('key-a');
+  });
+
+  it('should not fail over for other errors', () => {
+    const pool = new ApiKeyPool(['key-a', 'key-b']);
+
+    expect(pool.report('key-a', 'profile', new FMPNotFoundError('x'))).toBe(
+      false
+    );
+  });
+
+  it('should fall back to unhealthy keys unless failing over', () => {
+    const pool = new ApiKeyPool(['key-a']);
+    pool.report('key-a', 'quote', new FMPRateLimitError('Limit Reach'));
+
+    expect(pool.select('quote', new Set(['key-a']))).toBeUndefined();
+    expect(pool.select('quote')).toBe('key-a');
+  });
+
+  it('should report masked usage stats per key', () => {
+    const pool = new ApiKeyPool(['first-key-1234', 'second-key-5678', '']);
+    pool.select('quote');
+    pool.report('first-key-1234', 'quote', new FMPRateLimitError('x'));
+
+    expect(pool.stats()).toEqual([
+      expect.objectContaining({
+        key: '****1234',
+        requests: 1,
+        rateLimited: 1,
+        denied: 0,
+        deniedEndpoints: [],
+      }),
+      expect.objectContaining({ key: '****5678', requests: 0 }),
+    ]);
+  });
+});
+
+describe('FMPClient with several API keys', () => {
+  const server = new FakeFMPServer();
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({
+      apiKeys: ['key-a', 'key-b'],
+      baseUrl,
+      retries: 0,
+      ...config,
+    });
+  }
+
+  function keysUsed() {
+    return server.requests.map((request) => request.apiKey);
+  }
+
+  it('should spread requests over the keys', async () => {
+    const client = createClient({ dedupe: false });
+
+    await client.get('quote');
+    await client.get('quote');
+
+    expect(keysUsed()).toEqual(['key-a', 'key-b']);
+  });
+
+  it('should combine apiKey and apiKeys', async () => {
+    const client = createClient({ apiKey: 'key-main', dedupe: false });
+
+    await client.get('quote');
+
+    expect(keysUsed()).toEqual(['key-main']);
+    expect(client.getApiKeyPool().keys()).toEqual([
+      'key-main',
+      'key-a',
+      'key-b',
+    ]);
+  });
+
+  it('should move to another key after a 429', async () => {
+    server.route('quote', ({ apiKey }) =>
+      apiKey === 'key-a'
+        ? { status: 429, text: 'Limit Reach' }
+        : { json: [{ symbol: 'AAPL' }] }
+    );
+    const client = createClient();
+
+    await expect(client.get('quote')).resolves.toEqual([{ symbol: 'AAPL' }]);
+    await client.get('quote');
+
+    expect(keysUsed()).toEqual(['key-a', 'key-b', 'key-b']);
+    expect(client.getApiKeyPool().stats()[0]).toMatchObject({
+      rateLimited: 1,
+    });
+  });
+
+  it('should pass every key attempt through the interceptors', async () => {
+    server.route('quote', ({ apiKey }) =>
+      apiKey === 'key-a'
+        ? { status: 429, text: 'Limit Reach' }
+        : { json: [{ symbol: 'AAPL' }] }
+    );
+    const onRequest = vi.fn();
+    const onResponse = vi.fn();
+    const onError = vi.fn();
+    const client = createClient({
+      interceptors: { onRequest, onResponse, onError },
+    });
+
+    await client.get('quote');
+
+    expect(onRequest).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(FMPRateLimitError)
+    );
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should route a premium endpoint away from a key without access', async () => {
+    server.route('etf/holdings', ({ apiKey }) =>
+      apiKey === 'key-a'
+        ? { status: 402, text: 'Restricted Endpoint' }
+        : { json: [] }
+    );
+    const client = createClient({ dedupe: false });
+
+    await client.get('etf/holdings');
+    await client.get('etf/holdings');
+
+    expect(keysUsed()).toEqual(['key-a', 'key-b', 'key-b']);
+    expect(client.getApiKeyPool().stats()[0]?.deniedEndpoints).toEqual([
+      'etf/holdings',
+    ]);
+  });
+
+  it('should throw once every key was tried', async () => {
+    server.fail('quote', { status: 429, times: 2 });
+
+    const error = (await createClient()
+      .get('quote')
+      .catch((e: unknown) => e)) as FMPRateLimitError;
+
+    expect(error).toBeInstanceOf(FMPRateLimitError);
+    expect(error.attempts).toBe(2);
+    expect(keysUsed()).toEqual(['key-a', 'key-b']);
+  });
+
+  it('should keep every key out of error messages', async () => {
+    server.fail('quote', {
+      status: 500,
+      message: 'failed for key-a and key-b',
+    });
+
+    const error = (await createClient()
+      .get('quote')
+      .catch((e: unknown) => e)) as FMPAPIError;
+
+    expect(error.message).toBe('failed for *** and ***');
+  });
+
+  it('should require at least one key', () => {
+    expect(() => new FMP({ apiKeys: [] })).toThrow('API key is required');
+    expect(() => new FMP({ apiKeys: ['  '] })).toThrow(FMPAPIError);
+  });
+});
@@ -0,0 +1,324 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { RequestBudget } from '../src/budget/index.js';
+import type { BudgetWarning } from '../src/budget/index.js';
+import { MemoryCache } from '../src/cache/index.js';
+import { FMPBudgetExceededError } from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+/** Keep expected budget warnings out of the test output */
+const onWarning = () => undefined;
+
+describe('RequestBudget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count requests per endpoint', async () => {
+    const budget = new RequestBudget({ dailyLimit: 10, onWarning });
+
+    await budget.consume('profile');
+    await budget.consume('profile');
+    await budget.consume('quote');
+
+    expect(await budget.usage()).toMatchObject({
+      total: 3,
+      limit: 10,
+      remaining: 7,
+      endpoints: { profile: 2, quote: 1 },
+    });
+  });
+
+  it('should refuse requests once the limit is reached', async () => {
+    const budget = new RequestBudget({ dailyLimit: 2, onWarning });
+    await budget.consume('profile');
+    await budget.consume('profile');
+
+    const error = (await budget
+      .consume('quote')
+      .catch((e: unknown) => e)) as FMPBudgetExceededError;
+
+    expect(error).toBeInstanceOf(FMPBudgetExceededError);
+    expect(error).toMatchObject({ endpoint: 'quote', used: 2, limit: 2 });
+    expect(() => budget.check('quote')).toThrow(FMPBudgetExceededError);
+  });
+
+  it('should count concurrent requests from one process exactly', async () => {
+    const budget = new RequestBudget({ dailyLimit: 5, onWarning });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, () => budget.consume('quote'))
+    );
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(5);
+    expect((await budget.usage()).total).toBe(5);
+  });
+
+  it('should start a new budget each UTC day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T23:59:00Z'));
+    const budget = new RequestBudget({ dailyLimit: 1, onWarning });
+    await budget.consume('quote');
+    await expect(budget.consume('quote')).rejects.toBeInstanceOf(
+      FMPBudgetExceededError
+    );
+
+    vi.setSystemTime(new Date('2026-10-20T00:00:00Z'));
+
+    expect(() => budget.check('quote')).not.toThrow();
+    await expect(budget.consume('quote')).resolves.toBeUndefined();
+    expect(await budget.usage()).toMatchObject({ day: '2026-10-20', total: 1 });
+  });
+
+  it('should share the count through the provider', async () => {
+    const provider = new MemoryCache();
+    const first = new RequestBudget({ dailyLimit: 3, onWarning, provider });
+    const second = new RequestBudget({ dailyLimit: 3, onWarning, provider });
+
+    await first.consume('quote');
+    await second.consume('profile');
+    await second.consume('profile');
+
+    await expect(first.consume('quote')).rejects.toBeInstanceOf(
+      FMPBudgetExceededError
+    );
+    expect((await first.usage()).endpoints).toEqual({ quote: 1, profile: 2 });
+  });
+
+  it('should keep budgets with different keys apart', async () => {
+    const provider = new MemoryCache();
+    await new RequestBudget({ dailyLimit: 3, provider, key: 'a' }).consume('x');
+
+    const other = new RequestBudget({ dailyLimit: 3, provider, key: 'b' });
+
+    expect((await other.usage()).total).toBe(0);
+  });
+
+  it('should warn once per threshold', async () => {
+    const warnings: BudgetWarning[] = [];
+    const budget = new RequestBudget({
+      dailyLimit: 4,
+      warnAt: [0.75, 0.5],
+      onWarning: (warning) => warnings.push(warning),
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await budget.consume('quote');
+    }
+
+    expect(warnings.map(({ threshold, used }) => [threshold, used])).toEqual([
+      [0.5, 2],
+      [0.75, 3],
+    ]);
+  });
+
+  it('should warn through console.warn by default', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const budget = new RequestBudget({ dailyLimit: 2, warnAt: [0.5] });
+
+    await budget.consume('quote');
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringMatching(/Daily request budget at 50% \(1\/2\)/)
+    );
+    warn.mockRestore();
+  });
+
+  it('should reject an invalid limit', () => {
+    expect(() => new RequestBudget({ dailyLimit: 0 })).toThrow(RangeError);
+  });
+});
+
+describe('FMPClient daily budget', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      cache: { enabled: true },
+      budget: { dailyLimit: 2, onWarning },
+      ...config,
+    });
+  }
+
+  const profile = { searchParams: { symbol: 'AAPL' } };
+
+  it('should not count cache hits', async () => {
+    const client = createClient();
+
+    await client.get('profile', profile);
+    await client.get('profile', profile);
+
+    expect(await client.usage()).toMatchObject({
+      total: 1,
+      endpoints: { profile: 1 },
+    });
+  });
+
+  it('should count retries', async () => {
+    server.fail('quote', { status: 503 });
+    const client = createClient({ retry: { limit: 1, baseDelay: 1 } });
+
+    await client.get('quote');
+
+    expect((await client.usage())?.total).toBe(2);
+  });
+
+  it('should not count a call cancelled while waiting for the rate limiter', async () => {
+    const client = createClient({
+      rateLimit: { requestsPerMinute: 60, burst: 1 },
+    });
+    const controller = new AbortController();
+    await client.get('profile', profile);
+
+    const cancelled = client.get('quote', { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort(new Error('user cancelled'));
+
+    await expect(cancelled).rejects.toThrow('user cancelled');
+    expect(await client.usage()).toMatchObject({
+      total: 1,
+      endpoints: { profile: 1 },
+    });
+  });
+
+  it('should not count replayed fixtures', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fmp-budget-'));
+    try {
+      await createClient({ fixtures: { mode: 'record', dir } }).get(
+        'profile',
+        profile
+      );
+      const client = createClient({ fixtures: { mode: 'replay', dir } });
+
+      await client.get('profile', profile);
+
+      expect((await client.usage())?.total).toBe(0);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep the count out of the response cache', async () => {
+    const provider = new MemoryCache();
+    const client = createClient({ cache: { enabled: true, provider } });
+
+    await client.get('quote');
+    await client.clearCache();
+
+    expect(provider.size).toBe(0);
+    expect((await client.usage())?.total).toBe(1);
+  });
+
+  it('should not reset the count when the cache evicts entries', async () => {
+    const client = createClient({ cache: { enabled: true, maxSize: 1 } });
+
+    await client.get('profile', profile);
+    await client.get('profile', { searchParams: { symbol: 'MSFT' } });
+
+    expect((await client.usage())?.total).toBe(2);
+  });
+
+  it('should share the count through budget.provider', async () => {
+    const provider = new MemoryCache();
+    const budget = { dailyLimit: 2, onWarning, provider };
+
+    await createClient({ budget }).get('quote');
+
+    expect((await createClient({ budget }).usage())?.total).toBe(1);
+  });
+
+  it('should refuse every call once spent in throw mode', async () => {
+    const client = createClient();
+    await client.get('profile', profile);
+    await client.get('quote');
+
+    await expect(client.get('search-symbol')).rejects.toBeInstanceOf(
+      FMPBudgetExceededError
+    );
+    await expect(client.get('profile', profile)).rejects.toBeInstanceOf(
+      FMPBudgetExceededError
+    );
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should serve cached responses in cache-only mode', async () => {
+    const client = createClient({
+      budget: { dailyLimit: 1, onWarning, whenExhausted: 'cache-only' },
+    });
+    const cached = await client.get('profile', profile);
+
+    await expect(client.get('quote')).rejects.toBeInstanceOf(
+      FMPBudgetExceededError
+    );
+    await expect(client.get('profile', profile)).resolves.toEqual(cached);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should serve stale copies in cache-only mode', async () => {
+    const client = createClient({
+      budget: { dailyLimit: 1, onWarning, whenExhausted: 'cache-only' },
+      circuitBreaker: { staleTTL: 60000 },
+    });
+    const cached = await client.get('profile', { ...profile, ttl: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(
+      client.get('profile', { ...profile, ttl: 10 })
+    ).resolves.toEqual(cached);
+  });
+
+  it('should refuse text endpoints once spent', async () => {
+    const client = createClient({ budget: { dailyLimit: 1, onWarning } });
+    await client.getText('eod-bulk', { searchParams: { date: '2024-03-01' } });
+
+    await expect(
+      client.getText('eod-bulk', { searchParams: { date: '2024-03-01' } })
+    ).rejects.toBeInstanceOf(FMPBudgetExceededError);
+  });
+
+  it('should report usage through FMP', async () => {
+    const fmp = new FMP({
+      apiKey: 'test-key',
+      baseUrl,
+      budget: { dailyLimit: 100 },
+    });
+
+    await fmp.company.getProfile('AAPL');
+
+    expect(await fmp.usage()).toMatchObject({
+      total: 1,
+      remaining: 99,
+      endpoints: { profile: 1 },
+    });
+    expect(await new FMP({ apiKey: 'test-key' }).usage()).toBeUndefined();
+  });
+});
@@ -163,7 +163,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllRatings();
 
-      expect(mockClient.get).toHaveBeenCalledWith('rating-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('rating-bulk', undefined);
       expect(result).toEqual(mockRatings);
       expect(result).toHaveLength(2);
     });
@@ -190,7 +190,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllDCF();
 
-      expect(mockClient.get).toHaveBeenCalledWith('dcf-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('dcf-bulk', undefined);
       expect(result).toEqual(mockDCF);
     });
   });
@@ -216,7 +216,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllScores();
 
-      expect(mockClient.get).toHaveBeenCalledWith('scores-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('scores-bulk', undefined);
       expect(result).toEqual(mockScores);
     });
   });
@@ -243,7 +243,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllPriceTargets();
 
-      expect(mockClient.get).toHaveBeenCalledWith('price-target-summary-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('price-target-summary-bulk', undefined);
       expect(result).toEqual(mockTargets);
     });
   });
@@ -299,7 +299,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllUpgradesDowngrades();
 
-      expect(mockClient.get).toHaveBeenCalledWith('upgrades-downgrades-consensus-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('upgrades-downgrades-consensus-bulk', undefined);
       expect(result).toEqual(mockGrades);
     });
   });
@@ -376,7 +376,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllKeyMetricsTTM();
 
-      expect(mockClient.get).toHaveBeenCalledWith('key-metrics-ttm-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('key-metrics-ttm-bulk', undefined);
       expect(result).toEqual(mockMetrics);
     });
   });
@@ -449,7 +449,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllRatiosTTM();
 
-      expect(mockClient.get).toHaveBeenCalledWith('ratios-ttm-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('ratios-ttm-bulk', undefined);
       expect(result).toEqual(mockRatios);
     });
   });
@@ -471,7 +471,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllPeers();
 
-      expect(mockClient.get).toHaveBeenCalledWith('peers-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('peers-bulk', undefined);
       expect(result).toEqual(mockPeers);
     });
   });
@@ -497,7 +497,7 @@ describe('BulkResource', () => {
 
       const result = await bulkResource.getAllEarningsSurprises();
 
-      expect(mockClient.get).toHaveBeenCalledWith('earnings-surprises-bulk');
+      expect(mockClient.get).toHaveBeenCalledWith('earnings-surprises-bulk', undefined);
       expect(result).toEqual(mockSurprises);
     });
   });
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { MemoryCache } from '../src/cache/index.js';
+import {
+  CACHE_SCHEMA_VERSION,
+  cacheNamespace,
+  canonicalParams,
+  createCacheKey,
+  legacyCacheKey,
+} from '../src/cache/keys.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('cache keys', () => {
+  it('should sort params and drop undefined values', () => {
+    expect(
+      canonicalParams({
+        symbol: 'AAPL',
+        limit: 5,
+        period: undefined,
+        from: null,
+      })
+    ).toBe('from=null&limit=5&symbol=AAPL');
+  });
+
+  it('should upper-case and trim symbols', () => {
+    expect(canonicalParams({ symbol: ' aapl ' })).toBe('symbol=AAPL');
+    expect(canonicalParams({ symbols: 'aapl, msft' })).toBe(
+      'symbols=AAPL%2CMSFT'
+    );
+  });
+
+  it('should join arrays like the query string does', () => {
+    expect(canonicalParams({ symbols: ['aapl', 'msft'] })).toBe(
+      canonicalParams({ symbols: 'AAPL,MSFT' })
+    );
+    expect(canonicalParams({ type: ['10-K', '10-Q'] })).toBe(
+      'type=10-K%2C10-Q'
+    );
+  });
+
+  it('should not let values spill into other params', () => {
+    expect(canonicalParams({ query: 'a&limit=1' })).not.toBe(
+      canonicalParams({ query: 'a', limit: 1 })
+    );
+  });
+
+  it('should keep case outside symbols', () => {
+    expect(canonicalParams({ query: 'Apple' })).toBe('query=Apple');
+  });
+
+  it('should namespace keys by schema version, base URL and API keys', () => {
+    const namespace = cacheNamespace(['key-a'], 'https://example.com');
+
+    expect(namespace).toMatch(
+      new RegExp(`^v${CACHE_SCHEMA_VERSION}:[0-9a-f]{16}$`)
+    );
+    expect(cacheNamespace(['key-b'], 'https://example.com')).not.toBe(
+      namespace
+    );
+    expect(cacheNamespace(['key-a'], 'https://other.com')).not.toBe(namespace);
+    expect(cacheNamespace(['key-a', 'key-b'], 'https://example.com')).toBe(
+      cacheNamespace(['key-b', 'key-a'], 'https://example.com')
+    );
+  });
+
+  it('should use a custom namespace instead of the hash', () => {
+    expect(cacheNamespace(['key-a'], 'https://example.com', 'team')).toBe(
+      `v${CACHE_SCHEMA_VERSION}:team`
+    );
+  });
+
+  it('should build keys with and without params', () => {
+    expect(createCacheKey('v1:x', 'profile', { symbol: 'aapl' })).toBe(
+      'v1:x:profile?symbol=AAPL'
+    );
+    expect(createCacheKey('v1:x', 'stock-list')).toBe('v1:x:stock-list');
+    expect(createCacheKey('v1:x', 'stock-list', { page: undefined })).toBe(
+      'v1:x:stock-list'
+    );
+  });
+
+  it('should reproduce the keys of earlier versions', () => {
+    expect(legacyCacheKey('profile', { symbol: 'AAPL', a: 1 })).toBe(
+      'profile?a=1&symbol=AAPL'
+    );
+    expect(legacyCacheKey('stock-list', {})).toBe('stock-list');
+  });
+});
+
+describe('FMPClient cache namespacing', () => {
+  const server = new FakeFMPServer();
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({
+      apiKey: 'key-a',
+      baseUrl,
+      retries: 0,
+      ...config,
+      cache: { enabled: true, ...config.cache },
+    });
+  }
+
+  const profile = { searchParams: { symbol: 'AAPL' } };
+
+  it('should keep clients with different API keys apart', async () => {
+    const provider = new MemoryCache();
+
+    await createClient({ cache: { provider } }).get('profile', profile);
+    await createClient({ apiKey: 'key-b', cache: { provider } }).get(
+      'profile',
+      profile
+    );
+    await createClient({ cache: { provider } }).get('profile', profile);
+
+    expect(server.requests.map((request) => request.apiKey)).toEqual([
+      'key-a',
+      'key-b',
+    ]);
+  });
+
+  it('should share entries between clients with the same namespace', async () => {
+    const provider = new MemoryCache();
+
+    await createClient({ cache: { provider, namespace: 'team' } }).get(
+      'profile',
+      profile
+    );
+    await createClient({
+      apiKey: 'key-b',
+      cache: { provider, namespace: 'team' },
+    }).get('profile', profile);
+
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should share entries between symbol spellings', async () => {
+    const client = createClient();
+
+    await client.get('profile', profile);
+    await client.get('profile', { searchParams: { symbol: 'aapl' } });
+
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should expose the cache key of a request', () => {
+    const client = createClient({ cache: { namespace: 'team' } });
+
+    expect(client.getCacheKey('profile', { symbol: 'aapl' })).toBe(
+      `v${CACHE_SCHEMA_VERSION}:team:profile?symbol=AAPL`
+    );
+  });
+
+  describe('migrateLegacyKeys', () => {
+    it('should move legacy entries to their new key', async () => {
+      const provider = new MemoryCache();
+      provider.set('profile?symbol=AAPL', [{ symbol: 'legacy' }], 60000, [
+        'symbol:AAPL',
+      ]);
+      const client = createClient({
+        cache: { provider, migrateLegacyKeys: true },
+      });
+
+      await expect(client.get('profile', profile)).resolves.toEqual([
+        { symbol: 'legacy' },
+      ]);
+      await client.get('profile', profile);
+
+      expect(server.requests).toHaveLength(0);
+      expect(provider.has('profile?symbol=AAPL')).toBe(false);
+      expect(
+        provider.getEntry(client.getCacheKey('profile', profile.searchParams))
+      ).toMatchObject({ value: [{ symbol: 'legacy' }], tags: ['symbol:AAPL'] });
+    });
+
+    it('should ignore legacy entries by default', async () => {
+      const provider = new MemoryCache();
+      provider.set('profile?symbol=AAPL', [{ symbol: 'legacy' }], 60000);
+
+      await createClient({ cache: { provider } }).get('profile', profile);
+
+      expect(server.requests).toHaveLength(1);
+      expect(provider.has('profile?symbol=AAPL')).toBe(true);
+    });
+
+    it('should invalidate legacy entries too', async () => {
+      const provider = new MemoryCache();
+      provider.set('profile?symbol=AAPL', [{ symbol: 'legacy' }], 60000);
+      const client = createClient({
+        cache: { provider, migrateLegacyKeys: true },
+      });
+
+      expect(await client.invalidateCache('profile', { symbol: 'AAPL' })).toBe(
+        true
+      );
+      expect(provider.size).toBe(0);
+    });
+  });
+});
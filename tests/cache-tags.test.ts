@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { FMP } from '../src/fmp.js';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { MemoryCache } from '../src/cache/index.js';
+import type { CacheProvider } from '../src/cache/index.js';
+import { requestTags } from '../src/cache/tags.js';
+
+describe('requestTags', () => {
+  it('should tag symbols, CIKs and the resource', () => {
+    expect(
+      requestTags(
+        { symbol: 'msft', cik: '0000789019', period: 'quarter' },
+        'financials.getIncomeStatement'
+      )
+    ).toEqual(['symbol:MSFT', 'cik:789019', 'resource:financials']);
+  });
+
+  it('should tag every symbol of a batch', () => {
+    expect(requestTags({ symbols: 'AAPL, MSFT' }, undefined)).toEqual([
+      'symbol:AAPL',
+      'symbol:MSFT',
+    ]);
+  });
+
+  it('should return no tags without symbols or a resource', () => {
+    expect(requestTags(undefined, undefined)).toEqual([]);
+  });
+});
+
+describe('fmp.invalidate', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  async function createFMP(provider: CacheProvider = new MemoryCache()) {
+    const fmp = new FMP({
+      apiKey: 'test-key',
+      baseUrl,
+      cache: { enabled: true, provider },
+    });
+    await fmp.company.getProfile('MSFT');
+    await fmp.financials.getIncomeStatement('MSFT');
+    await fmp.company.getProfile('AAPL');
+    server.reset();
+    return fmp;
+  }
+
+  async function refetch(fmp: FMP) {
+    await fmp.company.getProfile('MSFT');
+    await fmp.financials.getIncomeStatement('MSFT');
+    await fmp.company.getProfile('AAPL');
+    return server.requests.map(
+      ({ endpoint, params }) => `${endpoint} ${params['symbol']}`
+    );
+  }
+
+  it('should delete everything about a symbol', async () => {
+    const fmp = await createFMP();
+
+    expect(await fmp.invalidate({ symbol: 'msft' })).toBe(2);
+    expect(await refetch(fmp)).toEqual([
+      'profile MSFT',
+      'income-statement MSFT',
+    ]);
+  });
+
+  it('should delete everything from a resource', async () => {
+    const fmp = await createFMP();
+
+    expect(await fmp.invalidate({ resource: 'company' })).toBe(2);
+    expect(await refetch(fmp)).toEqual(['profile MSFT', 'profile AAPL']);
+  });
+
+  it('should combine fields', async () => {
+    const fmp = await createFMP();
+
+    expect(
+      await fmp.invalidate({ symbol: ['MSFT', 'AAPL'], resource: 'company' })
+    ).toBe(2);
+    expect(await refetch(fmp)).toEqual(['profile MSFT', 'profile AAPL']);
+  });
+
+  it('should delete responses by CIK', async () => {
+    server.route('sec-filings-search/cik', () => ({ json: [] }));
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      cache: { enabled: true },
+    });
+    await client.get('sec-filings-search/cik', {
+      searchParams: { cik: '0000789019' },
+    });
+
+    expect(await client.invalidate({ cik: '789019' })).toBe(1);
+  });
+
+  it('should do nothing without tag support', async () => {
+    const memory = new MemoryCache();
+    const provider: CacheProvider = {
+      get: (key) => memory.get(key),
+      set: (key, value, ttl) => memory.set(key, value, ttl),
+      delete: (key) => memory.delete(key),
+      clear: () => memory.clear(),
+      has: (key) => memory.has(key),
+    };
+    const fmp = await createFMP(provider);
+
+    expect(await fmp.invalidate({ symbol: 'MSFT' })).toBe(0);
+    expect(await refetch(fmp)).toEqual([]);
+  });
+});
@@ -57,6 +57,37 @@ describe('MemoryCache', () => {
     });
   });
 
+  describe('getEntry', () => {
+    it('should return the value with its creation time and TTL', () => {
+      cache.set('key1', 'value1', 1000);
+      const createdAt = Date.now();
+      vi.advanceTimersByTime(400);
+
+      expect(cache.getEntry('key1')).toEqual({
+        value: 'value1',
+        createdAt,
+        ttl: 1000,
+      });
+    });
+
+    it('should return undefined for expired entry', () => {
+      cache.set('key1', 'value1', 1000);
+      vi.advanceTimersByTime(1001);
+
+      expect(cache.getEntry('key1')).toBeUndefined();
+    });
+
+    it('should return expired entries when asked, without deleting them', () => {
+      cache.set('key1', 'value1', 1000);
+      vi.advanceTimersByTime(1001);
+
+      expect(cache.getEntry('key1', { includeExpired: true })?.value).toBe(
+        'value1'
+      );
+      expect(cache.size).toBe(1);
+    });
+  });
+
   describe('has', () => {
     it('should return true for existing key', () => {
       cache.set('key1', 'value1', 60000);
@@ -86,6 +117,51 @@ describe('MemoryCache', () => {
     });
   });
 
+  describe('invalidateTags', () => {
+    beforeEach(() => {
+      cache.set('profile?symbol=MSFT', 1, 60000, [
+        'symbol:MSFT',
+        'resource:company',
+      ]);
+      cache.set('income?symbol=MSFT', 2, 60000, [
+        'symbol:MSFT',
+        'resource:financials',
+      ]);
+      cache.set('income?symbol=AAPL', 3, 60000, [
+        'symbol:AAPL',
+        'resource:financials',
+      ]);
+    });
+
+    it('should delete every entry with a tag', () => {
+      expect(cache.invalidateTags(['symbol:MSFT'])).toBe(2);
+      expect(cache.get('profile?symbol=MSFT')).toBeUndefined();
+      expect(cache.get('income?symbol=MSFT')).toBeUndefined();
+      expect(cache.get('income?symbol=AAPL')).toBe(3);
+    });
+
+    it('should only delete entries with all tags', () => {
+      expect(cache.invalidateTags(['symbol:MSFT', 'resource:financials'])).toBe(
+        1
+      );
+      expect(cache.get('profile?symbol=MSFT')).toBe(1);
+      expect(cache.get('income?symbol=MSFT')).toBeUndefined();
+    });
+
+    it('should forget the tags of entries that are gone', () => {
+      cache.delete('profile?symbol=MSFT');
+      cache.set('income?symbol=MSFT', 4, 60000);
+
+      expect(cache.invalidateTags(['symbol:MSFT'])).toBe(0);
+      expect(cache.get('income?symbol=MSFT')).toBe(4);
+    });
+
+    it('should return 0 for unknown tags', () => {
+      expect(cache.invalidateTags(['symbol:TSLA'])).toBe(0);
+      expect(cache.invalidateTags([])).toBe(0);
+    });
+  });
+
   describe('clear', () => {
     it('should remove all entries', () => {
       cache.set('key1', 'value1', 60000);
@@ -158,6 +234,103 @@ describe('MemoryCache', () => {
     });
   });
 
+  describe('byte limits', () => {
+    it('should evict least recently used entries over maxBytes', () => {
+      const smallCache = new MemoryCache({ maxBytes: 250 });
+
+      smallCache.set('key1', 'a'.repeat(98), 60000);
+      smallCache.set('key2', 'b'.repeat(98), 60000);
+      smallCache.get('key1');
+      smallCache.set('key3', 'c'.repeat(98), 60000);
+
+      expect(smallCache.get('key1')).toBe('a'.repeat(98));
+      expect(smallCache.get('key2')).toBeUndefined();
+      expect(smallCache.stats()).toMatchObject({ bytes: 200, evictions: 1 });
+    });
+
+    it('should not cache entries over maxEntryBytes', () => {
+      const smallCache = new MemoryCache({ maxEntryBytes: 100 });
+      smallCache.set('key1', 'small', 60000);
+
+      smallCache.set('key1', 'x'.repeat(200), 60000);
+
+      expect(smallCache.get('key1')).toBeUndefined();
+      expect(smallCache.stats()).toMatchObject({ size: 0, rejected: 1 });
+    });
+
+    it('should not cache entries larger than maxBytes', () => {
+      const smallCache = new MemoryCache({ maxBytes: 100 });
+      smallCache.set('key1', 'small', 60000);
+
+      smallCache.set('key2', 'x'.repeat(200), 60000);
+
+      expect(smallCache.get('key1')).toBe('small');
+      expect(smallCache.stats()).toMatchObject({ rejected: 1, evictions: 0 });
+    });
+
+    it('should track bytes as entries come and go', () => {
+      cache.set('key1', 'value1', 60000);
+      cache.set('key1', 'value11', 60000);
+      cache.set('key2', { a: 1 }, 60000);
+      expect(cache.stats().bytes).toBe(9 + 7);
+
+      cache.delete('key1');
+      expect(cache.stats().bytes).toBe(7);
+
+      cache.clear();
+      expect(cache.stats().bytes).toBe(0);
+    });
+
+    it('should reject limits that are not positive', () => {
+      expect(() => new MemoryCache({ maxBytes: 0 })).toThrow(RangeError);
+      expect(() => new MemoryCache({ maxEntryBytes: -1 })).toThrow(RangeError);
+    });
+  });
+
+  describe('compression', () => {
+    const rows = Array.from({ length: 500 }, (_, i) => ({
+      symbol: 'AAPL',
+      date: '2024-01-01',
+      close: i,
+    }));
+
+    it('should compress entries over the threshold', () => {
+      const compressing = new MemoryCache({ compressionThreshold: 1024 });
+
+      compressing.set('bulk', rows, 60000, ['resource:bulk']);
+      compressing.set('small', { a: 1 }, 60000);
+
+      expect(compressing.get('bulk')).toEqual(rows);
+      expect(compressing.getEntry('bulk')?.tags).toEqual(['resource:bulk']);
+      expect(compressing.stats().compressed).toBe(1);
+      expect(compressing.stats().bytes).toBeLessThan(
+        JSON.stringify(rows).length / 5
+      );
+    });
+
+    it('should count compressed sizes against maxBytes', () => {
+      const compressing = new MemoryCache({
+        compressionThreshold: 1024,
+        maxBytes: 4096,
+      });
+
+      compressing.set('bulk', rows, 60000);
+
+      expect(compressing.get('bulk')).toEqual(rows);
+      expect(compressing.stats().rejected).toBe(0);
+    });
+
+    it('should return a new copy on each read of a compressed entry', () => {
+      const compressing = new MemoryCache({ compressionThreshold: 1 });
+      compressing.set('key1', { data: 'value1' }, 60000);
+
+      const first = compressing.get<{ data: string }>('key1')!;
+      first.data = 'changed';
+
+      expect(compressing.get('key1')).toEqual({ data: 'value1' });
+    });
+  });
+
   describe('stats', () => {
     it('should return correct stats', () => {
       cache.set('key1', 'value1', 60000);
@@ -167,6 +340,29 @@ describe('MemoryCache', () => {
       expect(stats.size).toBe(2);
       expect(stats.maxSize).toBe(100);
     });
+
+    it('should count hits, misses and evictions', () => {
+      const smallCache = new MemoryCache({ maxSize: 1 });
+      smallCache.set('key1', 'value1', 1000);
+      smallCache.get('key1');
+      smallCache.get('missing');
+      vi.advanceTimersByTime(1500);
+      smallCache.get('key1');
+      smallCache.set('key2', 'value2', 60000);
+      smallCache.set('key3', 'value3', 60000);
+
+      expect(smallCache.stats()).toEqual({
+        size: 1,
+        maxSize: 1,
+        bytes: 8,
+        maxBytes: Infinity,
+        compressed: 0,
+        hits: 1,
+        misses: 2,
+        evictions: 1,
+        rejected: 0,
+      });
+    });
   });
 
   describe('prune', () => {
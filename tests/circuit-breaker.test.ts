@@ -0,0 +1,260 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { CircuitBreaker } from '../src/circuit-breaker/index.js';
+import type { CircuitStateChange } from '../src/circuit-breaker/index.js';
+import {
+  FMPCircuitOpenError,
+  FMPNotFoundError,
+  FMPServerError,
+} from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('CircuitBreaker', () => {
+  const fail = () => Promise.reject(new FMPServerError('down', 503));
+  const succeed = () => Promise.resolve('ok');
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function trip(breaker: CircuitBreaker, endpoint: string, times = 3) {
+    for (let i = 0; i < times; i++) {
+      await breaker.execute(endpoint, fail).catch(() => undefined);
+    }
+  }
+
+  it('should open after the failure threshold', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+    await trip(breaker, 'profile', 2);
+    expect(breaker.state('profile')).toBe('closed');
+
+    await trip(breaker, 'profile', 1);
+    expect(breaker.state('profile')).toBe('open');
+  });
+
+  it('should only count failures within the window', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, windowMs: 1000 });
+
+    await trip(breaker, 'profile', 1);
+    vi.advanceTimersByTime(1000);
+    await trip(breaker, 'profile', 1);
+
+    expect(breaker.state('profile')).toBe('closed');
+  });
+
+  it('should fail fast without calling the API while open', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 3, openMs: 5000 });
+    await trip(breaker, 'profile');
+    vi.advanceTimersByTime(1000);
+    const run = vi.fn(succeed);
+
+    const error = (await breaker
+      .execute('profile', run)
+      .catch((e: unknown) => e)) as FMPCircuitOpenError;
+
+    expect(error).toBeInstanceOf(FMPCircuitOpenError);
+    expect(error.family).toBe('profile');
+    expect(error.retryAfterMs).toBe(4000);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should keep a circuit per endpoint family', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+    await trip(breaker, 'historical-chart/1min', 2);
+    await trip(breaker, 'historical-chart/5min', 1);
+
+    expect(breaker.state('historical-chart')).toBe('open');
+    expect(breaker.state('profile')).toBe('closed');
+    await expect(breaker.execute('profile', succeed)).resolves.toBe('ok');
+  });
+
+  it('should support custom families', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      family: (endpoint) => (endpoint.startsWith('quote') ? 'quotes' : 'other'),
+    });
+
+    await trip(breaker, 'quote', 1);
+    await trip(breaker, 'quote-short', 1);
+
+    expect(breaker.family('batch-quote')).toBe('other');
+    expect(breaker.states()).toEqual({ quotes: 'open' });
+  });
+
+  it('should not count errors that are not failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+    await breaker
+      .execute('profile', () => Promise.reject(new FMPNotFoundError('gone')))
+      .catch(() => undefined);
+
+    expect(breaker.state('profile')).toBe('closed');
+  });
+
+  describe('half-open', () => {
+    it('should close after a successful probe', async () => {
+      vi.useFakeTimers();
+      const breaker = new CircuitBreaker({ failureThreshold: 3, openMs: 100 });
+      await trip(breaker, 'profile');
+      vi.advanceTimersByTime(100);
+
+      expect(breaker.state('profile')).toBe('half-open');
+      await expect(breaker.execute('profile', succeed)).resolves.toBe('ok');
+      expect(breaker.state('profile')).toBe('closed');
+    });
+
+    it('should reopen after a failed probe', async () => {
+      vi.useFakeTimers();
+      const breaker = new CircuitBreaker({ failureThreshold: 3, openMs: 100 });
+      await trip(breaker, 'profile');
+      vi.advanceTimersByTime(100);
+
+      await trip(breaker, 'profile', 1);
+
+      expect(breaker.state('profile')).toBe('open');
+    });
+
+    it('should let only one probe through at a time', async () => {
+      vi.useFakeTimers();
+      const breaker = new CircuitBreaker({ failureThreshold: 3, openMs: 100 });
+      await trip(breaker, 'profile');
+      vi.advanceTimersByTime(100);
+      let finish: (value: string) => void = () => undefined;
+
+      const probe = breaker.execute(
+        'profile',
+        () => new Promise<string>((resolve) => (finish = resolve))
+      );
+      await expect(breaker.execute('profile', succeed)).rejects.toBeInstanceOf(
+        FMPCircuitOpenError
+      );
+      finish('ok');
+
+      await expect(probe).resolves.toBe('ok');
+    });
+  });
+
+  it('should report state changes', async () => {
+    vi.useFakeTimers();
+    const changes: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 3,
+      openMs: 100,
+      onStateChange: (change) => changes.push(change),
+    });
+
+    await trip(breaker, 'profile');
+    vi.advanceTimersByTime(100);
+    await breaker.execute('profile', succeed);
+
+    expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+    expect(changes[0]).toMatchObject({ family: 'profile', failures: 3 });
+  });
+
+  it('should close every circuit on reset', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    await trip(breaker, 'profile', 1);
+
+    breaker.reset();
+
+    expect(breaker.state('profile')).toBe('closed');
+    expect(breaker.states()).toEqual({});
+  });
+});
+
+describe('FMPClient circuit breaker', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      circuitBreaker: { failureThreshold: 2 },
+      ...config,
+    });
+  }
+
+  it('should fail fast once the circuit opens', async () => {
+    server.fail('quote', { status: 503, times: 10 });
+    const client = createClient();
+
+    await expect(client.get('quote')).rejects.toBeInstanceOf(FMPServerError);
+    await expect(client.get('quote')).rejects.toBeInstanceOf(FMPServerError);
+    await expect(client.get('quote')).rejects.toBeInstanceOf(
+      FMPCircuitOpenError
+    );
+    expect(server.requestCount('quote')).toBe(2);
+  });
+
+  it('should stop retrying when the circuit opens', async () => {
+    server.fail('quote', { status: 503, times: 10 });
+    const client = createClient({ retry: { limit: 5, baseDelay: 1 } });
+
+    await expect(client.get('quote')).rejects.toBeInstanceOf(
+      FMPCircuitOpenError
+    );
+    expect(server.requestCount('quote')).toBe(2);
+  });
+
+  it('should serve stale cache entries while open', async () => {
+    const client = createClient({
+      cache: { enabled: true },
+      circuitBreaker: { failureThreshold: 1, staleTTL: 60000 },
+    });
+    const fresh = await client.get('profile', {
+      searchParams: { symbol: 'AAPL' },
+      ttl: 20,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    server.fail('profile', { status: 503, times: 10 });
+
+    await expect(
+      client.get('profile', { searchParams: { symbol: 'AAPL' }, ttl: 20 })
+    ).rejects.toBeInstanceOf(FMPServerError);
+    await expect(
+      client.get('profile', { searchParams: { symbol: 'AAPL' }, ttl: 20 })
+    ).resolves.toEqual(fresh);
+    await expect(
+      client.get('profile', { searchParams: { symbol: 'MSFT' }, ttl: 20 })
+    ).rejects.toBeInstanceOf(FMPCircuitOpenError);
+  });
+
+  it('should expose the breaker through FMP', () => {
+    const fmp = new FMP({ apiKey: 'test-key', circuitBreaker: {} });
+
+    expect(fmp.getCircuitBreaker()).toBeInstanceOf(CircuitBreaker);
+    expect(new FMP({ apiKey: 'test-key' }).getCircuitBreaker()).toBeUndefined();
+  });
+});
@@ -338,6 +338,23 @@ describe('FMPClient Cache Integration', () => {
       expect(provider).toBeInstanceOf(MemoryCache);
     });
 
+    it('should pass byte limits to the built-in cache', async () => {
+      mockResponse.json.mockResolvedValue([{ symbol: 'AAPL', price: 150 }]);
+      const client = new FMPClient({
+        apiKey: 'test-key',
+        cache: { enabled: true, maxBytes: 1000, maxEntryBytes: 10 },
+      });
+
+      await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+      await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+      expect(mockKyInstance.get).toHaveBeenCalledTimes(2);
+      expect((client.getCacheProvider() as MemoryCache).stats()).toMatchObject({
+        maxBytes: 1000,
+        rejected: 2,
+      });
+    });
+
     it('should return undefined cache provider when disabled', () => {
       const client = new FMPClient({
         apiKey: 'test-key',
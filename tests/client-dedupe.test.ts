@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FMPAPIError } from '../src/errors/index.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('FMPClient request coalescing', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should share one request between concurrent identical calls', async () => {
+    fetchMock.mockImplementation(async () =>
+      jsonResponse([{ symbol: 'AAPL' }])
+    );
+    const client = new FMPClient({ apiKey: 'test-key', retries: 0 });
+
+    const results = await Promise.all([
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(results[0]).toEqual([{ symbol: 'AAPL' }]);
+    expect(results[1]).toBe(results[0]);
+    expect(results[2]).toBe(results[0]);
+  });
+
+  it('should coalesce calls with params in a different order', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const client = new FMPClient({ apiKey: 'test-key', retries: 0 });
+
+    await Promise.all([
+      client.get('income-statement', {
+        searchParams: { symbol: 'AAPL', limit: 5 },
+      }),
+      client.get('income-statement', {
+        searchParams: { limit: 5, symbol: 'AAPL' },
+      }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not coalesce calls with different params', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const client = new FMPClient({ apiKey: 'test-key', retries: 0 });
+
+    await Promise.all([
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+      client.get('profile', { searchParams: { symbol: 'MSFT' } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send a new request once the previous one has settled', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const client = new FMPClient({ apiKey: 'test-key', retries: 0 });
+
+    await client.get('quote', { searchParams: { symbol: 'AAPL' } });
+    await client.get('quote', { searchParams: { symbol: 'AAPL' } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject every waiter and cache nothing when the request fails', async () => {
+    fetchMock.mockImplementationOnce(async () =>
+      jsonResponse({ message: 'boom' }, 500)
+    );
+    fetchMock.mockImplementation(async () => jsonResponse([{ ok: true }]));
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      cache: { enabled: true },
+    });
+
+    const results = await Promise.allSettled([
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(results[0]?.status).toBe('rejected');
+    expect(results[1]?.status).toBe('rejected');
+    expect((results[0] as PromiseRejectedResult).reason).toBeInstanceOf(
+      FMPAPIError
+    );
+    expect(
+      await client
+        .getCacheProvider()
+        ?.has(client.getCacheKey('profile', { symbol: 'AAPL' }))
+    ).toBe(false);
+
+    // The failed request is not reused
+    const retry = await client.get('profile', {
+      searchParams: { symbol: 'AAPL' },
+    });
+    expect(retry).toEqual([{ ok: true }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should coalesce using a custom cache key generator', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      cache: { keyGenerator: (endpoint) => endpoint },
+    });
+
+    await Promise.all([
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+      client.get('profile', { searchParams: { symbol: 'MSFT' } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send every request when dedupe is disabled', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([]));
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      dedupe: false,
+    });
+
+    await Promise.all([
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+      client.get('profile', { searchParams: { symbol: 'AAPL' } }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FMPClient } from '../src/client.js';
+import {
+  FMPAPIError,
+  FMPAuthError,
+  FMPSubscriptionError,
+  FMPNotFoundError,
+  FMPRateLimitError,
+  FMPServerError,
+  FMPTimeoutError,
+  FMPNetworkError,
+} from '../src/errors/index.js';
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+describe('FMPClient error handling', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createClient() {
+    return new FMPClient({ apiKey: 'secret-key', retries: 0 });
+  }
+
+  it.each([
+    [401, FMPAuthError],
+    [402, FMPSubscriptionError],
+    [403, FMPSubscriptionError],
+    [404, FMPNotFoundError],
+    [429, FMPRateLimitError],
+    [500, FMPServerError],
+    [503, FMPServerError],
+  ])(
+    'should throw the matching subclass for HTTP %i',
+    async (status, ErrorClass) => {
+      fetchMock.mockResolvedValue(
+        new Response('error body', { status, statusText: 'Error' })
+      );
+
+      const error = await createClient()
+        .get('profile', { searchParams: { symbol: 'AAPL' } })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(FMPAPIError);
+      expect((error as FMPAPIError).status).toBe(status);
+      expect((error as FMPAPIError).message).toBe('error body');
+    }
+  );
+
+  it('should attach endpoint, sanitized params and attempts', async () => {
+    fetchMock.mockResolvedValue(new Response('Not found', { status: 404 }));
+
+    const error = (await createClient()
+      .get('historical-price-eod/full', {
+        searchParams: { symbol: 'AAPL', from: '2024-01-01' },
+      })
+      .catch((e: unknown) => e)) as FMPNotFoundError;
+
+    expect(error.endpoint).toBe('historical-price-eod/full');
+    expect(error.params).toEqual({ symbol: 'AAPL', from: '2024-01-01' });
+    expect(error.params).not.toHaveProperty('apikey');
+    expect(error.attempts).toBe(1);
+  });
+
+  it('should report the restricted endpoint on subscription errors', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('Restricted Endpoint', { status: 402 })
+    );
+
+    const error = (await createClient()
+      .get('income-statement', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e)) as FMPSubscriptionError;
+
+    expect(error.restrictedEndpoint).toBe('income-statement');
+  });
+
+  it('should parse Retry-After on 429 responses', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('Limit Reach', {
+        status: 429,
+        headers: { 'Retry-After': '12' },
+      })
+    );
+
+    const error = (await createClient()
+      .get('quote', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e)) as FMPRateLimitError;
+
+    expect(error).toBeInstanceOf(FMPRateLimitError);
+    expect(error.retryAfterMs).toBe(12000);
+  });
+
+  it('should recognize "Error Message" bodies returned with HTTP 200', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        'Error Message':
+          'Invalid API KEY. Feel free to create a Free API Key or visit https://site.financialmodelingprep.com/faqs?search=why-is-my-api-key-invalid for more information.',
+      })
+    );
+    const onError = vi.fn();
+    const client = new FMPClient({
+      apiKey: 'bad-key',
+      retries: 0,
+      interceptors: { onError },
+    });
+
+    const error = await client
+      .get('profile', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FMPAuthError);
+    expect((error as FMPAuthError).message).toMatch(/Invalid API KEY/);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not treat regular JSON objects as errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ symbol: 'AAPL', price: 150 }));
+
+    const data = await createClient().get('quote-short', {
+      searchParams: { symbol: 'AAPL' },
+    });
+
+    expect(data).toEqual({ symbol: 'AAPL', price: 150 });
+  });
+
+  it('should return array payloads untouched', async () => {
+    const payload = [{ symbol: 'AAPL' }, { symbol: 'MSFT' }];
+    fetchMock.mockResolvedValue(jsonResponse(payload));
+    const onResponse = vi.fn();
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      interceptors: { onResponse },
+    });
+
+    const data = await client.get('batch-quote', {
+      searchParams: { symbols: 'AAPL,MSFT' },
+    });
+
+    expect(data).toEqual(payload);
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw FMPTimeoutError when the request times out', async () => {
+    fetchMock.mockImplementation(
+      (request: Request) =>
+        new Promise((_resolve, reject) => {
+          request.signal.addEventListener('abort', () =>
+            reject(request.signal.reason)
+          );
+        })
+    );
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      timeout: 20,
+    });
+
+    const error = (await client
+      .get('profile', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e)) as FMPTimeoutError;
+
+    expect(error).toBeInstanceOf(FMPTimeoutError);
+    expect(error.endpoint).toBe('profile');
+    expect(error.params).toEqual({ symbol: 'AAPL' });
+    expect(error.attempts).toBe(1);
+  });
+
+  it('should throw FMPNetworkError when the network request fails', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    const error = (await createClient()
+      .getText('eod-bulk', { searchParams: { date: '2024-01-02' } })
+      .catch((e: unknown) => e)) as FMPNetworkError;
+
+    expect(error).toBeInstanceOf(FMPNetworkError);
+    expect(error.message).toBe('fetch failed');
+    expect(error.endpoint).toBe('eod-bulk');
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { FMPTimeoutError } from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('FMPClient per-call request options', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      ...config,
+    });
+  }
+
+  describe('signal', () => {
+    it('should cancel the request and rethrow the abort reason', async () => {
+      server.setLatency(500, 'quote');
+      const onError = vi.fn();
+      const client = createClient({ interceptors: { onError } });
+      const controller = new AbortController();
+      const reason = new Error('user cancelled');
+
+      const request = client.get('quote', {
+        searchParams: { symbol: 'AAPL' },
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(reason), 20);
+
+      await expect(request).rejects.toBe(reason);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should not share a request that has its own signal', async () => {
+      server.setLatency(100, 'quote');
+      const client = createClient();
+      const controller = new AbortController();
+
+      const cancelled = client.get('quote', {
+        searchParams: { symbol: 'AAPL' },
+        signal: controller.signal,
+      });
+      const other = client.get('quote', { searchParams: { symbol: 'AAPL' } });
+      controller.abort();
+
+      await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(other).resolves.toHaveLength(1);
+    });
+
+    it('should cancel text requests', async () => {
+      server.setLatency(500, 'eod-bulk');
+      const client = createClient();
+      const controller = new AbortController();
+
+      const request = client.getText('eod-bulk', {
+        searchParams: { date: '2024-03-01' },
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('timeout', () => {
+    it('should override the configured timeout for one call', async () => {
+      server.setLatency(100, 'quote');
+      const client = createClient({ timeout: 5000 });
+
+      await expect(
+        client.get('quote', {
+          searchParams: { symbol: 'AAPL' },
+          timeout: 20,
+        })
+      ).rejects.toBeInstanceOf(FMPTimeoutError);
+      await expect(
+        client.get('quote', { searchParams: { symbol: 'AAPL' } })
+      ).resolves.toHaveLength(1);
+    });
+
+    it('should allow a longer timeout than the default', async () => {
+      server.setLatency(100, 'quote');
+      const client = createClient({ timeout: 20 });
+
+      await expect(
+        client.get('quote', {
+          searchParams: { symbol: 'AAPL' },
+          timeout: 5000,
+        })
+      ).resolves.toHaveLength(1);
+    });
+  });
+
+  describe('headers', () => {
+    it('should send the headers of the call', async () => {
+      const seen: Array<string | null> = [];
+      const client = createClient({
+        middleware: [
+          async (ctx, next) => {
+            seen.push(ctx.headers.get('x-request-id'));
+            return next();
+          },
+        ],
+      });
+
+      await client.get('quote', {
+        searchParams: { symbol: 'AAPL' },
+        headers: { 'X-Request-Id': 'abc' },
+      });
+      await client.getText('eod-bulk', {
+        searchParams: { date: '2024-03-01' },
+        headers: new Headers({ 'X-Request-Id': 'def' }),
+      });
+
+      expect(seen).toEqual(['abc', 'def']);
+    });
+  });
+
+  describe('cache', () => {
+    function createCachedClient() {
+      return createClient({ cache: { enabled: true } });
+    }
+
+    it('should skip the cache entirely with "bypass"', async () => {
+      const client = createCachedClient();
+      const options = { searchParams: { symbol: 'AAPL' } };
+
+      await client.get('profile', { ...options, cache: 'bypass' });
+      expect(
+        await client
+          .getCacheProvider()
+          ?.has(client.getCacheKey('profile', { symbol: 'AAPL' }))
+      ).toBe(false);
+
+      await client.get('profile', options);
+      await client.get('profile', { ...options, cache: 'bypass' });
+
+      expect(server.requestCount('profile')).toBe(3);
+    });
+
+    it('should fetch and store a fresh response with "refresh"', async () => {
+      const client = createCachedClient();
+      const cache = client.getCacheProvider()!;
+      const key = client.getCacheKey('profile', { symbol: 'AAPL' });
+      await cache.set(key, [{ symbol: 'stale' }], 60000);
+
+      const fresh = await client.get<{ symbol: string }[]>('profile', {
+        searchParams: { symbol: 'AAPL' },
+        cache: 'refresh',
+      });
+
+      expect(fresh[0]?.symbol).toBe('AAPL');
+      expect(await cache.get(key)).toEqual(fresh);
+      expect(server.requestCount('profile')).toBe(1);
+    });
+
+    it('should not share a cache hit with a "refresh" call', async () => {
+      const client = createCachedClient();
+      const cache = client.getCacheProvider()!;
+      await cache.set(
+        client.getCacheKey('profile', { symbol: 'AAPL' }),
+        [{ symbol: 'stale' }],
+        60000
+      );
+      const options = { searchParams: { symbol: 'AAPL' } };
+
+      const [cached, fresh] = await Promise.all([
+        client.get<{ symbol: string }[]>('profile', options),
+        client.get<{ symbol: string }[]>('profile', {
+          ...options,
+          cache: 'refresh',
+        }),
+      ]);
+
+      expect(cached[0]?.symbol).toBe('stale');
+      expect(fresh[0]?.symbol).toBe('AAPL');
+      expect(server.requestCount('profile')).toBe(1);
+    });
+
+    it('should not share a request with a call that has its own TTL', async () => {
+      server.setLatency(50, 'profile');
+      const client = createCachedClient();
+      const cache = client.getCacheProvider()!;
+      const set = vi.spyOn(cache, 'set');
+      const options = { searchParams: { symbol: 'AAPL' } };
+
+      await Promise.all([
+        client.get('profile', options),
+        client.get('profile', { ...options, ttl: 1234 }),
+      ]);
+
+      expect(server.requestCount('profile')).toBe(2);
+      expect(set).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Array),
+        1234,
+        expect.any(Array)
+      );
+    });
+
+    it('should use the per-call TTL', async () => {
+      const client = createCachedClient();
+      const cache = client.getCacheProvider()!;
+      const set = vi.spyOn(cache, 'set');
+
+      await client.get('profile', {
+        searchParams: { symbol: 'AAPL' },
+        ttl: 1234,
+      });
+
+      expect(set).toHaveBeenCalledWith(
+        client.getCacheKey('profile', { symbol: 'AAPL' }),
+        expect.any(Array),
+        1234,
+        ['symbol:AAPL']
+      );
+    });
+
+    it('should not cache with a per-call TTL of 0', async () => {
+      const client = createCachedClient();
+      const options = { searchParams: { symbol: 'AAPL' }, ttl: 0 };
+
+      await client.get('profile', options);
+      await client.get('profile', options);
+
+      expect(server.requestCount('profile')).toBe(2);
+    });
+  });
+
+  describe('resource methods', () => {
+    it('should pass options through to the client', async () => {
+      server.setLatency(100, 'profile');
+      const fmp = new FMP({ apiKey: 'test-key', baseUrl, retries: 0 });
+
+      await expect(
+        fmp.company.getProfile('AAPL', { timeout: 20 })
+      ).rejects.toBeInstanceOf(FMPTimeoutError);
+    });
+
+    it('should pass options through methods that delegate', async () => {
+      const fmp = new FMP({
+        apiKey: 'test-key',
+        baseUrl,
+        retries: 0,
+        cache: { enabled: true },
+      });
+
+      await fmp.company.search('Apple', 5, undefined, { cache: 'bypass' });
+      await fmp.company.search('Apple', 5, undefined, { cache: 'bypass' });
+
+      expect(server.requestCount('search-symbol')).toBe(2);
+    });
+  });
+});
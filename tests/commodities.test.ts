@@ -51,7 +51,7 @@ describe('CommoditiesResource', () => {
 
       const result = await commodities.getList();
 
-      expect(mockClient.get).toHaveBeenCalledWith('commodities-list');
+      expect(mockClient.get).toHaveBeenCalledWith('commodities-list', undefined);
       expect(result).toEqual(mockData);
       expect(result).toHaveLength(3);
     });
@@ -260,7 +260,7 @@ describe('CommoditiesResource', () => {
 
       const result = await commodities.getAllQuotes();
 
-      expect(mockClient.get).toHaveBeenCalledWith('batch-commodity-quotes');
+      expect(mockClient.get).toHaveBeenCalledWith('batch-commodity-quotes', undefined);
       expect(result).toEqual(mockAllQuotes);
       expect(result).toHaveLength(2);
     });
@@ -271,7 +271,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getSymbolsList();
 
-      expect(mockClient.get).toHaveBeenCalledWith('stock-list');
+      expect(mockClient.get).toHaveBeenCalledWith('stock-list', undefined);
       expect(result).toEqual(mockSymbols);
     });
 
@@ -1142,7 +1142,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getFinancialStatementSymbols();
 
-      expect(mockClient.get).toHaveBeenCalledWith('financial-statement-symbol-list');
+      expect(mockClient.get).toHaveBeenCalledWith('financial-statement-symbol-list', undefined);
       expect(result).toEqual(mockSymbols);
     });
 
@@ -1200,7 +1200,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getSymbolChanges();
 
-      expect(mockClient.get).toHaveBeenCalledWith('symbol-change');
+      expect(mockClient.get).toHaveBeenCalledWith('symbol-change', undefined);
       expect(result).toEqual(mockChanges);
     });
 
@@ -1230,7 +1230,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getETFSymbols();
 
-      expect(mockClient.get).toHaveBeenCalledWith('etf-list');
+      expect(mockClient.get).toHaveBeenCalledWith('etf-list', undefined);
       expect(result).toEqual(mockETFs);
     });
 
@@ -1258,7 +1258,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getActivelyTrading();
 
-      expect(mockClient.get).toHaveBeenCalledWith('actively-trading-list');
+      expect(mockClient.get).toHaveBeenCalledWith('actively-trading-list', undefined);
       expect(result).toEqual(mockTrading);
     });
 
@@ -1286,7 +1286,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getExchanges();
 
-      expect(mockClient.get).toHaveBeenCalledWith('available-exchanges');
+      expect(mockClient.get).toHaveBeenCalledWith('available-exchanges', undefined);
       expect(result).toEqual(mockExchanges);
     });
 
@@ -1311,7 +1311,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getSectors();
 
-      expect(mockClient.get).toHaveBeenCalledWith('available-sectors');
+      expect(mockClient.get).toHaveBeenCalledWith('available-sectors', undefined);
       expect(result).toEqual(mockSectors);
     });
 
@@ -1336,7 +1336,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getIndustries();
 
-      expect(mockClient.get).toHaveBeenCalledWith('available-industries');
+      expect(mockClient.get).toHaveBeenCalledWith('available-industries', undefined);
       expect(result).toEqual(mockIndustries);
     });
 
@@ -1357,7 +1357,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getCountries();
 
-      expect(mockClient.get).toHaveBeenCalledWith('available-countries');
+      expect(mockClient.get).toHaveBeenCalledWith('available-countries', undefined);
       expect(result).toEqual(mockCountries);
     });
 
@@ -1599,7 +1599,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getMutualFundQuotes();
 
-      expect(mockClient.get).toHaveBeenCalledWith('batch-mutualfund-quotes');
+      expect(mockClient.get).toHaveBeenCalledWith('batch-mutualfund-quotes', undefined);
       expect(result).toEqual(mockQuotes);
     });
 
@@ -1623,7 +1623,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getETFQuotes();
 
-      expect(mockClient.get).toHaveBeenCalledWith('batch-etf-quotes');
+      expect(mockClient.get).toHaveBeenCalledWith('batch-etf-quotes', undefined);
       expect(result).toEqual(mockQuotes);
     });
 
@@ -1647,7 +1647,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getCommoditiesQuotes();
 
-      expect(mockClient.get).toHaveBeenCalledWith('batch-commodity-quotes');
+      expect(mockClient.get).toHaveBeenCalledWith('batch-commodity-quotes', undefined);
       expect(result).toEqual(mockQuotes);
     });
 
@@ -1671,7 +1671,7 @@ describe('CompanyResource', () => {
 
       const result = await companyResource.getIndexQuotes();
 
-      expect(mockClient.get).toHaveBeenCalledWith('batch-index-quotes');
+      expect(mockClient.get).toHaveBeenCalledWith('batch-index-quotes', undefined);
       expect(result).toEqual(mockQuotes);
     });
 
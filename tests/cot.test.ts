@@ -297,7 +297,7 @@ describe('COTResource', () => {
 
       const result = await cotResource.getSymbols();
 
-      expect(mockClient.get).toHaveBeenCalledWith('commitment-of-traders-list');
+      expect(mockClient.get).toHaveBeenCalledWith('commitment-of-traders-list', undefined);
       expect(result).toEqual(mockSymbolsData);
     });
 
@@ -307,7 +307,7 @@ describe('COTResource', () => {
       const result = await cotResource.getSymbols();
 
       expect(mockClient.get).toHaveBeenCalledTimes(1);
-      expect(mockClient.get).toHaveBeenCalledWith('commitment-of-traders-list');
+      expect(mockClient.get).toHaveBeenCalledWith('commitment-of-traders-list', undefined);
       expect(result).toHaveLength(4);
     });
 
@@ -499,7 +499,7 @@ describe('EconomicsResource', () => {
 
       const result = await economics.getMarketRiskPremium();
 
-      expect(mockClient.get).toHaveBeenCalledWith('market-risk-premium');
+      expect(mockClient.get).toHaveBeenCalledWith('market-risk-premium', undefined);
       expect(result).toEqual(mockMarketRiskPremiums);
       expect(result).toHaveLength(2);
       expect(result[0]).toHaveProperty('country');
@@ -2,8 +2,20 @@ import { describe, it, expect } from 'vitest';
 import {
   FMPError,
   FMPAPIError,
+  FMPAuthError,
+  FMPSubscriptionError,
+  FMPNotFoundError,
+  FMPRateLimitError,
+  FMPServerError,
+  FMPTimeoutError,
+  FMPNetworkError,
   FMPValidationError,
 } from '../src/index.js';
+import {
+  createAPIError,
+  createErrorFromMessage,
+  parseRetryAfter,
+} from '../src/errors/index.js';
 
 describe('Error Classes', () => {
   describe('FMPError', () => {
@@ -50,6 +62,124 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('status-specific subclasses', () => {
+    const context = {
+      endpoint: 'profile',
+      params: { symbol: 'AAPL' },
+      attempts: 2,
+    };
+
+    it('should extend FMPAPIError and carry request context', () => {
+      const error = new FMPServerError('Oops', 503, 'Unavailable', context);
+      expect(error).toBeInstanceOf(FMPAPIError);
+      expect(error).toBeInstanceOf(FMPServerError);
+      expect(error.name).toBe('FMPServerError');
+      expect(error.status).toBe(503);
+      expect(error.endpoint).toBe('profile');
+      expect(error.params).toEqual({ symbol: 'AAPL' });
+      expect(error.attempts).toBe(2);
+    });
+
+    it('should expose the restricted endpoint on subscription errors', () => {
+      const error = new FMPSubscriptionError(
+        'Restricted Endpoint',
+        402,
+        'Payment Required',
+        context
+      );
+      expect(error.restrictedEndpoint).toBe('profile');
+    });
+
+    it('should default status codes', () => {
+      expect(new FMPAuthError('x').status).toBe(401);
+      expect(new FMPSubscriptionError('x').status).toBe(402);
+      expect(new FMPNotFoundError('x').status).toBe(404);
+      expect(new FMPRateLimitError('x').status).toBe(429);
+      expect(new FMPServerError('x').status).toBe(500);
+      expect(new FMPTimeoutError('x').status).toBeUndefined();
+      expect(new FMPNetworkError('x').status).toBeUndefined();
+    });
+  });
+
+  describe('createAPIError', () => {
+    it.each([
+      [401, FMPAuthError],
+      [402, FMPSubscriptionError],
+      [403, FMPSubscriptionError],
+      [404, FMPNotFoundError],
+      [429, FMPRateLimitError],
+      [500, FMPServerError],
+      [502, FMPServerError],
+    ])('should map status %i to the matching subclass', (status, ErrorClass) => {
+      const error = createAPIError('message', status);
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error.status).toBe(status);
+    });
+
+    it('should fall back to FMPAPIError for other statuses', () => {
+      const error = createAPIError('Bad request', 400, 'Bad Request');
+      expect(error.constructor).toBe(FMPAPIError);
+    });
+
+    it('should parse Retry-After on rate limit errors', () => {
+      const error = createAPIError(
+        'Limit Reach',
+        429,
+        'Too Many Requests',
+        {},
+        new Headers({ 'Retry-After': '30' })
+      ) as FMPRateLimitError;
+      expect(error.retryAfterMs).toBe(30000);
+    });
+  });
+
+  describe('createErrorFromMessage', () => {
+    it('should detect invalid API key messages', () => {
+      const error = createErrorFromMessage(
+        'Invalid API KEY. Feel free to create a Free API Key.',
+        200
+      );
+      expect(error).toBeInstanceOf(FMPAuthError);
+      expect(error.status).toBe(200);
+    });
+
+    it('should detect limit messages', () => {
+      const error = createErrorFromMessage('Limit Reach . Please upgrade', 200);
+      expect(error).toBeInstanceOf(FMPRateLimitError);
+    });
+
+    it('should detect restricted endpoint messages', () => {
+      const error = createErrorFromMessage(
+        'Restricted Endpoint: This endpoint is not available under your current subscription',
+        200
+      );
+      expect(error).toBeInstanceOf(FMPSubscriptionError);
+    });
+
+    it('should fall back to FMPAPIError', () => {
+      const error = createErrorFromMessage('Something else', 200);
+      expect(error.constructor).toBe(FMPAPIError);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds', () => {
+      expect(parseRetryAfter('5')).toBe(5000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const date = new Date(Date.now() + 60000).toUTCString();
+      const ms = parseRetryAfter(date);
+      expect(ms).toBeGreaterThan(55000);
+      expect(ms).toBeLessThanOrEqual(60000);
+    });
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
   describe('FMPValidationError', () => {
     it('should create validation error', () => {
       const error = new FMPValidationError('Invalid input');
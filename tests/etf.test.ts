@@ -509,7 +509,7 @@ describe('ETFResource', () => {
 
       const result = await etfResource.getETFList();
 
-      expect(mockClient.get).toHaveBeenCalledWith('etf-list');
+      expect(mockClient.get).toHaveBeenCalledWith('etf-list', undefined);
       expect(result).toEqual(mockETFList);
     });
 
@@ -540,7 +540,7 @@ describe('ETFResource', () => {
 
       const result = await etfResource.getAvailableMutualFunds();
 
-      expect(mockClient.get).toHaveBeenCalledWith('mutual-fund-list');
+      expect(mockClient.get).toHaveBeenCalledWith('mutual-fund-list', undefined);
       expect(result).toEqual(mockMutualFunds);
     });
 
@@ -574,7 +574,7 @@ describe('ETFResource', () => {
 
       const result = await etfResource.getLatestDisclosures();
 
-      expect(mockClient.get).toHaveBeenCalledWith('funds/disclosure-dates');
+      expect(mockClient.get).toHaveBeenCalledWith('funds/disclosure-dates', undefined);
       expect(result).toEqual(mockDisclosures);
     });
 
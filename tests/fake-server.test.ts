@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { FakeFMPServer, FAKE_COMPANIES } from '../src/testing/index.js';
+import { FMP } from '../src/fmp.js';
+import { Period } from '../src/types/index.js';
+import { IntradayInterval } from '../src/resources/market.js';
+import {
+  FMPAuthError,
+  FMPSubscriptionError,
+  FMPRateLimitError,
+  FMPServerError,
+  FMPNotFoundError,
+  FMPTimeoutError,
+} from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('FakeFMPServer', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createFMP(config: Partial<FMPConfig> = {}) {
+    return new FMP({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      validation: 'strict',
+      ...config,
+    });
+  }
+
+  it('should serve the /stable prefix on a local port', () => {
+    expect(baseUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/stable$/);
+    expect(server.baseUrl).toBe(baseUrl);
+  });
+
+  describe('built-in routes', () => {
+    it('should return profiles that match the SDK types', async () => {
+      const [profile] = await createFMP().company.getProfile('AAPL');
+
+      expect(profile?.symbol).toBe('AAPL');
+      expect(profile?.companyName).toBe('Apple Inc.');
+      expect(server.requests).toEqual([
+        expect.objectContaining({
+          endpoint: 'profile',
+          params: { symbol: 'AAPL' },
+          apiKey: 'test-key',
+        }),
+      ]);
+    });
+
+    it('should return the same data for the same request', async () => {
+      const fmp = createFMP();
+      const first = await fmp.company.getQuote('MSFT');
+      const second = await fmp.company.getQuote('MSFT');
+
+      expect(second).toEqual(first);
+    });
+
+    it('should return batch quotes for every symbol', async () => {
+      const quotes = await createFMP().company.getQuotes(['AAPL', 'MSFT']);
+
+      expect(quotes.map((quote) => quote.symbol)).toEqual(['AAPL', 'MSFT']);
+    });
+
+    it('should return daily prices for the requested range, newest first', async () => {
+      const prices = await createFMP().market.getHistoricalPrices(
+        'AAPL',
+        '2024-01-01',
+        '2024-01-14'
+      );
+
+      expect(prices.map((price) => price.date)).toEqual([
+        '2024-01-12',
+        '2024-01-11',
+        '2024-01-10',
+        '2024-01-09',
+        '2024-01-08',
+        '2024-01-05',
+        '2024-01-04',
+        '2024-01-03',
+        '2024-01-02',
+        '2024-01-01',
+      ]);
+    });
+
+    it('should return intraday bars for path-style endpoints', async () => {
+      const bars = await createFMP().market.getIntradayChart(
+        'AAPL',
+        IntradayInterval.OneHour
+      );
+
+      expect(bars.length).toBeGreaterThan(0);
+      expect(server.requests[0]?.endpoint).toBe('historical-chart/1hour');
+    });
+
+    it('should honor period and limit for income statements', async () => {
+      const statements = await createFMP().financials.getIncomeStatement(
+        'AAPL',
+        Period.Quarter,
+        6
+      );
+
+      expect(statements).toHaveLength(6);
+      expect(statements.map((s) => s.period)).toEqual([
+        'Q4',
+        'Q3',
+        'Q2',
+        'Q1',
+        'Q4',
+        'Q3',
+      ]);
+    });
+
+    it('should filter screener results', async () => {
+      const results = await createFMP().search.screenStocks({
+        sector: 'Technology',
+        limit: 2,
+      });
+
+      expect(results).toHaveLength(2);
+      expect(results.every((result) => result.sector === 'Technology')).toBe(
+        true
+      );
+    });
+
+    it('should serve eod-bulk as CSV', async () => {
+      const prices = await createFMP().bulk.getBatchEODPrices('2024-03-01');
+
+      expect(prices).toHaveLength(FAKE_COMPANIES.length);
+      expect(prices[0]).toMatchObject({ symbol: 'AAPL', date: '2024-03-01' });
+      expect(prices[0]?.close).toBeGreaterThan(0);
+    });
+
+    it('should return 404 for unknown endpoints', async () => {
+      const fmp = createFMP();
+      const error = await fmp.company
+        .getCompanyNotes('AAPL')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FMPNotFoundError);
+    });
+  });
+
+  describe('custom routes', () => {
+    it('should serve routes added with route()', async () => {
+      server.route('company-notes', (request) => ({
+        json: [{ symbol: request.params['symbol'], title: 'Notes' }],
+      }));
+
+      const notes = await createFMP({
+        validation: 'off',
+      }).company.getCompanyNotes('AAPL');
+
+      expect(notes).toEqual([{ symbol: 'AAPL', title: 'Notes' }]);
+    });
+  });
+
+  describe('simulated failures', () => {
+    it('should reject unknown API keys with 401', async () => {
+      const error = await createFMP({ apiKey: 'wrong-key' })
+        .company.getProfile('AAPL')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FMPAuthError);
+    });
+
+    it('should simulate subscription errors', async () => {
+      server.fail('income-statement', { status: 402 });
+
+      const error = await createFMP()
+        .financials.getIncomeStatement('AAPL')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FMPSubscriptionError);
+      expect((error as FMPSubscriptionError).message).toMatch(
+        /Restricted Endpoint/
+      );
+    });
+
+    it('should send Retry-After with simulated 429s', async () => {
+      server.fail('quote', { status: 429, retryAfter: 30 });
+
+      const error = (await createFMP()
+        .company.getQuote('AAPL')
+        .catch((e: unknown) => e)) as FMPRateLimitError;
+
+      expect(error).toBeInstanceOf(FMPRateLimitError);
+      expect(error.retryAfterMs).toBe(30000);
+    });
+
+    it('should recover after the configured number of failures', async () => {
+      server.fail('profile', { status: 500, times: 1 });
+
+      const profiles = await createFMP({ retries: 1 }).company.getProfile(
+        'AAPL'
+      );
+
+      expect(profiles).toHaveLength(1);
+      expect(server.requestCount('profile')).toBe(2);
+    });
+
+    it('should fail every endpoint with the "*" wildcard', async () => {
+      server.fail('*', { status: 503, times: 2 });
+      const fmp = createFMP();
+
+      await expect(fmp.company.getProfile('AAPL')).rejects.toBeInstanceOf(
+        FMPServerError
+      );
+      await expect(fmp.company.getQuote('AAPL')).rejects.toBeInstanceOf(
+        FMPServerError
+      );
+      await expect(fmp.company.getQuote('AAPL')).resolves.toHaveLength(1);
+    });
+
+    it('should serve errors once and then cached data', async () => {
+      const fmp = createFMP({ cache: { enabled: true } });
+      server.fail('profile', { status: 500 });
+
+      await expect(fmp.company.getProfile('AAPL')).rejects.toBeInstanceOf(
+        FMPServerError
+      );
+      await fmp.company.getProfile('AAPL');
+      await fmp.company.getProfile('AAPL');
+
+      expect(server.requestCount('profile')).toBe(2);
+    });
+
+    it('should simulate latency', async () => {
+      server.setLatency(200, 'quote');
+
+      const error = await createFMP({ timeout: 50 })
+        .company.getQuote('AAPL')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FMPTimeoutError);
+    });
+  });
+});
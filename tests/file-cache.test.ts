@@ -0,0 +1,239 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCacheProvider } from '../src/cache/file.js';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('FileCacheProvider', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fmp-file-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should store and return values', async () => {
+    const provider = new FileCacheProvider({ dir });
+
+    await provider.set('income-statement?symbol=AAPL', [{ revenue: 1 }], 60000);
+
+    expect(await provider.get('income-statement?symbol=AAPL')).toEqual([
+      { revenue: 1 },
+    ]);
+    expect(await provider.has('income-statement?symbol=AAPL')).toBe(true);
+    expect(await provider.get('missing')).toBeUndefined();
+  });
+
+  it('should keep entries across instances', async () => {
+    await new FileCacheProvider({ dir }).set('key', { data: 'test' }, 60000);
+
+    expect(await new FileCacheProvider({ dir }).get('key')).toEqual({
+      data: 'test',
+    });
+  });
+
+  it('should create missing directories', async () => {
+    const provider = new FileCacheProvider({ dir: join(dir, 'a', 'b') });
+
+    await provider.set('key', 1, 60000);
+
+    expect(await provider.get('key')).toBe(1);
+  });
+
+  it('should expire entries and delete their files', async () => {
+    const provider = new FileCacheProvider({ dir });
+    await provider.set('key', 'value', 10);
+
+    await sleep(20);
+
+    expect(await provider.get('key')).toBeUndefined();
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should return expired entries when asked, without deleting them', async () => {
+    const provider = new FileCacheProvider({ dir });
+    await provider.set('key', 'value', 10);
+
+    await sleep(20);
+
+    expect(
+      await provider.getEntry('key', { includeExpired: true })
+    ).toMatchObject({ value: 'value', ttl: 10 });
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it('should return entries with their creation time, TTL and tags', async () => {
+    const provider = new FileCacheProvider({ dir });
+    const before = Date.now();
+
+    await provider.set('key', 'value', 60000, ['symbol:AAPL']);
+    const entry = await provider.getEntry('key');
+
+    expect(entry).toMatchObject({
+      value: 'value',
+      ttl: 60000,
+      tags: ['symbol:AAPL'],
+    });
+    expect(entry!.createdAt).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should delete and clear entries', async () => {
+    const provider = new FileCacheProvider({ dir });
+    await provider.set('a', 1, 60000);
+    await provider.set('b', 2, 60000);
+    await writeFile(join(dir, 'notes.txt'), 'keep me');
+
+    expect(await provider.delete('a')).toBe(true);
+    expect(await provider.delete('a')).toBe(false);
+    await provider.clear();
+
+    expect(await provider.get('b')).toBeUndefined();
+    expect(await readdir(dir)).toEqual(['notes.txt']);
+  });
+
+  it('should treat unreadable files as misses', async () => {
+    const provider = new FileCacheProvider({ dir });
+    await provider.set('key', 'value', 60000);
+    const [name] = await readdir(dir);
+    await writeFile(join(dir, name!), '{"key":');
+
+    expect(await provider.get('key')).toBeUndefined();
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('should leave no temporary files behind concurrent writes', async () => {
+    const first = new FileCacheProvider({ dir });
+    const second = new FileCacheProvider({ dir });
+    const payload = Array.from({ length: 1000 }, (_, i) => ({ i }));
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (i % 2 ? first : second).set('bulk', payload, 60000)
+      )
+    );
+
+    expect(await readdir(dir)).toHaveLength(1);
+    expect(await first.get('bulk')).toEqual(payload);
+  });
+
+  it('should invalidate entries carrying all tags', async () => {
+    const provider = new FileCacheProvider({ dir });
+    await provider.set('a', 1, 60000, ['symbol:AAPL', 'resource:company']);
+    await provider.set('b', 2, 60000, ['symbol:AAPL']);
+    await provider.set('c', 3, 60000);
+
+    expect(
+      await provider.invalidateTags(['symbol:AAPL', 'resource:company'])
+    ).toBe(1);
+    expect(await provider.invalidateTags(['symbol:AAPL'])).toBe(1);
+    expect(await provider.invalidateTags([])).toBe(0);
+    expect(await provider.get('c')).toBe(3);
+  });
+
+  describe('prune', () => {
+    it('should remove expired entries', async () => {
+      const provider = new FileCacheProvider({ dir });
+      await provider.set('old', 1, 10);
+      await provider.set('new', 2, 60000);
+
+      await sleep(20);
+
+      expect(await provider.prune()).toBe(1);
+      expect(await readdir(dir)).toHaveLength(1);
+    });
+
+    it('should evict the entries closest to expiry over maxEntries', async () => {
+      const provider = new FileCacheProvider({ dir, maxEntries: 2 });
+      await provider.set('a', 1, 30000);
+      await provider.set('b', 2, 10000);
+      await provider.set('c', 3, 20000);
+
+      expect(await provider.prune()).toBe(1);
+      expect(await provider.has('a')).toBe(true);
+      expect(await provider.has('b')).toBe(false);
+      expect(await provider.has('c')).toBe(true);
+    });
+
+    it('should evict entries over maxBytes', async () => {
+      const provider = new FileCacheProvider({ dir, maxBytes: 1500 });
+      await provider.set('a', 'x'.repeat(1000), 10000);
+      await provider.set('b', 'x'.repeat(1000), 20000);
+
+      expect(await provider.prune()).toBe(1);
+      expect(await provider.has('a')).toBe(false);
+      expect(await provider.has('b')).toBe(true);
+    });
+
+    it('should run every pruneInterval writes', async () => {
+      const provider = new FileCacheProvider({
+        dir,
+        maxEntries: 1,
+        pruneInterval: 2,
+      });
+
+      await provider.set('a', 1, 10000);
+      await provider.set('b', 2, 20000);
+
+      expect(await readdir(dir)).toHaveLength(1);
+      expect(await provider.get('b')).toBe(2);
+    });
+  });
+
+  it('should reject limits that are not positive', () => {
+    expect(() => new FileCacheProvider({ dir, maxEntries: 0 })).toThrow(
+      RangeError
+    );
+    expect(() => new FileCacheProvider({ dir, maxBytes: -1 })).toThrow(
+      RangeError
+    );
+  });
+});
+
+describe('FMPClient with a file cache', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+  let dir: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+    dir = await mkdtemp(join(tmpdir(), 'fmp-file-cache-'));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serve responses cached by an earlier client', async () => {
+    const createClient = () =>
+      new FMPClient({
+        apiKey: 'test-key',
+        baseUrl,
+        cache: { enabled: true, provider: new FileCacheProvider({ dir }) },
+      });
+    const params = { searchParams: { symbol: 'AAPL' } };
+
+    const first = await createClient().get('profile', params);
+    const second = await createClient().get('profile', params);
+
+    expect(second).toEqual(first);
+    expect(server.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FixtureTransport, fixtureKey } from '../src/fixtures/index.js';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { FMPFixtureError, FMPNotFoundError } from '../src/errors/index.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('fixtureKey', () => {
+  it('should build keys from the endpoint and sorted params', () => {
+    expect(fixtureKey('profile', { symbol: 'AAPL' })).toBe(
+      'profile?symbol=AAPL'
+    );
+    expect(fixtureKey('income-statement', { symbol: 'AAPL', limit: '5' })).toBe(
+      'income-statement?limit=5&symbol=AAPL'
+    );
+    expect(fixtureKey('available-sectors')).toBe('available-sectors');
+  });
+});
+
+describe('FixtureTransport', () => {
+  it('should map requests to files below the fixture directory', () => {
+    const transport = new FixtureTransport({ mode: 'replay', dir: '/fx' });
+
+    expect(transport.pathFor('profile', { symbol: 'AAPL' })).toBe(
+      join('/fx', 'profile', 'symbol=AAPL.json')
+    );
+    expect(transport.pathFor('historical-chart/5min', { symbol: 'AAPL' })).toBe(
+      join('/fx', 'historical-chart', '5min', 'symbol=AAPL.json')
+    );
+    expect(transport.pathFor('available-sectors')).toBe(
+      join('/fx', 'available-sectors', 'index.json')
+    );
+  });
+
+  it('should keep paths inside the fixture directory', () => {
+    const transport = new FixtureTransport({ mode: 'replay', dir: '/fx' });
+
+    expect(transport.pathFor('../profile', { symbol: '../../etc' })).toMatch(
+      /^\/fx\/profile\/symbol=\.\._\.\._etc-[0-9a-f]{12}\.json$/
+    );
+  });
+
+  it('should keep queries that differ only in replaced characters apart', () => {
+    const transport = new FixtureTransport({ mode: 'replay', dir: '/fx' });
+
+    expect(transport.pathFor('quote', { symbol: '^GSPC' })).not.toBe(
+      transport.pathFor('quote', { symbol: '_GSPC' })
+    );
+    expect(
+      transport.pathFor('historical-price-eod/full', { from: '2024-01-01' })
+    ).not.toBe(
+      transport.pathFor('historical-price-eod/full', { from: '2024/01/01' })
+    );
+    expect(transport.pathFor('quote', { symbol: '_GSPC' })).toBe(
+      join('/fx', 'quote', 'symbol=_GSPC.json')
+    );
+  });
+
+  it('should shorten very long file names with a hash', () => {
+    const transport = new FixtureTransport({ mode: 'replay', dir: '/fx' });
+    const symbols = Array.from({ length: 100 }, (_, i) => `SYM${i}`).join(',');
+
+    const a = transport.pathFor('batch-quote', { symbols });
+    const b = transport.pathFor('batch-quote', { symbols: `${symbols},X` });
+
+    expect(a.length).toBeLessThan(200);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('FMPClient fixtures', () => {
+  const fetchMock = vi.fn();
+  let dir: string;
+
+  beforeEach(async () => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    dir = await mkdtemp(join(tmpdir(), 'fmp-fixtures-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should record responses without the API key', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ symbol: 'AAPL' }]));
+    const client = new FMPClient({
+      apiKey: 'secret-key',
+      retries: 0,
+      fixtures: { mode: 'record', dir },
+    });
+
+    const data = await client.get('profile', {
+      searchParams: { symbol: 'AAPL' },
+    });
+
+    expect(data).toEqual([{ symbol: 'AAPL' }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const file = await readFile(
+      join(dir, 'profile', 'symbol=AAPL.json'),
+      'utf8'
+    );
+    expect(file).not.toContain('secret-key');
+    expect(JSON.parse(file)).toEqual({
+      endpoint: 'profile',
+      params: { symbol: 'AAPL' },
+      status: 200,
+      statusText: '',
+      headers: { 'content-type': 'application/json' },
+      body: [{ symbol: 'AAPL' }],
+    });
+  });
+
+  it('should replay recorded responses without the network', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ symbol: 'AAPL', price: 1 }]));
+    const recorder = new FMPClient({
+      apiKey: 'secret-key',
+      retries: 0,
+      fixtures: { mode: 'record', dir },
+    });
+    await recorder.get('quote', { searchParams: { symbol: 'AAPL' } });
+    fetchMock.mockReset();
+
+    const client = new FMPClient({
+      apiKey: 'other-key',
+      retries: 0,
+      fixtures: { mode: 'replay', dir },
+    });
+    const data = await client.get('quote', {
+      searchParams: { symbol: 'AAPL' },
+    });
+
+    expect(data).toEqual([{ symbol: 'AAPL', price: 1 }]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should match fixtures regardless of param order', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([]));
+    const recorder = new FMPClient({
+      apiKey: 'secret-key',
+      fixtures: { mode: 'record', dir },
+    });
+    await recorder.get('income-statement', {
+      searchParams: { symbol: 'AAPL', limit: 5 },
+    });
+
+    const client = new FMPClient({
+      apiKey: 'secret-key',
+      fixtures: { mode: 'replay', dir },
+    });
+    await expect(
+      client.get('income-statement', {
+        searchParams: { limit: 5, symbol: 'AAPL' },
+      })
+    ).resolves.toEqual([]);
+  });
+
+  it('should replay recorded error responses', async () => {
+    fetchMock.mockResolvedValue(new Response('Not found', { status: 404 }));
+    const recorder = new FMPClient({
+      apiKey: 'secret-key',
+      retries: 0,
+      fixtures: { mode: 'record', dir },
+    });
+    await recorder
+      .get('profile', { searchParams: { symbol: 'NOPE' } })
+      .catch(() => undefined);
+
+    const client = new FMPClient({
+      apiKey: 'secret-key',
+      retries: 0,
+      fixtures: { mode: 'replay', dir },
+    });
+    const error = await client
+      .get('profile', { searchParams: { symbol: 'NOPE' } })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FMPNotFoundError);
+    expect((error as FMPNotFoundError).message).toBe('Not found');
+  });
+
+  it('should replay text responses', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('symbol,price\nAAPL,1', {
+        headers: { 'Content-Type': 'text/csv' },
+      })
+    );
+    const recorder = new FMPClient({
+      apiKey: 'secret-key',
+      fixtures: { mode: 'record', dir },
+    });
+    await recorder.getText('eod-bulk', {
+      searchParams: { date: '2024-01-02' },
+    });
+
+    const client = new FMPClient({
+      apiKey: 'secret-key',
+      fixtures: { mode: 'replay', dir },
+    });
+    await expect(
+      client.getText('eod-bulk', { searchParams: { date: '2024-01-02' } })
+    ).resolves.toBe('symbol,price\nAAPL,1');
+  });
+
+  it('should fail loudly when a fixture is missing', async () => {
+    const client = new FMPClient({
+      apiKey: 'secret-key',
+      retries: 3,
+      fixtures: { mode: 'replay', dir },
+    });
+
+    const error = (await client
+      .get('profile', { searchParams: { symbol: 'MSFT' } })
+      .catch((e: unknown) => e)) as FMPFixtureError;
+
+    expect(error).toBeInstanceOf(FMPFixtureError);
+    expect(error.key).toBe('profile?symbol=MSFT');
+    expect(error.path).toBe(join(dir, 'profile', 'symbol=MSFT.json'));
+    expect(error.message).toMatch(
+      /No fixture recorded for "profile\?symbol=MSFT"/
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should use the network in passthrough mode', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([]));
+    const client = new FMPClient({
+      apiKey: 'secret-key',
+      fixtures: { mode: 'passthrough', dir },
+    });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run resource methods offline through the FMP instance', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ symbol: 'AAPL' }]));
+    const recorder = new FMP({
+      apiKey: 'secret-key',
+      fixtures: { mode: 'record', dir },
+    });
+    await recorder.company.getProfile('AAPL');
+    fetchMock.mockReset();
+
+    const fmp = new FMP({
+      apiKey: 'replay',
+      fixtures: { mode: 'replay', dir },
+    });
+    await expect(fmp.company.getProfile('AAPL')).resolves.toEqual([
+      { symbol: 'AAPL' },
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
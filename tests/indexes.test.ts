@@ -51,7 +51,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getSP500Constituents();
 
-        expect(mockClient.get).toHaveBeenCalledWith('sp500-constituent');
+        expect(mockClient.get).toHaveBeenCalledWith('sp500-constituent', undefined);
         expect(result).toEqual(mockConstituents);
         expect(result).toHaveLength(2);
         expect(result[0].symbol).toBe('AAPL');
@@ -86,7 +86,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getNASDAQConstituents();
 
-        expect(mockClient.get).toHaveBeenCalledWith('nasdaq-constituent');
+        expect(mockClient.get).toHaveBeenCalledWith('nasdaq-constituent', undefined);
         expect(result).toEqual(mockConstituents);
         expect(result[0].symbol).toBe('GOOGL');
       });
@@ -111,7 +111,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getDowJonesConstituents();
 
-        expect(mockClient.get).toHaveBeenCalledWith('dowjones-constituent');
+        expect(mockClient.get).toHaveBeenCalledWith('dowjones-constituent', undefined);
         expect(result).toEqual(mockConstituents);
         expect(result[0].symbol).toBe('GS');
       });
@@ -137,7 +137,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getHistoricalSP500();
 
-        expect(mockClient.get).toHaveBeenCalledWith('historical-sp500-constituent');
+        expect(mockClient.get).toHaveBeenCalledWith('historical-sp500-constituent', undefined);
         expect(result).toEqual(mockHistorical);
         expect(result[0].addedSecurity).toBe('VLTO');
       });
@@ -161,7 +161,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getHistoricalNASDAQ();
 
-        expect(mockClient.get).toHaveBeenCalledWith('historical-nasdaq-constituent');
+        expect(mockClient.get).toHaveBeenCalledWith('historical-nasdaq-constituent', undefined);
         expect(result).toEqual(mockHistorical);
       });
     });
@@ -184,7 +184,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getHistoricalDowJones();
 
-        expect(mockClient.get).toHaveBeenCalledWith('historical-dowjones-constituent');
+        expect(mockClient.get).toHaveBeenCalledWith('historical-dowjones-constituent', undefined);
         expect(result).toEqual(mockHistorical);
       });
     });
@@ -403,7 +403,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getAllQuotes();
 
-        expect(mockClient.get).toHaveBeenCalledWith('batch-index-quotes');
+        expect(mockClient.get).toHaveBeenCalledWith('batch-index-quotes', undefined);
         expect(result).toEqual(mockQuotes);
         expect(result).toHaveLength(2);
       });
@@ -441,7 +441,7 @@ describe('IndexesResource', () => {
 
         const result = await indexesResource.getList();
 
-        expect(mockClient.get).toHaveBeenCalledWith('index-list');
+        expect(mockClient.get).toHaveBeenCalledWith('index-list', undefined);
         expect(result).toEqual(mockList);
         expect(result).toHaveLength(3);
       });
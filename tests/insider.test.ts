@@ -436,7 +436,7 @@ describe('InsiderResource', () => {
 
       const result = await insiderResource.getLatestSenateTrades();
 
-      expect(mockClient.get).toHaveBeenCalledWith('senate-trading-rss-feed');
+      expect(mockClient.get).toHaveBeenCalledWith('senate-trading-rss-feed', undefined);
       expect(result).toEqual(mockResponse);
     });
 
@@ -446,7 +446,7 @@ describe('InsiderResource', () => {
 
       await insiderResource.getLatestSenateTrades();
 
-      expect(mockClient.get).toHaveBeenCalledWith('senate-trading-rss-feed');
+      expect(mockClient.get).toHaveBeenCalledWith('senate-trading-rss-feed', undefined);
       expect(mockClient.get).toHaveBeenCalledTimes(1);
     });
   });
@@ -458,7 +458,7 @@ describe('InsiderResource', () => {
 
       const result = await insiderResource.getLatestHouseTrades();
 
-      expect(mockClient.get).toHaveBeenCalledWith('house-disclosure-rss-feed');
+      expect(mockClient.get).toHaveBeenCalledWith('house-disclosure-rss-feed', undefined);
       expect(result).toEqual(mockResponse);
     });
 
@@ -468,7 +468,7 @@ describe('InsiderResource', () => {
 
       await insiderResource.getLatestHouseTrades();
 
-      expect(mockClient.get).toHaveBeenCalledWith('house-disclosure-rss-feed');
+      expect(mockClient.get).toHaveBeenCalledWith('house-disclosure-rss-feed', undefined);
       expect(mockClient.get).toHaveBeenCalledTimes(1);
     });
   });
@@ -655,7 +655,8 @@ describe('InsiderResource', () => {
       const result = await insiderResource.getInsiderTransactionTypes();
 
       expect(mockClient.get).toHaveBeenCalledWith(
-        'insider-trading-transaction-type'
+        'insider-trading-transaction-type',
+        undefined
       );
       expect(result).toEqual(mockResponse);
     });
@@ -667,7 +668,8 @@ describe('InsiderResource', () => {
       await insiderResource.getInsiderTransactionTypes();
 
       expect(mockClient.get).toHaveBeenCalledWith(
-        'insider-trading-transaction-type'
+        'insider-trading-transaction-type',
+        undefined
       );
       expect(mockClient.get).toHaveBeenCalledTimes(1);
     });
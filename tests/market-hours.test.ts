@@ -0,0 +1,300 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { CacheTTL, MarketHoursPolicy } from '../src/cache/index.js';
+import type {
+  MarketCalendarSource,
+  MarketHoursConfig,
+} from '../src/cache/index.js';
+import type { MarketHoliday, MarketHours } from '../src/types/index.js';
+
+const hours: MarketHours[] = [
+  {
+    stockExchangeName: 'New York Stock Exchange',
+    stockMarketHours: { openingHour: '09:30:00', closingHour: '16:00:00' },
+    stockMarketHolidays: ['2026-11-26'],
+    isTheStockMarketOpen: false,
+    isTheEuronextMarketOpen: false,
+    isTheForexMarketOpen: true,
+    isTheCryptoMarketOpen: true,
+  },
+];
+
+const holidays: MarketHoliday[] = [
+  {
+    year: 2026,
+    'New Years Day': '2026-01-01',
+    'Martin Luther King, Jr. Day': '2026-01-19',
+    "Washington's Birthday": '2026-02-16',
+    'Good Friday': '2026-04-03',
+    'Memorial Day': '2026-05-25',
+    'Independence Day': '2026-07-03',
+    'Labor Day': '2026-09-07',
+    'Thanksgiving Day': '2026-11-26',
+    Christmas: '2026-12-25',
+  },
+];
+
+function createSource(
+  marketHours: MarketHours[] = hours
+): MarketCalendarSource {
+  return {
+    getMarketHours: vi.fn(async () => marketHours),
+    getMarketHolidays: vi.fn(async () => holidays),
+  };
+}
+
+async function createPolicy(source = createSource()) {
+  const policy = new MarketHoursPolicy(source);
+  await policy.ready(0);
+  return policy;
+}
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('MarketHoursPolicy', () => {
+  it('should keep TTLs during the session', async () => {
+    const policy = await createPolicy();
+    const now = at('2026-10-19T14:00:00Z'); // Monday 10:00 ET
+
+    expect(policy.state(now)).toBe('open');
+    expect(policy.ttl(CacheTTL.SHORT, now)).toBe(CacheTTL.SHORT);
+  });
+
+  it('should cache until the next open after the close', async () => {
+    const policy = await createPolicy();
+    const now = at('2026-10-19T21:00:00Z'); // Monday 17:00 ET
+
+    expect(policy.state(now)).toBe('closed');
+    expect(policy.nextOpen(now)).toBe(at('2026-10-20T13:30:00Z'));
+    expect(policy.ttl(CacheTTL.NONE, now)).toBe(16.5 * 60 * 60 * 1000);
+  });
+
+  it('should cache until the open before the session', async () => {
+    const policy = await createPolicy();
+
+    expect(policy.nextOpen(at('2026-10-19T12:00:00Z'))).toBe(
+      at('2026-10-19T13:30:00Z')
+    );
+  });
+
+  it('should skip weekends and holidays', async () => {
+    const policy = await createPolicy();
+
+    // Friday evening
+    expect(policy.nextOpen(at('2026-10-23T21:00:00Z'))).toBe(
+      at('2026-10-26T13:30:00Z')
+    );
+    // Thanksgiving, from the market hours
+    expect(policy.nextOpen(at('2026-11-25T22:00:00Z'))).toBe(
+      at('2026-11-27T14:30:00Z')
+    );
+    // Christmas, from the holiday list
+    expect(policy.state(at('2026-12-25T15:00:00Z'))).toBe('closed');
+    expect(policy.nextOpen(at('2026-12-24T22:00:00Z'))).toBe(
+      at('2026-12-28T14:30:00Z')
+    );
+  });
+
+  it('should follow daylight saving changes', async () => {
+    const policy = await createPolicy();
+
+    // Clocks go back on Sunday, November 1
+    expect(policy.nextOpen(at('2026-10-30T21:00:00Z'))).toBe(
+      at('2026-11-02T14:30:00Z')
+    );
+  });
+
+  it('should read 12-hour clock times', async () => {
+    const policy = await createPolicy(
+      createSource([
+        {
+          ...hours[0]!,
+          stockMarketHours: { openingHour: '9:30 AM', closingHour: '4:00 PM' },
+        },
+      ])
+    );
+
+    expect(policy.state(at('2026-10-19T19:59:00Z'))).toBe('open');
+    expect(policy.state(at('2026-10-19T20:00:00Z'))).toBe('closed');
+  });
+
+  it('should leave TTLs unchanged until the calendar is loaded', () => {
+    const policy = new MarketHoursPolicy(createSource());
+    const now = at('2026-10-24T12:00:00Z'); // Saturday
+
+    expect(policy.state(now)).toBe('unknown');
+    expect(policy.ttl(CacheTTL.SHORT, now)).toBe(CacheTTL.SHORT);
+  });
+
+  it('should load the calendar once for concurrent calls', async () => {
+    const source = createSource();
+    const policy = new MarketHoursPolicy(source);
+
+    await Promise.all([policy.ready(0), policy.ready(0)]);
+    await policy.ready(1000);
+
+    expect(source.getMarketHours).toHaveBeenCalledTimes(1);
+    expect(source.getMarketHours).toHaveBeenCalledWith('NYSE');
+  });
+
+  it('should retry a failed load after a minute', async () => {
+    const source = createSource();
+    vi.mocked(source.getMarketHours).mockRejectedValueOnce(new Error('down'));
+    const policy = new MarketHoursPolicy(source);
+
+    await policy.ready(0);
+    await policy.ready(30000);
+    expect(policy.state()).toBe('unknown');
+
+    await policy.ready(60000);
+    expect(policy.state()).not.toBe('unknown');
+    expect(source.getMarketHours).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never apply to the calendar endpoints', () => {
+    const policy = new MarketHoursPolicy(createSource(), {
+      endpoints: ['/.*/'],
+    });
+
+    expect(policy.applies('quote')).toBe(true);
+    expect(policy.applies('exchange-market-hours')).toBe(false);
+    expect(policy.applies('holidays-by-exchange')).toBe(false);
+  });
+
+  it('should apply to market data endpoints by default', () => {
+    const policy = new MarketHoursPolicy(createSource());
+
+    expect(policy.applies('quote')).toBe(true);
+    expect(policy.applies('historical-chart/5min')).toBe(true);
+    expect(policy.applies('profile')).toBe(false);
+    expect(
+      new MarketHoursPolicy(createSource(), { endpoints: ['profile'] }).applies(
+        'quote'
+      )
+    ).toBe(false);
+  });
+
+  it('should not apply to crypto, forex and commodity methods', () => {
+    const policy = new MarketHoursPolicy(createSource());
+
+    expect(policy.applies('quote', {}, 'company.getQuote')).toBe(true);
+    expect(policy.applies('quote', {}, 'market.getCryptoPrice')).toBe(false);
+    expect(policy.applies('quote', {}, 'market.getForexPrice')).toBe(false);
+    expect(policy.applies('quote', {}, 'commodities.getQuote')).toBe(false);
+  });
+});
+
+describe('FMPClient market hours', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server.route('exchange-market-hours', () => ({ json: hours }));
+    server.route('holidays-by-exchange', () => ({ json: holidays }));
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+    vi.useRealTimers();
+  });
+
+  function createClient(marketHours: MarketHoursConfig = {}) {
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      cache: { enabled: true, marketHours },
+    });
+  }
+
+  const quote = { searchParams: { symbol: 'AAPL' } };
+
+  it('should cache quotes while the market is closed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-24T15:00:00Z')); // Saturday
+    const client = createClient();
+
+    await client.get('quote', quote);
+    await client.get('quote', quote);
+
+    expect(server.requestCount('quote')).toBe(1);
+    expect(server.requestCount('exchange-market-hours')).toBe(1);
+    expect(client.explainTTL('quote', quote)).toMatchObject({
+      market: 'closed',
+      ttl: at('2026-10-26T13:30:00Z') - Date.now(),
+    });
+  });
+
+  it('should not cache quotes during the session', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T15:00:00Z'));
+    const client = createClient();
+
+    await client.get('quote', quote);
+    await client.get('quote', quote);
+
+    expect(server.requestCount('quote')).toBe(2);
+    expect(client.explainTTL('quote', quote)).toMatchObject({
+      market: 'open',
+      ttl: CacheTTL.NONE,
+      cached: false,
+    });
+  });
+
+  it('should load the calendar with a catch-all pattern', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-24T15:00:00Z')); // Saturday
+    const client = createClient({ endpoints: ['/.*/'] });
+
+    await client.get('quote', quote);
+    await client.get('quote', quote);
+
+    expect(server.requestCount('quote')).toBe(1);
+    expect(server.requestCount('exchange-market-hours')).toBe(1);
+    expect(client.explainTTL('exchange-market-hours').market).toBeUndefined();
+  });
+
+  it('should not cache crypto and forex quotes while the market is closed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-24T15:00:00Z')); // Saturday
+    const fmp = new FMP({
+      apiKey: 'test-key',
+      baseUrl,
+      cache: { enabled: true, marketHours: {} },
+    });
+
+    await fmp.market.getCryptoPrice('BTCUSD');
+    await fmp.market.getCryptoPrice('BTCUSD');
+    await fmp.market.getForexPrice('EURUSD');
+    await fmp.market.getForexPrice('EURUSD');
+    await fmp.company.getQuote('AAPL');
+    await fmp.company.getQuote('AAPL');
+
+    // Only the stock quote is kept until the next open
+    expect(server.requestCount('quote')).toBe(5);
+    expect(fmp.explainTTL('quote', quote).market).toBe('closed');
+  });
+
+  it('should not load the calendar for other endpoints', async () => {
+    const client = createClient();
+
+    await client.get('profile', quote);
+
+    expect(server.requestCount('exchange-market-hours')).toBe(0);
+    expect(client.explainTTL('profile').market).toBeUndefined();
+  });
+});
@@ -289,7 +289,7 @@ describe('MarketResource', () => {
 
       const result = await marketResource.getAllForexPrices();
 
-      expect(mockClient.get).toHaveBeenCalledWith('batch-forex-quotes');
+      expect(mockClient.get).toHaveBeenCalledWith('batch-forex-quotes', undefined);
       expect(result).toEqual(mockForexData);
     });
   });
@@ -425,7 +425,7 @@ describe('MarketResource', () => {
 
       const result = await marketResource.getAllCryptoPrices();
 
-      expect(mockClient.get).toHaveBeenCalledWith('batch-crypto-quotes');
+      expect(mockClient.get).toHaveBeenCalledWith('batch-crypto-quotes', undefined);
       expect(result).toEqual(mockCryptoData);
     });
   });
@@ -519,7 +519,7 @@ describe('MarketResource', () => {
 
       const result = await marketResource.getAllMarketHours();
 
-      expect(mockClient.get).toHaveBeenCalledWith('all-exchange-market-hours');
+      expect(mockClient.get).toHaveBeenCalledWith('all-exchange-market-hours', undefined);
       expect(result).toEqual(mockAllMarketHours);
     });
   });
@@ -540,7 +540,7 @@ describe('MarketResource', () => {
 
       const result = await marketResource.getForexCurrencyPairs();
 
-      expect(mockClient.get).toHaveBeenCalledWith('forex-list');
+      expect(mockClient.get).toHaveBeenCalledWith('forex-list', undefined);
       expect(result).toEqual(mockPairs);
     });
   });
@@ -698,7 +698,7 @@ describe('MarketResource', () => {
 
       const result = await marketResource.getCryptoList();
 
-      expect(mockClient.get).toHaveBeenCalledWith('cryptocurrency-list');
+      expect(mockClient.get).toHaveBeenCalledWith('cryptocurrency-list', undefined);
       expect(result).toEqual(mockCryptoList);
     });
   });
@@ -0,0 +1,339 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { composeMiddleware } from '../src/middleware/index.js';
+import type { Middleware } from '../src/middleware/index.js';
+import {
+  FMPNotFoundError,
+  FMPServerError,
+  FMPSchemaError,
+} from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('composeMiddleware', () => {
+  it('should run middleware outermost first', async () => {
+    const calls: string[] = [];
+    const track =
+      (name: string): Middleware =>
+      async (_ctx, next) => {
+        calls.push(`${name}:before`);
+        const response = await next();
+        calls.push(`${name}:after`);
+        return response;
+      };
+    const handler = composeMiddleware([track('a'), track('b')], async () => {
+      calls.push('handler');
+      return new Response('ok');
+    });
+
+    await handler({} as Parameters<typeof handler>[0]);
+
+    expect(calls).toEqual([
+      'a:before',
+      'b:before',
+      'handler',
+      'b:after',
+      'a:after',
+    ]);
+  });
+});
+
+describe('FMPClient middleware', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () =>
+      jsonResponse([{ symbol: 'AAPL' }])
+    );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({ apiKey: 'test-key', retries: 0, ...config });
+  }
+
+  function sentRequest(index = 0): Request {
+    return fetchMock.mock.calls[index]![0] as Request;
+  }
+
+  it('should expose the endpoint, params and URL without the API key', async () => {
+    let seen: { endpoint: string; params: unknown; url: string } | undefined;
+    const client = createClient({
+      middleware: [
+        async (ctx, next) => {
+          seen = { endpoint: ctx.endpoint, params: ctx.params, url: ctx.url };
+          return next();
+        },
+      ],
+    });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    expect(seen).toEqual({
+      endpoint: 'profile',
+      params: { symbol: 'AAPL' },
+      url: 'https://financialmodelingprep.com/stable/profile?symbol=AAPL',
+    });
+  });
+
+  it('should rewrite the endpoint, params and headers', async () => {
+    const client = createClient({
+      middleware: [
+        async (ctx, next) => {
+          ctx.endpoint = 'quote';
+          ctx.params.symbol = 'MSFT';
+          ctx.headers.set('X-Request-Source', 'worker');
+          return next();
+        },
+      ],
+    });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    const url = new URL(sentRequest().url);
+    expect(url.pathname).toBe('/stable/quote');
+    expect(url.searchParams.get('symbol')).toBe('MSFT');
+    expect(url.searchParams.get('apikey')).toBe('test-key');
+    expect(sentRequest().headers.get('X-Request-Source')).toBe('worker');
+  });
+
+  it('should short-circuit with a synthetic response', async () => {
+    const client = createClient({
+      middleware: [async () => Response.json([{ symbol: 'STUB' }])],
+    });
+
+    const data = await client.get('profile', {
+      searchParams: { symbol: 'AAPL' },
+    });
+
+    expect(data).toEqual([{ symbol: 'STUB' }]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should transform parsed JSON', async () => {
+    const client = createClient({
+      middleware: [
+        async (_ctx, next) => {
+          const response = await next();
+          const rows = (await response.json()) as { symbol: string }[];
+          return Response.json(
+            rows.map((row) => ({ ...row, symbol: row.symbol.toLowerCase() }))
+          );
+        },
+      ],
+    });
+
+    await expect(client.get('quote')).resolves.toEqual([{ symbol: 'aapl' }]);
+  });
+
+  it('should recover from typed API errors', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse('Not Found', 404));
+    const client = createClient({
+      middleware: [
+        async (_ctx, next) => {
+          try {
+            return await next();
+          } catch (error) {
+            if (error instanceof FMPNotFoundError) return Response.json([]);
+            throw error;
+          }
+        },
+      ],
+    });
+
+    await expect(client.get('company-notes')).resolves.toEqual([]);
+  });
+
+  it('should pass errors it does not handle through', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse('boom', 500));
+    const client = createClient({
+      middleware: [async (_ctx, next) => next()],
+    });
+
+    await expect(client.get('quote')).rejects.toBeInstanceOf(FMPServerError);
+  });
+
+  it('should cache the response returned by middleware', async () => {
+    const middleware = vi.fn<Middleware>(async (_ctx, next) => next());
+    const client = createClient({
+      middleware: [middleware],
+      cache: { enabled: true },
+    });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run middleware for text requests', async () => {
+    fetchMock.mockImplementation(async () => new Response('a,b\n1,2'));
+    const types: string[] = [];
+    const client = createClient({
+      middleware: [
+        async (ctx, next) => {
+          types.push(ctx.responseType);
+          return next();
+        },
+      ],
+    });
+
+    await expect(client.getText('eod-bulk')).resolves.toBe('a,b\n1,2');
+    expect(types).toEqual(['text']);
+  });
+
+  it('should share state between middleware of one call', async () => {
+    let received: unknown;
+    const client = createClient({
+      middleware: [
+        async (ctx, next) => {
+          ctx.state.startedAt = 1;
+          return next();
+        },
+        async (ctx, next) => {
+          received = ctx.state.startedAt;
+          return next();
+        },
+      ],
+    });
+
+    await client.get('quote');
+
+    expect(received).toBe(1);
+  });
+
+  it('should let middleware handle schema errors', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([{ wrong: 1 }]));
+    const errors: unknown[] = [];
+    const client = createClient({
+      validation: 'strict',
+      onSchemaDrift: () => {},
+      middleware: [
+        async (_ctx, next) => {
+          try {
+            return await next();
+          } catch (error) {
+            errors.push(error);
+            throw error;
+          }
+        },
+      ],
+    });
+
+    await expect(
+      client.get('profile', { searchParams: { symbol: 'AAPL' } })
+    ).rejects.toBeInstanceOf(FMPSchemaError);
+    expect(errors[0]).toBeInstanceOf(FMPSchemaError);
+  });
+
+  describe('interceptors', () => {
+    it('should report each call once', async () => {
+      const onRequest = vi.fn();
+      const onResponse = vi.fn();
+      const client = createClient({ interceptors: { onRequest, onResponse } });
+
+      await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+      const url =
+        'https://financialmodelingprep.com/stable/profile?symbol=AAPL';
+      expect(onRequest).toHaveBeenCalledTimes(1);
+      expect(onRequest.mock.calls[0]![0]).toBe(url);
+      expect(onResponse).toHaveBeenCalledWith(url, expect.any(Response));
+    });
+
+    it('should not consume the body when reading the response', async () => {
+      const bodies: unknown[] = [];
+      const client = createClient({
+        interceptors: {
+          onResponse: (_url, response) => {
+            void response.json().then((body) => bodies.push(body));
+          },
+        },
+      });
+
+      const data = await client.get('quote');
+
+      expect(data).toEqual([{ symbol: 'AAPL' }]);
+      await vi.waitFor(() => expect(bodies).toEqual([data]));
+    });
+
+    it('should let an async onResponse read the body later', async () => {
+      const bodies: unknown[] = [];
+      const client = createClient({
+        interceptors: {
+          onResponse: async (_url, response) => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            bodies.push(await response.json());
+          },
+        },
+      });
+
+      const data = await client.get('quote');
+
+      expect(data).toEqual([{ symbol: 'AAPL' }]);
+      await vi.waitFor(() => expect(bodies).toEqual([data]));
+    });
+
+    it('should observe the request after user middleware', async () => {
+      const onRequest = vi.fn();
+      const onError = vi.fn();
+      fetchMock.mockImplementation(async () => jsonResponse('Not Found', 404));
+      const client = createClient({ interceptors: { onRequest, onError } });
+      client.use(async (ctx, next) => {
+        ctx.params.symbol = 'MSFT';
+        try {
+          return await next();
+        } catch {
+          return Response.json([]);
+        }
+      });
+
+      await expect(
+        client.get('profile', { searchParams: { symbol: 'AAPL' } })
+      ).resolves.toEqual([]);
+      expect(onRequest.mock.calls[0]![0]).toMatch(/symbol=MSFT$/);
+      expect(onError).toHaveBeenCalledWith(
+        expect.stringMatching(/symbol=MSFT$/),
+        expect.any(FMPNotFoundError)
+      );
+    });
+  });
+
+  describe('FMP.use', () => {
+    it('should run after middleware from the config', async () => {
+      const order: string[] = [];
+      const fmp = new FMP({
+        apiKey: 'test-key',
+        retries: 0,
+        middleware: [
+          async (_ctx, next) => {
+            order.push('config');
+            return next();
+          },
+        ],
+      });
+
+      const returned = fmp.use(async (_ctx, next) => {
+        order.push('use');
+        return next();
+      });
+      await fmp.company.getQuote('AAPL');
+
+      expect(returned).toBe(fmp);
+      expect(order).toEqual(['config', 'use']);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { MemoryCache } from '../src/cache/index.js';
+import { FMPNotFoundError } from '../src/errors/index.js';
+import type { CallResult, Instrumentation } from '../src/telemetry/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('FMPClient negative caching', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+  let results: CallResult[];
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+    server.route('profile', ({ params }) => ({
+      json: params.symbol === 'DLST' ? [] : [{ symbol: params.symbol }],
+    }));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  const telemetry: Instrumentation = {
+    instrumentCall: (_info, run) =>
+      run({ record: (result) => results.push(result) }),
+  };
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    results = [];
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      telemetry,
+      ...config,
+      cache: { enabled: true, negativeTTL: 60000, ...config.cache },
+    });
+  }
+
+  const delisted = { searchParams: { symbol: 'DLST' } };
+
+  function expire() {
+    return new Promise((resolve) => setTimeout(resolve, 40));
+  }
+
+  it('should cache empty arrays and report them as negative', async () => {
+    const client = createClient();
+
+    await expect(client.get('profile', delisted)).resolves.toEqual([]);
+    await expect(client.get('profile', delisted)).resolves.toEqual([]);
+
+    expect(server.requests).toHaveLength(1);
+    expect(results.map((result) => result.cache)).toEqual(['miss', 'negative']);
+  });
+
+  it('should cache not-found errors and throw them again', async () => {
+    server.fail('profile', { status: 404 });
+    const client = createClient();
+
+    await expect(client.get('profile', delisted)).rejects.toBeInstanceOf(
+      FMPNotFoundError
+    );
+    const error = await client.get('profile', delisted).catch((e) => e);
+
+    expect(error).toBeInstanceOf(FMPNotFoundError);
+    expect(error).toMatchObject({
+      status: 404,
+      endpoint: 'profile',
+      params: { symbol: 'DLST' },
+    });
+    expect(server.requests).toHaveLength(1);
+    expect(results.at(-1)?.cache).toBe('negative');
+  });
+
+  it('should expire negative results after negativeTTL', async () => {
+    const client = createClient({ cache: { negativeTTL: 20 } });
+
+    await client.get('profile', delisted);
+    await expire();
+    await client.get('profile', delisted);
+
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should keep successes for their own TTL', async () => {
+    const client = createClient({ cache: { negativeTTL: 20 } });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+    await expire();
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    expect(server.requests).toHaveLength(1);
+    expect(results.at(-1)?.cache).toBe('hit');
+  });
+
+  it('should never serve negative results stale', async () => {
+    const client = createClient({
+      cache: { negativeTTL: 20, staleWhileRevalidate: 60000 },
+    });
+
+    await client.get('profile', delisted);
+    await expire();
+    await client.get('profile', delisted);
+
+    expect(server.requests).toHaveLength(2);
+    expect(results.at(-1)?.cache).toBe('miss');
+  });
+
+  it('should not cache not-found errors by default', async () => {
+    server.fail('profile', { status: 404 });
+    const client = createClient({ cache: { negativeTTL: 0 } });
+
+    await expect(client.get('profile', delisted)).rejects.toBeInstanceOf(
+      FMPNotFoundError
+    );
+    await expect(client.get('profile', delisted)).resolves.toEqual([]);
+
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should tag negative entries for invalidation', async () => {
+    const provider = new MemoryCache();
+    const client = createClient({ cache: { provider } });
+
+    await client.get('profile', delisted);
+    await client.invalidate({ symbol: 'DLST' });
+    await client.get('profile', delisted);
+
+    expect(server.requests).toHaveLength(2);
+  });
+});
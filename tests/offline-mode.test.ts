@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { MemoryCache, RedisCacheProvider } from '../src/cache/index.js';
+import type { CacheProvider, RedisClientLike } from '../src/cache/index.js';
+import { FMPNotFoundError, FMPOfflineError } from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('FMPClient network modes', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(
+    provider: CacheProvider,
+    config: Partial<FMPConfig> = {}
+  ) {
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      ...config,
+      cache: { enabled: true, provider, ...config.cache },
+    });
+  }
+
+  const profile = { searchParams: { symbol: 'AAPL' }, ttl: 20 };
+
+  /** Cache a profile that expires right away */
+  async function snapshot(provider: CacheProvider) {
+    const data = await createClient(provider).get('profile', profile);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    server.reset();
+    return data;
+  }
+
+  /** Redis fake dropping keys once their PX has passed */
+  function fakeRedis(): RedisClientLike {
+    const store = new Map<string, { value: string; expiresAt: number }>();
+    const read = (key: string) => {
+      const item = store.get(key);
+      return item && Date.now() < item.expiresAt ? item : undefined;
+    };
+    const count = (keys: string | string[], match: (key: string) => unknown) =>
+      ([] as string[]).concat(keys).filter(match).length;
+    return {
+      get: async (key) => read(key)?.value ?? null,
+      set: async (key, value, options) => {
+        const px = (options as { PX?: number } | undefined)?.PX ?? Infinity;
+        store.set(key, { value, expiresAt: Date.now() + px });
+        return 'OK';
+      },
+      del: async (keys) => count(keys, (key) => store.delete(key)),
+      exists: async (keys) => count(keys, read),
+    };
+  }
+
+  describe('offline', () => {
+    it('should serve expired entries without calling the API', async () => {
+      const provider = new MemoryCache();
+      const data = await snapshot(provider);
+      const client = createClient(provider, { mode: 'offline' });
+
+      await expect(client.get('profile', profile)).resolves.toEqual(data);
+      await expect(
+        client.get('profile', { ...profile, cache: 'refresh' })
+      ).resolves.toEqual(data);
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should serve expired entries kept in Redis by keepExpiredFor', async () => {
+      const client = fakeRedis();
+      const provider = () =>
+        new RedisCacheProvider({ client, keepExpiredFor: 60000 });
+      const data = await snapshot(provider());
+
+      await expect(
+        createClient(provider(), { mode: 'offline' }).get('profile', profile)
+      ).resolves.toEqual(data);
+
+      // Without it, Redis drops entries with their TTL
+      const plain = new RedisCacheProvider({ client: fakeRedis() });
+      await snapshot(plain);
+      await expect(
+        createClient(plain, { mode: 'offline' }).get('profile', profile)
+      ).rejects.toBeInstanceOf(FMPOfflineError);
+    });
+
+    it('should throw FMPOfflineError on a miss', async () => {
+      const client = createClient(new MemoryCache(), { mode: 'offline' });
+
+      const error = await client.get('profile', profile).catch((e) => e);
+
+      expect(error).toBeInstanceOf(FMPOfflineError);
+      expect(error).toMatchObject({
+        endpoint: 'profile',
+        params: { symbol: 'AAPL' },
+        message: expect.stringContaining('no cached response for "profile"'),
+      });
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should throw FMPOfflineError without a cache', async () => {
+      const client = new FMPClient({
+        apiKey: 'test-key',
+        baseUrl,
+        mode: 'offline',
+      });
+
+      await expect(client.get('profile', profile)).rejects.toBeInstanceOf(
+        FMPOfflineError
+      );
+      await expect(client.getText('eod-bulk')).rejects.toBeInstanceOf(
+        FMPOfflineError
+      );
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should replay cached not-found errors', async () => {
+      const provider = new MemoryCache();
+      server.fail('profile', { status: 404 });
+      await createClient(provider, { cache: { negativeTTL: 60000 } })
+        .get('profile', profile)
+        .catch(() => undefined);
+
+      await expect(
+        createClient(provider, { mode: 'offline' }).get('profile', profile)
+      ).rejects.toBeInstanceOf(FMPNotFoundError);
+    });
+  });
+
+  describe('prefer-cache', () => {
+    it('should serve expired entries without calling the API', async () => {
+      const provider = new MemoryCache();
+      const data = await snapshot(provider);
+      const client = createClient(provider, { mode: 'prefer-cache' });
+
+      await expect(client.get('profile', profile)).resolves.toEqual(data);
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('should call the API on a miss and cache the response', async () => {
+      const client = createClient(new MemoryCache(), { mode: 'prefer-cache' });
+
+      await client.get('profile', profile);
+      await client.get('profile', profile);
+
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should still honor refresh', async () => {
+      const provider = new MemoryCache();
+      await snapshot(provider);
+      const client = createClient(provider, { mode: 'prefer-cache' });
+
+      await client.get('profile', { ...profile, cache: 'refresh' });
+
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+});
@@ -52,7 +52,7 @@ describe('PerformanceResource', () => {
 
       const result = await performanceResource.getGainers();
 
-      expect(mockClient.get).toHaveBeenCalledWith('stock-market-gainers');
+      expect(mockClient.get).toHaveBeenCalledWith('stock-market-gainers', undefined);
       expect(mockClient.get).toHaveBeenCalledTimes(1);
       expect(result).toEqual(mockGainersData);
       expect(result).toHaveLength(3);
@@ -114,7 +114,7 @@ describe('PerformanceResource', () => {
 
       const result = await performanceResource.getLosers();
 
-      expect(mockClient.get).toHaveBeenCalledWith('stock-market-losers');
+      expect(mockClient.get).toHaveBeenCalledWith('stock-market-losers', undefined);
       expect(mockClient.get).toHaveBeenCalledTimes(1);
       expect(result).toEqual(mockLosersData);
       expect(result).toHaveLength(2);
@@ -159,7 +159,7 @@ describe('PerformanceResource', () => {
 
       const result = await performanceResource.getMostActive();
 
-      expect(mockClient.get).toHaveBeenCalledWith('stock-market-actives');
+      expect(mockClient.get).toHaveBeenCalledWith('stock-market-actives', undefined);
       expect(mockClient.get).toHaveBeenCalledTimes(1);
       expect(result).toEqual(mockMostActiveData);
       expect(result).toHaveLength(2);
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { FMP } from '../src/fmp.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { CacheTTL } from '../src/cache/index.js';
+import type { PrefetchReport } from '../src/prefetch/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('fmp.prefetch', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createFMP(config: Partial<FMPConfig> = {}) {
+    return new FMP({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      ...config,
+      cache: {
+        enabled: true,
+        endpointTTL: { quote: CacheTTL.SHORT },
+        ...config.cache,
+      },
+    });
+  }
+
+  const args = [['AAPL'], ['MSFT'], ['GOOGL']];
+  const tasks = [
+    { method: 'company.getProfile', args },
+    { method: 'company.getQuote', args },
+  ];
+
+  it('should fill the cache', async () => {
+    const fmp = createFMP();
+
+    const report = await fmp.prefetch({ tasks });
+
+    expect(report).toMatchObject({
+      total: 6,
+      succeeded: 6,
+      failed: 0,
+      skipped: 0,
+      failures: [],
+    });
+    expect(server.requests).toHaveLength(6);
+
+    await fmp.company.getProfile('MSFT');
+    await fmp.company.getQuote('GOOGL');
+    expect(server.requests).toHaveLength(6);
+  });
+
+  it('should skip entries that are already cached', async () => {
+    const fmp = createFMP();
+    await fmp.company.getProfile('AAPL');
+
+    await fmp.prefetch({ tasks });
+
+    expect(server.requests).toHaveLength(6);
+  });
+
+  it('should refresh entries expiring within refreshAhead', async () => {
+    const fmp = createFMP();
+    await fmp.prefetch({ tasks });
+
+    await fmp.prefetch({ tasks, refreshAhead: CacheTTL.LONG });
+
+    // Quotes expire within the hour, profiles don't
+    expect(server.requests).toHaveLength(9);
+  });
+
+  it('should limit the number of calls in flight', async () => {
+    let active = 0;
+    let peak = 0;
+    server.route('search-cusip', async ({ params }) => {
+      peak = Math.max(peak, ++active);
+      await sleep(10);
+      active--;
+      return { json: [{ cusip: params.cusip }] };
+    });
+    const fmp = createFMP();
+
+    await fmp.prefetch({
+      tasks: [
+        {
+          method: 'search.searchByCUSIP',
+          args: Array.from({ length: 10 }, (_, i) => [`Q${i}`]),
+        },
+      ],
+      concurrency: 3,
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should report progress and failures', async () => {
+    server.fail('profile', { status: 500 });
+    const fmp = createFMP();
+    const progress: number[] = [];
+
+    const report = await fmp.prefetch({
+      tasks: [{ method: 'company.getProfile', args }],
+      concurrency: 1,
+      onProgress: ({ completed }) => progress.push(completed),
+    });
+
+    expect(progress).toEqual([1, 2, 3]);
+    expect(report).toMatchObject({ succeeded: 2, failed: 1 });
+    expect(report.failures).toEqual([
+      {
+        method: 'company.getProfile',
+        args: ['AAPL'],
+        error: expect.objectContaining({ status: 500 }),
+      },
+    ]);
+  });
+
+  it('should stop starting calls once aborted', async () => {
+    const controller = new AbortController();
+    const fmp = createFMP();
+
+    const report = await fmp.prefetch({
+      tasks,
+      concurrency: 1,
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+
+    expect(report).toMatchObject({ succeeded: 1, skipped: 5 });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should reject invalid plans before sending requests', async () => {
+    const fmp = createFMP();
+
+    await expect(
+      fmp.prefetch({ tasks: [...tasks, { method: 'company.getNothing' }] })
+    ).rejects.toThrow('Unknown resource method: company.getNothing');
+    await expect(
+      fmp.prefetch({ tasks: [{ method: 'client.get', args: [['profile']] }] })
+    ).rejects.toThrow(RangeError);
+    await expect(fmp.prefetch({ tasks, concurrency: 0 })).rejects.toThrow(
+      RangeError
+    );
+    expect(server.requests).toHaveLength(0);
+  });
+
+  describe('schedulePrefetch', () => {
+    it('should run the plan at every interval until stopped', async () => {
+      const fmp = createFMP();
+      const reports: PrefetchReport[] = [];
+      let resolve: () => void;
+      const twice = new Promise<void>((r) => (resolve = r));
+
+      const schedule = fmp.schedulePrefetch(
+        { tasks: [{ method: 'company.getProfile', args }] },
+        {
+          interval: 10,
+          onReport: (report) => {
+            if (reports.push(report) === 2) {
+              resolve();
+            }
+          },
+        }
+      );
+      await twice;
+      schedule.stop();
+      await sleep(30);
+
+      expect(reports).toHaveLength(2);
+      expect(schedule.lastReport).toBe(reports[1]);
+    });
+
+    it('should refresh entries expiring before the next run', async () => {
+      const fmp = createFMP();
+      const schedule = fmp.schedulePrefetch(
+        { tasks },
+        { interval: CacheTTL.LONG, immediate: false }
+      );
+
+      await schedule.run();
+      await schedule.run();
+      schedule.stop();
+
+      // Quotes expire before the next run, profiles don't
+      expect(server.requests).toHaveLength(9);
+    });
+
+    it('should reject an invalid interval', () => {
+      expect(() =>
+        createFMP().schedulePrefetch({ tasks }, { interval: 0 })
+      ).toThrow(RangeError);
+    });
+  });
+});
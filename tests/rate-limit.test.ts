@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  TokenBucketRateLimiter,
+  RateLimitPresets,
+} from '../src/rate-limit/index.js';
+import type { RateLimiter } from '../src/rate-limit/index.js';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+
+describe('TokenBucketRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow requests up to the burst size immediately', async () => {
+    const limiter = new TokenBucketRateLimiter({
+      requestsPerMinute: 60,
+      burst: 3,
+    });
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const stats = limiter.stats();
+    expect(stats.totalRequests).toBe(3);
+    expect(stats.queuedRequests).toBe(0);
+    expect(stats.availableTokens).toBe(0);
+  });
+
+  it('should queue requests beyond the burst instead of rejecting them', async () => {
+    const limiter = new TokenBucketRateLimiter({
+      requestsPerMinute: 60, // 1 token per second
+      burst: 1,
+    });
+
+    await limiter.acquire();
+
+    let released = false;
+    const pending = limiter.acquire().then(() => {
+      released = true;
+    });
+
+    expect(limiter.stats().queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await pending;
+    expect(released).toBe(true);
+    expect(limiter.stats().queueDepth).toBe(0);
+  });
+
+  it('should release queued requests in FIFO order at the sustained rate', async () => {
+    const limiter = new TokenBucketRateLimiter({
+      requestsPerMinute: 120, // 1 token every 500ms
+      burst: 1,
+    });
+
+    const order: number[] = [];
+    await limiter.acquire();
+    const pending = [1, 2, 3].map((n) =>
+      limiter.acquire().then(() => order.push(n))
+    );
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(order).toEqual([1]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(pending);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should drop a cancelled request from the queue', async () => {
+    const limiter = new TokenBucketRateLimiter({
+      requestsPerMinute: 60,
+      burst: 1,
+    });
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+
+    await limiter.acquire();
+    const cancelled = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    expect(limiter.stats().queueDepth).toBe(2);
+
+    controller.abort(reason);
+    await expect(cancelled).rejects.toBe(reason);
+    expect(limiter.stats().queueDepth).toBe(1);
+
+    // The next request gets the token the cancelled one would have used
+    await vi.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(limiter.stats()).toMatchObject({ queueDepth: 0, totalRequests: 2 });
+  });
+
+  it('should reject right away when already aborted', async () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 60 });
+    const reason = new Error('cancelled');
+
+    await expect(limiter.acquire(AbortSignal.abort(reason))).rejects.toBe(
+      reason
+    );
+    expect(limiter.stats().totalRequests).toBe(0);
+  });
+
+  it('should track wait time statistics', async () => {
+    const limiter = new TokenBucketRateLimiter({
+      requestsPerMinute: 60,
+      burst: 1,
+    });
+
+    await limiter.acquire();
+    const pending = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(1000);
+    await pending;
+
+    const stats = limiter.stats();
+    expect(stats.totalRequests).toBe(2);
+    expect(stats.queuedRequests).toBe(1);
+    expect(stats.totalWaitMs).toBe(1000);
+    expect(stats.maxWaitMs).toBe(1000);
+    expect(stats.averageWaitMs).toBe(500);
+  });
+
+  it('should refill tokens over time up to capacity', async () => {
+    const limiter = new TokenBucketRateLimiter({
+      requestsPerMinute: 60,
+      burst: 2,
+    });
+
+    await limiter.acquire();
+    await limiter.acquire();
+    expect(limiter.stats().availableTokens).toBe(0);
+
+    vi.advanceTimersByTime(10000);
+    expect(limiter.stats().availableTokens).toBe(2);
+  });
+
+  it('should default burst to one second worth of requests', () => {
+    const limiter = new TokenBucketRateLimiter({ requestsPerMinute: 300 });
+    expect(limiter.stats().availableTokens).toBe(5);
+  });
+
+  it('should reject invalid requestsPerMinute', () => {
+    expect(
+      () => new TokenBucketRateLimiter({ requestsPerMinute: 0 })
+    ).toThrow(RangeError);
+  });
+
+  it('should expose presets for FMP plan tiers', () => {
+    expect(RateLimitPresets.STARTER.requestsPerMinute).toBe(300);
+    expect(RateLimitPresets.PREMIUM.requestsPerMinute).toBe(750);
+    expect(RateLimitPresets.ULTIMATE.requestsPerMinute).toBe(3000);
+  });
+});
+
+describe('FMPClient rate limiting', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(JSON.stringify([{ symbol: 'AAPL' }]), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should not create a rate limiter by default', () => {
+    const client = new FMPClient({ apiKey: 'test-key' });
+    expect(client.getRateLimiter()).toBeUndefined();
+  });
+
+  it('should not create a rate limiter when disabled', () => {
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      rateLimit: { enabled: false, requestsPerMinute: 60 },
+    });
+    expect(client.getRateLimiter()).toBeUndefined();
+  });
+
+  it('should create a token bucket limiter from config', () => {
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      rateLimit: RateLimitPresets.STARTER,
+    });
+    expect(client.getRateLimiter()).toBeInstanceOf(TokenBucketRateLimiter);
+  });
+
+  it('should queue requests that exceed the limit', async () => {
+    vi.useFakeTimers();
+
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      rateLimit: { requestsPerMinute: 60, burst: 1 },
+    });
+
+    const first = client.get('profile', { searchParams: { symbol: 'AAPL' } });
+    const second = client.get('profile', { searchParams: { symbol: 'MSFT' } });
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.getRateLimiter()?.stats().queueDepth).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should free the queue slot of a cancelled call', async () => {
+    vi.useFakeTimers();
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      rateLimit: { requestsPerMinute: 60, burst: 1 },
+    });
+    const controller = new AbortController();
+    const reason = new Error('user cancelled');
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+    const cancelled = client.get('profile', {
+      searchParams: { symbol: 'MSFT' },
+      signal: controller.signal,
+    });
+    await vi.advanceTimersByTimeAsync(10);
+    expect(client.getRateLimiter()?.stats().queueDepth).toBe(1);
+
+    controller.abort(reason);
+    await expect(cancelled).rejects.toBe(reason);
+    expect(client.getRateLimiter()?.stats().queueDepth).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom limiter shared between clients', async () => {
+    const limiter: RateLimiter = {
+      acquire: vi.fn().mockResolvedValue(undefined),
+      stats: vi.fn(),
+    };
+
+    const a = new FMPClient({ apiKey: 'key-a', rateLimit: { limiter } });
+    const b = new FMPClient({ apiKey: 'key-b', rateLimit: { limiter } });
+
+    await a.get('profile', { searchParams: { symbol: 'AAPL' } });
+    await b.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    expect(limiter.acquire).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expose the limiter through the FMP instance', () => {
+    const fmp = new FMP({
+      apiKey: 'test-key',
+      rateLimit: RateLimitPresets.PREMIUM,
+    });
+    expect(fmp.getRateLimiter()?.stats().queueDepth).toBe(0);
+  });
+});
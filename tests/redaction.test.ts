@@ -0,0 +1,197 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { Redactor } from '../src/utils/redact.js';
+import {
+  FMPAPIError,
+  FMPNotFoundError,
+  FMPTimeoutError,
+} from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+const API_KEY = 'secret-key-123';
+
+describe('Redactor', () => {
+  const redactor = new Redactor([API_KEY], ['cik']);
+
+  it('should mask the API key and redacted params in URLs', () => {
+    expect(
+      redactor.url(
+        `https://example.com/stable/sec-filings?cik=0000320193&apikey=${API_KEY}&limit=5`
+      )
+    ).toBe('https://example.com/stable/sec-filings?cik=***&apikey=***&limit=5');
+  });
+
+  it('should mask redacted params case-insensitively', () => {
+    expect(redactor.params({ CIK: '0000320193', symbol: 'AAPL' })).toEqual({
+      CIK: '***',
+      symbol: 'AAPL',
+    });
+  });
+
+  it('should mask the API key and URL params in free text', () => {
+    expect(
+      redactor.text(
+        `Request timed out: GET https://example.com/stable/x?cik=123&apikey=${API_KEY} (key ${API_KEY})`
+      )
+    ).toBe(
+      'Request timed out: GET https://example.com/stable/x?cik=***&apikey=*** (key ***)'
+    );
+  });
+});
+
+describe('FMPClient redaction', () => {
+  const server = new FakeFMPServer({ apiKey: API_KEY });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({
+      apiKey: API_KEY,
+      baseUrl,
+      retries: 0,
+      ...config,
+    });
+  }
+
+  it('should keep the API key out of timeout errors', async () => {
+    server.setLatency(500, 'quote');
+
+    const error = (await createClient({ timeout: 50 })
+      .get('quote', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e)) as FMPTimeoutError;
+
+    expect(error).toBeInstanceOf(FMPTimeoutError);
+    expect(error.message).not.toContain(API_KEY);
+    expect(error.message).toContain('apikey=***');
+    expect(error.url).toBe(`${baseUrl}/quote?symbol=AAPL`);
+  });
+
+  it('should mask the API key when the response body echoes it', async () => {
+    server.fail('profile', {
+      status: 500,
+      message: `Upstream failed for /stable/profile?symbol=AAPL&apikey=${API_KEY}`,
+    });
+
+    const error = (await createClient()
+      .get('profile', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e)) as FMPAPIError;
+
+    expect(error.message).toBe(
+      'Upstream failed for /stable/profile?symbol=AAPL&apikey=***'
+    );
+    expect(error.url).toBe(`${baseUrl}/profile?symbol=AAPL`);
+  });
+
+  it('should keep the API key out of responses seen by interceptors and middleware', async () => {
+    const onResponse = vi.fn();
+    const urls: string[] = [];
+    const client = createClient({
+      interceptors: { onResponse },
+      middleware: [
+        async (_ctx, next) => {
+          const response = await next();
+          urls.push(response.url);
+          return response;
+        },
+      ],
+    });
+
+    await expect(
+      client.get('profile', { searchParams: { symbol: 'AAPL' } })
+    ).resolves.toHaveLength(1);
+
+    const response = onResponse.mock.calls[0]![1] as Response;
+    expect(response.url).not.toContain('apikey');
+    expect(response.status).toBe(200);
+    expect(urls).toHaveLength(1);
+    expect(urls[0]).not.toContain('apikey');
+    expect(urls[0]).not.toContain(API_KEY);
+  });
+
+  describe('redact', () => {
+    it('should mask redacted params in error details', async () => {
+      server.route('sec-filings-search/cik', () => ({ status: 404 }));
+
+      const error = (await createClient({ redact: ['cik'] })
+        .get('sec-filings-search/cik', {
+          searchParams: { cik: '0000320193', limit: 5 },
+        })
+        .catch((e: unknown) => e)) as FMPNotFoundError;
+
+      expect(error).toBeInstanceOf(FMPNotFoundError);
+      expect(error.params).toEqual({ cik: '***', limit: '5' });
+      expect(error.url).toBe(
+        `${baseUrl}/sec-filings-search/cik?cik=***&limit=5`
+      );
+      expect(JSON.stringify(error)).not.toContain('0000320193');
+    });
+
+    it('should mask redacted params in interceptor URLs', async () => {
+      server.route('sec-filings-search/cik', () => ({ json: [] }));
+      const onRequest = vi.fn();
+      const onResponse = vi.fn();
+      const client = createClient({
+        redact: ['cik'],
+        interceptors: { onRequest, onResponse },
+      });
+
+      await client.get('sec-filings-search/cik', {
+        searchParams: { cik: '0000320193' },
+      });
+
+      const url = `${baseUrl}/sec-filings-search/cik?cik=***`;
+      expect(onRequest.mock.calls[0]![0]).toBe(url);
+      expect(onResponse.mock.calls[0]![0]).toBe(url);
+    });
+
+    it('should still send the real values', async () => {
+      server.route('sec-filings-search/cik', () => ({ json: [] }));
+
+      await createClient({ redact: ['cik'] }).get('sec-filings-search/cik', {
+        searchParams: { cik: '0000320193' },
+      });
+
+      expect(server.requests[0]?.params).toMatchObject({ cik: '0000320193' });
+    });
+
+    it('should let middleware see the real values', async () => {
+      server.route('sec-filings-search/cik', () => ({ json: [] }));
+      const seen: string[] = [];
+      const client = createClient({
+        redact: ['cik'],
+        middleware: [
+          async (ctx, next) => {
+            seen.push(ctx.params.cik ?? '');
+            return next();
+          },
+        ],
+      });
+
+      await client.get('sec-filings-search/cik', {
+        searchParams: { cik: '0000320193' },
+      });
+
+      expect(seen).toEqual(['0000320193']);
+    });
+  });
+});
@@ -56,6 +56,42 @@ describe('RedisCacheProvider', () => {
     });
   });
 
+  describe('getEntry', () => {
+    it('should return the value with its creation time and TTL', async () => {
+      const entry = { v: { data: 'test' }, c: Date.now() - 500, t: 60000 };
+      vi.mocked(mockClient.get).mockResolvedValue(JSON.stringify(entry));
+
+      expect(await provider.getEntry('key')).toEqual({
+        value: { data: 'test' },
+        createdAt: entry.c,
+        ttl: 60000,
+      });
+    });
+
+    it('should return undefined on error', async () => {
+      vi.mocked(mockClient.get).mockRejectedValue(new Error('Connection error'));
+
+      expect(await provider.getEntry('key')).toBeUndefined();
+    });
+
+    it('should return expired entries kept by keepExpiredFor when asked', async () => {
+      const entry = { v: 'old', c: Date.now() - 10000, t: 1000 };
+      vi.mocked(mockClient.get).mockResolvedValue(JSON.stringify(entry));
+      vi.mocked(mockClient.exists).mockResolvedValue(1);
+      provider = new RedisCacheProvider({
+        client: mockClient,
+        keepExpiredFor: 60000,
+      });
+
+      expect(
+        await provider.getEntry('key', { includeExpired: true })
+      ).toMatchObject({ value: 'old', ttl: 1000 });
+      expect(await provider.getEntry('key')).toBeUndefined();
+      expect(await provider.has('key')).toBe(false);
+      expect(mockClient.del).not.toHaveBeenCalled();
+    });
+  });
+
   describe('set', () => {
     it('should store value with TTL', async () => {
       vi.mocked(mockClient.set).mockResolvedValue('OK');
@@ -81,6 +117,41 @@ describe('RedisCacheProvider', () => {
 
       await expect(provider.set('key', 'value', 1000)).resolves.not.toThrow();
     });
+
+    it('should keep entries for keepExpiredFor past their TTL', async () => {
+      mockClient.sadd = vi.fn().mockResolvedValue(1);
+      mockClient.pttl = vi.fn().mockResolvedValue(-1);
+      mockClient.pexpire = vi.fn().mockResolvedValue(1);
+      provider = new RedisCacheProvider({
+        client: mockClient,
+        keepExpiredFor: 5000,
+      });
+
+      await provider.set('key', 'value', 1000, ['symbol:AAPL']);
+
+      expect(mockClient.set).toHaveBeenCalledWith(
+        'fmp:key',
+        expect.stringContaining('"t":1000'),
+        { PX: 6000, px: 6000 }
+      );
+      expect(mockClient.pexpire).toHaveBeenCalledWith(
+        'fmp:tag:symbol:AAPL',
+        6000
+      );
+    });
+
+    it('should reject an invalid keepExpiredFor', () => {
+      expect(
+        () => new RedisCacheProvider({ client: mockClient, keepExpiredFor: -1 })
+      ).toThrow(RangeError);
+      expect(
+        () =>
+          new RedisCacheProvider({
+            client: mockClient,
+            keepExpiredFor: Infinity,
+          })
+      ).toThrow(RangeError);
+    });
   });
 
   describe('delete', () => {
@@ -139,6 +210,122 @@ describe('RedisCacheProvider', () => {
     });
   });
 
+  describe('tags', () => {
+    it('should add the key to one set per tag', async () => {
+      mockClient.sAdd = vi.fn().mockResolvedValue(1);
+
+      await provider.set('key', 'value', 60000, ['symbol:MSFT', 'cik:789019']);
+
+      expect(mockClient.sAdd).toHaveBeenCalledWith(
+        'fmp:tag:symbol:MSFT',
+        'key'
+      );
+      expect(mockClient.sAdd).toHaveBeenCalledWith('fmp:tag:cik:789019', 'key');
+    });
+
+    it('should use the ioredis command names', async () => {
+      mockClient.sadd = vi.fn().mockResolvedValue(1);
+
+      await provider.set('key', 'value', 60000, ['symbol:MSFT']);
+
+      expect(mockClient.sadd).toHaveBeenCalledWith(
+        'fmp:tag:symbol:MSFT',
+        'key'
+      );
+    });
+
+    it('should delete the entries of a tag and its set', async () => {
+      mockClient.sMembers = vi.fn().mockResolvedValue(['a', 'b']);
+      vi.mocked(mockClient.del).mockResolvedValue(2);
+      provider = new RedisCacheProvider({ client: mockClient });
+
+      expect(await provider.invalidateTags(['symbol:MSFT'])).toBe(2);
+      expect(mockClient.del).toHaveBeenCalledWith(['fmp:a', 'fmp:b']);
+      expect(mockClient.del).toHaveBeenCalledWith('fmp:tag:symbol:MSFT');
+    });
+
+    it('should only delete entries carrying every tag', async () => {
+      mockClient.smembers = vi.fn(async (key: string) =>
+        key.endsWith('symbol:MSFT') ? ['a', 'b'] : ['b', 'c']
+      );
+      vi.mocked(mockClient.del).mockResolvedValue(1);
+
+      await provider.invalidateTags(['symbol:MSFT', 'resource:financials']);
+
+      expect(mockClient.del).toHaveBeenCalledTimes(1);
+      expect(mockClient.del).toHaveBeenCalledWith('fmp:b');
+    });
+
+    it('should expire tag sets no sooner than their entries', async () => {
+      mockClient.sadd = vi.fn().mockResolvedValue(1);
+      mockClient.pttl = vi.fn(async (key: string) =>
+        key.endsWith('symbol:MSFT') ? -1 : 120000
+      );
+      mockClient.pexpire = vi.fn().mockResolvedValue(1);
+
+      await provider.set('key', 'value', 60000, ['symbol:MSFT', 'cik:789019']);
+
+      expect(mockClient.pexpire).toHaveBeenCalledTimes(1);
+      expect(mockClient.pexpire).toHaveBeenCalledWith(
+        'fmp:tag:symbol:MSFT',
+        60000
+      );
+    });
+
+    it('should expire tag sets written by setMany', async () => {
+      const pipeline = {
+        get: vi.fn(),
+        set: vi.fn(),
+        sadd: vi.fn(),
+        exec: vi.fn().mockResolvedValue([]),
+      };
+      mockClient.pipeline = vi.fn().mockReturnValue(pipeline);
+      mockClient.pTTL = vi.fn().mockResolvedValue(1000);
+      mockClient.pExpire = vi.fn().mockResolvedValue(1);
+
+      await provider.setMany([
+        { key: 'a', value: 1, ttl: 1000, tags: ['symbol:AAPL'] },
+        { key: 'b', value: 2, ttl: 5000, tags: ['symbol:AAPL'] },
+      ]);
+
+      expect(mockClient.pExpire).toHaveBeenCalledTimes(1);
+      expect(mockClient.pExpire).toHaveBeenCalledWith(
+        'fmp:tag:symbol:AAPL',
+        5000
+      );
+    });
+
+    it('should prune every tag set when invalidating several tags', async () => {
+      mockClient.smembers = vi.fn(async (key: string) =>
+        key.endsWith('symbol:MSFT') ? ['a', 'b', 'x'] : ['b', 'c']
+      );
+      mockClient.srem = vi.fn().mockResolvedValue(1);
+      vi.mocked(mockClient.del).mockResolvedValue(1);
+      vi.mocked(mockClient.exists).mockImplementation(async (key) =>
+        key === 'fmp:x' ? 0 : 1
+      );
+
+      await provider.invalidateTags(['symbol:MSFT', 'resource:financials']);
+
+      expect(mockClient.del).toHaveBeenCalledWith('fmp:b');
+      expect(mockClient.srem).toHaveBeenCalledTimes(2);
+      expect(mockClient.srem).toHaveBeenCalledWith(
+        'fmp:tag:symbol:MSFT',
+        'b',
+        'x'
+      );
+      expect(mockClient.srem).toHaveBeenCalledWith(
+        'fmp:tag:resource:financials',
+        'b'
+      );
+    });
+
+    it('should return 0 without set support', async () => {
+      expect(await provider.invalidateTags(['symbol:MSFT'])).toBe(0);
+      expect(mockClient.del).not.toHaveBeenCalled();
+    });
+  });
+
   describe('clear', () => {
     it('should delete all keys with prefix', async () => {
       vi.mocked(mockClient.keys).mockResolvedValue([
@@ -151,11 +338,11 @@ describe('RedisCacheProvider', () => {
       await provider.clear();
 
       expect(mockClient.keys).toHaveBeenCalledWith('fmp:*');
-      expect(mockClient.del).toHaveBeenCalledWith([
+      expect(mockClient.del).toHaveBeenCalledWith(
         'fmp:key1',
         'fmp:key2',
-        'fmp:key3',
-      ]);
+        'fmp:key3'
+      );
     });
 
     it('should not call del when no keys found', async () => {
@@ -182,6 +369,327 @@ describe('RedisCacheProvider', () => {
     });
   });
 
+  describe('clear with SCAN', () => {
+    function entryJson(value: unknown) {
+      return JSON.stringify({ v: value, c: Date.now(), t: 60000 });
+    }
+
+    it('should walk the cursor and unlink keys in batches', async () => {
+      mockClient.scan = vi
+        .fn()
+        .mockResolvedValueOnce(['7', ['fmp:a', 'fmp:b', 'other:c']])
+        .mockResolvedValueOnce(['0', ['fmp:c']]);
+      mockClient.unlink = vi.fn().mockResolvedValue(1);
+      provider = new RedisCacheProvider({
+        client: mockClient,
+        scanCount: 50,
+        clientStyle: 'ioredis',
+      });
+
+      await provider.clear();
+
+      expect(mockClient.scan).toHaveBeenNthCalledWith(
+        1,
+        '0',
+        'MATCH',
+        'fmp:*',
+        'COUNT',
+        50
+      );
+      expect(mockClient.scan).toHaveBeenNthCalledWith(
+        2,
+        '7',
+        'MATCH',
+        'fmp:*',
+        'COUNT',
+        50
+      );
+      expect(mockClient.unlink).toHaveBeenCalledWith('fmp:a', 'fmp:b');
+      expect(mockClient.unlink).toHaveBeenCalledWith('fmp:c');
+      expect(mockClient.keys).not.toHaveBeenCalled();
+      expect(mockClient.del).not.toHaveBeenCalled();
+    });
+
+    it('should pass an options object to upstash-style clients', async () => {
+      // Like @upstash/redis: anything but an options object is ignored,
+      // and the whole keyspace is scanned 10 keys at a time
+      const keyspace = ['fmp:a', 'other:a', 'fmp:b', 'other:b'];
+      const scan = vi.fn(async (cursor: string | number, opts?: unknown) => {
+        const { match, count = 10 } =
+          typeof opts === 'object'
+            ? (opts as { match?: string; count?: number })
+            : {};
+        const keys = keyspace.filter(
+          (key) => !match || key.startsWith(match.slice(0, -1))
+        );
+        const start = Number(cursor);
+        const next = start + count < keys.length ? start + count : 0;
+        return [String(next), keys.slice(start, start + count)];
+      });
+      mockClient.scan = scan as RedisClientLike['scan'];
+      mockClient.unlink = vi.fn().mockResolvedValue(1);
+      provider = new RedisCacheProvider({ client: mockClient, scanCount: 1 });
+
+      await provider.clear();
+
+      expect(scan).toHaveBeenNthCalledWith(1, '0', {
+        match: 'fmp:*',
+        count: 1,
+      });
+      expect(scan).toHaveBeenCalledTimes(2);
+      expect(mockClient.unlink).toHaveBeenCalledWith('fmp:a');
+      expect(mockClient.unlink).toHaveBeenCalledWith('fmp:b');
+      expect(mockClient.keys).not.toHaveBeenCalled();
+    });
+
+    it('should pass arguments to ioredis clients', async () => {
+      const client = Object.assign(mockClient, {
+        scanStream: vi.fn(),
+        scan: vi.fn().mockResolvedValue(['0', ['fmp:a', 'fmp:b']]),
+        unlink: vi.fn().mockResolvedValue(2),
+      });
+      provider = new RedisCacheProvider({ client });
+
+      await provider.clear();
+
+      expect(client.scan).toHaveBeenCalledWith(
+        '0',
+        'MATCH',
+        'fmp:*',
+        'COUNT',
+        1000
+      );
+      expect(client.unlink).toHaveBeenCalledWith('fmp:a', 'fmp:b');
+    });
+
+    it('should fall back to KEYS when SCAN fails', async () => {
+      mockClient.scan = vi.fn().mockRejectedValue(new Error('unknown command'));
+      vi.mocked(mockClient.keys!).mockResolvedValue(['fmp:a']);
+      vi.mocked(mockClient.del).mockResolvedValue(1);
+
+      await provider.clear();
+
+      expect(mockClient.keys).toHaveBeenCalledWith('fmp:*');
+      expect(mockClient.del).toHaveBeenCalledWith('fmp:a');
+    });
+
+    it('should use the node-redis calling conventions', async () => {
+      mockClient.mGet = vi.fn();
+      mockClient.scan = vi
+        .fn()
+        .mockResolvedValueOnce({ cursor: 3, keys: ['fmp:a', 'fmp:b'] })
+        .mockResolvedValueOnce({ cursor: 0, keys: [] });
+      vi.mocked(mockClient.del).mockResolvedValue(1);
+      provider = new RedisCacheProvider({ client: mockClient });
+
+      await provider.clear();
+
+      expect(mockClient.scan).toHaveBeenCalledWith('0', {
+        MATCH: 'fmp:*',
+        COUNT: 1000,
+      });
+      expect(mockClient.scan).toHaveBeenCalledTimes(2);
+      expect(mockClient.del).toHaveBeenCalledWith(['fmp:a', 'fmp:b']);
+    });
+
+    it('should escape glob characters in the prefix', async () => {
+      mockClient.scan = vi.fn().mockResolvedValue(['0', []]);
+      provider = new RedisCacheProvider({
+        client: mockClient,
+        keyPrefix: 'fmp[1]*:',
+        clientStyle: 'ioredis',
+      });
+
+      await provider.clear();
+
+      expect(mockClient.scan).toHaveBeenCalledWith(
+        '0',
+        'MATCH',
+        'fmp\\[1\\]\\*:*',
+        'COUNT',
+        1000
+      );
+    });
+
+    it('should scan every master and unlink per slot on a cluster', async () => {
+      const master = (keys: string[]): RedisClientLike => ({
+        get: vi.fn(),
+        set: vi.fn(),
+        del: vi.fn(),
+        exists: vi.fn(),
+        scan: vi.fn().mockResolvedValue(['0', keys]),
+      });
+      const masters = [
+        master(['fmp:{AAPL}:profile', 'fmp:{MSFT}:profile']),
+        master(['fmp:{AAPL}:quote']),
+      ];
+      mockClient.scan = vi.fn();
+      mockClient.unlink = vi.fn().mockResolvedValue(1);
+      mockClient.nodes = vi.fn().mockReturnValue(masters);
+      provider = new RedisCacheProvider({ client: mockClient });
+
+      await provider.clear();
+
+      expect(mockClient.nodes).toHaveBeenCalledWith('master');
+      expect(mockClient.scan).not.toHaveBeenCalled();
+      expect(mockClient.unlink).toHaveBeenCalledWith('fmp:{AAPL}:profile');
+      expect(mockClient.unlink).toHaveBeenCalledWith('fmp:{MSFT}:profile');
+      expect(mockClient.unlink).toHaveBeenCalledWith('fmp:{AAPL}:quote');
+    });
+
+    it('should group invalidated keys by slot on a cluster', async () => {
+      mockClient.smembers = vi
+        .fn()
+        .mockResolvedValue(['{AAPL}:profile', '{AAPL}:quote', '{MSFT}:x']);
+      vi.mocked(mockClient.del).mockResolvedValue(1);
+      provider = new RedisCacheProvider({ client: mockClient, cluster: true });
+
+      await provider.invalidateTags(['resource:company', 'symbol:AAPL']);
+
+      expect(mockClient.del).toHaveBeenCalledWith(
+        'fmp:{AAPL}:profile',
+        'fmp:{AAPL}:quote'
+      );
+      expect(mockClient.del).toHaveBeenCalledWith('fmp:{MSFT}:x');
+    });
+
+    describe('getMany', () => {
+      it('should use one MGET', async () => {
+        mockClient.mget = vi
+          .fn()
+          .mockResolvedValue([entryJson(1), null, 'not json']);
+
+        expect(await provider.getMany(['a', 'b', 'c'])).toEqual([
+          1,
+          undefined,
+          undefined,
+        ]);
+        expect(mockClient.mget).toHaveBeenCalledWith([
+          'fmp:a',
+          'fmp:b',
+          'fmp:c',
+        ]);
+        expect(mockClient.get).not.toHaveBeenCalled();
+      });
+
+      it('should prefer node-redis mGet and skip expired entries', async () => {
+        const expired = JSON.stringify({ v: 1, c: Date.now() - 10, t: 1 });
+        mockClient.mGet = vi.fn().mockResolvedValue([expired, entryJson(2)]);
+
+        expect(await provider.getMany(['a', 'b'])).toEqual([undefined, 2]);
+      });
+
+      it('should fall back to a pipeline', async () => {
+        const pipeline = {
+          get: vi.fn(),
+          set: vi.fn(),
+          exec: vi.fn().mockResolvedValue([
+            [null, entryJson('a')],
+            [new Error('x'), null],
+          ]),
+        };
+        mockClient.pipeline = vi.fn().mockReturnValue(pipeline);
+
+        expect(await provider.getMany(['a', 'b'])).toEqual(['a', undefined]);
+        expect(pipeline.get).toHaveBeenCalledWith('fmp:a');
+        expect(pipeline.get).toHaveBeenCalledWith('fmp:b');
+      });
+
+      it('should send one MGET per slot on a cluster', async () => {
+        mockClient.mget = vi
+          .fn()
+          .mockImplementation(async (keys: string[]) =>
+            keys.map((key) => entryJson(key))
+          );
+        provider = new RedisCacheProvider({
+          client: mockClient,
+          cluster: true,
+        });
+
+        expect(await provider.getMany(['{A}1', '{B}1', '{A}2'])).toEqual([
+          'fmp:{A}1',
+          'fmp:{B}1',
+          'fmp:{A}2',
+        ]);
+        expect(mockClient.mget).toHaveBeenCalledTimes(2);
+      });
+
+      it('should return misses on error', async () => {
+        mockClient.mget = vi.fn().mockRejectedValue(new Error('down'));
+
+        expect(await provider.getMany(['a'])).toEqual([undefined]);
+      });
+    });
+
+    describe('setMany', () => {
+      it('should write every entry in one pipeline', async () => {
+        const pipeline = {
+          get: vi.fn(),
+          set: vi.fn(),
+          sadd: vi.fn(),
+          exec: vi.fn().mockResolvedValue([]),
+        };
+        mockClient.pipeline = vi.fn().mockReturnValue(pipeline);
+
+        await provider.setMany([
+          { key: 'a', value: 1, ttl: 1000, tags: ['symbol:AAPL'] },
+          { key: 'b', value: 2, ttl: 2000 },
+        ]);
+
+        expect(mockClient.pipeline).toHaveBeenCalledTimes(1);
+        expect(pipeline.set).toHaveBeenCalledWith(
+          'fmp:a',
+          expect.stringContaining('"v":1'),
+          expect.objectContaining({ PX: 1000 })
+        );
+        expect(pipeline.set).toHaveBeenCalledWith(
+          'fmp:b',
+          expect.stringContaining('"v":2'),
+          expect.objectContaining({ PX: 2000 })
+        );
+        expect(pipeline.sadd).toHaveBeenCalledWith('fmp:tag:symbol:AAPL', 'a');
+        expect(pipeline.exec).toHaveBeenCalledTimes(1);
+        expect(mockClient.set).not.toHaveBeenCalled();
+      });
+
+      it('should fall back to one SET per entry', async () => {
+        await provider.setMany([
+          { key: 'a', value: 1, ttl: 1000 },
+          { key: 'b', value: 2, ttl: 1000 },
+        ]);
+
+        expect(mockClient.set).toHaveBeenCalledTimes(2);
+      });
+
+      it('should record tags outside the slot pipelines on a cluster', async () => {
+        const pipeline = {
+          get: vi.fn(),
+          set: vi.fn(),
+          sadd: vi.fn(),
+          exec: vi.fn().mockResolvedValue([]),
+        };
+        mockClient.pipeline = vi.fn().mockReturnValue(pipeline);
+        mockClient.sadd = vi.fn().mockResolvedValue(1);
+        provider = new RedisCacheProvider({
+          client: mockClient,
+          cluster: true,
+        });
+
+        await provider.setMany([
+          { key: '{A}1', value: 1, ttl: 1000, tags: ['symbol:A'] },
+          { key: '{B}1', value: 2, ttl: 1000 },
+        ]);
+
+        expect(mockClient.pipeline).toHaveBeenCalledTimes(2);
+        expect(pipeline.sadd).not.toHaveBeenCalled();
+        expect(mockClient.sadd).toHaveBeenCalledWith(
+          'fmp:tag:symbol:A',
+          '{A}1'
+        );
+      });
+    });
+  });
+
   describe('keyPrefix', () => {
     it('should use default prefix', async () => {
       vi.mocked(mockClient.get).mockResolvedValue(null);
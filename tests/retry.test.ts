@@ -0,0 +1,223 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { RetryPolicy } from '../src/retry/index.js';
+import {
+  FMPNotFoundError,
+  FMPRateLimitError,
+  FMPServerError,
+  FMPTimeoutError,
+} from '../src/errors/index.js';
+import type { RateLimiter } from '../src/rate-limit/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('RetryPolicy', () => {
+  const serverError = new FMPServerError('down', 503);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should back off exponentially up to maxDelay', () => {
+    const policy = new RetryPolicy({
+      limit: 5,
+      jitter: 'none',
+      baseDelay: 100,
+      maxDelay: 500,
+    });
+
+    expect(
+      [1, 2, 3, 4].map((attempt) => policy.nextDelay(serverError, attempt))
+    ).toEqual([100, 200, 400, 500]);
+  });
+
+  it('should apply full jitter by default', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const policy = new RetryPolicy();
+
+    expect(policy.nextDelay(serverError, 1)).toBe(150);
+    expect(policy.nextDelay(serverError, 3)).toBe(600);
+  });
+
+  it('should stop after the limit', () => {
+    const policy = new RetryPolicy({ limit: 2 });
+
+    expect(policy.nextDelay(serverError, 2)).toBeDefined();
+    expect(policy.nextDelay(serverError, 3)).toBeUndefined();
+  });
+
+  it('should retry timeouts, network errors and retryable statuses only', () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.nextDelay(new FMPTimeoutError('slow'), 1)).toBeDefined();
+    expect(policy.nextDelay(new FMPNotFoundError('gone'), 1)).toBeUndefined();
+    expect(policy.nextDelay(new Error('bug'), 1)).toBeUndefined();
+  });
+
+  it('should honor Retry-After on rate limit errors', () => {
+    const error = new FMPRateLimitError('slow down', 429, '', {}, 2000);
+
+    expect(new RetryPolicy().nextDelay(error, 1)).toBe(2000);
+    expect(
+      new RetryPolicy({ maxDelay: 1000 }).nextDelay(error, 1)
+    ).toBeUndefined();
+    expect(
+      new RetryPolicy({ respectRetryAfter: false, jitter: 'none' }).nextDelay(
+        error,
+        1
+      )
+    ).toBe(300);
+  });
+
+  it('should let shouldRetry replace the status check', () => {
+    const shouldRetry = vi.fn(
+      (error: unknown) => error instanceof FMPNotFoundError
+    );
+    const policy = new RetryPolicy({ limit: 1, shouldRetry });
+    const notFound = new FMPNotFoundError('gone');
+
+    expect(policy.nextDelay(notFound, 1)).toBeDefined();
+    expect(policy.nextDelay(serverError, 1)).toBeUndefined();
+    expect(shouldRetry).toHaveBeenCalledWith(notFound, 1);
+    // The limit still applies
+    expect(policy.nextDelay(notFound, 2)).toBeUndefined();
+  });
+
+  it('should stop retrying once the budget is spent', () => {
+    vi.useFakeTimers();
+    const policy = new RetryPolicy({
+      budget: { maxRetries: 2, windowMs: 1000 },
+    });
+
+    expect(policy.nextDelay(serverError, 1)).toBeDefined();
+    expect(policy.nextDelay(serverError, 1)).toBeDefined();
+    expect(policy.nextDelay(serverError, 1)).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    expect(policy.nextDelay(serverError, 1)).toBeDefined();
+  });
+});
+
+describe('FMPClient retries', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      retry: { baseDelay: 1 },
+      ...config,
+    });
+  }
+
+  it('should retry retryable statuses', async () => {
+    server.fail('quote', { status: 503, times: 2 });
+
+    await expect(createClient().get('quote')).resolves.toBeDefined();
+    expect(server.requestCount('quote')).toBe(3);
+  });
+
+  it('should not retry errors such as 404', async () => {
+    const error = (await createClient()
+      .get('company-notes', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e)) as FMPNotFoundError;
+
+    expect(error).toBeInstanceOf(FMPNotFoundError);
+    expect(error.attempts).toBe(1);
+    expect(server.requestCount('company-notes')).toBe(1);
+  });
+
+  it('should report the number of attempts on the final error', async () => {
+    server.fail('quote', { status: 500, times: 5 });
+
+    const error = (await createClient({ retry: { limit: 2, baseDelay: 1 } })
+      .get('quote')
+      .catch((e: unknown) => e)) as FMPServerError;
+
+    expect(error).toBeInstanceOf(FMPServerError);
+    expect(error.attempts).toBe(3);
+  });
+
+  it('should keep the retries shorthand', async () => {
+    server.fail('quote', { status: 500, times: 5 });
+
+    await expect(
+      createClient({ retries: 1, retry: { baseDelay: 1 } }).get('quote')
+    ).rejects.toBeInstanceOf(FMPServerError);
+    expect(server.requestCount('quote')).toBe(2);
+  });
+
+  it('should wait for Retry-After on 429 responses', async () => {
+    server.fail('quote', { status: 429, retryAfter: 0.2 });
+    const started = Date.now();
+
+    await createClient().get('quote');
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    expect(server.requestCount('quote')).toBe(2);
+  });
+
+  it('should report every attempt to interceptors', async () => {
+    server.fail('quote', { status: 503 });
+    const onRequest = vi.fn();
+    const onError = vi.fn();
+    const onResponse = vi.fn();
+
+    await createClient({
+      interceptors: { onRequest, onError, onResponse },
+    }).get('quote');
+
+    expect(onRequest).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0]![1]).toBeInstanceOf(FMPServerError);
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send every attempt through the rate limiter', async () => {
+    server.fail('quote', { status: 503, times: 2 });
+    const limiter: RateLimiter = {
+      acquire: vi.fn(async () => undefined),
+      stats: vi.fn(),
+    };
+
+    await createClient({ rateLimit: { limiter } }).get('quote');
+
+    expect(limiter.acquire).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop waiting for a retry when the signal aborts', async () => {
+    server.fail('quote', { status: 503 });
+    const controller = new AbortController();
+    const reason = new Error('user cancelled');
+
+    const request = createClient({
+      retry: { baseDelay: 5000, jitter: 'none' },
+    }).get('quote', { signal: controller.signal });
+    setTimeout(() => controller.abort(reason), 50);
+
+    await expect(request).rejects.toBe(reason);
+    expect(server.requestCount('quote')).toBe(1);
+  });
+});
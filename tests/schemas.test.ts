@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  validateResponse,
+  getEndpointSchemas,
+  RESPONSE_SCHEMAS,
+} from '../src/schemas/index.js';
+import type { ObjectSchema } from '../src/schemas/index.js';
+import { FMPClient } from '../src/client.js';
+import { FMPSchemaError } from '../src/errors/index.js';
+
+/**
+ * Build an object that satisfies a schema
+ */
+function sample(schema: ObjectSchema): Record<string, unknown> {
+  const values: Record<string, unknown> = {
+    string: 'x',
+    number: 1,
+    boolean: true,
+    object: {},
+    array: [],
+    unknown: 'x',
+    null: null,
+  };
+  const result: Record<string, unknown> = {};
+  for (const [field, notation] of Object.entries(schema.fields)) {
+    if (notation.endsWith('?')) continue;
+    const type = notation.split('|')[0]!.trim();
+    result[field] = values[type];
+  }
+  return result;
+}
+
+function profile(): Record<string, unknown> {
+  return sample(RESPONSE_SCHEMAS['CompanyProfile']!);
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('validateResponse', () => {
+  it('should accept a payload matching the SDK type', () => {
+    const result = validateResponse('profile', [profile()]);
+
+    expect(result?.valid).toBe(true);
+    expect(result?.issues).toEqual([]);
+    expect(result?.schema).toBe('CompanyProfile[]');
+    expect(result?.checked).toBe(1);
+  });
+
+  it('should report a renamed field as missing plus unexpected', () => {
+    const { mktCap, ...rest } = profile();
+    const result = validateResponse('profile', [
+      { ...rest, marketCap: mktCap },
+    ]);
+
+    expect(result?.valid).toBe(false);
+    expect(result?.issues).toEqual([
+      {
+        field: 'mktCap',
+        kind: 'missing',
+        expected: 'number',
+        received: 'undefined',
+        count: 1,
+      },
+      { field: 'marketCap', kind: 'unexpected', received: 'number', count: 1 },
+    ]);
+  });
+
+  it('should report type changes', () => {
+    const result = validateResponse('profile', [
+      { ...profile(), price: '150.25' },
+    ]);
+
+    expect(result?.valid).toBe(false);
+    expect(result?.issues).toEqual([
+      {
+        field: 'price',
+        kind: 'type',
+        expected: 'number',
+        received: 'string',
+        count: 1,
+      },
+    ]);
+  });
+
+  it('should treat new fields alone as valid', () => {
+    const result = validateResponse('profile', [
+      { ...profile(), newField: 'x' },
+    ]);
+
+    expect(result?.valid).toBe(true);
+    expect(result?.issues).toHaveLength(1);
+  });
+
+  it('should aggregate issues across array items', () => {
+    const rest = profile();
+    delete rest['mktCap'];
+    const result = validateResponse('profile', [rest, rest, profile()]);
+
+    expect(result?.issues).toEqual([
+      expect.objectContaining({ field: 'mktCap', count: 2 }),
+    ]);
+  });
+
+  it('should accept null for nullable fields', () => {
+    const sheet = sample(RESPONSE_SCHEMAS['BalanceSheet']!);
+    const result = validateResponse('balance-sheet-statement', [
+      { ...sheet, cik: null, goodwill: null },
+    ]);
+
+    expect(result?.valid).toBe(true);
+  });
+
+  it('should reject a non-array payload for array endpoints', () => {
+    const result = validateResponse('profile', profile());
+
+    expect(result?.valid).toBe(false);
+    expect(result?.issues[0]).toMatchObject({
+      field: '',
+      kind: 'type',
+      expected: 'array',
+      received: 'object',
+    });
+  });
+
+  it('should pick the closest schema for shared endpoints', () => {
+    const schemas = getEndpointSchemas('quote');
+    expect(schemas!.length).toBeGreaterThan(1);
+
+    const price = sample(RESPONSE_SCHEMAS['ForexPrice']!);
+    const result = validateResponse('quote', [price]);
+
+    expect(result?.valid).toBe(true);
+    expect(result?.issues).toEqual([]);
+    expect(result?.schema).toBe('ForexPrice[]');
+  });
+
+  it('should match path-style endpoints through their wildcard entry', () => {
+    expect(getEndpointSchemas('historical-chart/5min')).toBe(
+      getEndpointSchemas('historical-chart/*')
+    );
+  });
+
+  it('should return undefined for endpoints without a schema', () => {
+    expect(validateResponse('unknown-endpoint', [])).toBeUndefined();
+  });
+});
+
+describe('FMPClient response validation', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function drifted(): Record<string, unknown> {
+    const { mktCap, ...rest } = profile();
+    return { ...rest, marketCap: mktCap };
+  }
+
+  it('should not validate by default', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(jsonResponse([drifted()]));
+    const client = new FMPClient({ apiKey: 'test-key', retries: 0 });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should report drift through onSchemaDrift in warn mode', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([drifted()]));
+    const onSchemaDrift = vi.fn();
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      validation: 'warn',
+      onSchemaDrift,
+    });
+
+    const data = await client.get('profile', {
+      searchParams: { symbol: 'AAPL' },
+    });
+
+    expect(data).toEqual([drifted()]);
+    expect(onSchemaDrift).toHaveBeenCalledTimes(1);
+    expect(onSchemaDrift.mock.calls[0]![0]).toMatchObject({
+      endpoint: 'profile',
+      schema: 'CompanyProfile[]',
+      valid: false,
+    });
+  });
+
+  it('should fall back to console.warn once per endpoint', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockImplementation(async () => jsonResponse([drifted()]));
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      validation: 'warn',
+    });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+    await client.get('profile', { searchParams: { symbol: 'MSFT' } });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toMatch(/mktCap \(missing\)/);
+    expect(warn.mock.calls[0]![0]).toMatch(/marketCap \(unexpected\)/);
+  });
+
+  it('should stay silent for matching payloads', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([profile()]));
+    const onSchemaDrift = vi.fn();
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      validation: 'strict',
+      onSchemaDrift,
+    });
+
+    await client.get('profile', { searchParams: { symbol: 'AAPL' } });
+
+    expect(onSchemaDrift).not.toHaveBeenCalled();
+  });
+
+  it('should throw FMPSchemaError in strict mode without caching', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([drifted()]));
+    const onError = vi.fn();
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      validation: 'strict',
+      onSchemaDrift: () => {},
+      cache: { enabled: true },
+      interceptors: { onError },
+    });
+
+    const error = (await client
+      .get('profile', { searchParams: { symbol: 'AAPL' } })
+      .catch((e: unknown) => e)) as FMPSchemaError;
+
+    expect(error).toBeInstanceOf(FMPSchemaError);
+    expect(error.endpoint).toBe('profile');
+    expect(error.schema).toBe('CompanyProfile[]');
+    expect(error.message).toMatch(/mktCap/);
+    expect(error.issues).toHaveLength(2);
+    expect(onError).toHaveBeenCalledWith(
+      'https://financialmodelingprep.com/stable/profile?symbol=AAPL',
+      error
+    );
+    expect(
+      await client
+        .getCacheProvider()
+        ?.has(client.getCacheKey('profile', { symbol: 'AAPL' }))
+    ).toBe(false);
+  });
+
+  it('should only report new fields in strict mode', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ ...profile(), extra: 1 }]));
+    const onSchemaDrift = vi.fn();
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      retries: 0,
+      validation: 'strict',
+      onSchemaDrift,
+    });
+
+    await expect(
+      client.get('profile', { searchParams: { symbol: 'AAPL' } })
+    ).resolves.toHaveLength(1);
+    expect(onSchemaDrift).toHaveBeenCalledTimes(1);
+  });
+});
@@ -683,7 +683,7 @@ describe('SECResource', () => {
 
       const result = await secResource.getAllSICCodes();
 
-      expect(mockClient.get).toHaveBeenCalledWith('standard-industrial-classification-all');
+      expect(mockClient.get).toHaveBeenCalledWith('standard-industrial-classification-all', undefined);
       expect(result).toEqual(mockSICCodes);
       expect(result).toHaveLength(3);
     });
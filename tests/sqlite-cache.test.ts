@@ -0,0 +1,359 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SQLiteCacheProvider } from '../src/cache/sqlite.js';
+
+/** node:sqlite, when this Node.js version has it (22.13+ without a flag) */
+const sqlite = await import('node:sqlite').catch(() => undefined);
+import type {
+  SQLiteDatabaseLike,
+  SQLiteStatementLike,
+} from '../src/cache/sqlite.js';
+
+describe('SQLiteCacheProvider', () => {
+  let mockStatement: SQLiteStatementLike;
+  let mockDatabase: SQLiteDatabaseLike;
+  let provider: SQLiteCacheProvider;
+
+  beforeEach(() => {
+    mockStatement = {
+      run: vi.fn().mockReturnValue({ changes: 0 }),
+      get: vi.fn(),
+      all: vi.fn().mockReturnValue([]),
+    };
+    mockDatabase = {
+      exec: vi.fn(),
+      prepare: vi.fn().mockReturnValue(mockStatement),
+    };
+    provider = new SQLiteCacheProvider({ database: mockDatabase });
+  });
+
+  function preparedSql() {
+    return vi.mocked(mockDatabase.prepare).mock.calls.at(-1)?.[0];
+  }
+
+  it('should create the table and expiry index', () => {
+    expect(mockDatabase.exec).toHaveBeenCalledWith(
+      expect.stringContaining('CREATE TABLE IF NOT EXISTS fmp_cache')
+    );
+    expect(mockDatabase.exec).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'CREATE INDEX IF NOT EXISTS fmp_cache_expires_at ON fmp_cache'
+      )
+    );
+  });
+
+  it('should use a custom table', () => {
+    new SQLiteCacheProvider({ database: mockDatabase, table: 'quotes' });
+
+    expect(mockDatabase.exec).toHaveBeenLastCalledWith(
+      expect.stringContaining('CREATE TABLE IF NOT EXISTS quotes')
+    );
+  });
+
+  it('should reject invalid options', () => {
+    expect(
+      () =>
+        new SQLiteCacheProvider({ database: mockDatabase, table: 'a; DROP' })
+    ).toThrow(RangeError);
+    expect(
+      () => new SQLiteCacheProvider({ database: mockDatabase, maxEntries: 0 })
+    ).toThrow(RangeError);
+  });
+
+  describe('get', () => {
+    it('should return the cached value', () => {
+      vi.mocked(mockStatement.get).mockReturnValue({
+        key: 'key',
+        value: '{"data":"test"}',
+        created_at: Date.now(),
+        ttl: 60000,
+        tags: null,
+      });
+
+      expect(provider.get('key')).toEqual({ data: 'test' });
+      expect(mockStatement.get).toHaveBeenCalledWith('key');
+    });
+
+    it('should return undefined for a missing key', () => {
+      expect(provider.get('missing')).toBeUndefined();
+    });
+
+    it('should delete expired entries', () => {
+      vi.mocked(mockStatement.get).mockReturnValue({
+        key: 'expired',
+        value: '1',
+        created_at: Date.now() - 10000,
+        ttl: 1000,
+        tags: null,
+      });
+
+      expect(provider.get('expired')).toBeUndefined();
+      expect(preparedSql()).toBe('DELETE FROM fmp_cache WHERE key = ?');
+      expect(mockStatement.run).toHaveBeenCalledWith('expired');
+    });
+
+    it('should return expired entries when asked, without deleting them', () => {
+      vi.mocked(mockStatement.get).mockReturnValue({
+        key: 'expired',
+        value: '1',
+        created_at: Date.now() - 10000,
+        ttl: 1000,
+        tags: null,
+      });
+
+      expect(
+        provider.getEntry('expired', { includeExpired: true })?.value
+      ).toBe(1);
+      expect(mockStatement.run).not.toHaveBeenCalled();
+    });
+
+    it('should return undefined on error', () => {
+      vi.mocked(mockStatement.get).mockImplementation(() => {
+        throw new Error('database is locked');
+      });
+
+      expect(provider.get('key')).toBeUndefined();
+    });
+
+    it('should return entries with their creation time, TTL and tags', () => {
+      const createdAt = Date.now() - 500;
+      vi.mocked(mockStatement.get).mockReturnValue({
+        key: 'key',
+        value: '"value"',
+        created_at: createdAt,
+        ttl: 60000,
+        tags: '["symbol:AAPL"]',
+      });
+
+      expect(provider.getEntry('key')).toEqual({
+        value: 'value',
+        createdAt,
+        ttl: 60000,
+        tags: ['symbol:AAPL'],
+      });
+    });
+  });
+
+  describe('set', () => {
+    it('should upsert the serialized value with its expiry and size', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+      provider.set('key', { data: 'é' }, 60000, ['symbol:AAPL']);
+
+      expect(preparedSql()).toMatch(/^INSERT OR REPLACE INTO fmp_cache/);
+      expect(mockStatement.run).toHaveBeenCalledWith(
+        'key',
+        '{"data":"é"}',
+        1000,
+        60000,
+        61000,
+        13,
+        '["symbol:AAPL"]'
+      );
+      vi.restoreAllMocks();
+    });
+
+    it('should not throw on error', () => {
+      vi.mocked(mockStatement.run).mockImplementation(() => {
+        throw new Error('database is locked');
+      });
+
+      expect(() => provider.set('key', 1, 60000)).not.toThrow();
+    });
+
+    it('should prune every pruneInterval writes', () => {
+      provider = new SQLiteCacheProvider({
+        database: mockDatabase,
+        pruneInterval: 2,
+      });
+
+      provider.set('a', 1, 60000);
+      provider.set('b', 2, 60000);
+
+      expect(preparedSql()).toBe('DELETE FROM fmp_cache WHERE expires_at < ?');
+    });
+  });
+
+  it('should report deletions', () => {
+    vi.mocked(mockStatement.run).mockReturnValue({ changes: 1 });
+
+    expect(provider.delete('key')).toBe(true);
+  });
+
+  it('should check for unexpired entries', () => {
+    vi.mocked(mockStatement.get).mockReturnValue({ 1: 1 });
+
+    expect(provider.has('key')).toBe(true);
+    expect(preparedSql()).toBe(
+      'SELECT 1 FROM fmp_cache WHERE key = ? AND expires_at >= ?'
+    );
+  });
+
+  it('should clear the table', () => {
+    provider.clear();
+
+    expect(preparedSql()).toBe('DELETE FROM fmp_cache');
+  });
+
+  it('should invalidate entries carrying all tags', () => {
+    vi.mocked(mockStatement.all).mockReturnValue([
+      { key: 'a', tags: '["symbol:AAPL","resource:company"]' },
+      { key: 'b', tags: '["symbol:AAPL"]' },
+    ]);
+    vi.mocked(mockStatement.run).mockReturnValue({ changes: 1 });
+
+    expect(provider.invalidateTags(['symbol:AAPL', 'resource:company'])).toBe(
+      1
+    );
+    expect(mockStatement.run).toHaveBeenCalledWith('a');
+    expect(mockStatement.run).not.toHaveBeenCalledWith('b');
+  });
+
+  it('should prune expired entries and enforce the limits', () => {
+    provider = new SQLiteCacheProvider({
+      database: mockDatabase,
+      maxEntries: 100,
+      maxBytes: 1e6,
+    });
+    vi.mocked(mockStatement.run).mockReturnValue({ changes: 2 });
+
+    expect(provider.prune()).toBe(6);
+    const sql = vi
+      .mocked(mockDatabase.prepare)
+      .mock.calls.map(([statement]) => statement);
+    expect(sql).toEqual([
+      'DELETE FROM fmp_cache WHERE expires_at < ?',
+      expect.stringContaining(
+        'ORDER BY expires_at DESC, key LIMIT -1 OFFSET ?'
+      ),
+      expect.stringContaining('SUM(size) OVER (ORDER BY expires_at DESC, key)'),
+    ]);
+    expect(mockStatement.run).toHaveBeenCalledWith(100);
+    expect(mockStatement.run).toHaveBeenCalledWith(1e6);
+  });
+});
+
+describe.skipIf(!sqlite)('SQLiteCacheProvider with node:sqlite', () => {
+  let database: SQLiteDatabaseLike & { close(): void };
+  let provider: SQLiteCacheProvider;
+
+  beforeEach(() => {
+    database = new sqlite!.DatabaseSync(':memory:');
+    provider = new SQLiteCacheProvider({ database, pruneInterval: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    database.close();
+  });
+
+  it('should round-trip values with their TTL and tags', () => {
+    vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+
+    provider.set('profile', [{ symbol: 'AAPL', price: 1.5 }], 60000, [
+      'symbol:AAPL',
+    ]);
+
+    expect(provider.get('profile')).toEqual([{ symbol: 'AAPL', price: 1.5 }]);
+    expect(provider.getEntry('profile')).toEqual({
+      value: [{ symbol: 'AAPL', price: 1.5 }],
+      createdAt: 1000,
+      ttl: 60000,
+      tags: ['symbol:AAPL'],
+    });
+    expect(provider.has('profile')).toBe(true);
+    expect(provider.has('missing')).toBe(false);
+  });
+
+  it('should replace entries and keep them across providers', () => {
+    provider.set('quote', 1, 60000);
+    provider.set('quote', 2, 60000);
+
+    expect(new SQLiteCacheProvider({ database }).get('quote')).toBe(2);
+  });
+
+  it('should expire entries', () => {
+    vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+    provider.set('quote', 1, 100);
+
+    vi.setSystemTime(1200);
+
+    expect(provider.has('quote')).toBe(false);
+    expect(provider.getEntry('quote', { includeExpired: true })?.value).toBe(1);
+    expect(provider.get('quote')).toBeUndefined();
+    expect(
+      provider.getEntry('quote', { includeExpired: true })
+    ).toBeUndefined();
+  });
+
+  it('should delete and clear entries', () => {
+    provider.set('a', 1, 60000);
+    provider.set('b', 2, 60000);
+
+    expect(provider.delete('a')).toBe(true);
+    expect(provider.delete('a')).toBe(false);
+    provider.clear();
+
+    expect(provider.has('b')).toBe(false);
+  });
+
+  it('should invalidate entries carrying all tags', () => {
+    provider.set('a', 1, 60000, ['symbol:AAPL', 'resource:company']);
+    provider.set('b', 2, 60000, ['symbol:AAPL']);
+    provider.set('c', 3, 60000);
+
+    expect(provider.invalidateTags(['symbol:AAPL', 'resource:company'])).toBe(
+      1
+    );
+    expect(provider.has('a')).toBe(false);
+    expect(provider.has('b')).toBe(true);
+    expect(provider.invalidateTags(['symbol:AAPL'])).toBe(1);
+    expect(provider.has('c')).toBe(true);
+  });
+
+  it('should prune expired entries first, then the closest to expiry', () => {
+    vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+    provider = new SQLiteCacheProvider({
+      database,
+      maxEntries: 2,
+      pruneInterval: 0,
+    });
+    provider.set('expired', 0, 100);
+    provider.set('soon', 1, 10000);
+    provider.set('later', 2, 20000);
+    provider.set('latest', 3, 30000);
+    vi.setSystemTime(2000);
+
+    expect(provider.prune()).toBe(2);
+    expect(provider.has('soon')).toBe(false);
+    expect(provider.has('later')).toBe(true);
+    expect(provider.has('latest')).toBe(true);
+  });
+
+  it('should enforce maxBytes', () => {
+    provider = new SQLiteCacheProvider({
+      database,
+      maxBytes: 10,
+      pruneInterval: 0,
+    });
+    provider.set('a', 'aaaa', 10000);
+    provider.set('b', 'bbbb', 20000);
+
+    // Each value takes 6 bytes once serialized
+    expect(provider.prune()).toBe(1);
+    expect(provider.has('a')).toBe(false);
+    expect(provider.has('b')).toBe(true);
+  });
+
+  it('should prune automatically every pruneInterval writes', () => {
+    vi.useFakeTimers({ now: 1000, toFake: ['Date'] });
+    provider = new SQLiteCacheProvider({ database, pruneInterval: 2 });
+    provider.set('expired', 0, 100);
+    vi.setSystemTime(2000);
+
+    provider.set('fresh', 1, 60000);
+
+    expect(
+      provider.getEntry('expired', { includeExpired: true })
+    ).toBeUndefined();
+  });
+});
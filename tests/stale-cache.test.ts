@@ -0,0 +1,214 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { MemoryCache } from '../src/cache/index.js';
+import type { CacheProvider } from '../src/cache/index.js';
+import { FMPNotFoundError, FMPServerError } from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('FMPClient stale cache entries', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  let baseUrl: string;
+  let version: number;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  function createClient(config: Partial<FMPConfig> = {}) {
+    version = 0;
+    server.route('profile', () => ({ json: [{ version: ++version }] }));
+    return new FMPClient({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      ...config,
+    });
+  }
+
+  const profile = { searchParams: { symbol: 'AAPL' }, ttl: 20 };
+
+  function expire() {
+    return new Promise((resolve) => setTimeout(resolve, 40));
+  }
+
+  describe('staleWhileRevalidate', () => {
+    it('should serve the expired entry and refresh it in the background', async () => {
+      const provider = new MemoryCache();
+      const client = createClient({
+        cache: { enabled: true, provider, staleWhileRevalidate: 60000 },
+      });
+      await client.get('profile', profile);
+      await expire();
+
+      await expect(client.get('profile', profile)).resolves.toEqual([
+        { version: 1 },
+      ]);
+      const key = client.getCacheKey('profile', profile.searchParams);
+      await vi.waitFor(() =>
+        expect(provider.get(key)).toEqual([{ version: 2 }])
+      );
+      expect(server.requestCount('profile')).toBe(2);
+    });
+
+    it('should refresh a key only once at a time', async () => {
+      const client = createClient({
+        dedupe: false,
+        cache: { enabled: true, staleWhileRevalidate: 60000 },
+      });
+      await client.get('profile', profile);
+      await expire();
+      server.setLatency(50, 'profile');
+
+      await client.get('profile', profile);
+      await client.get('profile', profile);
+
+      await vi.waitFor(() => expect(server.requestCount('profile')).toBe(2));
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      expect(server.requestCount('profile')).toBe(2);
+    });
+
+    it('should ignore errors from the background refresh', async () => {
+      const client = createClient({
+        cache: { enabled: true, staleWhileRevalidate: 60000 },
+      });
+      await client.get('profile', profile);
+      await expire();
+      server.fail('profile', { status: 500 });
+
+      await expect(client.get('profile', profile)).resolves.toEqual([
+        { version: 1 },
+      ]);
+      await vi.waitFor(() => expect(server.requestCount('profile')).toBe(2));
+    });
+
+    it('should fetch once the window has passed', async () => {
+      const client = createClient({
+        cache: { enabled: true, staleWhileRevalidate: 10 },
+      });
+      await client.get('profile', profile);
+      await expire();
+
+      await expect(client.get('profile', profile)).resolves.toEqual([
+        { version: 2 },
+      ]);
+    });
+  });
+
+  describe('staleIfError', () => {
+    it('should serve the expired entry when the request fails', async () => {
+      const client = createClient({
+        cache: { enabled: true, staleIfError: 60000 },
+      });
+      await client.get('profile', profile);
+      await expire();
+      server.fail('profile', { status: 503 });
+
+      await expect(client.get('profile', profile)).resolves.toEqual([
+        { version: 1 },
+      ]);
+    });
+
+    it('should rethrow errors that are answers', async () => {
+      const client = createClient({
+        cache: { enabled: true, staleIfError: 60000 },
+      });
+      await client.get('profile', profile);
+      await expire();
+      server.route('profile', () => ({ status: 404 }));
+
+      await expect(client.get('profile', profile)).rejects.toBeInstanceOf(
+        FMPNotFoundError
+      );
+    });
+
+    it('should rethrow once the window has passed', async () => {
+      const client = createClient({
+        cache: { enabled: true, staleIfError: 10 },
+      });
+      await client.get('profile', profile);
+      await expire();
+      server.fail('profile', { status: 503 });
+
+      await expect(client.get('profile', profile)).rejects.toBeInstanceOf(
+        FMPServerError
+      );
+    });
+  });
+
+  it('should let endpoints override the global windows', async () => {
+    const client = createClient({
+      cache: {
+        enabled: true,
+        staleIfError: 60000,
+        endpointStale: { profile: { staleIfError: 0 } },
+      },
+    });
+    await client.get('profile', profile);
+    await expire();
+    server.fail('profile', { status: 503 });
+
+    await expect(client.get('profile', profile)).rejects.toBeInstanceOf(
+      FMPServerError
+    );
+  });
+
+  it('should keep entries in the provider for the stale window', async () => {
+    const provider = new MemoryCache();
+    const set = vi.spyOn(provider, 'set');
+    const client = createClient({
+      cache: {
+        enabled: true,
+        provider,
+        staleWhileRevalidate: 1000,
+        staleIfError: 5000,
+      },
+    });
+
+    await client.get('profile', profile);
+
+    expect(set).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.anything(),
+      5020,
+      expect.any(Array)
+    );
+  });
+
+  it('should not serve stale entries without getEntry', async () => {
+    const memory = new MemoryCache();
+    const provider: CacheProvider = {
+      get: (key) => memory.get(key),
+      set: (key, value, ttl) => memory.set(key, value, ttl),
+      delete: (key) => memory.delete(key),
+      clear: () => memory.clear(),
+      has: (key) => memory.has(key),
+    };
+    const client = createClient({
+      cache: { enabled: true, provider, staleIfError: 60000 },
+    });
+    await client.get('profile', profile);
+    await expire();
+    server.fail('profile', { status: 503 });
+
+    await expect(client.get('profile', profile)).rejects.toBeInstanceOf(
+      FMPServerError
+    );
+  });
+});
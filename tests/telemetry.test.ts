@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {
+  InMemoryMetricExporter,
+  AggregationTemporality,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+  type DataPoint,
+  type Histogram,
+} from '@opentelemetry/sdk-metrics';
+import { FMP } from '../src/fmp.js';
+import { CompanyResource } from '../src/resources/company.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { OpenTelemetryInstrumentation } from '../src/telemetry/index.js';
+import { FMPNotFoundError } from '../src/errors/index.js';
+import type { FMPConfig } from '../src/types/index.js';
+
+describe('OpenTelemetryInstrumentation', () => {
+  const server = new FakeFMPServer({ apiKey: 'test-key' });
+  const spanExporter = new InMemorySpanExporter();
+  const tracerProvider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(spanExporter)],
+  });
+  let metricExporter: InMemoryMetricExporter;
+  let metricReader: PeriodicExportingMetricReader;
+  let meterProvider: MeterProvider | undefined;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await tracerProvider.shutdown();
+  });
+
+  afterEach(async () => {
+    server.reset();
+    spanExporter.reset();
+    await meterProvider?.shutdown();
+    meterProvider = undefined;
+  });
+
+  function createFMP(config: Partial<FMPConfig> = {}) {
+    metricExporter = new InMemoryMetricExporter(
+      AggregationTemporality.CUMULATIVE
+    );
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: metricExporter,
+      exportIntervalMillis: 60000,
+    });
+    meterProvider = new MeterProvider({ readers: [metricReader] });
+    return new FMP({
+      apiKey: 'test-key',
+      baseUrl,
+      retries: 0,
+      telemetry: new OpenTelemetryInstrumentation({
+        tracerProvider,
+        meterProvider,
+      }),
+      ...config,
+    });
+  }
+
+  function spans() {
+    return spanExporter.getFinishedSpans();
+  }
+
+  async function metric(name: string) {
+    await metricReader.forceFlush();
+    const exported = metricExporter.getMetrics().at(-1);
+    return exported?.scopeMetrics
+      .flatMap((scope) => scope.metrics)
+      .find((data) => data.descriptor.name === name);
+  }
+
+  describe('spans', () => {
+    it('should create a client span for each call', async () => {
+      await createFMP().company.getProfile('AAPL');
+
+      expect(spans()).toHaveLength(1);
+      const [span] = spans();
+      expect(span?.name).toBe('FMP profile');
+      expect(span?.kind).toBe(SpanKind.CLIENT);
+      expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+      expect(span?.attributes).toMatchObject({
+        'fmp.endpoint': 'profile',
+        'fmp.method': 'company.getProfile',
+        'http.request.method': 'GET',
+        'http.response.status_code': 200,
+        'fmp.cache': 'skip',
+        'http.request.resend_count': 0,
+      });
+      expect(span?.attributes['http.response.body.size']).toBeGreaterThan(0);
+    });
+
+    it('should report cache misses and hits', async () => {
+      const fmp = createFMP({ cache: { enabled: true } });
+
+      await fmp.company.getProfile('AAPL');
+      await fmp.company.getProfile('AAPL');
+
+      expect(spans().map((span) => span.attributes['fmp.cache'])).toEqual([
+        'miss',
+        'hit',
+      ]);
+      expect(
+        spans()[1]?.attributes['http.response.status_code']
+      ).toBeUndefined();
+    });
+
+    it('should count retries', async () => {
+      server.fail('profile', { status: 503, times: 1 });
+
+      await createFMP({ retries: 1 }).company.getProfile('AAPL');
+
+      expect(spans()[0]?.attributes).toMatchObject({
+        'http.request.resend_count': 1,
+        'http.response.status_code': 200,
+      });
+    });
+
+    it('should mark failed calls as errors', async () => {
+      const error = await createFMP()
+        .company.getCompanyNotes('AAPL')
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(FMPNotFoundError);
+      const [span] = spans();
+      expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+      expect(span?.attributes).toMatchObject({
+        'error.type': 'FMPNotFoundError',
+        'http.response.status_code': 404,
+      });
+      expect(span?.events.map((event) => event.name)).toContain('exception');
+    });
+
+    it('should attribute nested resource calls to the outer method', async () => {
+      await createFMP().company.search('Apple');
+
+      expect(spans()[0]?.attributes['fmp.method']).toBe('company.search');
+    });
+
+    it('should instrument text endpoints', async () => {
+      await createFMP().bulk.getBatchEODPrices('2024-03-01');
+
+      expect(spans()[0]?.attributes).toMatchObject({
+        'fmp.endpoint': 'eod-bulk',
+        'fmp.method': 'bulk.getBatchEODPrices',
+        'http.response.status_code': 200,
+      });
+      expect(spans()[0]?.attributes['http.response.body.size']).toBeGreaterThan(
+        0
+      );
+    });
+  });
+
+  describe('metrics', () => {
+    it('should record call latency', async () => {
+      const fmp = createFMP();
+      await fmp.company.getProfile('AAPL');
+      await fmp.company.getQuote('AAPL');
+
+      const duration = await metric('fmp.client.request.duration');
+      const points = duration?.dataPoints as DataPoint<Histogram>[];
+
+      expect(duration?.descriptor.unit).toBe('s');
+      expect(points.map((point) => point.attributes['fmp.endpoint'])).toEqual([
+        'profile',
+        'quote',
+      ]);
+      expect(points[0]?.value.count).toBe(1);
+    });
+
+    it('should count errors by type', async () => {
+      server.fail('profile', { status: 500, times: 2 });
+      const fmp = createFMP();
+      await fmp.company.getProfile('AAPL').catch(() => undefined);
+      await fmp.company.getProfile('AAPL').catch(() => undefined);
+
+      const errors = await metric('fmp.client.errors');
+
+      expect(errors?.dataPoints).toEqual([
+        expect.objectContaining({
+          value: 2,
+          attributes: expect.objectContaining({
+            'fmp.endpoint': 'profile',
+            'error.type': 'FMPServerError',
+          }),
+        }),
+      ]);
+    });
+
+    it('should count rate limit responses', async () => {
+      server.fail('quote', { status: 429 });
+      await createFMP()
+        .company.getQuote('AAPL')
+        .catch(() => undefined);
+
+      const rateLimits = await metric('fmp.client.rate_limits');
+
+      expect(rateLimits?.dataPoints[0]?.value).toBe(1);
+      expect(spans()[0]?.attributes['fmp.rate_limited']).toBe(1);
+    });
+  });
+
+  it('should leave resource methods untouched without telemetry', () => {
+    const fmp = new FMP({ apiKey: 'test-key' });
+
+    expect(fmp.company.getProfile).toBe(CompanyResource.prototype.getProfile);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FMPClient } from '../src/client.js';
+import { FMP } from '../src/fmp.js';
+import { FakeFMPServer } from '../src/testing/index.js';
+import { EndpointPatterns, CacheTTL, MemoryCache } from '../src/cache/index.js';
+
+describe('EndpointPatterns', () => {
+  it('should match exact endpoints and the paths below them', () => {
+    const patterns = new EndpointPatterns({ 'historical-chart': 1 });
+
+    expect(patterns.match('historical-chart')?.value).toBe(1);
+    expect(patterns.match('historical-chart/5min')?.value).toBe(1);
+    expect(patterns.match('historical-chart-x')).toBeUndefined();
+  });
+
+  it('should match globs within a path segment', () => {
+    const patterns = new EndpointPatterns({
+      'quote*': 1,
+      'technical-indicator/*': 2,
+    });
+
+    expect(patterns.match('quote-short')?.value).toBe(1);
+    expect(patterns.match('quote/x')).toBeUndefined();
+    expect(patterns.match('technical-indicator/1day')?.value).toBe(2);
+  });
+
+  it('should match regular expressions', () => {
+    const patterns = new EndpointPatterns({ '/^(income|cash)-/gi': 1 });
+
+    expect(patterns.match('income-statement')?.value).toBe(1);
+    expect(patterns.match('Cash-flow-statement')?.value).toBe(1);
+    expect(patterns.match('income-statement')?.value).toBe(1);
+    expect(patterns.match('balance-sheet-statement')).toBeUndefined();
+  });
+
+  it('should match query params', () => {
+    const patterns = new EndpointPatterns({
+      'income-statement?period=quarter': 1,
+      'income-statement?limit=*': 2,
+    });
+
+    expect(
+      patterns.match('income-statement', { period: 'quarter' })?.value
+    ).toBe(1);
+    expect(patterns.match('income-statement', { period: 'annual' })).toBe(
+      undefined
+    );
+    expect(patterns.match('income-statement', { limit: 5 })?.value).toBe(2);
+    expect(patterns.match('income-statement', { limit: '' })).toBeUndefined();
+  });
+
+  it('should let the most specific pattern win', () => {
+    const patterns = new EndpointPatterns({
+      '/^historical/': 'regex',
+      'historical-chart': 'prefix',
+      'historical-chart/*': 'glob',
+      'historical-chart/1min': 'exact',
+      'historical-chart/*?symbol=AAPL': 'params',
+    });
+
+    expect(
+      patterns.matches('historical-chart/1min').map(({ value }) => value)
+    ).toEqual(['exact', 'glob', 'prefix', 'regex']);
+    expect(
+      patterns.match('historical-chart/1min', { symbol: 'AAPL' })?.value
+    ).toBe('params');
+  });
+
+  it('should prefer longer globs, then later patterns', () => {
+    const patterns = new EndpointPatterns({
+      'quote*': 'short',
+      'quote-s*': 'long',
+      '*-short': 'suffix',
+    });
+
+    expect(patterns.match('quote-short')?.value).toBe('long');
+    expect(new EndpointPatterns({ 'a*': 1, '*a': 2 }).match('aa')?.value).toBe(
+      2
+    );
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(() => new EndpointPatterns({ '/(/': 1 })).toThrow(RangeError);
+  });
+});
+
+describe('FMPClient endpoint TTLs', () => {
+  function createClient(endpointTTL: Record<string, number> = {}) {
+    return new FMPClient({
+      apiKey: 'test-key',
+      cache: { enabled: true, endpointTTL },
+    });
+  }
+
+  it('should apply default TTLs to path-style endpoints', () => {
+    expect(createClient().explainTTL('historical-chart/5min')).toMatchObject({
+      ttl: CacheTTL.NONE,
+      source: 'defaults',
+      pattern: 'historical-chart',
+      cached: false,
+    });
+  });
+
+  it('should use the TTL of a matching param pattern', () => {
+    const client = createClient({
+      'income-statement?period=quarter': CacheTTL.LONG,
+    });
+
+    expect(
+      client.explainTTL('income-statement', {
+        symbol: 'AAPL',
+        period: 'quarter',
+      })
+    ).toMatchObject({
+      ttl: CacheTTL.LONG,
+      source: 'endpointTTL',
+      matches: [
+        { pattern: 'income-statement?period=quarter', ttl: CacheTTL.LONG },
+        { pattern: 'income-statement', ttl: CacheTTL.DAY },
+      ],
+    });
+    expect(client.explainTTL('income-statement').ttl).toBe(CacheTTL.DAY);
+  });
+
+  it('should fall back to the default TTL', () => {
+    expect(createClient().explainTTL('unknown-endpoint')).toEqual({
+      endpoint: 'unknown-endpoint',
+      ttl: CacheTTL.MEDIUM,
+      source: 'defaultTTL',
+      pattern: undefined,
+      matches: [],
+      cached: true,
+    });
+  });
+
+  it('should cache responses with the matched TTL', async () => {
+    const server = new FakeFMPServer({ apiKey: 'test-key' });
+    server.route('technical-indicator/*', () => ({ json: [] }));
+    const provider = new MemoryCache();
+    const set = vi.spyOn(provider, 'set');
+    const client = new FMPClient({
+      apiKey: 'test-key',
+      baseUrl: await server.start(),
+      cache: {
+        enabled: true,
+        provider,
+        endpointTTL: { 'technical-indicator/*': CacheTTL.SHORT },
+      },
+    });
+
+    try {
+      await client.get('technical-indicator/1day', {
+        searchParams: { symbol: 'AAPL' },
+      });
+    } finally {
+      await server.stop();
+    }
+
+    expect(set).toHaveBeenCalledWith(expect.any(String), [], CacheTTL.SHORT, [
+      'symbol:AAPL',
+    ]);
+  });
+
+  it('should explain TTLs through FMP', () => {
+    const fmp = new FMP({
+      apiKey: 'test-key',
+      cache: { enabled: true, endpointTTL: { 'quote*': CacheTTL.SHORT } },
+    });
+
+    // The exact default outranks the configured glob
+    expect(fmp.explainTTL('quote-short')).toMatchObject({
+      ttl: CacheTTL.NONE,
+      pattern: 'quote-short',
+      source: 'defaults',
+    });
+    expect(fmp.explainTTL('quote-change')).toMatchObject({
+      ttl: CacheTTL.SHORT,
+      pattern: 'quote*',
+      source: 'endpointTTL',
+    });
+  });
+});
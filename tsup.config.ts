@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entryPoints: ['src/index.ts'],
+  entryPoints: {
+    index: 'src/index.ts',
+    'testing/index': 'src/testing/index.ts',
+    'telemetry/index': 'src/telemetry/index.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
   outDir: 'dist',